@@ -70,3 +70,40 @@ export const menuSuggestion = onCallGenkit({
   // Grant access to the API key to this function:
   secrets: [apiKey],
 }, menuSuggestionFlow);
+
+// Gemini models that the web app can choose per feature (see src/services/llmProviderService.ts).
+export const GEMINI_MODELS = ["gemini-1.5-flash", "gemini-1.5-pro"] as const;
+
+const llmMessageSchema = z.object({
+  role: z.enum(["user", "model"]),
+  content: z.string(),
+});
+
+// Generates a chat completion for the web app's Gemini provider. The flow is called by the
+// llmCompletion callable (see llmProxy.ts), which checks the caller's monthly free quota first.
+export const llmGenerateFlow = ai.defineFlow({
+  name: "llmGenerateFlow",
+  inputSchema: z.object({
+    system: z.string().optional(),
+    messages: z.array(llmMessageSchema).min(1),
+    model: z.enum(GEMINI_MODELS).default("gemini-1.5-flash"),
+    temperature: z.number().min(0).max(2).optional(),
+  }),
+  outputSchema: z.string(),
+  streamSchema: z.string(),
+}, async ({system, messages, model, temperature}, {sendChunk}) => {
+  const {response, stream} = ai.generateStream({
+    model: `vertexai/${model}`,
+    system,
+    messages: messages.map(({role, content}) => ({role, content: [{text: content}]})),
+    config: {
+      temperature,
+    },
+  });
+
+  for await (const chunk of stream) {
+    sendChunk(chunk.text);
+  }
+
+  return (await response).text;
+});
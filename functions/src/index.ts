@@ -14,3 +14,5 @@
 //   logger.info("Hello logs!", {structuredData: true});
 //   response.send("Hello from Firebase!");
 // });
+
+export {getLlmKeyStatus, llmCompletion, saveLlmApiKey} from "./llmProxy";
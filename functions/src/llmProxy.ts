@@ -0,0 +1,446 @@
+import {z} from "genkit";
+import * as logger from "firebase-functions/logger";
+import {defineSecret} from "firebase-functions/params";
+import {CallableRequest, CallableResponse, HttpsError, onCall} from "firebase-functions/v2/https";
+import {getApps, initializeApp} from "firebase-admin/app";
+import {FieldValue, Timestamp, getFirestore} from "firebase-admin/firestore";
+import {GEMINI_MODELS, llmGenerateFlow} from "./genkit-sample";
+import {EncryptedValue, decryptUserKey, encryptUserKey} from "./userKeyCrypto";
+
+// Callable functions that keep every OpenAI and Anthropic key on the server:
+//   getLlmKeyStatus : the caller's key status and monthly usage of the free quota
+//   saveLlmApiKey   : encrypts and stores (or removes) the caller's own OpenAI or Anthropic key
+//   llmCompletion   : proxies a chat completion to OpenAI, Anthropic or Gemini (streams when the client accepts it)
+//
+// In the Functions emulator the secrets are read from functions/.secret.local:
+//   OPENAI_API_KEY=sk-...
+//   USER_KEY_ENCRYPTION_KEY=<openssl rand -base64 32>
+
+if (getApps().length === 0) {
+  initializeApp();
+}
+
+const openAIApiKey = defineSecret("OPENAI_API_KEY");
+const userKeyEncryptionKey = defineSecret("USER_KEY_ENCRYPTION_KEY");
+
+// Keep in sync with MONTHLY_FREE_LIMIT in src/services/openaiService.ts.
+export const MONTHLY_FREE_LIMIT = 50;
+
+const OPENAI_ENDPOINT = "https://api.openai.com/v1/chat/completions";
+const ANTHROPIC_ENDPOINT = "https://api.anthropic.com/v1/messages";
+const ANTHROPIC_VERSION = "2023-06-01";
+const ANTHROPIC_MAX_TOKENS = 4096;
+// Models that may be used with the server key. Users with their own key can use any model.
+const FREE_OPENAI_MODELS = ["gpt-3.5-turbo-0125", "gpt-4o-mini", "gpt-4o"];
+const MAX_PROMPT_LENGTH = 200000;
+
+// The client can read its status document, but only these functions write it (see firestore.rules).
+const statusDoc = (uid: string) => getFirestore().doc(`users/${uid}/settings/apiKey`);
+// Encrypted user keys live in a collection the client cannot read at all.
+const secretDoc = (uid: string) => getFirestore().doc(`llmSecrets/${uid}`);
+// Provider and model settings, which older versions of the web app also stored keys in.
+const llmSettingsDoc = (uid: string) => getFirestore().doc(`users/${uid}/settings/llm`);
+
+// Providers whose users bring their own key, and the status field that records whether one is saved.
+type KeyProvider = "openai" | "anthropic";
+const KEY_STATUS_FIELDS: Record<KeyProvider, string> = {
+  openai: "hasCustomKey",
+  anthropic: "hasAnthropicKey",
+};
+
+const completionSchema = z.object({
+  provider: z.enum(["openai", "anthropic", "gemini"]),
+  model: z.string().min(1).max(100),
+  messages: z.array(z.object({
+    role: z.enum(["system", "user", "assistant"]),
+    content: z.string(),
+  })).min(1),
+  temperature: z.number().min(0).max(2).default(0.7),
+});
+
+type CompletionInput = z.infer<typeof completionSchema>;
+
+const requireUid = (request: CallableRequest<unknown>): string => {
+  if (!request.auth?.uid) {
+    throw new HttpsError("unauthenticated", "ログインしてください。");
+  }
+  return request.auth.uid;
+};
+
+const isSameMonth = (a: Date, b: Date): boolean =>
+  a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth();
+
+/**
+ * Reads the caller's usage of the free quota, starting over when a new month begins.
+ * @param {FirebaseFirestore.DocumentData | undefined} data The status document.
+ * @param {Date} now The current time.
+ * @return {{count: number, lastResetDate: Date}} The usage this month.
+ */
+const currentUsage = (data: FirebaseFirestore.DocumentData | undefined, now: Date) => {
+  const lastResetDate = data?.lastResetDate instanceof Timestamp ? data.lastResetDate.toDate() : now;
+  if (!isSameMonth(lastResetDate, now)) {
+    return {count: 0, lastResetDate: now};
+  }
+  return {count: Number(data?.monthlyRequestCount) || 0, lastResetDate};
+};
+
+/**
+ * Encrypts and stores the caller's key for a provider, or removes it when the key is empty.
+ * @param {string} uid The user.
+ * @param {KeyProvider} provider The provider the key is for.
+ * @param {string} apiKey The API key.
+ */
+const storeCustomKey = async (uid: string, provider: KeyProvider, apiKey: string): Promise<void> => {
+  await secretDoc(uid).set({
+    [provider]: apiKey ? encryptUserKey(apiKey, userKeyEncryptionKey.value(), uid) : FieldValue.delete(),
+    updatedAt: FieldValue.serverTimestamp(),
+  }, {merge: true});
+  await statusDoc(uid).set({[KEY_STATUS_FIELDS[provider]]: Boolean(apiKey)}, {merge: true});
+};
+
+/**
+ * Moves keys saved in plaintext by older versions of the web app into encrypted storage.
+ * The key of an OpenAI-compatible endpoint is only removed, since it is no longer stored.
+ * @param {string} uid The user.
+ */
+const migratePlaintextKey = async (uid: string): Promise<void> => {
+  const snapshot = await statusDoc(uid).get();
+  const plaintext = snapshot.get("customKey");
+  if (typeof plaintext === "string") {
+    await storeCustomKey(uid, "openai", plaintext);
+    await statusDoc(uid).update({customKey: FieldValue.delete()});
+    logger.info("Migrated a plaintext API key to encrypted storage", {uid});
+  }
+
+  const settings = await llmSettingsDoc(uid).get();
+  const apiKeys = settings.get("apiKeys");
+  if (apiKeys === undefined) return;
+  if (typeof apiKeys?.anthropic === "string" && apiKeys.anthropic.trim()) {
+    await storeCustomKey(uid, "anthropic", apiKeys.anthropic.trim());
+  }
+  await llmSettingsDoc(uid).update({apiKeys: FieldValue.delete()});
+  logger.info("Removed plaintext provider keys from the LLM settings", {uid});
+};
+
+const loadCustomKey = async (uid: string, provider: KeyProvider): Promise<string | null> => {
+  const encrypted = (await secretDoc(uid).get()).get(provider) as EncryptedValue | undefined;
+  if (!encrypted) return null;
+  try {
+    return decryptUserKey(encrypted, userKeyEncryptionKey.value(), uid);
+  } catch (error) {
+    logger.error("Failed to decrypt a user API key", {uid, error});
+    throw new HttpsError("failed-precondition", "保存したAPIキーを読み込めません。APIキーを設定し直してください。");
+  }
+};
+
+/**
+ * Counts one request against the free quota before calling the model.
+ * @param {string} uid The user.
+ * @throws {HttpsError} resource-exhausted when the quota is used up.
+ */
+const reserveFreeRequest = async (uid: string): Promise<void> => {
+  await getFirestore().runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(statusDoc(uid));
+    const usage = currentUsage(snapshot.data(), new Date());
+    if (usage.count >= MONTHLY_FREE_LIMIT) {
+      throw new HttpsError(
+        "resource-exhausted",
+        `今月の無料利用枠（${MONTHLY_FREE_LIMIT}回）を使い切りました。`,
+        {reason: "FREE_LIMIT_EXCEEDED"},
+      );
+    }
+    transaction.set(statusDoc(uid), {
+      hasCustomKey: snapshot.get("hasCustomKey") === true,
+      monthlyRequestCount: usage.count + 1,
+      lastResetDate: Timestamp.fromDate(usage.lastResetDate),
+    }, {merge: true});
+  });
+};
+
+// Gives a reserved request back when the model could not be called.
+const refundFreeRequest = async (uid: string): Promise<void> => {
+  try {
+    await getFirestore().runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(statusDoc(uid));
+      const count = Number(snapshot.get("monthlyRequestCount")) || 0;
+      if (count > 0) transaction.update(statusDoc(uid), {monthlyRequestCount: count - 1});
+    });
+  } catch (error) {
+    logger.warn("Failed to refund a free request", {uid, error});
+  }
+};
+
+/**
+ * Reads the "data:" lines of a server-sent event stream.
+ * @param {Response} response The streaming response.
+ */
+async function* readEventData(response: Response): AsyncGenerator<string> {
+  if (!response.body) return;
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  for (;;) {
+    const {done, value} = await reader.read();
+    buffer += done ? decoder.decode() : decoder.decode(value, {stream: true});
+    const lines = buffer.split(/\r\n|\r|\n/);
+    buffer = done ? "" : lines.pop() || "";
+    for (const line of lines) {
+      if (line.startsWith("data:")) yield line.slice(5).trim();
+    }
+    if (done) return;
+  }
+}
+
+/**
+ * Calls the OpenAI Chat Completions API.
+ * @param {CompletionInput} input The validated request.
+ * @param {string} apiKey The server key or the user's own key.
+ * @param {boolean} isCustomKey Whether apiKey is the user's own key.
+ * @param {Function} sendChunk Receives the text as it is generated, when streaming.
+ * @return {Promise<string>} The generated text.
+ */
+const completeWithOpenAI = async (
+  input: CompletionInput,
+  apiKey: string,
+  isCustomKey: boolean,
+  sendChunk?: (chunk: string) => void,
+): Promise<string> => {
+  const response = await fetch(OPENAI_ENDPOINT, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "Authorization": `Bearer ${apiKey}`,
+    },
+    body: JSON.stringify({
+      model: input.model,
+      messages: input.messages,
+      temperature: input.temperature,
+      ...(sendChunk ? {stream: true} : {}),
+    }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    const message = errorData.error?.message || `HTTP ${response.status}`;
+    if (response.status === 401) {
+      if (isCustomKey) {
+        throw new HttpsError("permission-denied", "無効なAPIキーです。", {reason: "INVALID_API_KEY"});
+      }
+      logger.error("The server OpenAI key was rejected", {message});
+      throw new HttpsError("internal", "AIサービスの設定に問題があります。");
+    }
+    throw new HttpsError(response.status === 429 ? "resource-exhausted" : "unavailable", message);
+  }
+
+  if (!sendChunk) {
+    const data = await response.json();
+    return data.choices?.[0]?.message?.content || "";
+  }
+
+  let content = "";
+  for await (const data of readEventData(response)) {
+    if (data === "[DONE]") break;
+    const delta = JSON.parse(data).choices?.[0]?.delta?.content;
+    if (delta) {
+      content += delta;
+      sendChunk(delta);
+    }
+  }
+  return content;
+};
+
+/**
+ * Calls the Anthropic Messages API with the user's own key.
+ * System prompts are sent separately, and consecutive messages with the same role are joined.
+ * @param {CompletionInput} input The validated request.
+ * @param {string} apiKey The user's Anthropic key.
+ * @param {Function} sendChunk Receives the text as it is generated, when streaming.
+ * @return {Promise<string>} The generated text.
+ */
+const completeWithAnthropic = async (
+  input: CompletionInput,
+  apiKey: string,
+  sendChunk?: (chunk: string) => void,
+): Promise<string> => {
+  const system = input.messages.filter((message) => message.role === "system").map((message) => message.content);
+  const messages: {role: "user" | "assistant"; content: string}[] = [];
+  for (const message of input.messages) {
+    if (message.role === "system") continue;
+    const last = messages[messages.length - 1];
+    if (last && last.role === message.role) {
+      last.content += `\n\n${message.content}`;
+    } else {
+      messages.push({role: message.role, content: message.content});
+    }
+  }
+
+  const response = await fetch(ANTHROPIC_ENDPOINT, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "x-api-key": apiKey,
+      "anthropic-version": ANTHROPIC_VERSION,
+    },
+    body: JSON.stringify({
+      model: input.model,
+      max_tokens: ANTHROPIC_MAX_TOKENS,
+      ...(system.length > 0 ? {system: system.join("\n\n")} : {}),
+      messages,
+      temperature: Math.min(input.temperature, 1),
+      ...(sendChunk ? {stream: true} : {}),
+    }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    const message = errorData.error?.message || `HTTP ${response.status}`;
+    if (response.status === 401) {
+      throw new HttpsError("permission-denied", "無効なAPIキーです。", {reason: "INVALID_API_KEY"});
+    }
+    throw new HttpsError(response.status === 429 ? "resource-exhausted" : "unavailable", message);
+  }
+
+  if (!sendChunk) {
+    const data = await response.json();
+    return (data.content || [])
+      .filter((block: {type: string}) => block.type === "text")
+      .map((block: {text: string}) => block.text)
+      .join("");
+  }
+
+  let content = "";
+  for await (const data of readEventData(response)) {
+    const event = JSON.parse(data);
+    if (event.type === "message_stop") break;
+    if (event.type === "error") {
+      throw new HttpsError("unavailable", event.error?.message || "応答の生成中にエラーが発生しました。");
+    }
+    if (event.type === "content_block_delta" && event.delta?.type === "text_delta" && event.delta.text) {
+      content += event.delta.text;
+      sendChunk(event.delta.text);
+    }
+  }
+  return content;
+};
+
+/**
+ * Generates with Gemini through the Genkit flow.
+ * @param {CompletionInput} input The validated request.
+ * @param {Function} sendChunk Receives the text as it is generated, when streaming.
+ * @return {Promise<string>} The generated text.
+ */
+const completeWithGemini = async (
+  input: CompletionInput,
+  sendChunk?: (chunk: string) => void,
+): Promise<string> => {
+  const model = GEMINI_MODELS.find((candidate) => candidate === input.model);
+  if (!model) {
+    throw new HttpsError("invalid-argument", `Gemini のモデル ${input.model} は利用できません。`);
+  }
+
+  const system = input.messages.filter((message) => message.role === "system").map((message) => message.content);
+  const {stream, output} = llmGenerateFlow.stream({
+    system: system.length > 0 ? system.join("\n\n") : undefined,
+    messages: input.messages
+      .filter((message) => message.role !== "system")
+      .map((message) => ({
+        role: message.role === "assistant" ? "model" as const : "user" as const,
+        content: message.content,
+      })),
+    model,
+    temperature: input.temperature,
+  });
+
+  for await (const chunk of stream) {
+    sendChunk?.(chunk);
+  }
+  return await output;
+};
+
+export const getLlmKeyStatus = onCall({secrets: [userKeyEncryptionKey]}, async (request) => {
+  const uid = requireUid(request);
+  await migratePlaintextKey(uid);
+
+  const snapshot = await statusDoc(uid).get();
+  const usage = currentUsage(snapshot.data(), new Date());
+  return {
+    hasCustomKey: snapshot.get("hasCustomKey") === true,
+    hasAnthropicKey: snapshot.get("hasAnthropicKey") === true,
+    monthlyRequestCount: usage.count,
+    lastResetDate: usage.lastResetDate.toISOString(),
+    limit: MONTHLY_FREE_LIMIT,
+  };
+});
+
+export const saveLlmApiKey = onCall({
+  secrets: [userKeyEncryptionKey],
+}, async (request: CallableRequest<{provider?: unknown; apiKey?: unknown}>) => {
+  const uid = requireUid(request);
+  // Older clients only send an OpenAI key.
+  const provider: KeyProvider = request.data?.provider === "anthropic" ? "anthropic" : "openai";
+  const apiKey = typeof request.data?.apiKey === "string" ? request.data.apiKey.trim() : "";
+  if (apiKey && provider === "openai" && !apiKey.startsWith("sk-")) {
+    throw new HttpsError("invalid-argument", "有効なOpenAI APIキーを入力してください（sk-で始まります）。");
+  }
+  if (apiKey && provider === "anthropic" && !apiKey.startsWith("sk-ant-")) {
+    throw new HttpsError("invalid-argument", "有効なAnthropic APIキーを入力してください（sk-ant-で始まります）。");
+  }
+
+  // An empty key removes the saved key.
+  await storeCustomKey(uid, provider, apiKey);
+  if (provider === "openai") {
+    await statusDoc(uid).update({customKey: FieldValue.delete()});
+  }
+  return {[KEY_STATUS_FIELDS[provider]]: Boolean(apiKey)};
+});
+
+export const llmCompletion = onCall({
+  secrets: [openAIApiKey, userKeyEncryptionKey],
+  timeoutSeconds: 300,
+}, async (request: CallableRequest<unknown>, response?: CallableResponse<string>) => {
+  const uid = requireUid(request);
+  const parsed = completionSchema.safeParse(request.data);
+  if (!parsed.success) {
+    throw new HttpsError("invalid-argument", "リクエストの形式が正しくありません。", parsed.error.issues);
+  }
+  const input = parsed.data;
+  if (input.messages.reduce((sum, message) => sum + message.content.length, 0) > MAX_PROMPT_LENGTH) {
+    throw new HttpsError("invalid-argument", "コードが長すぎます。");
+  }
+
+  // The user's own key is not counted against the free quota. Anthropic is only available with one.
+  const customKey = input.provider === "gemini" ? null : await loadCustomKey(uid, input.provider);
+  if (!customKey && input.provider === "anthropic") {
+    throw new HttpsError("failed-precondition", "AnthropicのAPIキーを設定してください。", {reason: "API_KEY_REQUIRED"});
+  }
+  if (!customKey) {
+    if (input.provider === "openai" && !FREE_OPENAI_MODELS.includes(input.model)) {
+      throw new HttpsError("invalid-argument", `無料利用枠ではモデル ${input.model} を利用できません。`);
+    }
+    await reserveFreeRequest(uid);
+  }
+
+  const sendChunk = request.acceptsStreaming && response ?
+    (chunk: string) => {
+      response.sendChunk(chunk);
+    } :
+    undefined;
+
+  try {
+    let content: string;
+    if (input.provider === "gemini") {
+      content = await completeWithGemini(input, sendChunk);
+    } else if (input.provider === "anthropic" && customKey) {
+      content = await completeWithAnthropic(input, customKey, sendChunk);
+    } else {
+      content = await completeWithOpenAI(input, customKey || openAIApiKey.value(), Boolean(customKey), sendChunk);
+    }
+    return {provider: input.provider, model: input.model, content};
+  } catch (error) {
+    if (!customKey) await refundFreeRequest(uid);
+    if (error instanceof HttpsError) throw error;
+    logger.error("LLM request failed", {uid, provider: input.provider, error});
+    throw new HttpsError("unavailable", "AIサービスの呼び出しに失敗しました。");
+  }
+});
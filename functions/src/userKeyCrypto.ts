@@ -0,0 +1,63 @@
+import {createCipheriv, createDecipheriv, randomBytes} from "crypto";
+
+// Users' API keys are encrypted with AES-256-GCM before they are written to Firestore.
+// The encryption key is a base64-encoded 32-byte secret (USER_KEY_ENCRYPTION_KEY), e.g.
+//   openssl rand -base64 32
+const ALGORITHM = "aes-256-gcm";
+const IV_LENGTH = 12;
+
+export interface EncryptedValue {
+  version: 1;
+  iv: string;
+  tag: string;
+  ciphertext: string;
+}
+
+const toKey = (secret: string): Buffer => {
+  const key = Buffer.from(secret, "base64");
+  if (key.length !== 32) {
+    throw new Error("USER_KEY_ENCRYPTION_KEY must be a base64-encoded 32-byte key");
+  }
+  return key;
+};
+
+/**
+ * Encrypts a user's API key. The uid is bound as additional authenticated data,
+ * so a ciphertext copied to another user's document does not decrypt.
+ * @param {string} plaintext The API key.
+ * @param {string} secret The base64-encoded encryption key.
+ * @param {string} uid The owner of the API key.
+ * @return {EncryptedValue} The encrypted API key.
+ */
+export const encryptUserKey = (plaintext: string, secret: string, uid: string): EncryptedValue => {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, toKey(secret), iv);
+  cipher.setAAD(Buffer.from(uid, "utf8"));
+  const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+
+  return {
+    version: 1,
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    ciphertext: ciphertext.toString("base64"),
+  };
+};
+
+/**
+ * Decrypts a user's API key encrypted by encryptUserKey.
+ * @param {EncryptedValue} value The encrypted API key.
+ * @param {string} secret The base64-encoded encryption key.
+ * @param {string} uid The owner of the API key.
+ * @return {string} The API key.
+ * @throws If the value was not encrypted with the same key and uid.
+ */
+export const decryptUserKey = (value: EncryptedValue, secret: string, uid: string): string => {
+  const decipher = createDecipheriv(ALGORITHM, toKey(secret), Buffer.from(value.iv, "base64"));
+  decipher.setAAD(Buffer.from(uid, "utf8"));
+  decipher.setAuthTag(Buffer.from(value.tag, "base64"));
+
+  return Buffer.concat([
+    decipher.update(Buffer.from(value.ciphertext, "base64")),
+    decipher.final(),
+  ]).toString("utf8");
+};
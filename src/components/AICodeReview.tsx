@@ -1,5 +1,9 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
+import { RefreshCw, Square } from 'lucide-react';
 import { openAIService } from '../services/openaiService';
+import { StructuredReviewResult } from '../services/aiReviewService';
+import { CodeIssue } from '../services/codeAnalysisService';
+import { LLM_PROVIDERS, isAbortError } from '../services/llmProviderService';
 import ApiKeyModal from './ApiKeyModal';
 import ReactMarkdown from 'react-markdown';
 
@@ -7,12 +11,21 @@ interface AICodeReviewProps {
   code: string;
   language: string;
   context?: string;
+  onIssues?: (issues: CodeIssue[]) => void;   // 指定した場合は検出結果の一覧に追加する構造化レビューを選べる
 }
 
-const AICodeReview: React.FC<AICodeReviewProps> = ({ code, language, context }) => {
+// レビューの形式（markdown: 文章のレビュー / structured: スキーマで検証した検出結果）
+type ReviewMode = 'markdown' | 'structured';
+
+const AICodeReview: React.FC<AICodeReviewProps> = ({ code, language, context, onIssues }) => {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [mode, setMode] = useState<ReviewMode>('markdown');
   const [review, setReview] = useState<string | null>(null);
+  const [structuredResult, setStructuredResult] = useState<StructuredReviewResult | null>(null);
+  const [cancelled, setCancelled] = useState(false);
+  // 生成中のリクエストの中断用
+  const abortControllerRef = useRef<AbortController | null>(null);
   const [showApiKeyModal, setShowApiKeyModal] = useState(false);
   const [monthlyUsage, setMonthlyUsage] = useState({ current: 0, limit: 50 });
 
@@ -30,64 +43,131 @@ const AICodeReview: React.FC<AICodeReviewProps> = ({ code, language, context })
     fetchUsage();
   }, []);
 
+  // 画面を離れたら生成中のリクエストを中断
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  // レビューの受信後に利用回数を更新
+  const refreshUsageLater = () => {
+    setTimeout(async () => {
+      // 少し遅延させてFirestoreの更新を待つ
+      const usage = await openAIService.getMonthlyUsage();
+      console.log('AIレビュー成功後の利用回数更新:', usage);
+      setMonthlyUsage(usage);
+    }, 500);
+  };
+
+  const handleErrorResponse = async (response: { error?: string; errorMessage?: string }) => {
+    if (response.error === 'ABORTED') {
+      setCancelled(true);
+    } else if (response.error === 'API_KEY_LIMIT_EXCEEDED') {
+      // API利用上限に達した場合
+      const usage = await openAIService.getMonthlyUsage();
+      setMonthlyUsage(usage);
+      
+      // 月間利用回数が上限未満の場合はエラーメッセージを表示し、
+      // 上限以上の場合のみAPIキーモーダルを表示する
+      if (usage.current >= usage.limit) {
+        setShowApiKeyModal(true);
+      } else {
+        setError('APIサービスにエラーが発生しました。しばらく待ってから再試行してください。');
+      }
+    } else if (response.error === 'INVALID_API_KEY' || response.error === 'API_KEY_REQUIRED') {
+      // 無効なAPIキー・未設定の場合、エラーメッセージを表示してAPIキーモーダルを表示
+      setError(response.errorMessage || '無効なAPIキーです。別のAPIキーを入力してください。');
+      setShowApiKeyModal(true);
+    } else {
+      setError(response.error || '不明なエラーが発生しました');
+    }
+  };
+
+  // 構造化レビューは一括で受け取るため、中断した場合は応答を捨てる
+  const handleGetStructuredReview = async (controller: AbortController) => {
+    const response = await openAIService.getStructuredCodeReview({
+      code,
+      language,
+      context
+    });
+
+    if (controller.signal.aborted) {
+      setCancelled(true);
+    } else if (response.success) {
+      const result: StructuredReviewResult = response.data;
+      setStructuredResult(result);
+      onIssues?.(result.issues);
+      refreshUsageLater();
+    } else {
+      await handleErrorResponse(response);
+    }
+  };
+
   const handleGetReview = async () => {
     if (!code.trim()) {
       setError('レビュー対象のコードが空です');
       return;
     }
 
+    // 生成中のリクエストがあれば中断して作り直す
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
     setLoading(true);
     setError(null);
     setReview(null);
+    setStructuredResult(null);
+    setCancelled(false);
 
     try {
-      const response = await openAIService.getCodeReview({
+      if (mode === 'structured') {
+        await handleGetStructuredReview(controller);
+        return;
+      }
+
+      const response = await openAIService.streamCodeReview({
         code,
         language,
         context
-      });
+      }, controller.signal);
 
-      if (response.success && response.data) {
-        const content = response.data.choices[0]?.message?.content;
-        if (content) {
+      if (response.success && response.stream) {
+        // 受け取った差分ごとに表示を更新
+        let content = '';
+        for await (const chunk of response.stream) {
+          content += chunk;
           setReview(content);
-          
-          // レビュー成功後に利用回数を更新
-          setTimeout(async () => {
-            // 少し遅延させてFirestoreの更新を待つ
-            const usage = await openAIService.getMonthlyUsage();
-            console.log('AIレビュー成功後の利用回数更新:', usage);
-            setMonthlyUsage(usage);
-          }, 500);
-        } else {
+        }
+
+        if (controller.signal.aborted) {
+          setCancelled(true);
+        } else if (!content) {
           setError('レスポンスからコンテンツを取得できませんでした');
         }
-      } else if (response.error === 'API_KEY_LIMIT_EXCEEDED') {
-        // API利用上限に達した場合
-        const usage = await openAIService.getMonthlyUsage();
-        setMonthlyUsage(usage);
-        
-        // 月間利用回数が上限未満の場合はエラーメッセージを表示し、
-        // 上限以上の場合のみAPIキーモーダルを表示する
-        if (usage.current >= usage.limit) {
-          setShowApiKeyModal(true);
-        } else {
-          setError('APIサービスにエラーが発生しました。しばらく待ってから再試行してください。');
+
+        if (content) {
+          refreshUsageLater();
         }
-      } else if (response.error === 'INVALID_API_KEY') {
-        // 無効なAPIキーの場合、エラーメッセージを表示してAPIキーモーダルを表示
-        setError(response.errorMessage || '無効なAPIキーです。別のAPIキーを入力してください。');
-        setShowApiKeyModal(true);
       } else {
-        setError(response.error || '不明なエラーが発生しました');
+        await handleErrorResponse(response);
       }
     } catch (err) {
-      setError('エラーが発生しました: ' + (err instanceof Error ? err.message : String(err)));
+      if (isAbortError(err)) {
+        setCancelled(true);
+      } else {
+        setError('エラーが発生しました: ' + (err instanceof Error ? err.message : String(err)));
+      }
     } finally {
-      setLoading(false);
+      // 新しいリクエストに置き換わっていなければ完了にする
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+        setLoading(false);
+      }
     }
   };
 
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const handleApiKeySuccess = async () => {
     setShowApiKeyModal(false);
     // APIキーが設定されたのでリクエストを再試行
@@ -112,22 +192,54 @@ const AICodeReview: React.FC<AICodeReviewProps> = ({ code, language, context })
         </div>
       </div>
 
-      <div className="flex justify-end mb-4">
-        <button
-          onClick={handleGetReview}
-          disabled={loading}
-          className="px-4 py-2 bg-blue-600 text-white rounded-md shadow hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50"
-        >
-          {loading ? (
-            <span className="flex items-center">
-              <svg className="animate-spin -ml-1 mr-2 h-4 w-4 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+      <div className="flex justify-end mb-4 space-x-2">
+        {onIssues && (
+          <div className="flex mr-auto rounded-md border border-gray-300 dark:border-gray-600 overflow-hidden text-sm">
+            {([['markdown', '文章'], ['structured', '検出結果']] as [ReviewMode, string][]).map(([value, label]) => (
+              <button
+                key={value}
+                onClick={() => setMode(value)}
+                disabled={loading}
+                title={value === 'structured' ? '行・種類・重要度・修正案を付けた検出結果を「検出された問題」に追加します' : undefined}
+                className={`px-3 py-2 disabled:opacity-50 ${mode === value
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-white text-gray-700 hover:bg-gray-100 dark:bg-gray-800 dark:text-gray-300 dark:hover:bg-gray-700'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        )}
+        {loading ? (
+          <>
+            <span className="flex items-center px-2 text-sm text-gray-600 dark:text-gray-400">
+              <svg className="animate-spin -ml-1 mr-2 h-4 w-4" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
                 <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                 <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
               </svg>
-              分析中...
+              {review ? '受信中...' : '生成中...'}
             </span>
-          ) : 'AIレビューを取得'}
-        </button>
+            <button
+              onClick={handleCancel}
+              className="flex items-center px-4 py-2 bg-gray-200 text-gray-800 dark:bg-gray-700 dark:text-gray-200 rounded-md shadow hover:bg-gray-300 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2"
+            >
+              <Square className="h-4 w-4 mr-2" />
+              中断
+            </button>
+          </>
+        ) : (
+          <button
+            onClick={handleGetReview}
+            className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-md shadow hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50"
+          >
+            {review || structuredResult || cancelled ? (
+              <>
+                <RefreshCw className="h-4 w-4 mr-2" />
+                再生成
+              </>
+            ) : 'AIレビューを取得'}
+          </button>
+        )}
       </div>
 
       {error && (
@@ -143,9 +255,38 @@ const AICodeReview: React.FC<AICodeReviewProps> = ({ code, language, context })
           <div className="prose dark:prose-invert max-w-none text-gray-700 dark:text-gray-300">
             <ReactMarkdown>{review}</ReactMarkdown>
           </div>
+          {cancelled && (
+            <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">生成を中断しました。「再生成」で最初から生成し直せます。</p>
+          )}
         </div>
       )}
 
+      {structuredResult && (
+        <div className="p-4 bg-gray-50 dark:bg-gray-700 rounded-md border border-gray-200 dark:border-gray-600 text-sm text-gray-700 dark:text-gray-300 space-y-1">
+          <h3 className="font-semibold text-gray-800 dark:text-gray-200">検出結果</h3>
+          <p>
+            {structuredResult.issues.length > 0
+              ? `${structuredResult.issues.length}件の問題を「検出された問題」に追加しました`
+              : 'AIレビューで問題は検出されませんでした'}
+            （{LLM_PROVIDERS[structuredResult.provider]?.label || structuredResult.provider}・{structuredResult.model}）
+          </p>
+          {structuredResult.attempts > 1 && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              応答がスキーマに合わなかったため、{structuredResult.attempts - 1}回再試行しました。
+            </p>
+          )}
+          {structuredResult.rejectedCount > 0 && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              スキーマに合わない検出結果{structuredResult.rejectedCount}件を除きました。
+            </p>
+          )}
+        </div>
+      )}
+
+      {cancelled && !review && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">生成を中断しました。「再生成」で最初から生成し直せます。</p>
+      )}
+
       {/* APIキー入力モーダル */}
       <ApiKeyModal
         isOpen={showApiKeyModal}
@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import { FileCode, Package } from 'lucide-react';
+import SecurityVulnerabilityView from './SecurityVulnerabilityView';
+import CodeDuplicationView from './CodeDuplicationView';
+import CodeComplexityVisualizer from './CodeComplexityVisualizer';
+import SecretHistoryScanPanel from './SecretHistoryScanPanel';
+import {
+  AnalysisReport,
+  getReportVulnerabilities,
+  toDuplicationResults
+} from '../services/analysisReportService';
+
+// レポートの表示区分
+export type ReportSection = 'security' | 'duplication' | 'complexity';
+
+interface AnalysisReportViewProps {
+  report: AnalysisReport;
+  section: ReportSection;
+}
+
+/**
+ * セキュリティ・重複・複雑度の分析レポート表示コンポーネント
+ * 複数ファイルのレポートはファイルごとにまとめて表示します
+ */
+const AnalysisReportView: React.FC<AnalysisReportViewProps> = ({ report, section }) => {
+  const complexityFiles = report.files.filter(file => file.complexity);
+  const [complexityFileName, setComplexityFileName] = useState<string | null>(
+    report.summary.mostComplexFile
+  );
+  const skippedFiles = report.files.filter(file => file.skippedReason);
+
+  const renderSecurity = () => {
+    const groups = getReportVulnerabilities(report);
+    const { vulnerabilities } = report.summary;
+
+    return (
+      <div className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+          {[
+            { label: '重大', value: vulnerabilities.critical, className: 'text-red-700 dark:text-red-400' },
+            { label: '高', value: vulnerabilities.high, className: 'text-orange-600 dark:text-orange-400' },
+            { label: '中', value: vulnerabilities.medium, className: 'text-yellow-600 dark:text-yellow-400' },
+            { label: '低', value: vulnerabilities.low, className: 'text-blue-600 dark:text-blue-400' },
+            { label: '情報', value: vulnerabilities.info, className: 'text-gray-600 dark:text-gray-400' }
+          ].map(item => (
+            <div key={item.label} className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-3">
+              <div className="text-sm text-gray-500 dark:text-gray-400">{item.label}</div>
+              <div className={`text-xl font-semibold ${item.className}`}>{item.value}</div>
+            </div>
+          ))}
+        </div>
+
+        {report.dependencies && report.dependencies.manifests.length > 0 && (
+          <div className="flex items-start text-sm text-gray-600 dark:text-gray-400">
+            <Package className="h-4 w-4 mr-1 mt-0.5 flex-shrink-0" />
+            {report.dependencies.error
+              ? `依存関係の脆弱性を照合できませんでした: ${report.dependencies.error}`
+              : `依存関係: ${report.dependencies.manifests.length}件のマニフェストから${report.dependencies.dependencies.length}個のパッケージを${report.dependencies.advisoryCount}件のアドバイザリと照合し、${report.dependencies.findings.length}件の既知の脆弱性が見つかりました`}
+          </div>
+        )}
+
+        {groups.length === 0 ? (
+          <SecurityVulnerabilityView vulnerabilities={[]} />
+        ) : (
+          groups.map(group => (
+            <div key={group.fileName}>
+              {(report.files.length > 1 || groups.length > 1) && (
+                <h4 className="flex items-center text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  <FileCode className="h-4 w-4 mr-1" />
+                  {group.fileName}
+                </h4>
+              )}
+              <SecurityVulnerabilityView vulnerabilities={group.vulnerabilities} />
+            </div>
+          ))
+        )}
+
+        <SecretHistoryScanPanel repoName={report.repoName} />
+      </div>
+    );
+  };
+
+  const renderDuplication = () => {
+    const duplications = [
+      ...report.crossFileDuplicates,
+      ...report.files.flatMap(file =>
+        file.duplication ? toDuplicationResults(file.fileName, file.language, file.duplication.duplicates) : []
+      )
+    ];
+
+    return (
+      <div className="space-y-4">
+        <div className="grid grid-cols-3 gap-4">
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-3">
+            <div className="text-sm text-gray-500 dark:text-gray-400">重複ブロック</div>
+            <div className="text-xl font-semibold text-purple-600 dark:text-purple-400">{report.summary.duplicateBlocks}</div>
+          </div>
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-3">
+            <div className="text-sm text-gray-500 dark:text-gray-400">重複行</div>
+            <div className="text-xl font-semibold text-purple-600 dark:text-purple-400">{report.summary.duplicateLines}</div>
+          </div>
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-3">
+            <div className="text-sm text-gray-500 dark:text-gray-400">ファイル間の重複</div>
+            <div className="text-xl font-semibold text-purple-600 dark:text-purple-400">{report.summary.crossFileDuplicates}</div>
+          </div>
+        </div>
+        <CodeDuplicationView duplications={duplications} />
+      </div>
+    );
+  };
+
+  const renderComplexity = () => {
+    const selected = complexityFiles.find(file => file.fileName === complexityFileName) || complexityFiles[0];
+
+    if (!selected || !selected.complexity) {
+      return (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-8 text-center text-gray-500 dark:text-gray-400">
+          複雑度を分析できたファイルがありません
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-4">
+        {complexityFiles.length > 1 && (
+          <div className="flex items-center justify-between bg-white dark:bg-gray-800 rounded-lg shadow-md p-3">
+            <span className="text-sm text-gray-600 dark:text-gray-400">
+              平均複雑度: <span className="font-semibold text-gray-900 dark:text-white">{report.summary.averageComplexity}</span>/10
+            </span>
+            <select
+              value={selected.fileName}
+              onChange={e => setComplexityFileName(e.target.value)}
+              className="text-sm border border-gray-300 dark:border-gray-600 rounded-md px-2 py-1 bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300"
+              aria-label="ファイルを選択"
+            >
+              {complexityFiles
+                .slice()
+                .sort((a, b) => (b.complexity?.overall || 0) - (a.complexity?.overall || 0))
+                .map(file => (
+                  <option key={file.fileName} value={file.fileName}>
+                    {file.fileName}（{file.complexity?.overall}）
+                  </option>
+                ))}
+            </select>
+          </div>
+        )}
+        <CodeComplexityVisualizer complexityData={selected.complexity} />
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      {section === 'security' && renderSecurity()}
+      {section === 'duplication' && renderDuplication()}
+      {section === 'complexity' && renderComplexity()}
+
+      {skippedFiles.length > 0 && (
+        <div className="bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg p-3 text-sm text-yellow-800 dark:text-yellow-300">
+          {skippedFiles.length}件のファイルはレポートに含まれていません: {skippedFiles[0].skippedReason}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AnalysisReportView;
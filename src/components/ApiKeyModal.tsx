@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { openAIService } from '../services/openaiService';
+import LlmSettingsPanel from './LlmSettingsPanel';
 
 interface ApiKeyModalProps {
   isOpen: boolean;
@@ -22,7 +23,7 @@ const ApiKeyModal: React.FC<ApiKeyModalProps> = ({
   const [apiKey, setApiKey] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [keyStatus, setKeyStatus] = useState<{ hasCustomKey: boolean; customKey?: string } | null>(null);
+  const [keyStatus, setKeyStatus] = useState<{ hasCustomKey: boolean } | null>(null);
   const [isRemoving, setIsRemoving] = useState(false);
 
   // APIキーの状態を取得
@@ -102,7 +103,7 @@ const ApiKeyModal: React.FC<ApiKeyModalProps> = ({
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50">
-      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-md mx-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-md mx-4 max-h-[90vh] overflow-y-auto">
         <div className="text-center mb-6">
           <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">APIキーの設定</h2>
           
@@ -185,10 +186,13 @@ const ApiKeyModal: React.FC<ApiKeyModalProps> = ({
             </button>
           </div>
         </form>
+
+        <LlmSettingsPanel onSaved={onSuccess} />
         
         <div className="mt-6 text-xs text-gray-600 dark:text-gray-400">
           <p>📝 <a href="https://platform.openai.com/api-keys" target="_blank" rel="noopener noreferrer" className="text-blue-600 dark:text-blue-400 hover:underline">OpenAIのダッシュボード</a>からAPIキーを取得できます</p>
-          <p className="mt-1">🔒 APIキーはあなたのブラウザと当サービスのデータベースのみに保存され、第三者と共有されることはありません</p>
+          <p className="mt-1">🔒 OpenAI・AnthropicのAPIキーはサーバーで暗号化して保存され、ブラウザに返されることも第三者と共有されることもありません</p>
+          <p className="mt-1">🔑 OpenAI互換のエンドポイントのAPIキーは保存されず、ブラウザからエンドポイントに直接送られます</p>
         </div>
       </div>
     </div>
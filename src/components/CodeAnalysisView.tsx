@@ -1,8 +1,9 @@
 import React, { useState, useEffect } from 'react';
-import { ChevronDown, ChevronUp, CheckCircle, AlertTriangle, AlertCircle, X } from 'lucide-react';
+import { ChevronDown, ChevronUp, CheckCircle, AlertTriangle, AlertCircle, X, Sparkles } from 'lucide-react';
 import AICodeReview from './AICodeReview';
 import CodeExplainer from './CodeExplainer';
 import { auth } from '../firebase/services';
+import { IssueSource } from '../services/codeAnalysisService';
 
 // 型定義
 interface CodeIssue {
@@ -11,8 +12,14 @@ interface CodeIssue {
   line: number;
   message: string;
   suggestion?: string;
+  endLine?: number;
+  patch?: string;
+  source?: IssueSource;   // AIレビューの検出結果の場合
 }
 
+// 検出された問題の表示の絞り込み（static: 静的解析 / ai: AIレビュー）
+type IssueSourceFilter = 'all' | 'static' | 'ai';
+
 interface FileAnalysisResult {
   fileName: string;
   language: string;
@@ -53,6 +60,21 @@ const CodeAnalysisView: React.FC<CodeAnalysisViewProps> = ({ analysisResult, fil
     aiTools: true // AIツールセクション（新規追加）
   });
   
+  // 構造化AIレビューの検出結果（静的解析の結果と合わせて表示する）
+  const [aiIssues, setAiIssues] = useState<CodeIssue[]>([]);
+  const [issueSourceFilter, setIssueSourceFilter] = useState<IssueSourceFilter>('all');
+
+  // 別のファイル・再分析の結果に切り替わったらAIの検出結果を消す
+  useEffect(() => {
+    setAiIssues([]);
+    setIssueSourceFilter('all');
+  }, [analysisResult]);
+
+  const issues = [...analysisResult.issues, ...aiIssues].sort((a, b) => a.line - b.line);
+  const visibleIssues = issues.filter(issue =>
+    issueSourceFilter === 'all' || (issueSourceFilter === 'ai') === Boolean(issue.source)
+  );
+
   // ユーザーの認証状態を確認
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   
@@ -319,7 +341,9 @@ const CodeAnalysisView: React.FC<CodeAnalysisViewProps> = ({ analysisResult, fil
           className="w-full p-4 flex justify-between items-center bg-gray-50 dark:bg-gray-700 hover:bg-gray-100 dark:hover:bg-gray-600 focus:outline-none transition-colors"
           onClick={() => toggleSection('issues')}
         >
-          <h4 className="font-medium text-gray-900 dark:text-white">検出された問題 ({analysisResult.issues.length})</h4>
+          <h4 className="font-medium text-gray-900 dark:text-white">
+            検出された問題 ({issues.length}{aiIssues.length > 0 && `・うちAI ${aiIssues.length}件`})
+          </h4>
           {expandedSections.issues ? (
             <ChevronUp className="h-5 w-5 text-gray-500 dark:text-gray-400" />
           ) : (
@@ -329,9 +353,24 @@ const CodeAnalysisView: React.FC<CodeAnalysisViewProps> = ({ analysisResult, fil
 
         {expandedSections.issues && (
           <div className="p-4">
-            {analysisResult.issues.length > 0 ? (
+            {aiIssues.length > 0 && (
+              <div className="flex space-x-2 mb-3 text-xs">
+                {([['all', 'すべて'], ['static', '静的解析'], ['ai', 'AIレビュー']] as [IssueSourceFilter, string][]).map(([value, label]) => (
+                  <button
+                    key={value}
+                    onClick={() => setIssueSourceFilter(value)}
+                    className={`px-3 py-1 rounded-full ${issueSourceFilter === value
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600'}`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            )}
+            {visibleIssues.length > 0 ? (
               <div className="space-y-3">
-                {analysisResult.issues.map((issue, index) => {
+                {visibleIssues.map((issue, index) => {
                   const severityInfo = getSeverityInfo(issue.severity);
                   return (
                     <div key={index} className="border border-gray-200 dark:border-gray-700 rounded-lg overflow-hidden">
@@ -348,9 +387,18 @@ const CodeAnalysisView: React.FC<CodeAnalysisViewProps> = ({ analysisResult, fil
                           )}`}>
                             {severityInfo.label}
                           </span>
+                          {issue.source && (
+                            <span
+                              className="ml-2 flex items-center px-2 py-0.5 text-xs font-medium rounded-full bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200"
+                              title={`${issue.source.provider}・${issue.source.model}`}
+                            >
+                              <Sparkles className="h-3 w-3 mr-1" />
+                              AI
+                            </span>
+                          )}
                         </div>
                         <span className="text-sm text-gray-500 dark:text-gray-400">
-                          行 {issue.line}
+                          行 {issue.line}{issue.endLine && issue.endLine > issue.line && `-${issue.endLine}`}
                         </span>
                       </div>
                       <div className="p-3 bg-white dark:bg-gray-800">
@@ -360,6 +408,14 @@ const CodeAnalysisView: React.FC<CodeAnalysisViewProps> = ({ analysisResult, fil
                             提案: {issue.suggestion}
                           </p>
                         )}
+                        {issue.patch && (
+                          <div className="mt-2">
+                            <p className="text-xs text-gray-500 dark:text-gray-400">
+                              修正案（行 {issue.line}{issue.endLine && issue.endLine > issue.line && `-${issue.endLine}`} を置き換え）
+                            </p>
+                            <pre className="mt-1 p-2 text-xs font-mono bg-gray-50 dark:bg-gray-900 text-gray-800 dark:text-gray-200 rounded overflow-x-auto">{issue.patch}</pre>
+                          </div>
+                        )}
                       </div>
                     </div>
                   );
@@ -479,6 +535,7 @@ const CodeAnalysisView: React.FC<CodeAnalysisViewProps> = ({ analysisResult, fil
                   code={analysisResult.codeContent || ''} 
                   language={analysisResult.language} 
                   context={`ファイル名: ${fileName}, 言語: ${analysisResult.language}, 行数: ${analysisResult.lineCount}, 関数数: ${analysisResult.functionCount}`}
+                  onIssues={setAiIssues}
                 />
                 
                 {/* コードエクスプレイナーコンポーネント */}
@@ -1,5 +1,7 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
+import { RefreshCw, Square } from 'lucide-react';
 import { openAIService } from '../services/openaiService';
+import { isAbortError } from '../services/llmProviderService';
 import ApiKeyModal from './ApiKeyModal';
 import ReactMarkdown from 'react-markdown';
 
@@ -12,6 +14,9 @@ const CodeExplainer: React.FC<CodeExplainerProps> = ({ code, language }) => {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [explanation, setExplanation] = useState<string | null>(null);
+  const [cancelled, setCancelled] = useState(false);
+  // 生成中のリクエストの中断用
+  const abortControllerRef = useRef<AbortController | null>(null);
   const [showApiKeyModal, setShowApiKeyModal] = useState(false);
   const [monthlyUsage, setMonthlyUsage] = useState({ current: 0, limit: 50 });
   const [experienceLevel, setExperienceLevel] = useState<'beginner' | 'intermediate' | 'advanced'>('intermediate');
@@ -30,38 +35,57 @@ const CodeExplainer: React.FC<CodeExplainerProps> = ({ code, language }) => {
     fetchUsage();
   }, []);
 
+  // 画面を離れたら生成中のリクエストを中断
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
   const handleGetExplanation = async () => {
     if (!code.trim()) {
       setError('説明対象のコードが空です');
       return;
     }
 
+    // 生成中のリクエストがあれば中断して作り直す
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
     setLoading(true);
     setError(null);
     setExplanation(null);
+    setCancelled(false);
 
     try {
-      const response = await openAIService.explainCode({
+      const response = await openAIService.streamCodeExplanation({
         code,
         language,
         experienceLevel
-      });
+      }, controller.signal);
 
-      if (response.success && response.data) {
-        const content = response.data.choices[0]?.message?.content;
-        if (content) {
+      if (response.success && response.stream) {
+        // 受け取った差分ごとに表示を更新
+        let content = '';
+        for await (const chunk of response.stream) {
+          content += chunk;
           setExplanation(content);
-          
-          // 説明生成成功後に利用回数を更新
+        }
+
+        if (controller.signal.aborted) {
+          setCancelled(true);
+        } else if (!content) {
+          setError('レスポンスからコンテンツを取得できませんでした');
+        }
+
+        if (content) {
+          // 説明の受信後に利用回数を更新
           setTimeout(async () => {
             // 少し遅延させてFirestoreの更新を待つ
             const usage = await openAIService.getMonthlyUsage();
             console.log('コード説明後の利用回数更新:', usage);
             setMonthlyUsage(usage);
           }, 500);
-        } else {
-          setError('レスポンスからコンテンツを取得できませんでした');
         }
+      } else if (response.error === 'ABORTED') {
+        setCancelled(true);
       } else if (response.error === 'API_KEY_LIMIT_EXCEEDED') {
         // API利用上限に達した場合
         const usage = await openAIService.getMonthlyUsage();
@@ -74,20 +98,32 @@ const CodeExplainer: React.FC<CodeExplainerProps> = ({ code, language }) => {
         } else {
           setError('APIサービスにエラーが発生しました。しばらく待ってから再試行してください。');
         }
-      } else if (response.error === 'INVALID_API_KEY') {
-        // 無効なAPIキーの場合、エラーメッセージを表示してAPIキーモーダルを表示
+      } else if (response.error === 'INVALID_API_KEY' || response.error === 'API_KEY_REQUIRED') {
+        // 無効なAPIキー・未設定の場合、エラーメッセージを表示してAPIキーモーダルを表示
         setError(response.errorMessage || '無効なAPIキーです。別のAPIキーを入力してください。');
         setShowApiKeyModal(true);
       } else {
         setError(response.error || '不明なエラーが発生しました');
       }
     } catch (err) {
-      setError('エラーが発生しました: ' + (err instanceof Error ? err.message : String(err)));
+      if (isAbortError(err)) {
+        setCancelled(true);
+      } else {
+        setError('エラーが発生しました: ' + (err instanceof Error ? err.message : String(err)));
+      }
     } finally {
-      setLoading(false);
+      // 新しいリクエストに置き換わっていなければ完了にする
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+        setLoading(false);
+      }
     }
   };
 
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const handleApiKeySuccess = async () => {
     setShowApiKeyModal(false);
     // APIキーが設定されたのでリクエストを再試行
@@ -153,22 +189,37 @@ const CodeExplainer: React.FC<CodeExplainerProps> = ({ code, language }) => {
         </div>
       </div>
 
-      <div className="flex justify-end mb-4">
-        <button
-          onClick={handleGetExplanation}
-          disabled={loading}
-          className="px-4 py-2 bg-green-600 text-white rounded-md shadow hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2 disabled:opacity-50"
-        >
-          {loading ? (
-            <span className="flex items-center">
-              <svg className="animate-spin -ml-1 mr-2 h-4 w-4 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+      <div className="flex justify-end mb-4 space-x-2">
+        {loading ? (
+          <>
+            <span className="flex items-center px-2 text-sm text-gray-600 dark:text-gray-400">
+              <svg className="animate-spin -ml-1 mr-2 h-4 w-4" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
                 <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                 <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
               </svg>
-              生成中...
+              {explanation ? '受信中...' : '生成中...'}
             </span>
-          ) : 'コードを説明'}
-        </button>
+            <button
+              onClick={handleCancel}
+              className="flex items-center px-4 py-2 bg-gray-200 text-gray-800 dark:bg-gray-700 dark:text-gray-200 rounded-md shadow hover:bg-gray-300 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2"
+            >
+              <Square className="h-4 w-4 mr-2" />
+              中断
+            </button>
+          </>
+        ) : (
+          <button
+            onClick={handleGetExplanation}
+            className="flex items-center px-4 py-2 bg-green-600 text-white rounded-md shadow hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2 disabled:opacity-50"
+          >
+            {explanation || cancelled ? (
+              <>
+                <RefreshCw className="h-4 w-4 mr-2" />
+                再生成
+              </>
+            ) : 'コードを説明'}
+          </button>
+        )}
       </div>
 
       {error && (
@@ -184,6 +235,9 @@ const CodeExplainer: React.FC<CodeExplainerProps> = ({ code, language }) => {
           <div className="prose dark:prose-invert max-w-none text-gray-700 dark:text-gray-300">
             <ReactMarkdown>{explanation}</ReactMarkdown>
           </div>
+          {cancelled && (
+            <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">生成を中断しました。「再生成」で最初から生成し直せます。</p>
+          )}
         </div>
       )}
 
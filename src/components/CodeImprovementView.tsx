@@ -1,13 +1,38 @@
 import React, { useState } from 'react';
-import { ChevronDown, ChevronUp, CheckCircle, AlertTriangle, AlertCircle, X, Code, ArrowRight } from 'lucide-react';
+import { ChevronDown, ChevronUp, CheckCircle, AlertTriangle, AlertCircle, X, Code, ArrowRight, Copy, Check, Layers } from 'lucide-react';
 import { CodeImprovement, ImprovementUIData } from '../services/codeImprovementService';
+import { ExtractFunctionRefactoring } from '../services/refactoringService';
 
 interface CodeImprovementViewProps {
   improvements: CodeImprovement[];
   fileName: string;
+  refactorings?: ExtractFunctionRefactoring[];   // 重複コードの共通関数化
 }
 
-const CodeImprovementView: React.FC<CodeImprovementViewProps> = ({ improvements, fileName }) => {
+// diff の行の色分け
+const getDiffLineClass = (line: string): string => {
+  if (line.startsWith('+++') || line.startsWith('---')) return 'text-gray-500 dark:text-gray-400';
+  if (line.startsWith('@@')) return 'text-blue-600 dark:text-blue-400';
+  if (line.startsWith('+')) return 'bg-green-50 text-green-800 dark:bg-green-900/20 dark:text-green-300';
+  if (line.startsWith('-')) return 'bg-red-50 text-red-800 dark:bg-red-900/20 dark:text-red-300';
+  return 'text-gray-700 dark:text-gray-300';
+};
+
+const CodeImprovementView: React.FC<CodeImprovementViewProps> = ({ improvements, fileName, refactorings = [] }) => {
+  const [expandedRefactoring, setExpandedRefactoring] = useState<number | null>(null);
+  const [copiedRefactoring, setCopiedRefactoring] = useState<number | null>(null);
+
+  // diff をクリップボードにコピー
+  const copyDiff = async (index: number, diff: string) => {
+    try {
+      await navigator.clipboard.writeText(diff);
+      setCopiedRefactoring(index);
+      setTimeout(() => setCopiedRefactoring(current => (current === index ? null : current)), 2000);
+    } catch (error) {
+      console.error('diffのコピーに失敗しました:', error);
+    }
+  };
+
   const [uiData, setUIData] = useState<ImprovementUIData>({
     allImprovements: improvements.map(imp => ({ ...imp, isExpanded: false })),
     groupedByType: {},
@@ -347,11 +372,80 @@ const CodeImprovementView: React.FC<CodeImprovementViewProps> = ({ improvements,
               );
             })}
           </div>
-        ) : (
+        ) : refactorings.length === 0 && (
           <div className="text-center py-8 text-gray-500 dark:text-gray-400">
             改善提案はありません。
           </div>
         )}
+
+        {/* 重複コードの共通関数化 */}
+        {refactorings.length > 0 && (
+          <div className={uiData.allImprovements.length > 0 ? 'mt-6' : ''}>
+            <h4 className="text-sm font-medium text-gray-900 dark:text-white mb-2 flex items-center">
+              <Layers className="h-4 w-4 mr-1" />
+              重複コードの共通化（{refactorings.length}件）
+            </h4>
+            <div className="space-y-3">
+              {refactorings.map((refactoring, index) => {
+                const isExpanded = expandedRefactoring === index;
+                return (
+                  <div key={index} className="border border-gray-200 dark:border-gray-700 rounded-lg overflow-hidden">
+                    <div
+                      className="p-3 flex justify-between items-center cursor-pointer bg-purple-50 dark:bg-purple-900/20 hover:bg-purple-100 dark:hover:bg-purple-900/30"
+                      onClick={() => setExpandedRefactoring(isExpanded ? null : index)}
+                    >
+                      <div className="text-sm text-gray-900 dark:text-white">
+                        <span className="font-mono font-medium">
+                          {refactoring.functionName}({refactoring.parameters.map(parameter => parameter.name).join(', ')})
+                        </span>
+                        <span className="ml-2 text-gray-500 dark:text-gray-400">
+                          行 {refactoring.startLineA}-{refactoring.endLineA} と 行 {refactoring.startLineB}-{refactoring.endLineB} を共通の関数に抽出
+                        </span>
+                      </div>
+                      {isExpanded ? (
+                        <ChevronUp className="h-5 w-5 text-gray-500 dark:text-gray-400" />
+                      ) : (
+                        <ChevronDown className="h-5 w-5 text-gray-500 dark:text-gray-400" />
+                      )}
+                    </div>
+
+                    {isExpanded && (
+                      <div className="p-3 bg-white dark:bg-gray-800">
+                        <div className="flex justify-between items-center mb-2">
+                          <p className="text-sm text-gray-700 dark:text-gray-300">
+                            異なる識別子・リテラルを引数にして、両方の箇所を関数呼び出しに置き換えます。
+                            {refactoring.returnValues.length > 0 && ` 戻り値: ${refactoring.returnValues.join(', ')}`}
+                          </p>
+                          <button
+                            onClick={() => copyDiff(index, refactoring.diff)}
+                            className="flex items-center px-3 py-1 text-xs bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-300 rounded hover:bg-blue-200 dark:hover:bg-blue-800 transition-colors flex-shrink-0"
+                          >
+                            {copiedRefactoring === index ? (
+                              <>
+                                <Check className="h-3 w-3 mr-1" />
+                                コピーしました
+                              </>
+                            ) : (
+                              <>
+                                <Copy className="h-3 w-3 mr-1" />
+                                diffをコピー
+                              </>
+                            )}
+                          </button>
+                        </div>
+                        <pre className="p-2 bg-gray-50 dark:bg-gray-900 rounded text-xs overflow-x-auto">
+                          {refactoring.diff.split('\n').map((line, lineIndex) => (
+                            <div key={lineIndex} className={getDiffLineClass(line)}>{line || ' '}</div>
+                          ))}
+                        </pre>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
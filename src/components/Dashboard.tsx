@@ -1,21 +1,36 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import {
   Github, LogOut, Menu, X, Moon, Sun, 
   Code, BarChart3, BookOpen, FileCode, 
   AlertCircle, CheckCircle2, ChevronDown,
   User as UserIcon, HelpCircle, Folder as FolderIcon,
-  Key
+  Key, PauseCircle, GitBranch, GitPullRequest, LineChart, Download, ShieldCheck
 } from 'lucide-react';
 import RepositoryList from './RepositoryList';
 import CodeAnalysisView from './CodeAnalysisView';
 import SkillsAndLearningView from './SkillsAndLearningView';
 import HowToUseGuide from './HowToUseGuide';
 import CodeImprovementView from './CodeImprovementView';
+import PullRequestAnalysisView from './PullRequestAnalysisView';
+import ScoreTrendView from './ScoreTrendView';
+import AnalysisReportView, { ReportSection } from './AnalysisReportView';
+import RepositoryConfigPanel from './RepositoryConfigPanel';
+import FindingExclusionPanel from './FindingExclusionPanel';
 import { Skill } from '../services/learningPathService';
-import { getUserRepositories, Repository, getRepositoryContents, getFileContent } from '../services/githubService';
-import codeAnalysisService, { RepositoryAnalysisResult, FileAnalysisResult, CodeIssue } from '../services/codeAnalysisService';
+import {
+  getUserRepositories, Repository, getRepositoryContents, getFileContent,
+  getRepositoryBranches, getRepositoryTags, getPullRequests, PullRequest
+} from '../services/githubService';
+import codeAnalysisService, { RepositoryAnalysisResult, FileAnalysisResult, CodeIssue, AnalysisProgress } from '../services/codeAnalysisService';
 import { generateLearningPath } from '../services/learningPathService';
+import { analyzePullRequest, PullRequestAnalysisResult } from '../services/pullRequestAnalysisService';
+import { AnalysisRunRecord, getAnalysisHistory, saveAnalysisRun } from '../services/analysisHistoryService';
+import { AnalysisReport, generateAnalysisReport } from '../services/analysisReportService';
+import { DuplicationProgress } from '../services/duplicateDetectionService';
 import { generateCodeImprovements, prepareImprovementUIData } from '../services/codeImprovementService';
+import { generateDuplicateRefactorings } from '../services/refactoringService';
+import { generateSarifLog, getSarifFileName } from '../services/sarifExportService';
+import { BASELINE_FILE, createBaselineFile } from '../services/baselineService';
 import { openAIService } from '../services/openaiService';
 import ApiKeyModal from './ApiKeyModal';
 
@@ -37,6 +52,13 @@ export interface DashboardProps {
   onEnableTwoFactor: () => void;
 }
 
+// 重複検出の進捗の表示名
+const DUPLICATION_PHASE_LABELS: Record<DuplicationProgress['phase'], string> = {
+  hashing: '重複検出: ブロックの特徴を計算中',
+  verifying: '重複検出: 候補を比較中',
+  indexing: 'ファイル間の重複を検出中'
+};
+
 /**
  * ダッシュボード画面コンポーネント
  * ユーザーの GitHub リポジトリ一覧、分析結果、推奨スキルを表示
@@ -68,6 +90,33 @@ export const Dashboard: React.FC<DashboardProps> = ({
   const [monthlyUsage, setMonthlyUsage] = useState<{ current: number; limit: number }>({ current: 0, limit: 50 });
   const [apiKeyStatus, setApiKeyStatus] = useState<{ hasCustomKey: boolean } | null>(null);
   const [apiError, setApiError] = useState<string | null>(null);
+  const [analysisProgress, setAnalysisProgress] = useState<AnalysisProgress | null>(null);
+  const [streamedFiles, setStreamedFiles] = useState<FileAnalysisResult[]>([]);
+  const analysisAbortRef = useRef<AbortController | null>(null);
+  const reportAbortRef = useRef<AbortController | null>(null);
+  const [selectedRef, setSelectedRef] = useState<string>('');
+  const [refOptions, setRefOptions] = useState<{ branches: string[]; tags: string[] }>({ branches: [], tags: [] });
+  const [analysisMode, setAnalysisMode] = useState<'files' | 'pullRequests'>('files');
+  const [pullRequests, setPullRequests] = useState<PullRequest[]>([]);
+  const [loadingPullRequests, setLoadingPullRequests] = useState(false);
+  const [pullRequestResult, setPullRequestResult] = useState<PullRequestAnalysisResult | null>(null);
+  const [pullRequestAnalyzing, setPullRequestAnalyzing] = useState(false);
+  const [pullRequestProgress, setPullRequestProgress] = useState<{ processed: number; total: number } | null>(null);
+  const [pullRequestError, setPullRequestError] = useState<string | null>(null);
+  const [analysisHistory, setAnalysisHistory] = useState<AnalysisRunRecord[]>([]);
+  const [loadingHistory, setLoadingHistory] = useState(false);
+  const [analysisReport, setAnalysisReport] = useState<AnalysisReport | null>(null);
+  const [reportProgress, setReportProgress] = useState<{ processed: number; total: number } | null>(null);
+  const [duplicationProgress, setDuplicationProgress] = useState<DuplicationProgress | null>(null);
+  const [reportTab, setReportTab] = useState<'overview' | ReportSection>('overview');
+
+  // 単一ファイル分析で検出した重複から共通関数の抽出を生成
+  const duplicateRefactorings = useMemo(() => {
+    const file = analysisResults?.files[0];
+    const duplication = analysisReport?.files[0]?.duplication;
+    if (!selectedFilePath || !file?.codeContent || !duplication) return [];
+    return generateDuplicateRefactorings(file.codeContent, file.language, duplication.duplicates, selectedFilePath);
+  }, [analysisResults, analysisReport, selectedFilePath]);
 
   // APIキーの状態と使用状況を取得
   useEffect(() => {
@@ -129,16 +178,60 @@ export const Dashboard: React.FC<DashboardProps> = ({
     setSelectedFilePath(null); // 選択をリセット
     setRepositoryFiles([]); // ファイル一覧をリセット
     setCurrentPath(''); // パスをリセット
-    loadRepositoryFiles(repo.full_name, ''); // ルートディレクトリのファイル一覧を取得
-    analyzeCode(repo);
+    setSelectedRef(repo.default_branch); // デフォルトブランチを選択
+    setAnalysisMode('files');
+    setPullRequests([]);
+    setPullRequestResult(null);
+    loadAnalysisHistory(repo.full_name);
+    loadRepositoryRefs(repo.full_name);
+    loadRepositoryFiles(repo.full_name, '', repo.default_branch); // ルートディレクトリのファイル一覧を取得
+    analyzeCode(repo, undefined, repo.default_branch);
+  };
+
+  // リポジトリ全体の分析履歴を取得
+  const loadAnalysisHistory = async (fullRepoName: string) => {
+    setAnalysisHistory([]);
+    setLoadingHistory(true);
+    try {
+      setAnalysisHistory(await getAnalysisHistory(user.uid, fullRepoName));
+    } finally {
+      setLoadingHistory(false);
+    }
+  };
+
+  // ブランチ・タグの一覧を取得
+  const loadRepositoryRefs = async (fullRepoName: string) => {
+    setRefOptions({ branches: [], tags: [] });
+    try {
+      const [owner, repo] = fullRepoName.split('/');
+      const [branches, tags] = await Promise.all([
+        getRepositoryBranches(owner, repo),
+        getRepositoryTags(owner, repo)
+      ]);
+      setRefOptions({
+        branches: branches.map(branch => branch.name),
+        tags: tags.map(tag => tag.name)
+      });
+    } catch (error) {
+      console.error('ブランチ・タグの取得に失敗しました:', error);
+    }
+  };
+
+  // ブランチ・タグを切り替えて再分析
+  const handleRefChange = (ref: string) => {
+    if (!selectedRepository) return;
+    setSelectedRef(ref);
+    setSelectedFilePath(null);
+    loadRepositoryFiles(selectedRepository.full_name, '', ref);
+    analyzeCode(selectedRepository, undefined, ref);
   };
 
   // リポジトリのファイル一覧を取得
-  const loadRepositoryFiles = async (fullRepoName: string, path: string) => {
+  const loadRepositoryFiles = async (fullRepoName: string, path: string, ref: string = selectedRef) => {
     setLoadingFiles(true);
     try {
       const [owner, repo] = fullRepoName.split('/');
-      const files = await getRepositoryContents(owner, repo, path);
+      const files = await getRepositoryContents(owner, repo, path, ref || undefined);
       // 隠しディレクトリ（.から始まる）とnode_modulesディレクトリを除外
       const filteredFiles = files.filter(file => 
         !(file.type === 'dir' && (file.name.startsWith('.') || file.name.includes('node_modules')))
@@ -188,17 +281,64 @@ export const Dashboard: React.FC<DashboardProps> = ({
   };
 
   // コード分析の実行
-  const analyzeCode = async (repo: Repository, filePath?: string) => {
+  const analyzeCode = async (repo: Repository, filePath?: string, ref: string = selectedRef) => {
+    // 実行中のリポジトリ全体分析とレポート作成があれば中断
+    analysisAbortRef.current?.abort();
+    reportAbortRef.current?.abort();
+    const abortController = new AbortController();
+    analysisAbortRef.current = abortController;
+    reportAbortRef.current = abortController;
+    
     setAnalyzing(true);
     setAnalysisError(null);
+    setAnalysisProgress(null);
+    setStreamedFiles([]);
+    setAnalysisReport(null);
+    setReportProgress(null);
+    setDuplicationProgress(null);
     
     try {
-      // Githubリポジトリの分析を実行
-      const results = await codeAnalysisService.analyzeRepository(repo.full_name, filePath);
+      // Githubリポジトリの分析を実行（全体分析では進捗と結果を逐次表示）
+      const results = await codeAnalysisService.analyzeRepository(repo.full_name, filePath, {
+        ref: ref || undefined,
+        signal: abortController.signal,
+        onProgress: progress => {
+          if (!abortController.signal.aborted) setAnalysisProgress(progress);
+        },
+        onFileAnalyzed: result => {
+          if (!abortController.signal.aborted) setStreamedFiles(prev => [...prev, result]);
+        }
+      });
+      
+      // 別の分析に切り替わった場合は結果を破棄
+      if (analysisAbortRef.current !== abortController) return;
       
       // 分析結果を設定
       setAnalysisResults(results);
       
+      // 分析履歴に記録（推移グラフはリポジトリ全体の分析のみ）
+      saveAnalysisRun(user.uid, results, filePath ?? null).then(record => {
+        if (record && !filePath) {
+          setAnalysisHistory(prev => [...prev, record]);
+        }
+      });
+      
+      // セキュリティ・重複・複雑度のレポートを作成（完了を待たずにタブへ反映）
+      generateAnalysisReport(results, {
+        signal: abortController.signal,
+        scanDependencies: !filePath,
+        onProgress: (processed, total) => {
+          if (!abortController.signal.aborted) setReportProgress({ processed, total });
+        },
+        onDuplicationProgress: progress => {
+          if (!abortController.signal.aborted) setDuplicationProgress(progress);
+        }
+      }).then(report => {
+        if (!abortController.signal.aborted) setAnalysisReport(report);
+      }).catch(error => {
+        console.error('分析レポートの作成に失敗しました:', error);
+      });
+      
       // 学習推奨パスの生成
       const skills = await generateLearningPath(results, user.uid);
       setRecommendedSkills(skills);
@@ -207,7 +347,7 @@ export const Dashboard: React.FC<DashboardProps> = ({
       if (results && results.files && results.files.length > 0 && filePath) {
         try {
           // 先にreadFileContent関数を呼び出してから改善提案を生成
-          const fileContent = await readFileContent(filePath);
+          const fileContent = await readFileContent(filePath, results.commitSha);
           if (fileContent && results.files[0].issues) {
             const improvements = await generateCodeImprovements(
               fileContent,
@@ -228,10 +368,78 @@ export const Dashboard: React.FC<DashboardProps> = ({
       console.error('コード分析エラー:', error);
       setAnalysisError("コード分析中にエラーが発生しました。後でもう一度お試しください。");
     } finally {
-      setAnalyzing(false);
+      if (analysisAbortRef.current === abortController) {
+        analysisAbortRef.current = null;
+        setAnalyzing(false);
+      }
+    }
+  };
+
+  // プルリクエスト一覧を表示
+  const handleShowPullRequests = async () => {
+    setAnalysisMode('pullRequests');
+    if (!selectedRepository || pullRequests.length > 0) return;
+    
+    setLoadingPullRequests(true);
+    try {
+      const [owner, repo] = selectedRepository.full_name.split('/');
+      setPullRequests(await getPullRequests(owner, repo));
+    } catch (error) {
+      console.error('プルリクエストの取得に失敗しました:', error);
+    } finally {
+      setLoadingPullRequests(false);
     }
   };
 
+  // プルリクエストの差分を分析
+  const analyzePullRequestChanges = async (pullNumber: number) => {
+    if (!selectedRepository) return;
+    
+    setPullRequestAnalyzing(true);
+    setPullRequestError(null);
+    setPullRequestProgress(null);
+    try {
+      const result = await analyzePullRequest(selectedRepository.full_name, pullNumber, {
+        onProgress: (processed, total) => setPullRequestProgress({ processed, total })
+      });
+      setPullRequestResult(result);
+    } catch (error) {
+      console.error('プルリクエスト分析エラー:', error);
+      setPullRequestError('プルリクエストの分析中にエラーが発生しました。後でもう一度お試しください。');
+    } finally {
+      setPullRequestAnalyzing(false);
+    }
+  };
+
+  // リポジトリ全体分析を中断（チェックポイントから再開可能）
+  const cancelAnalysis = () => {
+    analysisAbortRef.current?.abort();
+  };
+
+  // 分析結果を SARIF ファイルとしてダウンロード（レポート作成前はコード品質の問題のみ）
+  const downloadSarif = () => {
+    if (!analysisResults) return;
+    const sarif = generateSarifLog(analysisResults, analysisReport);
+    const url = URL.createObjectURL(new Blob([JSON.stringify(sarif, null, 2)], { type: 'application/sarif+json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = getSarifFileName(analysisResults);
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // 現在の検出結果を記録したベースラインをダウンロード（リポジトリのルートに置くと以降の分析で除外される）
+  const downloadBaseline = () => {
+    if (!analysisResults) return;
+    const baseline = createBaselineFile(analysisResults, analysisReport);
+    const url = URL.createObjectURL(new Blob([`${JSON.stringify(baseline, null, 2)}\n`], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = analysisResults.baseline?.source.split('/').pop() || BASELINE_FILE;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
   // サイドバーの切り替え
   const toggleSidebar = () => {
     setSidebarOpen(!sidebarOpen);
@@ -260,12 +468,12 @@ export const Dashboard: React.FC<DashboardProps> = ({
   };
 
   // ファイルの内容を読み取る関数を追加
-  const readFileContent = async (path?: string): Promise<string> => {
+  const readFileContent = async (path?: string, ref?: string): Promise<string> => {
     if (!path || !selectedRepository) return '';
     
     try {
       const [owner, repo] = selectedRepository.full_name.split('/');
-      return await getFileContent(owner, repo, path);
+      return await getFileContent(owner, repo, path, ref);
     } catch (error) {
       console.error('ファイル内容の読み取りに失敗しました:', error);
       return '';
@@ -443,6 +651,22 @@ export const Dashboard: React.FC<DashboardProps> = ({
                   推奨スキル
                 </button>
               </li>
+              <li>
+                <button
+                  onClick={() => selectedRepository && setActiveTab('trends')}
+                  disabled={!selectedRepository}
+                  className={`flex items-center w-full px-4 py-2 text-sm rounded-md ${
+                    !selectedRepository
+                      ? 'text-gray-400 dark:text-gray-600 cursor-not-allowed'
+                      : activeTab === 'trends'
+                      ? 'bg-blue-100 dark:bg-blue-900 text-blue-600 dark:text-blue-400'
+                      : 'text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700'
+                  }`}
+                >
+                  <LineChart className="h-5 w-5 mr-3" />
+                  スコア推移
+                </button>
+              </li>
               <li>
                 <button
                   onClick={toggleHowToUseGuide}
@@ -481,157 +705,405 @@ export const Dashboard: React.FC<DashboardProps> = ({
 
           {activeTab === 'analysis' && selectedRepository && (
             <div className="space-y-4">
-              {/* ファイル一覧表示 */}
-              <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-4">
-                <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
-                  ファイル選択
-                </h3>
-                
-                <div className="flex items-center mb-4">
-                  <button 
-                    onClick={handleGoUp}
-                    disabled={!currentPath}
-                    className={`p-2 rounded-md mr-2 ${!currentPath ? 'text-gray-400 cursor-not-allowed' : 'text-blue-600 hover:bg-blue-100 dark:text-blue-400 dark:hover:bg-blue-900/30'}`}
-                  >
-                    上の階層へ
-                  </button>
-                  <span className="text-sm text-gray-600 dark:text-gray-400">
-                    現在のパス: {currentPath || '/'}
-                  </span>
-                </div>
+              {/* 分析モードの切り替え */}
+              <div className="flex space-x-2">
+                <button
+                  onClick={() => setAnalysisMode('files')}
+                  className={`px-4 py-2 text-sm rounded-md ${
+                    analysisMode === 'files'
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-white dark:bg-gray-800 text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700'
+                  }`}
+                >
+                  ファイル分析
+                </button>
+                <button
+                  onClick={handleShowPullRequests}
+                  className={`flex items-center px-4 py-2 text-sm rounded-md ${
+                    analysisMode === 'pullRequests'
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-white dark:bg-gray-800 text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700'
+                  }`}
+                >
+                  <GitPullRequest className="h-4 w-4 mr-2" />
+                  プルリクエスト
+                </button>
+              </div>
 
-                {loadingFiles ? (
-                  <div className="py-4 text-center text-gray-600 dark:text-gray-400">
-                    <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-b-2 border-blue-500 mx-auto mb-2"></div>
-                    ファイル一覧を読み込み中...
+              {analysisMode === 'pullRequests' ? (
+                <>
+                  {/* プルリクエスト一覧 */}
+                  <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-4">
+                    <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+                      プルリクエスト選択
+                    </h3>
+                    {loadingPullRequests ? (
+                      <div className="py-4 text-center text-gray-600 dark:text-gray-400">
+                        <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-b-2 border-blue-500 mx-auto mb-2"></div>
+                        プルリクエストを読み込み中...
+                      </div>
+                    ) : pullRequests.length === 0 ? (
+                      <p className="py-4 text-center text-gray-500 dark:text-gray-400">オープンなプルリクエストがありません</p>
+                    ) : (
+                      <ul className="divide-y divide-gray-200 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-md">
+                        {pullRequests.map(pullRequest => (
+                          <li key={pullRequest.number} className="flex items-center justify-between px-4 py-2 hover:bg-gray-50 dark:hover:bg-gray-700">
+                            <div className="min-w-0">
+                              <span className="text-sm font-medium text-gray-900 dark:text-white">#{pullRequest.number} {pullRequest.title}</span>
+                              <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+                                {pullRequest.head.ref} → {pullRequest.base.ref} ・ {pullRequest.user.login}
+                              </span>
+                            </div>
+                            <button
+                              onClick={() => analyzePullRequestChanges(pullRequest.number)}
+                              disabled={pullRequestAnalyzing}
+                              className={`ml-4 text-sm text-green-600 hover:text-green-800 dark:text-green-400 dark:hover:text-green-300 ${
+                                pullRequestResult?.pullNumber === pullRequest.number ? 'font-bold' : ''
+                              }`}
+                            >
+                              {pullRequestResult?.pullNumber === pullRequest.number ? '選択中' : '分析'}
+                            </button>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
                   </div>
-                ) : (
-                  <div className="border border-gray-200 dark:border-gray-700 rounded-md overflow-hidden">
-                    <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
-                      <thead className="bg-gray-50 dark:bg-gray-900">
-                        <tr>
-                          <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">名前</th>
-                          <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">タイプ</th>
-                          <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">アクション</th>
-                        </tr>
-                      </thead>
-                      <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
-                        {repositoryFiles.length === 0 ? (
-                          <tr>
-                            <td colSpan={3} className="px-4 py-4 text-center text-gray-500 dark:text-gray-400">
-                              ファイルが見つかりません
-                            </td>
-                          </tr>
-                        ) : (
-                          repositoryFiles.map((file, index) => (
-                            <tr key={index} className="hover:bg-gray-50 dark:hover:bg-gray-700">
-                              <td className="px-4 py-2 whitespace-nowrap">
-                                <div className="flex items-center">
-                                  {file.type === 'dir' ? (
-                                    <FolderIcon className="h-5 w-5 text-yellow-500 mr-2" />
-                                  ) : (
-                                    <FileCode className="h-5 w-5 text-blue-500 mr-2" />
-                                  )}
-                                  <span className={`text-sm ${file.type === 'dir' ? 'font-medium text-gray-900 dark:text-white' : 'text-gray-600 dark:text-gray-400'}`}>
-                                    {file.name}
-                                  </span>
-                                </div>
-                              </td>
-                              <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
-                                {file.type === 'dir' ? 'ディレクトリ' : 'ファイル'}
-                              </td>
-                              <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
-                                {file.type === 'dir' ? (
-                                  <button
-                                    onClick={() => handleDirectoryClick(file.path)}
-                                    className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
-                                  >
-                                    開く
-                                  </button>
-                                ) : isAnalyzableFile(file.name) ? (
-                                  <button
-                                    onClick={() => handleFileSelect(file.path, file.name)}
-                                    className={`text-green-600 hover:text-green-800 dark:text-green-400 dark:hover:text-green-300 ${selectedFilePath === file.path ? 'font-bold' : ''}`}
-                                  >
-                                    {selectedFilePath === file.path ? '選択中' : '分析'}
-                                  </button>
-                                ) : (
-                                  <span className="text-gray-400 dark:text-gray-600">分析不可</span>
-                                )}
-                              </td>
-                            </tr>
-                          ))
-                        )}
-                      </tbody>
-                    </table>
-                  </div>
-                )}
-              </div>
 
-              {analyzing ? (
-                <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-8 text-center">
-                  <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500 mx-auto"></div>
-                  <p className="mt-4 text-gray-600 dark:text-gray-400">コードを分析中です。しばらくお待ちください...</p>
-                </div>
-              ) : analysisError ? (
-                <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-8">
-                  <div className="flex items-center justify-center text-red-500 mb-4">
-                    <AlertCircle className="h-12 w-12" />
+                  {pullRequestAnalyzing ? (
+                    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-8 text-center">
+                      <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500 mx-auto"></div>
+                      <p className="mt-4 text-gray-600 dark:text-gray-400">
+                        差分を分析中です
+                        {pullRequestProgress && pullRequestProgress.total > 0 && `（${pullRequestProgress.processed} / ${pullRequestProgress.total} ファイル）`}
+                      </p>
+                    </div>
+                  ) : pullRequestError ? (
+                    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-8">
+                      <div className="flex items-center justify-center text-red-500 mb-4">
+                        <AlertCircle className="h-12 w-12" />
+                      </div>
+                      <p className="text-center text-gray-600 dark:text-gray-400">{pullRequestError}</p>
+                    </div>
+                  ) : pullRequestResult && (
+                    <PullRequestAnalysisView key={`${pullRequestResult.pullNumber}-${pullRequestResult.timestamp}`} result={pullRequestResult} />
+                  )}
+                </>
+              ) : (
+                <>
+                {/* ファイル一覧表示 */}
+                <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-4">
+                  <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+                    <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+                      ファイル選択
+                    </h3>
+                    <div className="flex items-center space-x-2">
+                      <GitBranch className="h-4 w-4 text-gray-500 dark:text-gray-400" />
+                      <select
+                        value={selectedRef}
+                        onChange={e => handleRefChange(e.target.value)}
+                        disabled={analyzing && !analysisProgress}
+                        className="text-sm border border-gray-300 dark:border-gray-600 rounded-md px-2 py-1 bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300"
+                        aria-label="ブランチ・タグを選択"
+                      >
+                        <optgroup label="ブランチ">
+                          {(refOptions.branches.includes(selectedRef) || refOptions.tags.includes(selectedRef)
+                            ? refOptions.branches
+                            : [selectedRef, ...refOptions.branches]
+                          ).map(branch => (
+                            <option key={`branch-${branch}`} value={branch}>{branch}</option>
+                          ))}
+                        </optgroup>
+                        {refOptions.tags.length > 0 && (
+                          <optgroup label="タグ">
+                            {refOptions.tags.map(tag => (
+                              <option key={`tag-${tag}`} value={tag}>{tag}</option>
+                            ))}
+                          </optgroup>
+                        )}
+                      </select>
+                      {analysisResults?.commitSha && (
+                        <span
+                          className="text-xs font-mono text-gray-500 dark:text-gray-400"
+                          title={`分析したコミット: ${analysisResults.commitSha}`}
+                        >
+                          @{analysisResults.commitSha.substring(0, 7)}
+                        </span>
+                      )}
+                    </div>
                   </div>
-                  <h3 className="text-xl font-semibold text-center text-red-600 dark:text-red-400 mb-2">分析エラー</h3>
-                  <p className="text-center text-gray-600 dark:text-gray-400">{analysisError}</p>
-                  <div className="mt-6 text-center">
-                    <button
-                      onClick={() => selectedRepository && analyzeCode(selectedRepository, selectedFilePath || undefined)}
-                      className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none"
+                
+                  <div className="flex items-center mb-4">
+                    <button 
+                      onClick={handleGoUp}
+                      disabled={!currentPath}
+                      className={`p-2 rounded-md mr-2 ${!currentPath ? 'text-gray-400 cursor-not-allowed' : 'text-blue-600 hover:bg-blue-100 dark:text-blue-400 dark:hover:bg-blue-900/30'}`}
                     >
-                      再試行
+                      上の階層へ
                     </button>
+                    <span className="text-sm text-gray-600 dark:text-gray-400">
+                      現在のパス: {currentPath || '/'}
+                    </span>
                   </div>
-                </div>
-              ) : analysisResults ? (
-                <div className="space-y-6">
-                  {/* コード分析結果 */}
-                  <div>
-                    {analysisResults.files.map((fileResult, index) => (
-                      <CodeAnalysisView 
-                        key={index} 
-                        analysisResult={fileResult}
-                        fileName={fileResult.fileName}
-                      />
-                    ))}
-                  </div>
-                  
-                  {/* コード改善提案 */}
-                  {codeImprovements && codeImprovements.length > 0 && (
-                    <div>
-                      <CodeImprovementView
-                        improvements={codeImprovements}
-                        fileName={selectedFilePath ?? ''}
-                      />
+
+                  {loadingFiles ? (
+                    <div className="py-4 text-center text-gray-600 dark:text-gray-400">
+                      <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-b-2 border-blue-500 mx-auto mb-2"></div>
+                      ファイル一覧を読み込み中...
+                    </div>
+                  ) : (
+                    <div className="border border-gray-200 dark:border-gray-700 rounded-md overflow-hidden">
+                      <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                        <thead className="bg-gray-50 dark:bg-gray-900">
+                          <tr>
+                            <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">名前</th>
+                            <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">タイプ</th>
+                            <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">アクション</th>
+                          </tr>
+                        </thead>
+                        <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+                          {repositoryFiles.length === 0 ? (
+                            <tr>
+                              <td colSpan={3} className="px-4 py-4 text-center text-gray-500 dark:text-gray-400">
+                                ファイルが見つかりません
+                              </td>
+                            </tr>
+                          ) : (
+                            repositoryFiles.map((file, index) => (
+                              <tr key={index} className="hover:bg-gray-50 dark:hover:bg-gray-700">
+                                <td className="px-4 py-2 whitespace-nowrap">
+                                  <div className="flex items-center">
+                                    {file.type === 'dir' ? (
+                                      <FolderIcon className="h-5 w-5 text-yellow-500 mr-2" />
+                                    ) : (
+                                      <FileCode className="h-5 w-5 text-blue-500 mr-2" />
+                                    )}
+                                    <span className={`text-sm ${file.type === 'dir' ? 'font-medium text-gray-900 dark:text-white' : 'text-gray-600 dark:text-gray-400'}`}>
+                                      {file.name}
+                                    </span>
+                                  </div>
+                                </td>
+                                <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                                  {file.type === 'dir' ? 'ディレクトリ' : 'ファイル'}
+                                </td>
+                                <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                                  {file.type === 'dir' ? (
+                                    <button
+                                      onClick={() => handleDirectoryClick(file.path)}
+                                      className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+                                    >
+                                      開く
+                                    </button>
+                                  ) : isAnalyzableFile(file.name) ? (
+                                    <button
+                                      onClick={() => handleFileSelect(file.path, file.name)}
+                                      className={`text-green-600 hover:text-green-800 dark:text-green-400 dark:hover:text-green-300 ${selectedFilePath === file.path ? 'font-bold' : ''}`}
+                                    >
+                                      {selectedFilePath === file.path ? '選択中' : '分析'}
+                                    </button>
+                                  ) : (
+                                    <span className="text-gray-400 dark:text-gray-600">分析不可</span>
+                                  )}
+                                </td>
+                              </tr>
+                            ))
+                          )}
+                        </tbody>
+                      </table>
                     </div>
                   )}
                 </div>
-              ) : (
-                <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-8 text-center">
-                  <div className="flex items-center justify-center text-yellow-500 mb-4">
-                    <AlertCircle className="h-12 w-12" />
+
+                {analyzing && analysisProgress ? (
+                  <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
+                    <div className="flex items-center justify-between mb-2">
+                      <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+                        リポジトリ全体を分析中{analysisProgress.resumed && '（前回の続きから再開）'}
+                      </h3>
+                      <button
+                        onClick={cancelAnalysis}
+                        className="px-3 py-1 text-sm text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700"
+                      >
+                        中断
+                      </button>
+                    </div>
+                    <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2.5">
+                      <div
+                        className="bg-blue-600 h-2.5 rounded-full transition-all"
+                        style={{ width: `${analysisProgress.totalFiles > 0 ? (analysisProgress.processedFiles / analysisProgress.totalFiles) * 100 : 0}%` }}
+                      ></div>
+                    </div>
+                    <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">
+                      {analysisProgress.processedFiles} / {analysisProgress.totalFiles} ファイル
+                      {analysisProgress.failedFiles > 0 && `（失敗: ${analysisProgress.failedFiles}）`}
+                      {analysisProgress.currentFile && ` - ${analysisProgress.currentFile}`}
+                    </p>
+                    {streamedFiles.length > 0 && (
+                      <ul className="mt-4 max-h-48 overflow-y-auto divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+                        {streamedFiles.slice().reverse().map(file => (
+                          <li key={file.fileName} className="flex justify-between py-1 text-gray-700 dark:text-gray-300">
+                            <span className="truncate">{file.fileName}</span>
+                            <span className="ml-4 text-gray-500 dark:text-gray-400 whitespace-nowrap">問題 {file.issues.length}件</span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                ) : analyzing ? (
+                  <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-8 text-center">
+                    <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500 mx-auto"></div>
+                    <p className="mt-4 text-gray-600 dark:text-gray-400">コードを分析中です。しばらくお待ちください...</p>
                   </div>
-                  <h3 className="text-xl font-semibold text-center text-gray-900 dark:text-white mb-2">分析データがありません</h3>
-                  <p className="text-center text-gray-600 dark:text-gray-400">
-                    {selectedFilePath ? '分析を開始するには「再試行」をクリックしてください。' : '上のファイル一覧から分析するファイルを選択してください。'}
-                  </p>
-                  {selectedFilePath && (
+                ) : analysisError ? (
+                  <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-8">
+                    <div className="flex items-center justify-center text-red-500 mb-4">
+                      <AlertCircle className="h-12 w-12" />
+                    </div>
+                    <h3 className="text-xl font-semibold text-center text-red-600 dark:text-red-400 mb-2">分析エラー</h3>
+                    <p className="text-center text-gray-600 dark:text-gray-400">{analysisError}</p>
                     <div className="mt-6 text-center">
                       <button
-                        onClick={() => selectedRepository && analyzeCode(selectedRepository, selectedFilePath)}
+                        onClick={() => selectedRepository && analyzeCode(selectedRepository, selectedFilePath || undefined)}
                         className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none"
                       >
                         再試行
                       </button>
                     </div>
-                  )}
-                </div>
+                  </div>
+                ) : analysisResults ? (
+                  <div className="space-y-6">
+                    {/* 中断された全体分析の再開 */}
+                    {analysisResults.progress?.pausedReason && (
+                      <div className="flex items-center justify-between bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg p-4">
+                        <div className="flex items-center text-yellow-800 dark:text-yellow-300">
+                          <PauseCircle className="h-5 w-5 mr-2 flex-shrink-0" />
+                          <span className="text-sm">
+                            分析を中断しました（{analysisResults.progress.processedFiles} / {analysisResults.progress.totalFiles} ファイル）: {analysisResults.progress.pausedReason}
+                          </span>
+                        </div>
+                        <button
+                          onClick={() => selectedRepository && analyzeCode(selectedRepository)}
+                          className="ml-4 px-3 py-1 text-sm bg-yellow-600 text-white rounded-md hover:bg-yellow-700 focus:outline-none"
+                        >
+                          再開
+                        </button>
+                      </div>
+                    )}
+                  
+                    {/* リポジトリの設定ファイル（.codecoach.yml） */}
+                    {analysisResults.config && <RepositoryConfigPanel config={analysisResults.config} />}
+                  
+                    {/* 抑制コメント・ベースラインで除いた検出結果 */}
+                    <FindingExclusionPanel result={analysisResults} report={analysisReport} />
+                  
+                    {/* 分析結果のタブ */}
+                    <div className="flex space-x-1 border-b border-gray-200 dark:border-gray-700">
+                      {([
+                        { id: 'overview', label: '概要' },
+                        { id: 'security', label: `セキュリティ${analysisReport ? `（${analysisReport.summary.vulnerabilities.total}）` : ''}` },
+                        { id: 'duplication', label: `重複${analysisReport ? `（${analysisReport.summary.duplicateBlocks + analysisReport.summary.crossFileDuplicates}）` : ''}` },
+                        { id: 'complexity', label: '複雑度' }
+                      ] as { id: 'overview' | ReportSection; label: string }[]).map(tab => (
+                        <button
+                          key={tab.id}
+                          onClick={() => setReportTab(tab.id)}
+                          className={`px-4 py-2 text-sm -mb-px border-b-2 ${
+                            reportTab === tab.id
+                              ? 'border-blue-600 text-blue-600 dark:text-blue-400'
+                              : 'border-transparent text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200'
+                          }`}
+                        >
+                          {tab.label}
+                        </button>
+                      ))}
+                      <button
+                        onClick={downloadSarif}
+                        className="ml-auto flex items-center px-3 py-1 mb-1 text-sm text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200"
+                        title={analysisReport ? 'すべての分析結果をSARIF 2.1.0形式で保存' : 'レポート作成中のため、コード品質の問題のみを保存します'}
+                      >
+                        <Download className="h-4 w-4 mr-1" />
+                        SARIF
+                      </button>
+                      <button
+                        onClick={downloadBaseline}
+                        disabled={!analysisReport}
+                        className="flex items-center px-3 py-1 mb-1 text-sm text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200 disabled:opacity-50"
+                        title={analysisReport
+                          ? `現在の検出結果を既知のものとして記録します（リポジトリのルートに ${BASELINE_FILE} として置くと、以降は新しい検出結果だけを表示します）`
+                          : 'レポートの作成後にベースラインを作成できます'}
+                      >
+                        <ShieldCheck className="h-4 w-4 mr-1" />
+                        ベースライン
+                      </button>
+                    </div>
+                  
+                    {reportTab !== 'overview' && (
+                      analysisReport ? (
+                        <AnalysisReportView report={analysisReport} section={reportTab} />
+                      ) : (
+                        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-8 text-center">
+                          <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-blue-500 mx-auto"></div>
+                          <p className="mt-4 text-gray-600 dark:text-gray-400">
+                            レポートを作成中です
+                            {reportProgress && reportProgress.total > 0 && `（${reportProgress.processed} / ${reportProgress.total} ファイル）`}
+                          </p>
+                          {duplicationProgress && duplicationProgress.total > 0 && duplicationProgress.processed < duplicationProgress.total && (
+                            <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                              {DUPLICATION_PHASE_LABELS[duplicationProgress.phase]}: {duplicationProgress.processed} / {duplicationProgress.total}
+                            </p>
+                          )}
+                        </div>
+                      )
+                    )}
+                  
+                    {reportTab === 'overview' && (
+                    <>
+                    {/* コード分析結果 */}
+                    <div>
+                      {analysisResults.files.map((fileResult, index) => (
+                        <CodeAnalysisView 
+                          key={index} 
+                          analysisResult={fileResult}
+                          fileName={fileResult.fileName}
+                        />
+                      ))}
+                    </div>
+                  
+                    {/* コード改善提案 */}
+                    {((codeImprovements && codeImprovements.length > 0) || duplicateRefactorings.length > 0) && (
+                      <div>
+                        <CodeImprovementView
+                          key={`${analysisResults.timestamp}-${codeImprovements.length}`}
+                          improvements={codeImprovements}
+                          fileName={selectedFilePath ?? ''}
+                          refactorings={duplicateRefactorings}
+                        />
+                      </div>
+                    )}
+                    </>
+                    )}
+                  </div>
+                ) : (
+                  <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-8 text-center">
+                    <div className="flex items-center justify-center text-yellow-500 mb-4">
+                      <AlertCircle className="h-12 w-12" />
+                    </div>
+                    <h3 className="text-xl font-semibold text-center text-gray-900 dark:text-white mb-2">分析データがありません</h3>
+                    <p className="text-center text-gray-600 dark:text-gray-400">
+                      {selectedFilePath ? '分析を開始するには「再試行」をクリックしてください。' : '上のファイル一覧から分析するファイルを選択してください。'}
+                    </p>
+                    {selectedFilePath && (
+                      <div className="mt-6 text-center">
+                        <button
+                          onClick={() => selectedRepository && analyzeCode(selectedRepository, selectedFilePath)}
+                          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none"
+                        >
+                          再試行
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                )}
+                </>
               )}
             </div>
           )}
@@ -643,6 +1115,10 @@ export const Dashboard: React.FC<DashboardProps> = ({
               analysisResult={analysisResults}
             />
           )}
+
+          {activeTab === 'trends' && selectedRepository && (
+            <ScoreTrendView runs={analysisHistory} loading={loadingHistory} />
+          )}
         </main>
       </div>
       
@@ -0,0 +1,51 @@
+import React from 'react';
+import { EyeOff } from 'lucide-react';
+import { AnalysisReport, FindingCounts } from '../services/analysisReportService';
+import { RepositoryAnalysisResult } from '../services/codeAnalysisService';
+
+interface FindingExclusionPanelProps {
+  result: RepositoryAnalysisResult;
+  report: AnalysisReport | null;   // レポート作成前はコード品質の問題のみ
+}
+
+/**
+ * 抑制コメント・ベースラインで除いた検出結果の件数の表示コンポーネント
+ * 除いた件数は各タブの件数に含まれないため、分析ごとに分けて表示します
+ */
+const FindingExclusionPanel: React.FC<FindingExclusionPanelProps> = ({ result, report }) => {
+  const countIssues = (key: 'suppressedIssues' | 'baselinedIssues') =>
+    result.files.reduce((sum, file) => sum + (file[key] || 0), 0);
+  const suppressed: Partial<FindingCounts> = report ? report.summary.suppressed : { issues: countIssues('suppressedIssues') };
+  const baselined: Partial<FindingCounts> = report ? report.summary.baselined : { issues: countIssues('baselinedIssues') };
+
+  const total = (counts: Partial<FindingCounts>) =>
+    (counts.vulnerabilities || 0) + (counts.issues || 0) + (counts.duplicates || 0);
+  if (!result.baseline && total(suppressed) === 0) return null;
+
+  const formatCounts = (counts: Partial<FindingCounts>) =>
+    [
+      counts.vulnerabilities !== undefined && `脆弱性 ${counts.vulnerabilities}件`,
+      `コード品質の問題 ${counts.issues || 0}件`,
+      counts.duplicates !== undefined && `重複 ${counts.duplicates}件`
+    ].filter(Boolean).join('・');
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-4 text-sm text-gray-600 dark:text-gray-400 space-y-1">
+      <div className="flex items-center font-semibold text-gray-900 dark:text-white">
+        <EyeOff className="h-4 w-4 mr-2" />
+        表示から除いた検出結果
+      </div>
+      <div>
+        抑制コメント（codecoach-ignore）: {formatCounts(suppressed)}
+      </div>
+      {result.baseline && (
+        <div>
+          ベースライン（<code className="font-mono text-xs">{result.baseline.source}</code>・{result.baseline.entries.length}件を記録
+          {result.baseline.generatedAt && `・${new Date(result.baseline.generatedAt).toLocaleDateString('ja-JP')}作成`}）: {formatCounts(baselined)}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FindingExclusionPanel;
@@ -0,0 +1,212 @@
+import React, { useState, useEffect } from 'react';
+import { Bot } from 'lucide-react';
+import {
+  LLM_FEATURES,
+  LLM_PROVIDERS,
+  LlmFeature,
+  LlmProviderId,
+  LlmSettings,
+  getCompatibleApiKey,
+  getLlmSettings,
+  saveLlmSettings,
+  setCompatibleApiKey
+} from '../services/llmProviderService';
+import { openAIService } from '../services/openaiService';
+
+interface LlmSettingsPanelProps {
+  onSaved?: () => void;
+}
+
+const inputClassName = 'w-full px-3 py-1.5 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm';
+
+/**
+ * 機能ごとのAIプロバイダー・モデルの設定コンポーネント
+ */
+const LlmSettingsPanel: React.FC<LlmSettingsPanelProps> = ({ onSaved }) => {
+  const [settings, setSettings] = useState<LlmSettings | null>(null);
+  // APIキーは設定と分けて扱う（Anthropic のキーは Cloud Functions で暗号化して保存、OpenAI 互換のキーは保存しない）
+  const [compatibleKey, setCompatibleKey] = useState(getCompatibleApiKey() || '');
+  const [anthropicKey, setAnthropicKey] = useState('');
+  const [hasAnthropicKey, setHasAnthropicKey] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      setSettings(await getLlmSettings());
+      const status = await openAIService.getUserApiKeyStatus();
+      setHasAnthropicKey(status?.hasAnthropicKey === true);
+    };
+    fetchSettings();
+  }, []);
+
+  if (!settings) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">AIプロバイダーの設定を読み込み中...</p>;
+  }
+
+  const updateFeature = (feature: LlmFeature, provider: LlmProviderId, model: string) => {
+    setMessage(null);
+    setSettings({ ...settings, features: { ...settings.features, [feature]: { provider, model } } });
+  };
+
+  const usedProviders = new Set(LLM_FEATURES.map(({ id }) => settings.features[id].provider));
+
+  // Anthropic のキーを保存（空文字で削除）
+  const saveAnthropicKey = async (apiKey: string): Promise<boolean> => {
+    if (apiKey && !apiKey.startsWith('sk-ant-')) {
+      setMessage({ type: 'error', text: '有効なAnthropic APIキーを入力してください（sk-ant-で始まります）' });
+      return false;
+    }
+    if (!(await openAIService.saveCustomApiKey(apiKey, 'anthropic'))) {
+      setMessage({ type: 'error', text: `Anthropic APIキーの${apiKey ? '保存' : '削除'}に失敗しました。再度お試しください。` });
+      return false;
+    }
+    setHasAnthropicKey(Boolean(apiKey));
+    setAnthropicKey('');
+    return true;
+  };
+
+  const handleRemoveAnthropicKey = async () => {
+    setIsSaving(true);
+    setMessage(null);
+    if (await saveAnthropicKey('')) {
+      setMessage({ type: 'success', text: 'Anthropic APIキーを削除しました' });
+    }
+    setIsSaving(false);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setMessage(null);
+    setCompatibleApiKey(compatibleKey);
+    if (anthropicKey.trim() && !(await saveAnthropicKey(anthropicKey.trim()))) {
+      setIsSaving(false);
+      return;
+    }
+    const success = await saveLlmSettings(settings);
+    setIsSaving(false);
+    if (success) {
+      setMessage({ type: 'success', text: 'AIプロバイダーの設定を保存しました' });
+      onSaved?.();
+    } else {
+      setMessage({ type: 'error', text: '設定の保存に失敗しました。再度お試しください。' });
+    }
+  };
+
+  return (
+    <div className="border-t border-gray-200 dark:border-gray-700 pt-4 mt-6 space-y-3">
+      <h3 className="flex items-center text-sm font-semibold text-gray-900 dark:text-white">
+        <Bot className="h-4 w-4 mr-2" />
+        AIプロバイダー
+      </h3>
+
+      {LLM_FEATURES.map(({ id, label }) => {
+        const feature = settings.features[id];
+        const provider = LLM_PROVIDERS[feature.provider];
+        return (
+          <div key={id} className="grid grid-cols-3 gap-2 items-center">
+            <span className="text-sm text-gray-700 dark:text-gray-300">{label}</span>
+            <select
+              className={inputClassName}
+              value={feature.provider}
+              onChange={(e) => {
+                const next = e.target.value as LlmProviderId;
+                updateFeature(id, next, LLM_PROVIDERS[next].defaultModel);
+              }}
+            >
+              {Object.values(LLM_PROVIDERS).map(candidate => (
+                <option key={candidate.id} value={candidate.id}>{candidate.label}</option>
+              ))}
+            </select>
+            <input
+              className={inputClassName}
+              list={`llm-models-${id}`}
+              value={feature.model}
+              placeholder={provider.defaultModel}
+              onChange={(e) => updateFeature(id, feature.provider, e.target.value)}
+            />
+            <datalist id={`llm-models-${id}`}>
+              {provider.models.map(model => <option key={model} value={model} />)}
+            </datalist>
+          </div>
+        );
+      })}
+
+      {usedProviders.has('openai-compatible') && (
+        <>
+          <label className="block text-xs text-gray-600 dark:text-gray-400">
+            OpenAI互換のエンドポイント（Ollama: http://localhost:11434/v1・llama.cpp: http://localhost:8080/v1）
+            <input
+              className={`${inputClassName} mt-1`}
+              value={settings.baseUrl}
+              onChange={(e) => setSettings({ ...settings, baseUrl: e.target.value })}
+            />
+          </label>
+          <label className="block text-xs text-gray-600 dark:text-gray-400">
+            エンドポイントのAPIキー（ローカルのサーバーでは不要・保存されず、ページを閉じると消去されます）
+            <input
+              type="password"
+              className={`${inputClassName} mt-1`}
+              value={compatibleKey}
+              onChange={(e) => {
+                setMessage(null);
+                setCompatibleKey(e.target.value);
+              }}
+            />
+          </label>
+        </>
+      )}
+
+      {usedProviders.has('anthropic') && (
+        <div>
+          <label className="block text-xs text-gray-600 dark:text-gray-400">
+            {hasAnthropicKey ? '新しいAnthropic APIキー（保存済みのキーを置き換えます）' : 'Anthropic APIキー'}
+            <input
+              type="password"
+              className={`${inputClassName} mt-1`}
+              placeholder="sk-ant-..."
+              value={anthropicKey}
+              onChange={(e) => {
+                setMessage(null);
+                setAnthropicKey(e.target.value);
+              }}
+            />
+          </label>
+          {hasAnthropicKey && (
+            <button
+              type="button"
+              className="mt-1 text-xs text-red-600 dark:text-red-400 hover:underline disabled:opacity-50"
+              onClick={handleRemoveAnthropicKey}
+              disabled={isSaving}
+            >
+              保存済みのAnthropic APIキーを削除
+            </button>
+          )}
+        </div>
+      )}
+
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        OpenAI（カスタムAPIキーなし）と Gemini は今月の無料利用枠を使用します。
+      </p>
+
+      {message && (
+        <p className={`text-sm ${message.type === 'success' ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+          {message.text}
+        </p>
+      )}
+
+      <div className="flex justify-end">
+        <button
+          type="button"
+          className="px-4 py-2 rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 text-sm"
+          onClick={handleSave}
+          disabled={isSaving}
+        >
+          {isSaving ? '保存中...' : 'プロバイダー設定を保存'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default LlmSettingsPanel;
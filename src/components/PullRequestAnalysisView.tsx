@@ -0,0 +1,401 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronUp, AlertTriangle, Shield, Copy, ExternalLink, GitPullRequest, Eye, Send, Loader } from 'lucide-react';
+import {
+  PullRequestAnalysisResult,
+  PullRequestFileAnalysis,
+  SkippedReason
+} from '../services/pullRequestAnalysisService';
+import {
+  PublishResult,
+  ReviewPublication,
+  prepareReviewPublication,
+  publishReview
+} from '../services/reviewPublisherService';
+
+interface PullRequestAnalysisViewProps {
+  result: PullRequestAnalysisResult;
+}
+
+// 差分の行に表示する指摘
+interface LineFinding {
+  kind: 'issue' | 'security' | 'duplicate';
+  severity: string;
+  message: string;
+  suggestion?: string;
+}
+
+// 対象外ファイルの理由
+const SKIPPED_REASON_LABELS: Record<SkippedReason, string> = {
+  removed: '削除',
+  unsupported: '未対応の言語',
+  excluded: '設定ファイルで分析対象外',
+  no_patch: '差分なし（バイナリまたは大きすぎる差分）',
+  fetch_failed: '内容の取得に失敗'
+};
+
+// チェック結果の送信方法
+const CHECK_DELIVERY_LABELS: Record<PublishResult['checkDelivery'], string> = {
+  check_run: 'チェックランを作成しました',
+  commit_status: 'チェックランを作成できないため、コミットステータスとして送信しました',
+  failed: 'チェック結果の送信に失敗しました',
+  not_sent: 'チェック結果は送信していません'
+};
+
+/**
+ * 変更後の行番号ごとに指摘をまとめる
+ * 重複は範囲内の最初の変更行に表示
+ */
+const groupFindingsByLine = (file: PullRequestFileAnalysis): Map<number, LineFinding[]> => {
+  const findings = new Map<number, LineFinding[]>();
+  const add = (line: number, finding: LineFinding) => {
+    findings.set(line, [...(findings.get(line) || []), finding]);
+  };
+
+  file.issues.forEach(issue => add(issue.line, {
+    kind: 'issue',
+    severity: issue.severity,
+    message: issue.message,
+    suggestion: issue.suggestion
+  }));
+
+  file.vulnerabilities.forEach(vulnerability => add(vulnerability.line, {
+    kind: 'security',
+    severity: vulnerability.severity,
+    message: vulnerability.message,
+    suggestion: vulnerability.recommendation
+  }));
+
+  const addedLines = file.hunks.flatMap(hunk =>
+    hunk.lines.filter(line => line.type === 'added').map(line => line.newLine as number)
+  );
+  file.duplicates.forEach(duplicate => {
+    const line = addedLines.find(added =>
+      (added >= duplicate.startLineA && added <= duplicate.endLineA) ||
+      (added >= duplicate.startLineB && added <= duplicate.endLineB)
+    );
+    if (line === undefined) return;
+    add(line, {
+      kind: 'duplicate',
+      severity: duplicate.impact,
+      message: `${duplicate.startLineA}-${duplicate.endLineA}行目と${duplicate.startLineB}-${duplicate.endLineB}行目が重複しています（類似度 ${Math.round(duplicate.similarity * 100)}%）。`
+    });
+  });
+
+  return findings;
+};
+
+// 指摘の種類ごとの表示
+const getFindingStyle = (kind: LineFinding['kind']) => {
+  switch (kind) {
+    case 'security':
+      return {
+        icon: <Shield className="h-4 w-4" />,
+        className: 'bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300',
+        label: 'セキュリティ'
+      };
+    case 'duplicate':
+      return {
+        icon: <Copy className="h-4 w-4" />,
+        className: 'bg-purple-50 dark:bg-purple-900/20 text-purple-700 dark:text-purple-300',
+        label: '重複'
+      };
+    case 'issue':
+    default:
+      return {
+        icon: <AlertTriangle className="h-4 w-4" />,
+        className: 'bg-yellow-50 dark:bg-yellow-900/20 text-yellow-800 dark:text-yellow-300',
+        label: 'コード品質'
+      };
+  }
+};
+
+/**
+ * プルリクエスト分析結果の表示コンポーネント
+ * 差分上の追加行に問題・脆弱性・重複を表示します
+ */
+const PullRequestAnalysisView: React.FC<PullRequestAnalysisViewProps> = ({ result }) => {
+  // 指摘のあるファイルは最初から展開
+  const [expandedFiles, setExpandedFiles] = useState<Set<string>>(() => new Set(
+    result.files
+      .filter(file => file.issues.length + file.vulnerabilities.length + file.duplicates.length > 0)
+      .map(file => file.fileName)
+  ));
+
+  // GitHubへの投稿（ドライランでプレビューしてから送信）
+  const [publication, setPublication] = useState<ReviewPublication | null>(null);
+  const [publishResult, setPublishResult] = useState<PublishResult | null>(null);
+  const [publishing, setPublishing] = useState(false);
+  const [publishError, setPublishError] = useState<string | null>(null);
+
+  const previewPublication = async () => {
+    setPublishing(true);
+    setPublishError(null);
+    setPublishResult(null);
+    try {
+      const prepared = await prepareReviewPublication(result);
+      const preview = await publishReview(prepared, { dryRun: true });
+      setPublication(preview.publication);
+    } catch (error) {
+      console.error('Failed to prepare review publication:', error);
+      setPublishError(error instanceof Error ? error.message : '投稿内容の作成に失敗しました');
+    } finally {
+      setPublishing(false);
+    }
+  };
+
+  const submitPublication = async () => {
+    if (!publication) return;
+    setPublishing(true);
+    setPublishError(null);
+    try {
+      setPublishResult(await publishReview(publication));
+    } catch (error) {
+      console.error('Failed to publish review:', error);
+      setPublishError(error instanceof Error ? error.message : 'GitHubへの投稿に失敗しました');
+    } finally {
+      setPublishing(false);
+    }
+  };
+
+  const toggleFile = (fileName: string) => {
+    setExpandedFiles(prev => {
+      const next = new Set(prev);
+      if (next.has(fileName)) {
+        next.delete(fileName);
+      } else {
+        next.add(fileName);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 shadow-md rounded-lg overflow-hidden">
+      <div className="p-4 border-b border-gray-200 dark:border-gray-700">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white flex items-center">
+            <GitPullRequest className="h-5 w-5 mr-2 text-green-600 dark:text-green-400" />
+            #{result.pullNumber} {result.title}
+          </h3>
+          <a
+            href={result.htmlUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-center text-sm text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            GitHubで開く
+            <ExternalLink className="h-4 w-4 ml-1" />
+          </a>
+        </div>
+        <p className="mt-1 text-xs font-mono text-gray-500 dark:text-gray-400">
+          {result.baseSha.substring(0, 7)}...{result.headSha.substring(0, 7)}
+        </p>
+      </div>
+
+      {/* 概要 */}
+      <div className="p-4 grid grid-cols-2 md:grid-cols-5 gap-4 border-b border-gray-200 dark:border-gray-700">
+        <div className="bg-gray-50 dark:bg-gray-700 p-3 rounded-lg">
+          <div className="text-sm text-gray-500 dark:text-gray-400">分析ファイル</div>
+          <div className="text-xl font-semibold text-gray-900 dark:text-white">{result.summary.analyzedFiles}</div>
+        </div>
+        <div className="bg-gray-50 dark:bg-gray-700 p-3 rounded-lg">
+          <div className="text-sm text-gray-500 dark:text-gray-400">変更行</div>
+          <div className="text-xl font-semibold text-gray-900 dark:text-white">{result.summary.changedLines}</div>
+        </div>
+        <div className="bg-gray-50 dark:bg-gray-700 p-3 rounded-lg">
+          <div className="text-sm text-gray-500 dark:text-gray-400">コード品質の問題</div>
+          <div className="text-xl font-semibold text-yellow-600 dark:text-yellow-400">{result.summary.issues}</div>
+        </div>
+        <div className="bg-gray-50 dark:bg-gray-700 p-3 rounded-lg">
+          <div className="text-sm text-gray-500 dark:text-gray-400">脆弱性</div>
+          <div className="text-xl font-semibold text-red-600 dark:text-red-400">{result.summary.vulnerabilities}</div>
+        </div>
+        <div className="bg-gray-50 dark:bg-gray-700 p-3 rounded-lg">
+          <div className="text-sm text-gray-500 dark:text-gray-400">重複</div>
+          <div className="text-xl font-semibold text-purple-600 dark:text-purple-400">{result.summary.duplicates}</div>
+        </div>
+      </div>
+      {result.summary.baselined > 0 && (
+        <div className="px-4 py-2 text-sm text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+          変更行の検出結果のうち、ベースラインに記録済みの{result.summary.baselined}件は表示していません
+        </div>
+      )}
+
+      {/* GitHubへの投稿 */}
+      <div className="p-4 border-b border-gray-200 dark:border-gray-700">
+        <div className="flex items-center justify-between">
+          <div className="text-sm text-gray-700 dark:text-gray-300">
+            指摘をインラインレビューコメントとチェック結果としてGitHubに投稿します。
+          </div>
+          <div className="flex space-x-2">
+            <button
+              className="flex items-center px-3 py-1.5 text-sm rounded-md bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50"
+              onClick={previewPublication}
+              disabled={publishing}
+            >
+              {publishing && !publication ? <Loader className="h-4 w-4 mr-1 animate-spin" /> : <Eye className="h-4 w-4 mr-1" />}
+              プレビュー
+            </button>
+            <button
+              className="flex items-center px-3 py-1.5 text-sm rounded-md bg-green-600 text-white hover:bg-green-700 disabled:opacity-50"
+              onClick={submitPublication}
+              disabled={!publication || publishing || publishResult !== null}
+            >
+              {publishing && publication ? <Loader className="h-4 w-4 mr-1 animate-spin" /> : <Send className="h-4 w-4 mr-1" />}
+              GitHubに投稿
+            </button>
+          </div>
+        </div>
+
+        {publishError && (
+          <div className="mt-3 p-2 rounded-md bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-300">
+            {publishError}
+          </div>
+        )}
+
+        {publishResult && (
+          <div className="mt-3 p-2 rounded-md bg-green-50 dark:bg-green-900/20 text-sm text-green-700 dark:text-green-300">
+            {publishResult.postedComments}件のコメントを投稿しました。{CHECK_DELIVERY_LABELS[publishResult.checkDelivery]}。
+            {publishResult.reviewUrl && (
+              <a href={publishResult.reviewUrl} target="_blank" rel="noopener noreferrer" className="ml-2 underline">
+                レビューを開く
+              </a>
+            )}
+          </div>
+        )}
+
+        {publication && (
+          <div className="mt-3 space-y-3">
+            <div className="text-xs text-gray-500 dark:text-gray-400">
+              {publication.checkRun.name}: {publication.checkRun.title}（{publication.checkRun.conclusion}）・
+              コメント {publication.comments.length}件
+              {publication.skipped.length > 0 && `・投稿対象外 ${publication.skipped.length}件`}
+            </div>
+            {publication.comments.map((comment, index) => (
+              <div key={index} className="border border-gray-200 dark:border-gray-700 rounded-md">
+                <div className="px-3 py-1 bg-gray-50 dark:bg-gray-700 text-xs font-mono text-gray-600 dark:text-gray-300">
+                  {comment.path}:{comment.startLine !== undefined ? `${comment.startLine}-` : ''}{comment.line}
+                  {comment.hasSuggestion && <span className="ml-2 text-green-600 dark:text-green-400">suggestion</span>}
+                </div>
+                <pre className="px-3 py-2 text-xs whitespace-pre-wrap text-gray-800 dark:text-gray-200">{comment.body}</pre>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* ファイルごとの差分 */}
+      {result.files.map(file => {
+        const findings = groupFindingsByLine(file);
+        const findingCount = file.issues.length + file.vulnerabilities.length + file.duplicates.length;
+        const expanded = expandedFiles.has(file.fileName);
+
+        return (
+          <div key={file.fileName} className="border-b border-gray-200 dark:border-gray-700">
+            <button
+              className="w-full p-4 flex justify-between items-center bg-gray-50 dark:bg-gray-700 hover:bg-gray-100 dark:hover:bg-gray-600 focus:outline-none transition-colors"
+              onClick={() => toggleFile(file.fileName)}
+            >
+              <div className="flex items-center min-w-0">
+                <span className="font-mono text-sm text-gray-900 dark:text-white truncate">{file.fileName}</span>
+                <span className="ml-3 text-xs text-green-600 dark:text-green-400">+{file.additions}</span>
+                <span className="ml-1 text-xs text-red-600 dark:text-red-400">-{file.deletions}</span>
+                {findingCount > 0 && (
+                  <span className="ml-3 px-2 py-0.5 text-xs font-medium rounded-full bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200">
+                    指摘 {findingCount}件
+                  </span>
+                )}
+              </div>
+              {expanded ? (
+                <ChevronUp className="h-5 w-5 text-gray-500 dark:text-gray-400 flex-shrink-0" />
+              ) : (
+                <ChevronDown className="h-5 w-5 text-gray-500 dark:text-gray-400 flex-shrink-0" />
+              )}
+            </button>
+
+            {expanded && (
+              <div className="overflow-x-auto">
+                <table className="min-w-full text-xs font-mono">
+                  <tbody>
+                    {file.hunks.map((hunk, hunkIndex) => (
+                      <React.Fragment key={hunkIndex}>
+                        <tr className="bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-300">
+                          <td colSpan={3} className="px-2 py-1">{hunk.header}</td>
+                        </tr>
+                        {hunk.lines.map((line, lineIndex) => {
+                          const lineFindings = line.type === 'added' && line.newLine !== null
+                            ? findings.get(line.newLine) || []
+                            : [];
+                          const rowColor = line.type === 'added'
+                            ? 'bg-green-50 dark:bg-green-900/20'
+                            : line.type === 'removed'
+                              ? 'bg-red-50 dark:bg-red-900/20'
+                              : '';
+
+                          return (
+                            <React.Fragment key={lineIndex}>
+                              <tr className={rowColor}>
+                                <td className="w-12 px-2 text-right text-gray-400 dark:text-gray-500 select-none">{line.oldLine ?? ''}</td>
+                                <td className="w-12 px-2 text-right text-gray-400 dark:text-gray-500 select-none">{line.newLine ?? ''}</td>
+                                <td className="px-2 whitespace-pre text-gray-800 dark:text-gray-200">
+                                  {line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' '}{line.content}
+                                </td>
+                              </tr>
+                              {lineFindings.map((finding, findingIndex) => {
+                                const style = getFindingStyle(finding.kind);
+                                return (
+                                  <tr key={`finding-${findingIndex}`}>
+                                    <td colSpan={3} className="px-4 py-2">
+                                      <div className={`flex items-start p-2 rounded-md font-sans ${style.className}`}>
+                                        <span className="mr-2 mt-0.5">{style.icon}</span>
+                                        <div>
+                                          <div className="text-xs font-semibold">{style.label}（{finding.severity}）</div>
+                                          <div className="text-sm">{finding.message}</div>
+                                          {finding.suggestion && (
+                                            <div className="text-xs mt-1 opacity-80">提案: {finding.suggestion}</div>
+                                          )}
+                                        </div>
+                                      </div>
+                                    </td>
+                                  </tr>
+                                );
+                              })}
+                            </React.Fragment>
+                          );
+                        })}
+                      </React.Fragment>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      {result.files.length === 0 && (
+        <div className="p-8 text-center text-gray-500 dark:text-gray-400">
+          分析対象の変更ファイルがありません。
+        </div>
+      )}
+
+      {/* 対象外ファイル */}
+      {result.skippedFiles.length > 0 && (
+        <div className="p-4">
+          <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            分析対象外のファイル ({result.skippedFiles.length})
+          </h4>
+          <ul className="space-y-1 text-xs text-gray-500 dark:text-gray-400">
+            {result.skippedFiles.map(skipped => (
+              <li key={skipped.fileName}>
+                <span className="font-mono">{skipped.fileName}</span> - {SKIPPED_REASON_LABELS[skipped.reason]}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PullRequestAnalysisView;
@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { AlertTriangle, ChevronDown, ChevronRight, Settings } from 'lucide-react';
+import {
+  AnalysisThresholds,
+  DEFAULT_THRESHOLDS,
+  RepositoryConfig
+} from '../services/repositoryConfigService';
+import { BASELINE_FILE } from '../services/baselineService';
+
+interface RepositoryConfigPanelProps {
+  config: RepositoryConfig;
+}
+
+// 閾値の表示名
+const THRESHOLD_LABELS: { analyzer: keyof AnalysisThresholds; key: string; label: string }[] = [
+  { analyzer: 'style', key: 'maxLineLength', label: '行の最大文字数' },
+  { analyzer: 'complexity', key: 'maxFunctionLines', label: '関数の最大行数' },
+  { analyzer: 'complexity', key: 'maxNestingDepth', label: 'ネストの最大深さ' },
+  { analyzer: 'duplication', key: 'minBlockSize', label: '重複とみなす最小行数' },
+  { analyzer: 'duplication', key: 'similarityThreshold', label: '重複とみなす類似度' },
+  { analyzer: 'security', key: 'minSeverity', label: '報告する最小の重大度' }
+];
+
+/**
+ * リポジトリの設定ファイル（.codecoach.yml）の表示コンポーネント
+ * 検証エラーは常に表示し、適用した設定の詳細は展開して確認できます
+ */
+const RepositoryConfigPanel: React.FC<RepositoryConfigPanelProps> = ({ config }) => {
+  const [expanded, setExpanded] = useState(false);
+  const errors = [...config.errors, ...config.ruleSet.errors];
+  const overrides = Object.entries(config.severityOverrides);
+
+  const renderList = (label: string, values: string[], emptyLabel: string) => (
+    <div>
+      <div className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">{label}</div>
+      {values.length === 0 ? (
+        <div className="text-sm text-gray-500 dark:text-gray-400">{emptyLabel}</div>
+      ) : (
+        <div className="flex flex-wrap gap-1">
+          {values.map(value => (
+            <code key={value} className="px-2 py-0.5 text-xs font-mono rounded bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-200">
+              {value}
+            </code>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-4">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="flex items-center w-full text-left"
+        aria-expanded={expanded}
+      >
+        {expanded ? <ChevronDown className="h-4 w-4 mr-1 text-gray-500" /> : <ChevronRight className="h-4 w-4 mr-1 text-gray-500" />}
+        <Settings className="h-5 w-5 mr-2 text-gray-600 dark:text-gray-400" />
+        <span className="font-semibold text-gray-900 dark:text-white">リポジトリ設定</span>
+        <code className="ml-2 text-xs font-mono text-gray-500 dark:text-gray-400">{config.source}</code>
+        <span className="ml-auto text-sm text-gray-500 dark:text-gray-400">
+          カスタムルール {config.ruleSet.rules.length}件・無効にしたルール {config.disabledRules.length}件
+          {errors.length > 0 && <span className="ml-2 text-yellow-600 dark:text-yellow-400">エラー {errors.length}件</span>}
+        </span>
+      </button>
+
+      {errors.length > 0 && (
+        <ul className="mt-3 space-y-1 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-md p-3">
+          {errors.map((error, index) => (
+            <li key={index} className="flex items-start text-sm text-yellow-800 dark:text-yellow-300">
+              <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+              <span>
+                <span className="font-mono text-xs mr-1">{error.source}{error.ruleId && ` (${error.ruleId})`}:</span>
+                {error.message}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {expanded && (
+        <div className="mt-4 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {renderList('分析対象（include）', config.include, 'すべてのファイル')}
+            {renderList('除外（exclude）', config.exclude, 'なし')}
+          </div>
+
+          <div>
+            <div className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">閾値</div>
+            <table className="min-w-full text-sm">
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {THRESHOLD_LABELS.map(({ analyzer, key, label }) => {
+                  const value = (config.thresholds[analyzer] as Record<string, unknown>)[key];
+                  const defaultValue = (DEFAULT_THRESHOLDS[analyzer] as Record<string, unknown>)[key];
+                  return (
+                    <tr key={`${analyzer}.${key}`}>
+                      <td className="py-1 pr-4 text-gray-600 dark:text-gray-400">{label}</td>
+                      <td className="py-1 pr-4 font-mono text-xs text-gray-500 dark:text-gray-400">{analyzer}.{key}</td>
+                      <td className={`py-1 ${value !== defaultValue ? 'font-semibold text-blue-600 dark:text-blue-400' : 'text-gray-900 dark:text-white'}`}>
+                        {String(value)}
+                        {value !== defaultValue && <span className="ml-2 text-xs font-normal text-gray-500 dark:text-gray-400">（既定値 {String(defaultValue)}）</span>}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {renderList('無効にしたルール（disabledRules）', config.disabledRules, 'なし')}
+
+          {renderList('ベースライン（baseline）', config.baseline ? [config.baseline] : [], `既定（${BASELINE_FILE}）`)}
+
+          <div>
+            <div className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">重大度の変更（severityOverrides）</div>
+            {overrides.length === 0 ? (
+              <div className="text-sm text-gray-500 dark:text-gray-400">なし</div>
+            ) : (
+              <ul className="text-sm space-y-0.5">
+                {overrides.map(([key, severity]) => (
+                  <li key={key} className="text-gray-700 dark:text-gray-300">
+                    <code className="font-mono text-xs">{key}</code> → {severity}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {config.ruleSet.rules.length > 0 && (
+            <div>
+              <div className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">
+                カスタムルール（{config.ruleSet.sources.join(', ')}）
+              </div>
+              <ul className="text-sm space-y-0.5">
+                {config.ruleSet.rules.map(rule => (
+                  <li key={rule.id} className="text-gray-700 dark:text-gray-300">
+                    <code className="font-mono text-xs mr-2">{rule.id}</code>
+                    <span className="text-xs text-gray-500 dark:text-gray-400 mr-2">{rule.category}・{rule.severity}</span>
+                    {rule.message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RepositoryConfigPanel;
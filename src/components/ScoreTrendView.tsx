@@ -0,0 +1,166 @@
+import React from 'react';
+import { TrendingDown, TrendingUp } from 'lucide-react';
+import {
+  AnalysisRunRecord,
+  Regression,
+  TREND_METRICS,
+  TrendMetric,
+  detectRegressions
+} from '../services/analysisHistoryService';
+
+interface ScoreTrendViewProps {
+  runs: AnalysisRunRecord[];   // 古い順
+  loading?: boolean;
+}
+
+// グラフの描画領域
+const CHART_WIDTH = 320;
+const CHART_HEIGHT = 120;
+const CHART_PADDING = 12;
+
+// 日時の表示
+const formatDate = (timestamp: number): string =>
+  new Date(timestamp).toLocaleString('ja-JP', { month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+interface TrendChartProps {
+  metric: TrendMetric;
+  runs: AnalysisRunRecord[];
+  regressions: Regression[];
+}
+
+/**
+ * 1つの指標の推移グラフ（悪化した区間を赤で表示）
+ */
+const TrendChart: React.FC<TrendChartProps> = ({ metric, runs, regressions }) => {
+  const { label, getValue } = TREND_METRICS[metric];
+  const values = runs.map(getValue);
+  const max = Math.max(...values);
+  const min = Math.min(...values);
+  const range = max - min || 1;
+
+  const points = values.map((value, index) => ({
+    x: runs.length === 1
+      ? CHART_WIDTH / 2
+      : CHART_PADDING + (index / (runs.length - 1)) * (CHART_WIDTH - CHART_PADDING * 2),
+    y: CHART_HEIGHT - CHART_PADDING - ((value - min) / range) * (CHART_HEIGHT - CHART_PADDING * 2)
+  }));
+
+  const regressedRuns = new Set(regressions.filter(r => r.metric === metric).map(r => r.toRun));
+  const latest = values[values.length - 1];
+
+  return (
+    <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-3">
+      <div className="flex items-baseline justify-between mb-2">
+        <span className="text-sm font-medium text-gray-700 dark:text-gray-300">{label}</span>
+        <span className="text-lg font-semibold text-gray-900 dark:text-white">{latest}</span>
+      </div>
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-28">
+        {points.slice(1).map((point, index) => {
+          const previous = points[index];
+          const regressed = regressedRuns.has(runs[index + 1]);
+          return (
+            <line
+              key={index}
+              x1={previous.x}
+              y1={previous.y}
+              x2={point.x}
+              y2={point.y}
+              strokeWidth={regressed ? 3 : 2}
+              className={regressed ? 'stroke-red-500' : 'stroke-blue-500'}
+            />
+          );
+        })}
+        {points.map((point, index) => (
+          <circle
+            key={index}
+            cx={point.x}
+            cy={point.y}
+            r={3}
+            className={regressedRuns.has(runs[index]) ? 'fill-red-500' : 'fill-blue-500'}
+          >
+            <title>{`${formatDate(runs[index].timestamp)} @${runs[index].commitSha.substring(0, 7)}: ${values[index]}`}</title>
+          </circle>
+        ))}
+      </svg>
+      <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400">
+        <span>{formatDate(runs[0].timestamp)}</span>
+        {runs.length > 1 && <span>{formatDate(runs[runs.length - 1].timestamp)}</span>}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * スコア推移の表示コンポーネント
+ * 分析履歴から各指標の推移をグラフ化し、直前の分析から悪化した箇所を強調します
+ */
+const ScoreTrendView: React.FC<ScoreTrendViewProps> = ({ runs, loading = false }) => {
+  if (loading) {
+    return (
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-8 text-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-blue-500 mx-auto"></div>
+        <p className="mt-4 text-gray-600 dark:text-gray-400">分析履歴を読み込み中...</p>
+      </div>
+    );
+  }
+
+  if (runs.length === 0) {
+    return (
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-8 text-center text-gray-500 dark:text-gray-400">
+        分析履歴がありません。リポジトリ全体を分析すると、結果がここに記録されます。
+      </div>
+    );
+  }
+
+  const regressions = detectRegressions(runs);
+  const latestRegressions = regressions.filter(regression => regression.toRun === runs[runs.length - 1]);
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">スコアの推移</h3>
+        <span className="text-sm text-gray-500 dark:text-gray-400">{runs.length}回の分析</span>
+      </div>
+
+      {latestRegressions.length > 0 ? (
+        <div className="flex items-start p-3 rounded-md bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-300">
+          <TrendingDown className="h-5 w-5 mr-2 flex-shrink-0" />
+          <span>
+            直前の分析から悪化: {latestRegressions.map(r => `${TREND_METRICS[r.metric].label}（${r.previousValue} → ${r.currentValue}）`).join('、')}
+          </span>
+        </div>
+      ) : runs.length > 1 && (
+        <div className="flex items-center p-3 rounded-md bg-green-50 dark:bg-green-900/20 text-sm text-green-700 dark:text-green-300">
+          <TrendingUp className="h-5 w-5 mr-2 flex-shrink-0" />
+          直前の分析から悪化した指標はありません
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {(Object.keys(TREND_METRICS) as TrendMetric[]).map(metric => (
+          <TrendChart key={metric} metric={metric} runs={runs} regressions={regressions} />
+        ))}
+      </div>
+
+      {regressions.length > 0 && (
+        <div>
+          <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">悪化の履歴</h4>
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+            {regressions.slice().reverse().map((regression, index) => (
+              <li key={index} className="flex justify-between py-1 text-gray-700 dark:text-gray-300">
+                <span>
+                  {TREND_METRICS[regression.metric].label}: {regression.previousValue} → {regression.currentValue}
+                </span>
+                <span className="font-mono text-xs text-gray-500 dark:text-gray-400">
+                  {regression.fromRun.commitSha.substring(0, 7)} → {regression.toRun.commitSha.substring(0, 7)}（{formatDate(regression.toRun.timestamp)}）
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScoreTrendView;
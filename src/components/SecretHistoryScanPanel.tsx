@@ -0,0 +1,117 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GitCommit, History, KeyRound } from 'lucide-react';
+import {
+  SecretHistoryScanResult,
+  scanCommitHistoryForSecrets
+} from '../services/secretHistoryScanService';
+
+interface SecretHistoryScanPanelProps {
+  repoName: string;
+}
+
+/**
+ * コミット履歴のシークレットスキャン表示コンポーネント
+ * コミットごとにAPIを呼び出すため、ボタンを押したときだけスキャンします
+ */
+const SecretHistoryScanPanel: React.FC<SecretHistoryScanPanelProps> = ({ repoName }) => {
+  const [result, setResult] = useState<SecretHistoryScanResult | null>(null);
+  const [progress, setProgress] = useState<{ processed: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // リポジトリが変わったら結果を破棄し、実行中のスキャンを止める
+  useEffect(() => {
+    setResult(null);
+    setError(null);
+    return () => abortRef.current?.abort();
+  }, [repoName]);
+
+  const startScan = async () => {
+    abortRef.current?.abort();
+    const abortController = new AbortController();
+    abortRef.current = abortController;
+    setError(null);
+    setResult(null);
+    setProgress({ processed: 0, total: 0 });
+
+    try {
+      const scanResult = await scanCommitHistoryForSecrets(repoName, {
+        signal: abortController.signal,
+        onProgress: (processed, total) => {
+          if (!abortController.signal.aborted) setProgress({ processed, total });
+        }
+      });
+      if (!abortController.signal.aborted) setResult(scanResult);
+    } catch (scanError) {
+      console.error('コミット履歴のスキャンに失敗しました:', scanError);
+      if (!abortController.signal.aborted) setError('コミット履歴のスキャンに失敗しました。');
+    } finally {
+      if (abortRef.current === abortController) setProgress(null);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-4">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="flex items-center text-lg font-semibold text-gray-900 dark:text-white">
+          <History className="h-5 w-5 mr-2" />
+          コミット履歴のシークレット
+        </h3>
+        <button
+          onClick={startScan}
+          disabled={progress !== null}
+          className="px-3 py-1 text-sm rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+        >
+          {progress ? `スキャン中... (${progress.processed}/${progress.total})` : '履歴をスキャン'}
+        </button>
+      </div>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">
+        最近のコミットで追加され、現在のコードからは削除されたAPIキーやトークンを探します。
+        削除したシークレットも履歴から取得できるため、見つかった場合は無効化して再発行してください。
+      </p>
+
+      {error && <div className="text-sm text-red-600 dark:text-red-400">{error}</div>}
+
+      {result && (
+        <div className="space-y-2">
+          <div className="text-sm text-gray-600 dark:text-gray-400">
+            {result.scannedCommits}件のコミットを調べ、{result.findings.length}件のシークレットが見つかりました
+            {result.pausedReason && `（${result.pausedReason}）`}
+          </div>
+          {result.findings.map(finding => (
+            <div
+              key={`${finding.commitSha}:${finding.fileName}:${finding.fingerprint}`}
+              className="border border-gray-200 dark:border-gray-700 rounded-lg p-3 text-sm"
+            >
+              <div className="flex items-center font-medium text-gray-900 dark:text-white">
+                <KeyRound className="h-4 w-4 mr-1 text-red-500" />
+                {finding.description}
+                <code className="ml-2 font-mono text-xs text-gray-600 dark:text-gray-400">{finding.maskedValue}</code>
+              </div>
+              <div className="mt-1 text-xs text-gray-500 dark:text-gray-400 break-all">
+                {finding.fileName}:{finding.line}
+              </div>
+              <div className="mt-1 flex items-center text-xs text-gray-500 dark:text-gray-400">
+                <GitCommit className="h-3 w-3 mr-1 flex-shrink-0" />
+                <a
+                  href={finding.commitUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="font-mono text-blue-600 dark:text-blue-400 hover:underline mr-2"
+                >
+                  {finding.commitSha.slice(0, 7)}
+                </a>
+                <span className="truncate">{finding.commitMessage}</span>
+                <span className="ml-auto pl-2 flex-shrink-0">
+                  {finding.author}・{new Date(finding.date).toLocaleDateString('ja-JP')}
+                </span>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SecretHistoryScanPanel;
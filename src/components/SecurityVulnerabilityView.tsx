@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { SecurityVulnerability } from '../services/securityCheckService';
-import { AlertTriangle, Shield, ShieldAlert, AlertOctagon } from 'lucide-react';
+import { TAINT_STEP_LABELS } from '../services/taintAnalysisService';
+import { AlertTriangle, Shield, ShieldAlert, AlertOctagon, ArrowDown } from 'lucide-react';
 
 interface SecurityVulnerabilityViewProps {
   vulnerabilities: SecurityVulnerability[];
@@ -234,6 +235,63 @@ const SecurityVulnerabilityView: React.FC<SecurityVulnerabilityViewProps> = ({ v
                           </div>
                         )}
                         
+                        {vulnerability.taintTrace && vulnerability.taintTrace.length > 0 && (
+                          <div className="mb-4">
+                            <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                              データの流れ:
+                            </h4>
+                            <ol className="space-y-1">
+                              {vulnerability.taintTrace.map((step, stepIndex) => (
+                                <li key={stepIndex}>
+                                  {stepIndex > 0 && (
+                                    <ArrowDown className="h-3 w-3 ml-2 mb-1 text-gray-400 dark:text-gray-500" />
+                                  )}
+                                  <div className="flex items-start text-xs">
+                                    <span className={`flex-shrink-0 px-2 py-0.5 rounded-full mr-2 ${
+                                      step.kind === 'sink'
+                                        ? 'bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-300'
+                                        : step.kind === 'source'
+                                          ? 'bg-orange-100 dark:bg-orange-900/30 text-orange-800 dark:text-orange-300'
+                                          : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300'
+                                    }`}>
+                                      {TAINT_STEP_LABELS[step.kind]}
+                                    </span>
+                                    <span className="flex-shrink-0 text-gray-500 dark:text-gray-400 mr-2">行 {step.line}</span>
+                                    <code className="font-mono text-gray-800 dark:text-gray-200 break-all">{step.code}</code>
+                                  </div>
+                                </li>
+                              ))}
+                            </ol>
+                          </div>
+                        )}
+                        
+                        {vulnerability.component && (
+                          <div className="mb-4">
+                            <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                              依存パッケージ:
+                            </h4>
+                            <dl className="grid grid-cols-[auto,1fr] gap-x-3 gap-y-1 text-xs">
+                              <dt className="text-gray-500 dark:text-gray-400">パッケージ</dt>
+                              <dd className="font-mono text-gray-800 dark:text-gray-200 break-all">
+                                {vulnerability.component.name}@{vulnerability.component.version}
+                                <span className="ml-2 font-sans text-gray-500 dark:text-gray-400">
+                                  （{vulnerability.component.ecosystem}・{vulnerability.component.direct ? '直接依存' : '間接依存'}）
+                                </span>
+                              </dd>
+                              <dt className="text-gray-500 dark:text-gray-400">影響を受ける範囲</dt>
+                              <dd className="font-mono text-gray-800 dark:text-gray-200">
+                                {vulnerability.component.affectedRanges.join(' / ')}
+                              </dd>
+                              <dt className="text-gray-500 dark:text-gray-400">修正版</dt>
+                              <dd className="font-mono text-gray-800 dark:text-gray-200">
+                                {vulnerability.component.fixedVersions.length > 0
+                                  ? vulnerability.component.fixedVersions.join(', ')
+                                  : <span className="font-sans">なし</span>}
+                              </dd>
+                            </dl>
+                          </div>
+                        )}
+                        
                         {vulnerability.remediation && (
                           <div>
                             <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
@@ -312,6 +370,7 @@ const translateVulnerabilityType = (type: string): string => {
     'insecure_randomness': '安全でない乱数生成',
     'deserialization': '安全でないデシリアライゼーション',
     'path_traversal': 'パストラバーサル',
+    'vulnerable_components': '脆弱な依存パッケージ',
     'injection': 'インジェクション',
     'sensitive_data_exposure': '機密データの露出',
     'insecure_configuration': '安全でない設定',
@@ -334,6 +393,7 @@ const getVulnerabilityTypeColorClass = (type: string): string => {
     'insecure_randomness': 'bg-yellow-500',
     'deserialization': 'bg-purple-600',
     'path_traversal': 'bg-indigo-500',
+    'vulnerable_components': 'bg-amber-500',
     'injection': 'bg-red-400',
     'sensitive_data_exposure': 'bg-orange-400',
     'insecure_configuration': 'bg-yellow-400',
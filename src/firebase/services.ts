@@ -1,4 +1,5 @@
 import * as speakeasy from 'speakeasy';
+import firebaseSdk from 'firebase/app';
 
 // Window型を拡張してFirebaseインスタンスを持てるようにする
 declare global {
@@ -7,6 +8,7 @@ declare global {
     _FIREBASE_AUTH: any;
     _FIREBASE_FIRESTORE: any;
     _FIREBASE_DATABASE: any;
+    _FIREBASE_FUNCTIONS: firebaseSdk.functions.Functions;
     firebase?: any; // グローバルfirebaseへの参照も許可
   }
 }
@@ -129,10 +131,42 @@ const initDatabase = () => {
   }
 };
 
+// Cloud Functionsの初期化（呼び出し可能関数を使う場合のみ）
+let functions: firebaseSdk.functions.Functions | null = null;
+const initFunctions = () => {
+  if (functions) return functions; // 既に初期化されている場合
+
+  try {
+    // 優先度順にFunctionsを取得
+    if (window._FIREBASE_FUNCTIONS) {
+      functions = window._FIREBASE_FUNCTIONS;
+      console.log('Using window._FIREBASE_FUNCTIONS');
+    } else if (firebase && typeof firebase.functions === 'function') {
+      const instance: firebaseSdk.functions.Functions = firebase.functions();
+      functions = instance;
+      console.log('Using firebase.functions()');
+      // グローバル変数にも設定
+      window._FIREBASE_FUNCTIONS = instance;
+    } else {
+      console.warn('No Firebase functions available');
+      return null;
+    }
+
+    return functions;
+  } catch (error) {
+    console.error('Failed to initialize functions in initFunctions():', error);
+    return null;
+  }
+};
+
 // 初期化の実行
 auth = initAuth();
 db = initFirestore();
 rtdb = initDatabase();
+functions = initFunctions();
+
+// Functions Emulatorのオリジン（接続していない場合は null）
+let functionsEmulatorOrigin: string | null = null;
 
 // 開発環境の場合、Firebase Emulatorに接続
 if (process.env.NODE_ENV === 'development' && process.env.REACT_APP_USE_EMULATOR === 'true') {
@@ -140,6 +174,7 @@ if (process.env.NODE_ENV === 'development' && process.env.REACT_APP_USE_EMULATOR
   const authEmulatorHost = process.env.REACT_APP_AUTH_EMULATOR_HOST || 'localhost:9099';
   const firestoreEmulatorHost = process.env.REACT_APP_FIRESTORE_EMULATOR_HOST || 'localhost:8080';
   const databaseEmulatorHost = process.env.REACT_APP_DATABASE_EMULATOR_HOST || 'localhost:9000';
+  const functionsEmulatorHost = process.env.REACT_APP_FUNCTIONS_EMULATOR_HOST || 'localhost:5001';
   
   // Emulator接続設定
   if (auth) {
@@ -162,6 +197,15 @@ if (process.env.NODE_ENV === 'development' && process.env.REACT_APP_USE_EMULATOR
     );
     console.log(`Realtime Database Emulator connected at ${databaseEmulatorHost}`);
   }
+
+  if (functions) {
+    functions.useEmulator(
+      functionsEmulatorHost.split(':')[0],
+      parseInt(functionsEmulatorHost.split(':')[1])
+    );
+    functionsEmulatorOrigin = `http://${functionsEmulatorHost}`;
+    console.log(`Functions Emulator connected at ${functionsEmulatorHost}`);
+  }
   
   console.log('Firebase Emulators enabled for development');
 }
@@ -194,7 +238,22 @@ export const getCurrentUser = () => {
 };
 
 // Firebaseサービスをエクスポート
-export { firebase, auth, db, rtdb };
+export { firebase, auth, db, rtdb, functions };
+
+// 呼び出し可能関数のリージョン（functions/src の関数の既定のリージョン）
+const FUNCTIONS_REGION = 'us-central1';
+
+/**
+ * 呼び出し可能関数のURLを取得（ストリーミングで fetch から直接呼び出す場合に使う）
+ * Functions Emulatorに接続している場合はEmulatorのURLを返します
+ */
+export const getFunctionUrl = (name: string): string | null => {
+  const projectId = firebase?.app?.().options?.projectId;
+  if (!projectId) return null;
+  return functionsEmulatorOrigin
+    ? `${functionsEmulatorOrigin}/${projectId}/${FUNCTIONS_REGION}/${name}`
+    : `https://${FUNCTIONS_REGION}-${projectId}.cloudfunctions.net/${name}`;
+};
 
 // ユーザープロファイルをFirestoreに保存
 export const saveUserToFirestore = async (user: any) => {
@@ -0,0 +1,274 @@
+/**
+ * 構造化AIレビューサービス
+ * AIに検出結果を JSON（AI_REVIEW_SCHEMA）で返させ、検証したうえでコード品質の問題（CodeIssue）に変換します
+ * コードブロックで囲んだ応答や末尾のカンマなどはその場で修復し、スキーマに合わない箇所は再試行の指示に使います
+ */
+
+import { CodeIssue, IssueSource, IssueType } from './codeAnalysisService';
+import { RULE_CATEGORIES } from './rulePackService';
+
+// AIの検出結果の重大度（コード品質の問題と同じ3段階）
+export type AiFindingSeverity = 'low' | 'medium' | 'high';
+
+// AIの検出結果（行番号は1始まり）
+export interface AiReviewFinding {
+  startLine: number;
+  endLine: number;
+  category: IssueType;
+  severity: AiFindingSeverity;
+  message: string;
+  patch: string | null;         // startLine〜endLine を置き換えるコード（提案がない場合は null）
+}
+
+// 応答の解析結果
+export interface AiReviewParseResult {
+  findings: AiReviewFinding[];  // 検証に成功した検出結果
+  errors: string[];             // スキーマに合わなかった箇所（JSON として読めない場合も含む）
+  rejectedCount: number;        // スキーマに合わずに除いた検出結果の数
+  parsed: boolean;              // 検出結果の配列として読めたか
+}
+
+// 構造化レビューの結果（OpenAIService.getStructuredCodeReview の data）
+export interface StructuredReviewResult {
+  provider: IssueSource['provider'];
+  model: string;
+  issues: CodeIssue[];
+  attempts: number;             // 再試行を含むリクエストの回数
+  rejectedCount: number;        // 最後の応答でスキーマに合わずに除いた検出結果の数
+}
+
+export const AI_FINDING_SEVERITIES: AiFindingSeverity[] = ['low', 'medium', 'high'];
+
+// 1回のレビューで受け付ける検出結果の上限
+export const MAX_AI_FINDINGS = 30;
+
+// 応答の JSON スキーマ（プロンプトに含めてAIに渡す。検証は validateReviewFindings で行う）
+export const AI_REVIEW_SCHEMA = {
+  type: 'object',
+  additionalProperties: false,
+  required: ['findings'],
+  properties: {
+    findings: {
+      type: 'array',
+      maxItems: MAX_AI_FINDINGS,
+      items: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['startLine', 'endLine', 'category', 'severity', 'message', 'patch'],
+        properties: {
+          startLine: { type: 'integer', minimum: 1 },
+          endLine: { type: 'integer', minimum: 1 },
+          category: { type: 'string', enum: RULE_CATEGORIES },
+          severity: { type: 'string', enum: AI_FINDING_SEVERITIES },
+          message: { type: 'string', minLength: 1 },
+          patch: { type: ['string', 'null'] }
+        }
+      }
+    }
+  }
+};
+
+// よくある表記ゆれのカテゴリ・重大度
+const CATEGORY_ALIASES: Record<string, IssueType> = {
+  style: 'code_style',
+  codestyle: 'code_style',
+  formatting: 'code_style',
+  best_practices: 'best_practice',
+  bestpractice: 'best_practice',
+  maintainability: 'best_practice',
+  readability: 'code_style',
+  vulnerability: 'security'
+};
+const SEVERITY_ALIASES: Record<string, AiFindingSeverity> = {
+  critical: 'high',
+  error: 'high',
+  major: 'high',
+  warning: 'medium',
+  moderate: 'medium',
+  minor: 'low',
+  info: 'low'
+};
+
+/**
+ * 行番号を付けたコード（AIが行番号を数え間違えないようにプロンプトで使う）
+ */
+export const numberCodeLines = (code: string): string => {
+  const lines = code.split('\n');
+  const width = String(lines.length).length;
+  return lines.map((line, index) => `${String(index + 1).padStart(width)}| ${line}`).join('\n');
+};
+
+/**
+ * 応答のテキストを JSON として読む
+ * そのまま読めない場合はコードブロック・前後の説明文・末尾のカンマを取り除いて読み直します
+ */
+const parseJsonResponse = (text: string): { value: unknown } | null => {
+  const candidates: string[] = [text.trim()];
+
+  // 閉じる ``` は行頭のもの（JSON の文字列中の ``` は改行がエスケープされている）
+  const fenced = /```(?:json)?[ \t]*\r?\n([\s\S]*?)\r?\n[ \t]*```/i.exec(text);
+  if (fenced) candidates.push(fenced[1].trim());
+
+  for (const source of fenced ? [fenced[1], text] : [text]) {
+    const start = source.search(/[{[]/);
+    const end = Math.max(source.lastIndexOf('}'), source.lastIndexOf(']'));
+    if (start >= 0 && end > start) candidates.push(source.slice(start, end + 1));
+  }
+
+  for (const candidate of candidates) {
+    for (const repaired of [candidate, candidate.replace(/,\s*([}\]])/g, '$1')]) {
+      try {
+        return { value: JSON.parse(repaired) };
+      } catch {
+        // 次の候補を試す
+      }
+    }
+  }
+  return null;
+};
+
+const normalizeKeyword = (value: unknown): string =>
+  typeof value === 'string' ? value.trim().toLowerCase().replace(/[\s-]+/g, '_') : '';
+
+// 列挙型の項目の誤りの説明
+const describeEnumError = (path: string, value: unknown, allowed: string[]): string =>
+  value === undefined
+    ? `${path}: 指定がありません（${allowed.join('・')} のいずれか）`
+    : `${path}: ${JSON.stringify(value)} は ${allowed.join('・')} のいずれでもありません`;
+
+// 数値の文字列（"12"）も行番号として受け付ける
+const toLineNumber = (value: unknown): number | null => {
+  const line = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  return typeof line === 'number' && Number.isInteger(line) && line >= 1 ? line : null;
+};
+
+// 修正案を囲んだコードブロックは取り除く
+const toPatch = (value: unknown): string | null | undefined => {
+  if (value === null || value === undefined) return null;
+  if (typeof value !== 'string') return undefined;
+  const fenced = /^\s*```[\w+-]*\n([\s\S]*?)\n?```\s*$/.exec(value);
+  const patch = fenced ? fenced[1] : value;
+  return patch.trim() ? patch : null;
+};
+
+/**
+ * 1件の検出結果を検証
+ * @returns 検出結果と、スキーマに合わなかった項目の説明
+ */
+const validateFinding = (
+  item: unknown,
+  path: string,
+  lineCount: number
+): { finding: AiReviewFinding | null; errors: string[] } => {
+  if (typeof item !== 'object' || item === null || Array.isArray(item)) {
+    return { finding: null, errors: [`${path}: オブジェクトではありません`] };
+  }
+  const raw = item as Record<string, unknown>;
+  const errors: string[] = [];
+
+  const startLine = toLineNumber(raw.startLine);
+  if (startLine === null) {
+    errors.push(`${path}.startLine: 1以上の整数ではありません`);
+  } else if (startLine > lineCount) {
+    errors.push(`${path}.startLine: ${startLine} はコードの行数（${lineCount}行）を超えています`);
+  }
+  // endLine を省略した場合は1行の指摘として扱い、範囲の逆転とコードの末尾を超える値は修復する
+  const rawEndLine = raw.endLine === undefined || raw.endLine === null ? startLine : toLineNumber(raw.endLine);
+  if (rawEndLine === null && startLine !== null) {
+    errors.push(`${path}.endLine: 1以上の整数ではありません`);
+  }
+
+  const categoryKey = normalizeKeyword(raw.category);
+  const category = RULE_CATEGORIES.find(candidate => candidate === categoryKey) || CATEGORY_ALIASES[categoryKey];
+  if (!category) {
+    errors.push(describeEnumError(`${path}.category`, raw.category, RULE_CATEGORIES));
+  }
+
+  const severityKey = normalizeKeyword(raw.severity);
+  const severity = AI_FINDING_SEVERITIES.find(candidate => candidate === severityKey) || SEVERITY_ALIASES[severityKey];
+  if (!severity) {
+    errors.push(describeEnumError(`${path}.severity`, raw.severity, AI_FINDING_SEVERITIES));
+  }
+
+  const message = typeof raw.message === 'string' ? raw.message.trim() : '';
+  if (!message) errors.push(`${path}.message: 空でない文字列ではありません`);
+
+  const patch = toPatch(raw.patch);
+  if (patch === undefined) errors.push(`${path}.patch: 文字列か null ではありません`);
+
+  if (errors.length > 0 || startLine === null || rawEndLine === null || !category || !severity || patch === undefined) {
+    return { finding: null, errors };
+  }
+
+  const endLine = Math.min(Math.max(startLine, rawEndLine), lineCount);
+  return {
+    finding: {
+      startLine: Math.min(startLine, rawEndLine),
+      endLine,
+      category,
+      severity,
+      message,
+      patch
+    },
+    errors: []
+  };
+};
+
+/**
+ * 解析済みの応答をスキーマで検証
+ * 検出結果の配列だけが返された場合も受け付け、スキーマに合わない検出結果は除きます
+ * @param lineCount レビューしたコードの行数（範囲外の行番号は誤りとして扱う）
+ */
+export const validateReviewFindings = (value: unknown, lineCount: number): AiReviewParseResult => {
+  const items = Array.isArray(value)
+    ? value
+    : typeof value === 'object' && value !== null ? (value as Record<string, unknown>).findings : undefined;
+
+  if (!Array.isArray(items)) {
+    return { findings: [], errors: ['findings: 検出結果の配列がありません'], rejectedCount: 0, parsed: false };
+  }
+
+  const findings: AiReviewFinding[] = [];
+  const errors: string[] = [];
+  const checked = items.slice(0, MAX_AI_FINDINGS);
+  checked.forEach((item, index) => {
+    const result = validateFinding(item, `findings[${index}]`, lineCount);
+    if (result.finding) findings.push(result.finding);
+    errors.push(...result.errors);
+  });
+  return { findings, errors, rejectedCount: checked.length - findings.length, parsed: true };
+};
+
+/**
+ * AIの応答のテキストを解析・修復して検証
+ * @param lineCount レビューしたコードの行数
+ */
+export const parseReviewResponse = (text: string, lineCount: number): AiReviewParseResult => {
+  const json = parseJsonResponse(text);
+  if (!json) {
+    return { findings: [], errors: ['応答が JSON として読めません'], rejectedCount: 0, parsed: false };
+  }
+  return validateReviewFindings(json.value, lineCount);
+};
+
+/**
+ * 検出結果をコード品質の問題に変換（生成元のプロバイダー・モデルを付ける）
+ */
+export const toCodeIssues = (findings: AiReviewFinding[], source: IssueSource): CodeIssue[] =>
+  findings.map(finding => ({
+    type: finding.category,
+    severity: finding.severity,
+    message: finding.message,
+    line: finding.startLine,
+    ...(finding.endLine > finding.startLine ? { endLine: finding.endLine } : {}),
+    ...(finding.patch !== null ? { patch: finding.patch } : {}),
+    source
+  }));
+
+export default {
+  AI_REVIEW_SCHEMA,
+  numberCodeLines,
+  validateReviewFindings,
+  parseReviewResponse,
+  toCodeIssues
+};
@@ -0,0 +1,194 @@
+/**
+ * 分析結果キャッシュサービス
+ * ファイルのBlob SHAと分析器のバージョンをキーに、分析結果をIndexedDBへ保存します
+ * 内容が変わっていないファイルは再取得・再分析せずにキャッシュから結果を返します
+ */
+
+import { FileAnalysisResult } from './codeAnalysisService';
+import { DuplicateBlock, DuplicationStats } from './duplicateDetectionService';
+import { SecurityCheckResult } from './securityCheckService';
+
+// 分析ロジックを変更したら更新する（古いバージョンのキャッシュは破棄される）
+export const ANALYZER_VERSION = '10';
+
+// 重複検出の結果
+export interface CachedDuplication {
+  duplicates: DuplicateBlock[];
+  stats: DuplicationStats;
+}
+
+// キャッシュのエントリ（同じBlobの結果は1件にまとめて保存）
+export interface CachedAnalysis {
+  key: string;
+  blobSha: string;
+  language: string;
+  analyzerVersion: string;
+  fileAnalysis?: FileAnalysisResult;    // codeContent・分析時のセキュリティチェックの結果を含む
+  security?: SecurityCheckResult;
+  duplication?: CachedDuplication;
+  updatedAt: number;
+}
+
+const DB_NAME = 'codecoach-analysis-cache';
+const DB_VERSION = 1;
+const STORE_NAME = 'analyses';
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+// キャッシュキー（同じ内容でも言語やリポジトリの設定が違えば分析結果が変わるため、それらも含める）
+const getCacheKey = (blobSha: string, language: string, configId?: string): string =>
+  `${ANALYZER_VERSION}:${language}:${blobSha}${configId ? `:${configId}` : ''}`;
+
+// IDBRequestをPromiseに変換
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * 現在と異なるバージョンのエントリを削除
+ */
+const deleteStaleEntries = (db: IDBDatabase): Promise<void> =>
+  new Promise(resolve => {
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    const request = transaction.objectStore(STORE_NAME).openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      if ((cursor.value as CachedAnalysis).analyzerVersion !== ANALYZER_VERSION) {
+        cursor.delete();
+      }
+      cursor.continue();
+    };
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => {
+      console.warn('古い分析キャッシュの削除に失敗:', transaction.error);
+      resolve();
+    };
+  });
+
+/**
+ * データベースを開く（IndexedDBが使えない環境では null）
+ */
+const openDatabase = (): Promise<IDBDatabase | null> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise(resolve => {
+    if (typeof indexedDB === 'undefined') {
+      console.warn('IndexedDB is not available, analysis cache is disabled');
+      resolve(null);
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME, { keyPath: 'key' });
+      }
+    };
+    request.onsuccess = async () => {
+      await deleteStaleEntries(request.result);
+      resolve(request.result);
+    };
+    request.onerror = () => {
+      console.warn('分析キャッシュを開けませんでした:', request.error);
+      resolve(null);
+    };
+  });
+
+  return dbPromise;
+};
+
+/**
+ * キャッシュされた分析結果を取得
+ * @param configId リポジトリの設定（閾値・カスタムルールなど）を適用した結果の場合は設定の識別子
+ */
+export const getCachedAnalysis = async (
+  blobSha: string,
+  language: string,
+  configId?: string
+): Promise<CachedAnalysis | null> => {
+  const results = await getCachedAnalyses([{ blobSha, language, configId }]);
+  return results.get(blobSha) || null;
+};
+
+/**
+ * 複数ファイルのキャッシュをまとめて取得
+ * @returns Blob SHA → キャッシュ（キャッシュがないファイルは含まれない）
+ */
+export const getCachedAnalyses = async (
+  files: { blobSha: string; language: string; configId?: string }[]
+): Promise<Map<string, CachedAnalysis>> => {
+  const cached = new Map<string, CachedAnalysis>();
+  const db = await openDatabase();
+  if (!db || files.length === 0) return cached;
+
+  try {
+    const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+    const entries = await Promise.all(files.map(file =>
+      promisifyRequest<CachedAnalysis | undefined>(store.get(getCacheKey(file.blobSha, file.language, file.configId)))
+    ));
+    entries.forEach(entry => {
+      if (entry) cached.set(entry.blobSha, entry);
+    });
+  } catch (error) {
+    console.warn('分析キャッシュの読み込みに失敗:', error);
+  }
+  return cached;
+};
+
+/**
+ * 分析結果をキャッシュに保存（既存のエントリとマージ）
+ */
+export const putCachedAnalysis = async (
+  blobSha: string,
+  language: string,
+  results: Pick<CachedAnalysis, 'fileAnalysis' | 'security' | 'duplication'>,
+  configId?: string
+): Promise<void> => {
+  const db = await openDatabase();
+  if (!db) return;
+
+  const key = getCacheKey(blobSha, language, configId);
+  try {
+    const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+    const existing = await promisifyRequest<CachedAnalysis | undefined>(store.get(key));
+    const entry: CachedAnalysis = {
+      key,
+      blobSha,
+      language,
+      analyzerVersion: ANALYZER_VERSION,
+      fileAnalysis: results.fileAnalysis ?? existing?.fileAnalysis,
+      security: results.security ?? existing?.security,
+      duplication: results.duplication ?? existing?.duplication,
+      updatedAt: Date.now()
+    };
+    await promisifyRequest(store.put(entry));
+  } catch (error) {
+    console.warn('分析キャッシュの保存に失敗:', error);
+  }
+};
+
+/**
+ * キャッシュをすべて削除
+ */
+export const clearAnalysisCache = async (): Promise<void> => {
+  const db = await openDatabase();
+  if (!db) return;
+
+  try {
+    await promisifyRequest(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).clear());
+  } catch (error) {
+    console.warn('分析キャッシュの削除に失敗:', error);
+  }
+};
+
+export default {
+  ANALYZER_VERSION,
+  getCachedAnalysis,
+  getCachedAnalyses,
+  putCachedAnalysis,
+  clearAnalysisCache
+};
@@ -0,0 +1,242 @@
+/**
+ * 分析履歴サービス
+ * 分析ごとのスコアと指摘件数をFirestoreに保存し、リポジトリのスコア推移と悪化を算出します
+ */
+
+import firebase from 'firebase/app';
+import { db } from '../firebase/services';
+import { applySecurityBaseline } from './baselineService';
+import { RepositoryAnalysisResult } from './codeAnalysisService';
+
+// カテゴリ別スコア（各ファイルの平均、0-10）
+export interface CategoryScores {
+  codeStyle: number;
+  naming: number;
+  complexity: number;      // 高いほど複雑
+  bestPractices: number;
+}
+
+// 1回分の分析記録
+export interface AnalysisRunRecord {
+  id?: string;
+  repoName: string;
+  targetPath: string | null;   // 単一ファイル分析の場合のパス（リポジトリ全体は null）
+  ref: string;
+  commitSha: string;
+  timestamp: number;
+  fileCount: number;
+  overallScore: number;
+  categoryScores: CategoryScores;
+  issueCounts: {
+    total: number;
+    high: number;
+    medium: number;
+    low: number;
+  };
+  security: {
+    total: number;
+    critical: number;
+    high: number;
+    medium: number;
+    low: number;
+  };
+}
+
+// 推移グラフで扱う指標
+export type TrendMetric = 'overallScore' | 'codeStyleScore' | 'complexityScore' | 'vulnerabilities';
+
+// 連続する2回の分析の間で指標が悪化した箇所
+export interface Regression {
+  metric: TrendMetric;
+  fromRun: AnalysisRunRecord;
+  toRun: AnalysisRunRecord;
+  previousValue: number;
+  currentValue: number;
+}
+
+// 指標の取り出し方と、値が大きいほど良いかどうか
+export const TREND_METRICS: Record<TrendMetric, {
+  label: string;
+  higherIsBetter: boolean;
+  threshold: number;           // この差を超えた変化のみを悪化とみなす
+  getValue: (run: AnalysisRunRecord) => number;
+}> = {
+  overallScore: {
+    label: '総合スコア',
+    higherIsBetter: true,
+    threshold: 1,
+    getValue: run => run.overallScore
+  },
+  codeStyleScore: {
+    label: 'コードスタイル',
+    higherIsBetter: true,
+    threshold: 0.1,
+    getValue: run => run.categoryScores.codeStyle
+  },
+  complexityScore: {
+    label: '複雑度',
+    higherIsBetter: false,
+    threshold: 0.1,
+    getValue: run => run.categoryScores.complexity
+  },
+  vulnerabilities: {
+    label: '脆弱性',
+    higherIsBetter: false,
+    threshold: 0,
+    getValue: run => run.security.total
+  }
+};
+
+// 一度に取得する履歴の件数
+const DEFAULT_HISTORY_LIMIT = 50;
+
+/**
+ * 履歴コレクションの参照（users/{uid}/analysisHistory/{repo}/runs）
+ * リポジトリ名の「/」はドキュメントIDに使えないためエンコード
+ */
+const getRunsCollection = (userId: string, repoName: string) =>
+  db.collection('users').doc(userId)
+    .collection('analysisHistory').doc(encodeURIComponent(repoName))
+    .collection('runs');
+
+// 小数第1位で丸める
+const roundScore = (value: number): number => Math.round(value * 10) / 10;
+
+/**
+ * 分析結果から保存用の記録を作成
+ * 脆弱性は分析時に各ファイルで記録したセキュリティチェックの結果から集計します（チェックポイントから復元したファイルも含む）
+ * 指摘件数はレポートと同じくベースラインに記録済みのものを除きます
+ */
+export const createAnalysisRunRecord = (
+  result: RepositoryAnalysisResult,
+  targetPath: string | null = null
+): AnalysisRunRecord => {
+  const { files } = result;
+  const average = (getValue: (file: typeof files[number]) => number): number =>
+    files.length > 0 ? roundScore(files.reduce((sum, file) => sum + getValue(file), 0) / files.length) : 0;
+
+  const issues = files.flatMap(file => file.issues);
+  const security = { total: 0, critical: 0, high: 0, medium: 0, low: 0 };
+
+  for (const file of files) {
+    if (!file.security) continue;
+    const { summary } = applySecurityBaseline(file.fileName, file.security, result.baseline);
+    security.total += summary.total;
+    security.critical += summary.critical;
+    security.high += summary.high;
+    security.medium += summary.medium;
+    security.low += summary.low;
+  }
+
+  return {
+    repoName: result.repoName,
+    targetPath,
+    ref: result.ref,
+    commitSha: result.commitSha,
+    timestamp: result.timestamp,
+    fileCount: files.length,
+    overallScore: result.overallScore,
+    categoryScores: {
+      codeStyle: average(file => file.codeStyleScore),
+      naming: average(file => file.namingScore),
+      complexity: average(file => file.complexityScore),
+      bestPractices: average(file => file.bestPracticesScore)
+    },
+    issueCounts: {
+      total: issues.length,
+      high: issues.filter(issue => issue.severity === 'high').length,
+      medium: issues.filter(issue => issue.severity === 'medium').length,
+      low: issues.filter(issue => issue.severity === 'low').length
+    },
+    security
+  };
+};
+
+/**
+ * 分析結果を履歴として保存
+ * 中断された分析は途中の結果のため保存しない
+ */
+export const saveAnalysisRun = async (
+  userId: string,
+  result: RepositoryAnalysisResult,
+  targetPath: string | null = null
+): Promise<AnalysisRunRecord | null> => {
+  if (!userId || !db) {
+    console.warn('Firestore is not available, skipping analysis history');
+    return null;
+  }
+  if (result.progress?.pausedReason || result.files.length === 0) {
+    return null;
+  }
+
+  try {
+    const record = createAnalysisRunRecord(result, targetPath);
+    const docRef = await getRunsCollection(userId, result.repoName).add(record);
+    return { ...record, id: docRef.id };
+  } catch (error) {
+    console.error('Failed to save analysis history:', error);
+    return null;
+  }
+};
+
+/**
+ * リポジトリの分析履歴を古い順に取得
+ * @param targetPath 単一ファイル分析の履歴を取得する場合のパス（null はリポジトリ全体）
+ */
+export const getAnalysisHistory = async (
+  userId: string,
+  repoName: string,
+  targetPath: string | null = null,
+  limit: number = DEFAULT_HISTORY_LIMIT
+): Promise<AnalysisRunRecord[]> => {
+  if (!userId || !db) return [];
+
+  try {
+    // 単一ファイルの分析とリポジトリ全体の分析は件数の上限を別々に数える（firestore.indexes.json の複合インデックスを使う）
+    const snapshot = await getRunsCollection(userId, repoName)
+      .where('targetPath', '==', targetPath)
+      .orderBy('timestamp', 'desc')
+      .limit(limit)
+      .get();
+
+    return snapshot.docs
+      .map((doc: firebase.firestore.QueryDocumentSnapshot) => ({ ...(doc.data() as AnalysisRunRecord), id: doc.id }))
+      .reverse();
+  } catch (error) {
+    console.error('Failed to get analysis history:', error);
+    return [];
+  }
+};
+
+/**
+ * 連続する分析の間で悪化した指標を検出
+ * @param runs 古い順に並んだ分析記録
+ */
+export const detectRegressions = (runs: AnalysisRunRecord[]): Regression[] => {
+  const regressions: Regression[] = [];
+
+  for (let i = 1; i < runs.length; i++) {
+    const fromRun = runs[i - 1];
+    const toRun = runs[i];
+
+    (Object.keys(TREND_METRICS) as TrendMetric[]).forEach(metric => {
+      const { getValue, higherIsBetter, threshold } = TREND_METRICS[metric];
+      const previousValue = getValue(fromRun);
+      const currentValue = getValue(toRun);
+      const change = higherIsBetter ? previousValue - currentValue : currentValue - previousValue;
+
+      if (change > threshold) {
+        regressions.push({ metric, fromRun, toRun, previousValue, currentValue });
+      }
+    });
+  }
+
+  return regressions;
+};
+
+export default {
+  createAnalysisRunRecord,
+  saveAnalysisRun,
+  getAnalysisHistory,
+  detectRegressions
+};
@@ -0,0 +1,323 @@
+/**
+ * 分析レポートサービス
+ * コード分析済みのファイルに対してセキュリティ・重複・複雑度の分析をまとめて実行し、
+ * ファイル単位とリポジトリ全体のレポートを作成します
+ * リポジトリ全体のレポートでは依存関係マニフェストの既知の脆弱性もスキャンします
+ * ベースラインに記録済みの検出結果は、キャッシュした結果にも適用できるよう分析の後で除きます
+ */
+
+import { CachedDuplication, getCachedAnalysis, putCachedAnalysis } from './analysisCacheService';
+import {
+  FindingBaseline,
+  applyCrossFileDuplicateBaseline,
+  applyDuplicationBaseline,
+  applySecurityBaseline
+} from './baselineService';
+import { FileAnalysisResult, RepositoryAnalysisResult } from './codeAnalysisService';
+import { ComplexityVisualization, analyzeCodeComplexityWithVisual } from './complexityVisualizationService';
+import { DependencyScanResult, scanRepositoryDependencies, toSecurityVulnerability } from './dependencyScanService';
+import { DuplicateBlock, DuplicationProgressCallback, DuplicationResult } from './duplicateDetectionService';
+import { detectCrossFileDuplicatesInWorker, detectDuplicatesInWorker } from './duplicateWorkerService';
+import { RepositoryConfig, getAnalysisThresholds, getSecurityCheckOptions } from './repositoryConfigService';
+import { SecurityCheckResult, SecurityVulnerability, performSecurityCheck } from './securityCheckService';
+
+// ファイル単位のレポート（分析できなかった項目は null）
+export interface FileReport {
+  fileName: string;
+  language: string;
+  security: SecurityCheckResult | null;
+  duplication: CachedDuplication | null;
+  complexity: ComplexityVisualization | null;
+  skippedReason?: string;
+}
+
+// リポジトリ全体のレポート
+export interface AnalysisReport {
+  repoName: string;
+  commitSha: string;
+  files: FileReport[];
+  crossFileDuplicates: DuplicationResult[];   // ファイル間の重複
+  dependencies: DependencyScanResult | null;  // 依存パッケージの既知の脆弱性（スキャンしていなければ null）
+  summary: {
+    vulnerabilities: {
+      critical: number;
+      high: number;
+      medium: number;
+      low: number;
+      info: number;
+      total: number;
+    };
+    duplicateBlocks: number;
+    duplicateLines: number;
+    crossFileDuplicates: number;
+    averageComplexity: number;    // 分析できたファイルの平均（0-10）
+    mostComplexFile: string | null;
+    suppressed: FindingCounts;    // codecoach-ignore コメントで抑制した件数（上の件数には含まない）
+    baselined: FindingCounts;     // ベースラインに記録済みのため除いた件数（上の件数には含まない）
+  };
+  timestamp: number;
+}
+
+// 分析ごとの検出結果の件数
+export interface FindingCounts {
+  vulnerabilities: number;
+  issues: number;
+  duplicates: number;           // ファイル内とファイル間の重複の合計
+}
+
+// レポート作成オプション
+export interface AnalysisReportOptions {
+  onProgress?: (processedFiles: number, totalFiles: number, currentFile: string | null) => void;
+  onDuplicationProgress?: DuplicationProgressCallback;   // 重複検出（Web Worker）の進捗
+  scanDependencies?: boolean;   // 依存関係マニフェストをスキャンするか（リポジトリ全体の分析向け）
+  signal?: AbortSignal;
+}
+
+/**
+ * 1ファイルのセキュリティ・重複・複雑度を分析
+ * Blob SHAがあるファイルはセキュリティと重複の結果をキャッシュします
+ * @param config リポジトリの設定（閾値・無効にするルール・セキュリティのカスタムルールを適用）
+ * @param baseline 記録済みの検出結果を除くベースライン
+ */
+export const generateFileReport = async (
+  file: FileAnalysisResult,
+  options: Pick<AnalysisReportOptions, 'onDuplicationProgress' | 'signal'> = {},
+  config: RepositoryConfig | null = null,
+  baseline: FindingBaseline | null = null
+): Promise<FileReport> => {
+  const report: FileReport = {
+    fileName: file.fileName,
+    language: file.language,
+    security: null,
+    duplication: null,
+    complexity: null
+  };
+
+  const code = file.codeContent;
+  if (!code) {
+    // チェックポイントから復元したファイルは内容を保持していない
+    return { ...report, skippedReason: 'ファイル内容がないため分析できません（再分析すると表示されます）' };
+  }
+
+  const cached = file.blobSha ? await getCachedAnalysis(file.blobSha, file.language, config?.id) : null;
+  const cacheUpdate: Parameters<typeof putCachedAnalysis>[2] = {};
+
+  try {
+    // 分析時の結果があればそのまま使う
+    const security = file.security || cached?.security ||
+      await performSecurityCheck(code, file.language, getSecurityCheckOptions(config, file.fileName));
+    if (!file.security && !cached?.security) cacheUpdate.security = security;
+    report.security = applySecurityBaseline(file.fileName, security, baseline);
+  } catch (error) {
+    console.error(`Failed to run security check for ${file.fileName}:`, error);
+  }
+
+  try {
+    const duplication = cached?.duplication || await detectDuplicatesInWorker(code, file.language, {
+      ...getAnalysisThresholds(config).duplication,
+      onProgress: options.onDuplicationProgress,
+      signal: options.signal
+    });
+    if (!cached?.duplication) cacheUpdate.duplication = duplication;
+    report.duplication = applyDuplicationBaseline(file, duplication, baseline);
+  } catch (error) {
+    if (!options.signal?.aborted) {
+      console.error(`Failed to detect duplicates for ${file.fileName}:`, error);
+    }
+  }
+
+  try {
+    report.complexity = await analyzeCodeComplexityWithVisual(code, file.language);
+  } catch (error) {
+    console.error(`Failed to analyze complexity for ${file.fileName}:`, error);
+  }
+
+  if (file.blobSha && (cacheUpdate.security || cacheUpdate.duplication)) {
+    await putCachedAnalysis(file.blobSha, file.language, cacheUpdate, config?.id);
+  }
+
+  return report;
+};
+
+/**
+ * ファイル単位のレポートを集計
+ * @param analyzedFiles コード分析の結果（コード品質の問題の抑制・ベースラインの件数）
+ * @param baselinedCrossFileDuplicates ベースラインで除いたファイル間の重複の件数
+ */
+const summarizeReports = (
+  files: FileReport[],
+  crossFileDuplicates: DuplicationResult[],
+  dependencies: DependencyScanResult | null,
+  analyzedFiles: FileAnalysisResult[],
+  baselinedCrossFileDuplicates: number
+): AnalysisReport['summary'] => {
+  const vulnerabilities = { critical: 0, high: 0, medium: 0, low: 0, info: 0, total: 0 };
+  const suppressed: FindingCounts = { vulnerabilities: 0, issues: 0, duplicates: 0 };
+  const baselined: FindingCounts = { vulnerabilities: 0, issues: 0, duplicates: baselinedCrossFileDuplicates };
+  let duplicateBlocks = 0;
+  let duplicateLines = 0;
+  let complexityTotal = 0;
+  let complexityCount = 0;
+  let mostComplex: { fileName: string; overall: number } | null = null;
+
+  for (const file of files) {
+    if (file.security) {
+      const { summary } = file.security;
+      vulnerabilities.critical += summary.critical;
+      vulnerabilities.high += summary.high;
+      vulnerabilities.medium += summary.medium;
+      vulnerabilities.low += summary.low;
+      vulnerabilities.info += summary.info;
+      vulnerabilities.total += summary.total;
+      suppressed.vulnerabilities += summary.suppressed;
+      baselined.vulnerabilities += summary.baselined;
+    }
+    if (file.duplication) {
+      duplicateBlocks += file.duplication.duplicates.length;
+      duplicateLines += file.duplication.stats.totalDuplicateLines;
+      suppressed.duplicates += file.duplication.stats.suppressedDuplicates;
+      baselined.duplicates += file.duplication.stats.baselinedDuplicates;
+    }
+    if (file.complexity) {
+      complexityTotal += file.complexity.overall;
+      complexityCount++;
+      if (!mostComplex || file.complexity.overall > mostComplex.overall) {
+        mostComplex = { fileName: file.fileName, overall: file.complexity.overall };
+      }
+    }
+  }
+  for (const finding of dependencies?.findings || []) {
+    vulnerabilities[finding.severity]++;
+    vulnerabilities.total++;
+  }
+  for (const file of analyzedFiles) {
+    suppressed.issues += file.suppressedIssues || 0;
+    baselined.issues += file.baselinedIssues || 0;
+  }
+
+  return {
+    vulnerabilities,
+    duplicateBlocks,
+    duplicateLines,
+    crossFileDuplicates: crossFileDuplicates.length,
+    averageComplexity: complexityCount > 0 ? Math.round((complexityTotal / complexityCount) * 10) / 10 : 0,
+    mostComplexFile: mostComplex ? mostComplex.fileName : null,
+    suppressed,
+    baselined
+  };
+};
+
+/**
+ * 分析結果の全ファイルについてレポートを作成
+ */
+export const generateAnalysisReport = async (
+  result: RepositoryAnalysisResult,
+  options: AnalysisReportOptions = {}
+): Promise<AnalysisReport> => {
+  const { onProgress, onDuplicationProgress, scanDependencies, signal } = options;
+  const files: FileReport[] = [];
+
+  for (let i = 0; i < result.files.length; i++) {
+    if (signal?.aborted) break;
+    const file = result.files[i];
+    onProgress?.(i, result.files.length, file.fileName);
+    files.push(await generateFileReport(file, { onDuplicationProgress, signal }, result.config, result.baseline));
+  }
+  onProgress?.(files.length, result.files.length, null);
+
+  // ファイル間の重複（内容を保持しているファイルのみ）
+  let crossFileDuplicates: DuplicationResult[] = [];
+  let baselinedCrossFileDuplicates = 0;
+  const sources = result.files
+    .filter(file => file.codeContent)
+    .map(file => ({ file: file.fileName, content: file.codeContent as string, language: file.language }));
+  if (sources.length > 1 && !signal?.aborted) {
+    try {
+      const { minBlockSize } = getAnalysisThresholds(result.config).duplication;
+      const detected = await detectCrossFileDuplicatesInWorker(sources, { minLines: minBlockSize }, {
+        onProgress: onDuplicationProgress,
+        signal
+      });
+      ({ duplications: crossFileDuplicates, baselined: baselinedCrossFileDuplicates } =
+        applyCrossFileDuplicateBaseline(detected, result.baseline));
+    } catch (error) {
+      if (!signal?.aborted) {
+        console.error('Failed to detect cross-file duplicates:', error);
+      }
+    }
+  }
+
+  // 依存パッケージの既知の脆弱性（分析したコミットのマニフェスト）
+  let dependencies: DependencyScanResult | null = null;
+  if (scanDependencies && !signal?.aborted) {
+    try {
+      dependencies = await scanRepositoryDependencies(result.repoName, result.commitSha || result.ref);
+    } catch (error) {
+      console.error('Failed to scan dependencies:', error);
+    }
+  }
+
+  return {
+    repoName: result.repoName,
+    commitSha: result.commitSha,
+    files,
+    crossFileDuplicates,
+    dependencies,
+    summary: summarizeReports(files, crossFileDuplicates, dependencies, result.files, baselinedCrossFileDuplicates),
+    timestamp: Date.now()
+  };
+};
+
+/**
+ * ファイル内の重複ブロックを重複表示用の形式に変換
+ */
+export const toDuplicationResults = (
+  fileName: string,
+  language: string,
+  duplicates: DuplicateBlock[]
+): DuplicationResult[] =>
+  duplicates.map(duplicate => ({
+    similarity: duplicate.similarity,
+    blockA: {
+      file: fileName,
+      content: duplicate.codeA,
+      startLine: duplicate.startLineA,
+      endLine: duplicate.endLineA,
+      language
+    },
+    blockB: {
+      file: fileName,
+      content: duplicate.codeB,
+      startLine: duplicate.startLineB,
+      endLine: duplicate.endLineB,
+      language
+    }
+  }));
+
+/**
+ * レポート内の脆弱性をファイル名付きで取得（依存パッケージの脆弱性はマニフェストごとにまとめる）
+ */
+export const getReportVulnerabilities = (
+  report: AnalysisReport
+): { fileName: string; vulnerabilities: SecurityVulnerability[] }[] => {
+  const groups = report.files
+    .filter(file => file.security && file.security.vulnerabilities.length > 0)
+    .map(file => ({ fileName: file.fileName, vulnerabilities: file.security!.vulnerabilities }));
+
+  const manifests = new Map<string, SecurityVulnerability[]>();
+  for (const finding of report.dependencies?.findings || []) {
+    const vulnerabilities = manifests.get(finding.dependency.manifest) || [];
+    vulnerabilities.push(toSecurityVulnerability(finding));
+    manifests.set(finding.dependency.manifest, vulnerabilities);
+  }
+  manifests.forEach((vulnerabilities, fileName) => groups.push({ fileName, vulnerabilities }));
+
+  return groups;
+};
+
+export default {
+  generateFileReport,
+  generateAnalysisReport,
+  toDuplicationResults,
+  getReportVulnerabilities
+};
@@ -0,0 +1,304 @@
+/**
+ * ベースラインサービス
+ * 既存の検出結果の指紋をベースラインのファイル（.codecoach-baseline.json）に記録し、
+ * 以降の分析ではベースラインにない新しい検出結果だけを報告します
+ * 指紋は SARIF 出力と同じ方法（規則・ファイル・コードの内容）で計算するため、前後の行の追加・削除では変わりません
+ */
+
+import { CachedDuplication } from './analysisCacheService';
+import { AnalysisReport } from './analysisReportService';
+import { FileAnalysisResult, RepositoryAnalysisResult } from './codeAnalysisService';
+import { DuplicationResult, calculateDuplicationStats } from './duplicateDetectionService';
+import { getTextFileContent, isRateLimitError } from './githubService';
+import { RepositoryConfig } from './repositoryConfigService';
+import {
+  CROSS_FILE_DUPLICATE_RULE_ID,
+  FindingFingerprinter,
+  createFindingFingerprinter,
+  getDuplicateRuleId,
+  getIssueFingerprintCode,
+  getIssueRuleId,
+  getVulnerabilityRuleId
+} from './sarifExportService';
+import { SecurityCheckResult, calculateVulnerabilitySummary } from './securityCheckService';
+
+// 設定ファイルで指定がない場合のベースラインのファイル（リポジトリのルート直下）
+export const BASELINE_FILE = '.codecoach-baseline.json';
+
+// ベースラインのファイルの形式のバージョン（指紋の計算方法を変えたら更新する）
+export const BASELINE_VERSION = 1;
+
+// ベースラインに記録した検出結果（指紋以外はレビュー時の確認用）
+export interface BaselineEntry {
+  fingerprint: string;
+  ruleId: string;                 // SARIF の規則ID（security/cwe-79・quality/code_style など）
+  fileName: string;
+  line: number;                   // 記録した時点の行番号
+  message: string;
+}
+
+// ベースラインのファイルの内容
+export interface BaselineFile {
+  version: number;
+  generatedAt: string;            // 作成日時（ISO 8601）
+  commitSha?: string;             // 作成時に分析したコミット
+  findings: BaselineEntry[];
+}
+
+// 分析に適用するベースライン
+export interface FindingBaseline {
+  source: string;                 // ベースラインのファイル
+  generatedAt: string | null;
+  commitSha: string | null;
+  entries: BaselineEntry[];
+}
+
+// ベースラインごとの指紋の集合（ファイルごとに作り直さないようにする）
+const fingerprintSets = new WeakMap<FindingBaseline, Set<string>>();
+
+const getFingerprints = (baseline: FindingBaseline): Set<string> => {
+  let fingerprints = fingerprintSets.get(baseline);
+  if (!fingerprints) {
+    fingerprints = new Set(baseline.entries.map(entry => entry.fingerprint));
+    fingerprintSets.set(baseline, fingerprints);
+  }
+  return fingerprints;
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * ベースラインのファイルを解析
+ * 形式が正しくない記録は読み飛ばします
+ * @throws JSON として解析できない・形式のバージョンが異なる場合
+ */
+export const parseBaseline = (content: string, source: string): FindingBaseline => {
+  const document: unknown = JSON.parse(content);
+  if (!isPlainObject(document) || !Array.isArray(document.findings)) {
+    throw new Error('findings に検出結果の配列を指定してください。');
+  }
+  if (document.version !== BASELINE_VERSION) {
+    throw new Error(`対応していない形式のバージョンです（${BASELINE_VERSION} に対応しています）。`);
+  }
+
+  const entries = document.findings.flatMap((raw): BaselineEntry[] => {
+    if (!isPlainObject(raw) || typeof raw.fingerprint !== 'string' || !/^[0-9a-f]{16}$/.test(raw.fingerprint)) return [];
+    return [{
+      fingerprint: raw.fingerprint,
+      ruleId: typeof raw.ruleId === 'string' ? raw.ruleId : '',
+      fileName: typeof raw.fileName === 'string' ? raw.fileName : '',
+      line: typeof raw.line === 'number' ? raw.line : 0,
+      message: typeof raw.message === 'string' ? raw.message : ''
+    }];
+  });
+
+  return {
+    source,
+    generatedAt: typeof document.generatedAt === 'string' ? document.generatedAt : null,
+    commitSha: typeof document.commitSha === 'string' ? document.commitSha : null,
+    entries
+  };
+};
+
+/**
+ * リポジトリのベースラインを読み込む
+ * 設定ファイルで指定したベースラインを読み込めない場合は、設定のエラーに記録して分析を続行します
+ * @param config リポジトリの設定（baseline の指定がなければ既定のファイルを探す）
+ * @param ref 未指定時はデフォルトブランチ
+ * @returns ベースラインのファイルがない場合は null
+ */
+export const loadBaseline = async (
+  fullRepoName: string,
+  config: RepositoryConfig | null,
+  ref?: string
+): Promise<FindingBaseline | null> => {
+  const [owner, repo] = fullRepoName.split('/');
+  const source = config?.baseline || BASELINE_FILE;
+
+  let content: string;
+  try {
+    content = await getTextFileContent(owner, repo, source, ref);
+  } catch (error) {
+    if (isRateLimitError(error)) throw error;
+    // 既定のファイルはないのが普通なので、設定ファイルで指定した場合だけ報告する
+    if (config?.baseline) {
+      console.warn(`Failed to load baseline ${source}:`, error);
+      config.errors.push({ source: config.source, message: `ベースライン ${source} を読み込めませんでした。` });
+    }
+    return null;
+  }
+
+  try {
+    return parseBaseline(content, source);
+  } catch (error) {
+    console.warn(`Failed to parse baseline ${source}:`, error);
+    config?.errors.push({
+      source,
+      message: `ベースラインを解析できないため適用しません: ${error instanceof Error ? error.message : String(error)}`
+    });
+    return null;
+  }
+};
+
+/**
+ * ベースラインに記録済みのコード品質の問題を除く
+ * ファイルの内容がない場合（チェックポイントから復元したファイル）は SARIF 出力と同じく行のコードを空として計算します
+ */
+export const applyIssueBaseline = (
+  file: FileAnalysisResult,
+  baseline: FindingBaseline | null | undefined
+): FileAnalysisResult => {
+  if (!baseline) return file;
+  const fingerprints = getFingerprints(baseline);
+  const fingerprint = createFindingFingerprinter();
+  const lines = file.codeContent?.split('\n') || [];
+
+  const issues = file.issues.filter(issue =>
+    !fingerprints.has(fingerprint(getIssueRuleId(issue), file.fileName, getIssueFingerprintCode(issue, lines[issue.line - 1] || '')))
+  );
+  return { ...file, issues, baselinedIssues: file.issues.length - issues.length };
+};
+
+/**
+ * ベースラインに記録済みの脆弱性を除き、概要を計算し直す
+ */
+export const applySecurityBaseline = (
+  fileName: string,
+  security: SecurityCheckResult,
+  baseline: FindingBaseline | null | undefined
+): SecurityCheckResult => {
+  if (!baseline) return security;
+  const fingerprints = getFingerprints(baseline);
+  const fingerprint = createFindingFingerprinter();
+
+  const vulnerabilities = security.vulnerabilities.filter(vulnerability =>
+    !fingerprints.has(fingerprint(getVulnerabilityRuleId(vulnerability), fileName, vulnerability.code))
+  );
+  if (vulnerabilities.length === security.vulnerabilities.length) return security;
+
+  return {
+    ...security,
+    vulnerabilities,
+    summary: {
+      ...calculateVulnerabilitySummary(vulnerabilities),
+      suppressed: security.summary.suppressed,
+      baselined: security.vulnerabilities.length - vulnerabilities.length
+    }
+  };
+};
+
+/**
+ * ベースラインに記録済みのファイル内の重複を除き、統計を計算し直す
+ */
+export const applyDuplicationBaseline = (
+  file: Pick<FileAnalysisResult, 'fileName' | 'language' | 'lineCount'>,
+  duplication: CachedDuplication,
+  baseline: FindingBaseline | null | undefined
+): CachedDuplication => {
+  if (!baseline) return duplication;
+  const fingerprints = getFingerprints(baseline);
+  const fingerprint = createFindingFingerprinter();
+
+  const duplicates = duplication.duplicates.filter(duplicate =>
+    !fingerprints.has(fingerprint(getDuplicateRuleId(duplicate), file.fileName, duplicate.codeA))
+  );
+  if (duplicates.length === duplication.duplicates.length) return duplication;
+
+  const stats = calculateDuplicationStats(duplicates, file.lineCount, file.language);
+  stats.suppressedDuplicates = duplication.stats.suppressedDuplicates;
+  stats.baselinedDuplicates = duplication.duplicates.length - duplicates.length;
+  return { duplicates, stats };
+};
+
+/**
+ * ベースラインに記録済みのファイル間の重複を除く
+ * @returns 残った重複と、除いた件数
+ */
+export const applyCrossFileDuplicateBaseline = (
+  duplications: DuplicationResult[],
+  baseline: FindingBaseline | null | undefined
+): { duplications: DuplicationResult[]; baselined: number } => {
+  if (!baseline) return { duplications, baselined: 0 };
+  const fingerprints = getFingerprints(baseline);
+  const fingerprint = createFindingFingerprinter();
+
+  const remaining = duplications.filter(({ blockA }) =>
+    !fingerprints.has(fingerprint(CROSS_FILE_DUPLICATE_RULE_ID, blockA.file, blockA.content))
+  );
+  return { duplications: remaining, baselined: duplications.length - remaining.length };
+};
+
+/**
+ * 現在の検出結果からベースラインのファイルを作成
+ * 適用中のベースラインの記録は残し、報告された検出結果を追加します
+ * 報告された検出結果は、ベースラインで除いたものと同じ出現順の指紋を飛ばして計算します
+ * @param report セキュリティ・重複のレポート（作成前なら null でコード品質の問題のみ）
+ */
+export const createBaselineFile = (result: RepositoryAnalysisResult, report: AnalysisReport | null): BaselineFile => {
+  const previous = result.baseline || null;
+  const known = previous ? getFingerprints(previous) : new Set<string>();
+  const entries = new Map<string, BaselineEntry>(previous?.entries.map(entry => [entry.fingerprint, entry]) || []);
+  const fingerprint: FindingFingerprinter = createFindingFingerprinter();
+
+  const add = (ruleId: string, fileName: string, code: string, line: number, message: string) => {
+    let value = fingerprint(ruleId, fileName, code);
+    while (known.has(value)) value = fingerprint(ruleId, fileName, code);
+    entries.set(value, { fingerprint: value, ruleId, fileName, line, message });
+  };
+
+  for (const file of report?.files || []) {
+    for (const vulnerability of file.security?.vulnerabilities || []) {
+      add(getVulnerabilityRuleId(vulnerability), file.fileName, vulnerability.code, vulnerability.line, vulnerability.message);
+    }
+  }
+  for (const file of result.files) {
+    const lines = file.codeContent?.split('\n') || [];
+    for (const issue of file.issues) {
+      add(getIssueRuleId(issue), file.fileName, getIssueFingerprintCode(issue, lines[issue.line - 1] || ''), issue.line, issue.message);
+    }
+  }
+  for (const file of report?.files || []) {
+    for (const duplicate of file.duplication?.duplicates || []) {
+      add(
+        getDuplicateRuleId(duplicate),
+        file.fileName,
+        duplicate.codeA,
+        duplicate.startLineA,
+        `行 ${duplicate.startLineB}-${duplicate.endLineB} と重複しています。`
+      );
+    }
+  }
+  for (const { blockA, blockB } of report?.crossFileDuplicates || []) {
+    add(
+      CROSS_FILE_DUPLICATE_RULE_ID,
+      blockA.file,
+      blockA.content,
+      blockA.startLine,
+      `${blockB.file} の行 ${blockB.startLine}-${blockB.endLine} と重複しています。`
+    );
+  }
+
+  // レビューしやすいようファイル・行の順に並べる
+  const findings = [...entries.values()].sort((a, b) =>
+    a.fileName.localeCompare(b.fileName) || a.line - b.line || a.ruleId.localeCompare(b.ruleId)
+  );
+
+  return {
+    version: BASELINE_VERSION,
+    generatedAt: new Date().toISOString(),
+    ...(result.commitSha ? { commitSha: result.commitSha } : {}),
+    findings
+  };
+};
+
+export default {
+  BASELINE_FILE,
+  parseBaseline,
+  loadBaseline,
+  applyIssueBaseline,
+  applySecurityBaseline,
+  applyDuplicationBaseline,
+  applyCrossFileDuplicateBaseline,
+  createBaselineFile
+};
@@ -4,7 +4,38 @@
  */
 
 import * as tf from '@tensorflow/tfjs';
-import { getFileContent, getRepositoryContents, getRepositoryLanguages } from './githubService';
+import { getCachedAnalyses, getCachedAnalysis, putCachedAnalysis } from './analysisCacheService';
+import { FindingBaseline, applyIssueBaseline, loadBaseline } from './baselineService';
+import {
+  fetchBlobContents,
+  getFileBlob,
+  getRepositoryLanguages,
+  getRepositoryTree,
+  isRateLimitError,
+  resolveRef
+} from './githubService';
+import { LlmProviderId } from './llmProviderService';
+import {
+  Declaration,
+  Token,
+  findFirstNodeAtDepth,
+  getCodeTokens,
+  getCommentOnlyLines,
+  getFunctionNodes,
+  getMaxNestingDepth,
+  parseCode
+} from './parser';
+import {
+  AnalysisThresholds,
+  RepositoryConfig,
+  createPathFilter,
+  getAnalysisThresholds,
+  getSecurityCheckOptions,
+  loadRepositoryConfig
+} from './repositoryConfigService';
+import { CustomRule, CustomRuleSeverity, RuleFix, applyRuleSettings, evaluateCustomRules } from './rulePackService';
+import { SecurityCheckResult, performSecurityCheck } from './securityCheckService';
+import { filterSuppressed, parseSuppressions } from './suppressionService';
 import { enhanceLearningRecommendation } from './tfService';
 import transformersService from './transformersService';
 
@@ -40,6 +71,18 @@ export interface CodeIssue {
   line: number;                // 問題のある行
   column?: number;             // 問題のある列
   suggestion?: string;         // 修正の提案
+  ruleId?: string;             // カスタムルールのID（リポジトリの .codecoach.yml で定義）
+  fix?: RuleFix;               // カスタムルールのテンプレートから作成した自動修正
+  endLine?: number;            // 問題のある範囲の最終行（複数行にわたる場合）
+  patch?: string;              // line〜endLine を置き換える修正案のコード
+  source?: IssueSource;        // AIレビューの検出結果の場合の生成元（静的解析の結果には付かない）
+}
+
+// AIレビューで検出した問題の生成元
+export interface IssueSource {
+  type: 'ai';
+  provider: LlmProviderId;
+  model: string;
 }
 
 // コードメトリクス型定義
@@ -83,6 +126,10 @@ export interface FileAnalysisResult {
     bestPractices: string;
   };
   codeContent?: string; // AIツール用にコード内容を保存
+  blobSha?: string;     // ファイル内容のBlob SHA（分析キャッシュのキー）
+  suppressedIssues?: number; // codecoach-ignore コメントで抑制した問題の数（issues には含まない）
+  baselinedIssues?: number;  // ベースラインに記録済みのため除いた問題の数（issues には含まない）
+  security?: SecurityCheckResult; // 分析時のセキュリティチェックの結果（ベースライン適用前。チェックポイントにも残る）
 }
 
 // リポジトリ分析結果型定義
@@ -92,17 +139,60 @@ export interface RepositoryAnalysisResult {
   overallScore: number;
   languageBreakdown: Record<string, number>;
   timestamp: number;
+  ref: string;                 // 分析したブランチ・タグ・コミット（デフォルトブランチは HEAD）
+  commitSha: string;           // 分析したコミットのSHA（結果の再現用）
+  progress?: AnalysisProgress; // リポジトリ全体分析の進捗（中断時は再開可能）
+  config?: RepositoryConfig | null; // 適用したリポジトリの設定とカスタムルール（設定ファイルがなければ null）
+  baseline?: FindingBaseline | null; // 適用したベースライン（ベースラインのファイルがなければ null）
+}
+
+// リポジトリ全体分析の進捗
+export interface AnalysisProgress {
+  totalFiles: number;          // 分析対象ファイル数
+  processedFiles: number;      // 処理済みファイル数（失敗を含む）
+  failedFiles: number;         // 分析に失敗したファイル数
+  currentFile: string | null;  // 分析中のファイルパス
+  resumed: boolean;            // チェックポイントから再開したか
+  pausedReason?: string;       // 中断した理由（レート制限・キャンセル）
+}
+
+// リポジトリ分析オプション
+export interface RepositoryAnalysisOptions {
+  ref?: string;                // ブランチ・タグ・コミットSHA（未指定時はデフォルトブランチ）
+  onProgress?: (progress: AnalysisProgress) => void;
+  onFileAnalyzed?: (result: FileAnalysisResult, progress: AnalysisProgress) => void;
+  signal?: AbortSignal;        // 中断用シグナル（中断時はチェックポイントを保存）
+}
+
+// 分析対象ファイル
+interface AnalysisTargetFile {
+  name: string;
+  path: string;
+  sha: string;                 // Blob SHA（内容の一括取得に使用）
+}
+
+// 分析の再開用チェックポイント
+interface AnalysisCheckpoint {
+  repoName: string;
+  ref: string;
+  commitSha: string;           // 分析中のコミット（再開時も同じコミットを分析）
+  filePaths: AnalysisTargetFile[];
+  processedPaths: string[];
+  failedPaths: string[];
+  results: FileAnalysisResult[];
+  updatedAt: number;
 }
 
 /**
  * コードスタイルスコアを計算
+ * @param maxLineLength これより長い行を長い行として減点
  */
-const calculateCodeStyleScore = (code: string, language: string): number => {
+const calculateCodeStyleScore = (code: string, language: string, maxLineLength: number): number => {
   const lines = code.split('\n');
   const lineCount = lines.length;
   
   // 長い行の割合
-  const longLines = lines.filter(line => line.length > 100).length;
+  const longLines = lines.filter(line => line.length > maxLineLength).length;
   const longLineRatio = (longLines / lineCount) * 100;
   
   // インデントの一貫性
@@ -147,64 +237,56 @@ const calculateCodeStyleScore = (code: string, language: string): number => {
   return Math.max(1, score);
 };
 
+/**
+ * 命名規則の評価対象となる宣言を取得
+ */
+const getNamingTargets = (code: string, language: string): Declaration[] => {
+  if (!['javascript', 'typescript', 'python'].includes(language)) {
+    return [];
+  }
+  return parseCode(code, language).declarations;
+};
+
+/**
+ * 宣言が言語の命名規則に従っているかを判定
+ */
+const followsNamingConvention = (declaration: Declaration, language: string): boolean => {
+  // 先頭の _ や $ はプライベート・特殊用途の慣習として除外
+  const name = declaration.name.replace(/^[_$]+/, '');
+  if (name === '') return true;
+
+  // クラスはパスカルケース
+  if (declaration.kind === 'class') {
+    return /^[A-Z][a-zA-Z0-9]*$/.test(name);
+  }
+
+  if (language === 'python') {
+    // スネークケースまたは定数のアッパースネークケース
+    return /^[a-z][a-z0-9_]*$/.test(name) || /^[A-Z][A-Z0-9_]*$/.test(name);
+  }
+
+  // キャメルケース、パスカルケース（コンポーネント等）、定数のアッパースネークケース
+  return /^[a-z][a-zA-Z0-9]*$/.test(name) || /^[A-Z][a-zA-Z0-9]*$/.test(name) || /^[A-Z][A-Z0-9_]*$/.test(name);
+};
+
+// 慣習的に許容される1文字の識別子
+const isTooShortIdentifier = (name: string): boolean =>
+  name.length < 2 && !['i', 'j', 'k', 'x', 'y', 'z', '_'].includes(name);
+
 /**
  * 命名規則スコアを計算
  */
 const calculateNamingScore = (code: string, language: string): number => {
-  const lines = code.split('\n');
-  
-  // 変数や関数の名前を抽出
-  let identifiers: string[] = [];
-  
-  if (language === 'javascript' || language === 'typescript') {
-    // 変数宣言を検出
-    const varMatches = code.match(/(?:let|const|var)\s+(\w+)/g);
-    if (varMatches) {
-      varMatches.forEach(match => {
-        const name = match.replace(/(?:let|const|var)\s+/, '');
-        identifiers.push(name);
-      });
-    }
-    
-    // 関数定義を検出
-    const funcMatches = code.match(/function\s+(\w+)/g);
-    if (funcMatches) {
-      funcMatches.forEach(match => {
-        const name = match.replace(/function\s+/, '');
-        identifiers.push(name);
-      });
-    }
-  } else if (language === 'python') {
-    // 関数定義を検出
-    const funcMatches = code.match(/def\s+(\w+)/g);
-    if (funcMatches) {
-      funcMatches.forEach(match => {
-        const name = match.replace(/def\s+/, '');
-        identifiers.push(name);
-      });
-    }
-    
-    // 変数割り当てを検出
-    const varMatches = code.match(/(\w+)\s*=/g);
-    if (varMatches) {
-      varMatches.forEach(match => {
-        const name = match.replace(/\s*=/, '');
-        if (!name.trim().startsWith('#')) {
-          identifiers.push(name);
-        }
-      });
-    }
-  }
+  // 変数・関数・クラスの宣言を抽出
+  const declarations = getNamingTargets(code, language);
   
   // 命名規則の評価
   let score = 10;
   
   // 短すぎる識別子の割合
-  const shortIdentifiers = identifiers.filter(name => 
-    name.length < 2 && !['i', 'j', 'k', 'x', 'y', 'z'].includes(name)
-  );
+  const shortIdentifiers = declarations.filter(declaration => isTooShortIdentifier(declaration.name));
   
-  const shortIdentifierRatio = shortIdentifiers.length / (identifiers.length || 1);
+  const shortIdentifierRatio = shortIdentifiers.length / (declarations.length || 1);
   
   if (shortIdentifierRatio > 0.3) {
     score -= 3;
@@ -215,21 +297,11 @@ const calculateNamingScore = (code: string, language: string): number => {
   }
   
   // 命名規則に従っていない識別子の割合
-  let nonConformingIdentifiers = 0;
-  
-  if (language === 'javascript' || language === 'typescript') {
-    // JavaScript/TypeScriptではキャメルケースまたはパスカルケースが一般的
-    nonConformingIdentifiers = identifiers.filter(name => 
-      !/^[a-z][a-zA-Z0-9]*$/.test(name) && !/^[A-Z][a-zA-Z0-9]*$/.test(name)
-    ).length;
-  } else if (language === 'python') {
-    // Pythonではスネークケースが一般的
-    nonConformingIdentifiers = identifiers.filter(name => 
-      !/^[a-z][a-z0-9_]*$/.test(name) && !/^[A-Z][A-Z0-9_]*$/.test(name)
-    ).length;
-  }
+  const nonConformingIdentifiers = declarations.filter(declaration =>
+    !followsNamingConvention(declaration, language)
+  ).length;
   
-  const nonConformingRatio = nonConformingIdentifiers / (identifiers.length || 1);
+  const nonConformingRatio = nonConformingIdentifiers / (declarations.length || 1);
   
   if (nonConformingRatio > 0.3) {
     score -= 3;
@@ -243,6 +315,35 @@ const calculateNamingScore = (code: string, language: string): number => {
   return Math.max(1, score);
 };
 
+/**
+ * 条件に一致するトークンを含む行番号を取得（重複なし・昇順）
+ */
+const findTokenLines = (tokens: Token[], predicate: (tokens: Token[], index: number) => boolean): number[] => {
+  const lineNumbers = new Set<number>();
+  tokens.forEach((token, index) => {
+    if (predicate(tokens, index)) lineNumbers.add(token.line);
+  });
+  return Array.from(lineNumbers).sort((a, b) => a - b);
+};
+
+// console.log( の呼び出し
+const isConsoleLogCall = (tokens: Token[], index: number): boolean =>
+  tokens[index].type === 'identifier' && tokens[index].value === 'console' &&
+  tokens[index + 1]?.value === '.' && tokens[index + 2]?.value === 'log';
+
+// var による変数宣言
+const isVarDeclaration = (tokens: Token[], index: number): boolean =>
+  tokens[index].type === 'keyword' && tokens[index].value === 'var';
+
+// 緩い等価演算子（== / !=）
+const isLooseEquality = (tokens: Token[], index: number): boolean =>
+  tokens[index].type === 'punctuator' && (tokens[index].value === '==' || tokens[index].value === '!=');
+
+// 組み込みの print( 呼び出し（メソッド呼び出しは除外）
+const isPrintCall = (tokens: Token[], index: number): boolean =>
+  tokens[index].type === 'identifier' && tokens[index].value === 'print' &&
+  tokens[index + 1]?.value === '(' && tokens[index - 1]?.value !== '.';
+
 /**
  * ベストプラクティススコアを計算
  */
@@ -263,8 +364,10 @@ const calculateBestPracticesScore = (code: string, language: string, commentCoun
   
   // 言語固有のベストプラクティス評価
   if (language === 'javascript' || language === 'typescript') {
+    const tokens = getCodeTokens(parseCode(code, language));
+    
     // console.log の使用チェック
-    const consoleLogCount = lines.filter(line => line.includes('console.log')).length;
+    const consoleLogCount = findTokenLines(tokens, isConsoleLogCall).length;
     if (consoleLogCount > 5) {
       score -= 2;
     } else if (consoleLogCount > 0) {
@@ -273,23 +376,21 @@ const calculateBestPracticesScore = (code: string, language: string, commentCoun
     
     // var の使用チェック
     if (language === 'javascript') {
-      const varUsageCount = lines.filter(line => /\bvar\s+/.test(line)).length;
+      const varUsageCount = findTokenLines(tokens, isVarDeclaration).length;
       if (varUsageCount > 0) {
         score -= Math.min(2, varUsageCount);
       }
     }
     
     // == の使用チェック
-    const looseEqualityCount = lines.filter(line => 
-      line.match(/[^=!]==[^=]/) || line.match(/[^=]!=[^=]/)
-    ).length;
+    const looseEqualityCount = findTokenLines(tokens, isLooseEquality).length;
     
     if (looseEqualityCount > 0) {
       score -= Math.min(2, looseEqualityCount);
     }
   } else if (language === 'python') {
     // print の使用チェック
-    const printCount = lines.filter(line => /\bprint\(/.test(line)).length;
+    const printCount = findTokenLines(getCodeTokens(parseCode(code, language)), isPrintCall).length;
     if (printCount > 5) {
       score -= 2;
     } else if (printCount > 0) {
@@ -378,88 +479,52 @@ const detectStyleIssues = (code: string, language: string, lines: string[]): Cod
 const detectNamingIssues = (code: string, language: string, lines: string[]): CodeIssue[] => {
   const issues: CodeIssue[] = [];
   
-  // 変数名や関数名を抽出
-  let identifiers: { name: string, line: number }[] = [];
-  
-  if (language === 'javascript' || language === 'typescript') {
-    // 変数宣言を検出
-    lines.forEach((line, index) => {
-      // 変数定義を検出
-      const varMatches = line.match(/(?:let|const|var)\s+(\w+)/g);
-      if (varMatches) {
-        varMatches.forEach(match => {
-          const name = match.replace(/(?:let|const|var)\s+/, '');
-          identifiers.push({ name, line: index + 1 });
-        });
-      }
-      
-      // 関数定義を検出
-      const funcMatches = line.match(/function\s+(\w+)/g);
-      if (funcMatches) {
-        funcMatches.forEach(match => {
-          const name = match.replace(/function\s+/, '');
-          identifiers.push({ name, line: index + 1 });
-        });
-      }
-    });
-  } else if (language === 'python') {
-    lines.forEach((line, index) => {
-      // 関数定義を検出
-      const funcMatches = line.match(/def\s+(\w+)/g);
-      if (funcMatches) {
-        funcMatches.forEach(match => {
-          const name = match.replace(/def\s+/, '');
-          identifiers.push({ name, line: index + 1 });
-        });
-      }
-      
-      // 変数割り当てを検出
-      const varMatches = line.match(/(\w+)\s*=/g);
-      if (varMatches && !line.trim().startsWith('#')) {
-        varMatches.forEach(match => {
-          const name = match.replace(/\s*=/, '');
-          identifiers.push({ name, line: index + 1 });
-        });
-      }
-    });
-  }
-  
   // 識別子の命名規則をチェック
-  identifiers.forEach(({ name, line }) => {
+  getNamingTargets(code, language).forEach(declaration => {
+    const { name, line, column } = declaration;
+    
     // 短すぎる識別子
-    if (name.length < 2 && !['i', 'j', 'k', 'x', 'y', 'z'].includes(name)) {
+    if (isTooShortIdentifier(name)) {
       issues.push({
         type: 'naming',
         severity: 'medium',
         message: `変数名 "${name}" が短すぎます。変数名は意味を明確に表すべきです。`,
         line,
+        column,
         suggestion: '変数名はその役割や内容を説明する意味のある名前にしてください。'
       });
     }
     
     // 命名規則の一貫性
-    if (language === 'javascript' || language === 'typescript') {
-      // キャメルケース（変数、関数）またはパスカルケース（クラス）をチェック
-      if (!/^[a-z][a-zA-Z0-9]*$/.test(name) && !/^[A-Z][a-zA-Z0-9]*$/.test(name)) {
-        issues.push({
-          type: 'naming',
-          severity: 'medium',
-          message: `"${name}" は標準的な命名規則に従っていません。JavaScriptでは変数と関数にはキャメルケース、クラスにはパスカルケースが推奨されています。`,
-          line,
-          suggestion: '変数と関数には lowerCamelCase、クラスには UpperCamelCase を使用してください。'
-        });
-      }
+    if (followsNamingConvention(declaration, language)) return;
+    
+    if (declaration.kind === 'class') {
+      issues.push({
+        type: 'naming',
+        severity: 'medium',
+        message: `クラス名 "${name}" は標準的な命名規則に従っていません。クラスにはパスカルケースが推奨されています。`,
+        line,
+        column,
+        suggestion: 'クラスには UpperCamelCase を使用してください。'
+      });
+    } else if (language === 'javascript' || language === 'typescript') {
+      issues.push({
+        type: 'naming',
+        severity: 'medium',
+        message: `"${name}" は標準的な命名規則に従っていません。JavaScriptでは変数と関数にはキャメルケース、クラスにはパスカルケースが推奨されています。`,
+        line,
+        column,
+        suggestion: '変数と関数には lowerCamelCase、クラスには UpperCamelCase を使用してください。'
+      });
     } else if (language === 'python') {
-      // スネークケースをチェック
-      if (!/^[a-z][a-z0-9_]*$/.test(name) && !/^[A-Z][A-Z0-9_]*$/.test(name)) {
-        issues.push({
-          type: 'naming',
-          severity: 'medium',
-          message: `"${name}" は標準的な命名規則に従っていません。Pythonでは変数と関数にはスネークケースが推奨されています。`,
-          line,
-          suggestion: '変数と関数には snake_case、定数には UPPER_SNAKE_CASE を使用してください。'
-        });
-      }
+      issues.push({
+        type: 'naming',
+        severity: 'medium',
+        message: `"${name}" は標準的な命名規則に従っていません。Pythonでは変数と関数にはスネークケースが推奨されています。`,
+        line,
+        column,
+        suggestion: '変数と関数には snake_case、定数には UPPER_SNAKE_CASE を使用してください。'
+      });
     }
   });
   
@@ -469,130 +534,41 @@ const detectNamingIssues = (code: string, language: string, lines: string[]): Co
 /**
  * 複雑度の問題を検出
  */
-const detectComplexityIssues = (code: string, language: string, lines: string[]): CodeIssue[] => {
+const detectComplexityIssues = (
+  code: string,
+  language: string,
+  lines: string[],
+  thresholds: AnalysisThresholds['complexity']
+): CodeIssue[] => {
   const issues: CodeIssue[] = [];
+  const tree = parseCode(code, language);
   
   // 関数の長さをチェック
-  let inFunction = false;
-  let functionStartLine = 0;
-  let functionName = '';
-  let currentFunctionLines = 0;
-  let braceCount = 0;
-  
-  lines.forEach((line, index) => {
-    const trimmedLine = line.trim();
-    
-    if (language === 'javascript' || language === 'typescript') {
-      // 関数開始を検出
-      if (trimmedLine.match(/function\s+(\w+)\s*\(/) || 
-          trimmedLine.match(/(\w+)\s*=\s*function\s*\(/) ||
-          trimmedLine.match(/(\w+)\s*\(\s*\)\s*=>/)) {
-        
-        const match = trimmedLine.match(/function\s+(\w+)/) || 
-                      trimmedLine.match(/(\w+)\s*=\s*function/) ||
-                      trimmedLine.match(/(\w+)\s*\(\s*\)\s*=>/);
-        
-        functionName = match ? match[1] : 'anonymous';
-        inFunction = true;
-        functionStartLine = index + 1;
-        currentFunctionLines = 0;
-        braceCount = 0;
-      }
-      
-      // 関数の中にいる場合
-      if (inFunction) {
-        currentFunctionLines++;
-        
-        // 中括弧をカウント
-        for (const char of line) {
-          if (char === '{') braceCount++;
-          else if (char === '}') {
-            braceCount--;
-            if (braceCount === 0 && trimmedLine.endsWith('}')) {
-              // 関数の終わりを検出
-              if (currentFunctionLines > 50) {
-                issues.push({
-                  type: 'complexity',
-                  severity: 'medium',
-                  message: `関数 "${functionName}" が長すぎます (${currentFunctionLines}行)。関数は理想的には30行以下に収めるべきです。`,
-                  line: functionStartLine,
-                  suggestion: '関数を小さな機能単位に分割することを検討してください。'
-                });
-              }
-              inFunction = false;
-            }
-          }
-        }
-      }
-    } else if (language === 'python') {
-      // Pythonの関数開始を検出
-      if (trimmedLine.startsWith('def ')) {
-        const match = trimmedLine.match(/def\s+(\w+)/);
-        functionName = match ? match[1] : 'anonymous';
-        inFunction = true;
-        functionStartLine = index + 1;
-        currentFunctionLines = 0;
-      }
-      
-      // 関数の中にいる場合
-      if (inFunction) {
-        currentFunctionLines++;
-        
-        // インデントがなくなったら関数の終わり
-        if (currentFunctionLines > 1 && 
-            line.length > 0 && 
-            !line.startsWith(' ') && 
-            !line.startsWith('\t')) {
-          if (currentFunctionLines > 50) {
-            issues.push({
-              type: 'complexity',
-              severity: 'medium',
-              message: `関数 "${functionName}" が長すぎます (${currentFunctionLines}行)。関数は理想的には30行以下に収めるべきです。`,
-              line: functionStartLine,
-              suggestion: '関数を小さな機能単位に分割することを検討してください。'
-            });
-          }
-          inFunction = false;
-        }
-      }
+  getFunctionNodes(tree).forEach(functionNode => {
+    const functionLines = functionNode.endLine - functionNode.startLine + 1;
+    if (functionLines > thresholds.maxFunctionLines) {
+      issues.push({
+        type: 'complexity',
+        severity: 'medium',
+        message: `関数 "${functionNode.name || 'anonymous'}" が長すぎます (${functionLines}行)。関数は理想的には30行以下に収めるべきです。`,
+        line: functionNode.startLine,
+        suggestion: '関数を小さな機能単位に分割することを検討してください。'
+      });
     }
   });
   
   // ネストの深さをチェック
-  const maxNestingDepth = calculateMaxNestingDepth(code, language);
-  if (maxNestingDepth > 4) {
+  const maxNestingDepth = getMaxNestingDepth(tree);
+  if (maxNestingDepth > thresholds.maxNestingDepth) {
     // ネストが深い箇所を特定
-    let currentNestLevel = 0;
-    let deepestNestLine = 0;
+    const deepestNode = findFirstNodeAtDepth(tree, thresholds.maxNestingDepth + 1);
     
-    lines.forEach((line, index) => {
-      if (language === 'javascript' || language === 'typescript') {
-        // 中括弧でネストレベルを追跡
-        for (const char of line) {
-          if (char === '{') {
-            currentNestLevel++;
-            if (currentNestLevel === 5 && deepestNestLine === 0) {
-              deepestNestLine = index + 1;
-            }
-          } else if (char === '}') {
-            currentNestLevel = Math.max(0, currentNestLevel - 1);
-          }
-        }
-      } else if (language === 'python') {
-        // インデントでネストレベルを追跡
-        const indentLevel = Math.floor((line.length - line.trimStart().length) / 4);
-        if (indentLevel >= 5 && deepestNestLine === 0) {
-          deepestNestLine = index + 1;
-        }
-      }
-    });
-    
-    if (deepestNestLine > 0) {
+    if (deepestNode) {
       issues.push({
         type: 'complexity',
         severity: 'high',
         message: `ネストの深さが${maxNestingDepth}レベルに達しています。コードの可読性が低下します。`,
-        line: deepestNestLine,
+        line: deepestNode.startLine,
         suggestion: 'ネストを減らすために、条件を反転させて早期リターンを使用するか、ヘルパー関数に分割することを検討してください。'
       });
     }
@@ -608,7 +584,7 @@ const detectBestPracticeIssues = (code: string, language: string, lines: string[
   const issues: CodeIssue[] = [];
   
   // コメント率をチェック
-  const commentCount = countCommentLines(lines, language);
+  const commentCount = countCommentLines(code, language);
   const commentRatio = (commentCount / lines.length) * 100;
   
   if (commentRatio < 5 && lines.length > 30) {
@@ -623,17 +599,15 @@ const detectBestPracticeIssues = (code: string, language: string, lines: string[
   
   // 言語固有のベストプラクティスチェック
   if (language === 'javascript' || language === 'typescript') {
-    // === の代わりに == を使用している可能性をチェック
-    lines.forEach((line, index) => {
-      if (line.match(/[^=!]==[^=]/) || line.match(/[^=]!=[^=]/)) {
-        issues.push({
-          type: 'best_practice',
-          severity: 'medium',
-          message: '緩い等価演算子(== or !=)が使用されています。JavaScriptでは厳密な等価演算子(=== or !==)の使用が推奨されています。',
-          line: index + 1,
-          suggestion: '== の代わりに === を、!= の代わりに !== を使用して型変換の問題を回避してください。'
-        });
-      }
+    // === の代わりに == を使用している箇所をチェック
+    findTokenLines(getCodeTokens(parseCode(code, language)), isLooseEquality).forEach(line => {
+      issues.push({
+        type: 'best_practice',
+        severity: 'medium',
+        message: '緩い等価演算子(== or !=)が使用されています。JavaScriptでは厳密な等価演算子(=== or !==)の使用が推奨されています。',
+        line,
+        suggestion: '== の代わりに === を、!= の代わりに !== を使用して型変換の問題を回避してください。'
+      });
     });
   } else if (language === 'python') {
     // エラー処理の欠如をチェック
@@ -710,90 +684,15 @@ const loadModel = async () => {
 /**
  * コメント行をカウント
  */
-const countCommentLines = (lines: string[], language: string): number => {
+const countCommentLines = (code: string, language: string): number => {
+  const lines = code.split('\n');
   let count = 0;
-  let inMultiLineComment = false;
-  
-  // Jupyter Notebookはpythonとして処理
-  const effectiveLanguage = language === 'jupyter' ? 'python' : language;
   
-  lines.forEach(line => {
-    const trimmedLine = line.trim();
-    
-    if (trimmedLine === '') return;
-    
-    switch (effectiveLanguage) {
-      case 'javascript':
-      case 'typescript':
-        // 複数行コメントの開始チェック
-        if (trimmedLine.includes('/*') && !trimmedLine.includes('*/')) {
-          inMultiLineComment = true;
-          count++;
-          return;
-        }
-        
-        // 複数行コメントの終了チェック
-        if (inMultiLineComment && trimmedLine.includes('*/')) {
-          inMultiLineComment = false;
-          count++;
-          return;
-        }
-        
-        // 複数行コメント中
-        if (inMultiLineComment) {
-          count++;
-          return;
-        }
-        
-        // 単一行コメント
-        if (trimmedLine.startsWith('//')) {
-          count++;
-          return;
-        }
-        break;
-      
-      case 'python':
-        // 複数行コメントの開始チェック
-        if (trimmedLine.startsWith('"""') || trimmedLine.startsWith("'''")) {
-          const hasClosingQuote = (
-            (trimmedLine.startsWith('"""') && trimmedLine.substring(3).includes('"""')) ||
-            (trimmedLine.startsWith("'''") && trimmedLine.substring(3).includes("'''"))
-          );
-          
-          if (!hasClosingQuote) {
-            inMultiLineComment = true;
-          }
-          
-          count++;
-          return;
-        }
-        
-        // 複数行コメントの終了チェック
-        if (inMultiLineComment && (trimmedLine.endsWith('"""') || trimmedLine.endsWith("'''"))) {
-          inMultiLineComment = false;
-          count++;
-          return;
-        }
-        
-        // 複数行コメント中
-        if (inMultiLineComment) {
-          count++;
-          return;
-        }
-        
-        // 単一行コメント
-        if (trimmedLine.startsWith('#')) {
-          count++;
-          return;
-        }
-        break;
-      
-      default:
-        // 基本的なコメント検出（# または // で始まる行）
-        if (trimmedLine.startsWith('#') || trimmedLine.startsWith('//')) {
-          count++;
-          return;
-        }
+  // コメントのみの行（空行を除く）を数える
+  getCommentOnlyLines(parseCode(code, language)).forEach(lineNumber => {
+    const line = lines[lineNumber - 1];
+    if (line !== undefined && line.trim() !== '') {
+      count++;
     }
   });
   
@@ -803,107 +702,14 @@ const countCommentLines = (lines: string[], language: string): number => {
 /**
  * 関数数をカウント
  */
-const countFunctions = (content: string, language: string): number => {
-  let count = 0;
-  
-  switch (language) {
-    case 'javascript':
-    case 'typescript':
-      // 関数宣言、関数式、アロー関数をカウント
-      const jsFunctionMatches = content.match(/function\s+\w+\s*\(|\(\s*\w*\s*\)\s*=>\s*{|function\s*\(|\w+\s*=\s*function\s*\(/g);
-      count = jsFunctionMatches ? jsFunctionMatches.length : 0;
-      break;
-      
-    case 'python':
-      // Pythonのdef宣言をカウント
-      const pyFunctionMatches = content.match(/def\s+\w+\s*\(/g);
-      count = pyFunctionMatches ? pyFunctionMatches.length : 0;
-      break;
-      
-    case 'go':
-      // Goのfunc宣言をカウント
-      const goFunctionMatches = content.match(/func\s+\w+\s*\(/g);
-      count = goFunctionMatches ? goFunctionMatches.length : 0;
-      break;
-      
-    default:
-      // その他の言語は簡易的に処理
-      const otherFunctionMatches = content.match(/function\s+\w+\s*\(|def\s+\w+\s*\(|func\s+\w+\s*\(/g);
-      count = otherFunctionMatches ? otherFunctionMatches.length : 0;
-  }
-  
-  return count;
-};
+const countFunctions = (content: string, language: string): number =>
+  getFunctionNodes(parseCode(content, language)).length;
 
 /**
  * コードの最大ネスト深度を計算
  */
-const calculateMaxNestingDepth = (content: string, language: string): number => {
-  // Jupyter Notebookはpythonとして処理
-  const effectiveLanguage = language === 'jupyter' ? 'python' : language;
-  
-  // 行ごとに処理
-  const lines = content.split('\n');
-  
-  let maxDepth = 0;
-  let currentDepth = 0;
-  
-  switch (effectiveLanguage) {
-    case 'javascript':
-    case 'typescript':
-      // 単純な括弧カウント（より正確には構文解析が必要）
-      for (const line of lines) {
-        for (const char of line) {
-          if (char === '{') {
-            currentDepth++;
-            maxDepth = Math.max(maxDepth, currentDepth);
-          } else if (char === '}') {
-            currentDepth = Math.max(0, currentDepth - 1);
-          }
-        }
-      }
-      break;
-      
-    case 'python':
-      // インデントによるネスト深度を計算
-      let lastIndentLevel = 0;
-      for (const line of lines) {
-        const trimmedLine = line.trim();
-        if (trimmedLine === '' || trimmedLine.startsWith('#')) {
-          continue;
-        }
-        
-        // インデントレベルを計算
-        const indentLevel = line.length - line.trimStart().length;
-        const currentIndentLevel = Math.ceil(indentLevel / 4); // 4スペースをPythonの標準インデントとして扱う
-        
-        if (currentIndentLevel > lastIndentLevel) {
-          currentDepth += (currentIndentLevel - lastIndentLevel);
-          maxDepth = Math.max(maxDepth, currentDepth);
-        } else if (currentIndentLevel < lastIndentLevel) {
-          currentDepth -= (lastIndentLevel - currentIndentLevel);
-        }
-        
-        lastIndentLevel = currentIndentLevel;
-      }
-      break;
-      
-    default:
-      // 単純な括弧カウントによる簡易計算
-      for (const line of lines) {
-        for (const char of line) {
-          if (char === '{' || char === '(') {
-            currentDepth++;
-            maxDepth = Math.max(maxDepth, currentDepth);
-          } else if (char === '}' || char === ')') {
-            currentDepth = Math.max(0, currentDepth - 1);
-          }
-        }
-      }
-  }
-  
-  return maxDepth;
-};
+const calculateMaxNestingDepth = (content: string, language: string): number =>
+  getMaxNestingDepth(parseCode(content, language));
 
 /**
  * 複雑性スコアを計算（低いほど良い）
@@ -943,21 +749,56 @@ const calculateComplexityScore = (functionCount: number, lineCount: number, nest
   return Math.min(10, Math.max(1, Math.round(complexityScore / 2)));
 };
 
+// カスタムルール・設定ファイルの重大度をコード品質の問題の重要度に変換
+const ISSUE_SEVERITIES: Record<CustomRuleSeverity, CodeIssue['severity']> = {
+  critical: 'high',
+  high: 'high',
+  medium: 'medium',
+  low: 'low',
+  info: 'low'
+};
+
+/**
+ * カスタムルールによる問題を検出（category: security のルールはセキュリティチェックで扱う）
+ */
+const detectCustomRuleIssues = (content: string, language: string, customRules: CustomRule[]): CodeIssue[] =>
+  evaluateCustomRules(content, language, customRules.filter(rule => rule.category !== 'security'))
+    .map(match => ({
+      type: match.rule.category,
+      severity: ISSUE_SEVERITIES[match.rule.severity],
+      message: match.rule.message,
+      line: match.line,
+      column: match.column,
+      suggestion: [match.rule.suggestion, match.fix ? `修正案: ${match.fix.fixedLine.trim()}` : '']
+        .filter(Boolean)
+        .join('\n') || undefined,
+      ruleId: match.rule.id,
+      fix: match.fix
+    }));
+
 /**
  * コードの問題を検出
+ * @param customRules リポジトリで定義されたカスタムルール
+ * @param maxLineLength これより長い行を報告
  */
-const detectIssues = (content: string, language: string, lines: string[]): CodeIssue[] => {
+const detectIssues = (
+  content: string,
+  language: string,
+  lines: string[],
+  customRules: CustomRule[],
+  maxLineLength: number
+): CodeIssue[] => {
   const issues: CodeIssue[] = [];
   
   // 言語共通の問題検出
   
   // 1. 長い行を検出
   lines.forEach((line, index) => {
-    if (line.length > 100) {
+    if (line.length > maxLineLength) {
       issues.push({
         type: 'code_style',
         severity: 'low',
-        message: '行が長すぎます。80-100文字以内に収めることを推奨します。',
+        message: `行が長すぎます。${maxLineLength}文字以内に収めることを推奨します。`,
         line: index + 1,
         suggestion: '長い行を複数行に分割するか、変数名を短くすることを検討してください。'
       });
@@ -965,74 +806,79 @@ const detectIssues = (content: string, language: string, lines: string[]): CodeI
   });
   
   // 2. TODOコメントを検出
-  lines.forEach((line, index) => {
-    if (line.includes('TODO') || line.includes('FIXME')) {
-      issues.push({
-        type: 'best_practice',
-        severity: 'low',
-        message: '未解決のTODOまたはFIXMEコメントが見つかりました。',
-        line: index + 1,
-        suggestion: '時間を取ってTODO項目を解決するか、課題管理システムでタスクとして追跡することを検討してください。'
-      });
-    }
+  const tree = parseCode(content, language);
+  const todoLines = new Set<number>();
+  tree.comments.forEach(comment => {
+    comment.value.split('\n').forEach((commentLine, offset) => {
+      if (commentLine.includes('TODO') || commentLine.includes('FIXME')) {
+        todoLines.add(comment.line + offset);
+      }
+    });
+  });
+  Array.from(todoLines).sort((a, b) => a - b).forEach(line => {
+    issues.push({
+      type: 'best_practice',
+      severity: 'low',
+      message: '未解決のTODOまたはFIXMEコメントが見つかりました。',
+      line,
+      suggestion: '時間を取ってTODO項目を解決するか、課題管理システムでタスクとして追跡することを検討してください。'
+    });
   });
   
   // 言語固有の問題検出
+  const tokens = getCodeTokens(tree);
   switch (language) {
     case 'javascript':
     case 'typescript':
       // console.logの使用を検出
-      lines.forEach((line, index) => {
-        if (line.includes('console.log')) {
-          issues.push({
-            type: 'best_practice',
-            severity: 'low',
-            message: 'デバッグ用console.logが残されています。',
-            line: index + 1,
-            suggestion: '本番環境ではconsole.logを削除するか、適切なロギングライブラリを使用してください。'
-          });
-        }
+      findTokenLines(tokens, isConsoleLogCall).forEach(line => {
+        issues.push({
+          type: 'best_practice',
+          severity: 'low',
+          message: 'デバッグ用console.logが残されています。',
+          line,
+          suggestion: '本番環境ではconsole.logを削除するか、適切なロギングライブラリを使用してください。'
+        });
       });
       
       // varの使用を検出（letまたはconstを推奨）
       if (language === 'javascript') {
-        lines.forEach((line, index) => {
-          if (/\bvar\s+/.test(line)) {
-            issues.push({
-              type: 'best_practice',
-              severity: 'medium',
-              message: '古い変数宣言方法varが使用されています。',
-              line: index + 1,
-              suggestion: 'varの代わりにconstまたはletを使用してください。'
-            });
-          }
+        findTokenLines(tokens, isVarDeclaration).forEach(line => {
+          issues.push({
+            type: 'best_practice',
+            severity: 'medium',
+            message: '古い変数宣言方法varが使用されています。',
+            line,
+            suggestion: 'varの代わりにconstまたはletを使用してください。'
+          });
         });
       }
       break;
       
     case 'python':
       // printステートメントの使用を検出
-      lines.forEach((line, index) => {
-        if (/\bprint\(/.test(line)) {
-          issues.push({
-            type: 'best_practice',
-            severity: 'low',
-            message: 'デバッグ用printが残されています。',
-            line: index + 1,
-            suggestion: '本番環境ではprintを削除するか、適切なロギングライブラリを使用してください。'
-          });
-        }
+      findTokenLines(tokens, isPrintCall).forEach(line => {
+        issues.push({
+          type: 'best_practice',
+          severity: 'low',
+          message: 'デバッグ用printが残されています。',
+          line,
+          suggestion: '本番環境ではprintを削除するか、適切なロギングライブラリを使用してください。'
+        });
       });
       break;
   }
   
+  // リポジトリ独自のルール
+  issues.push(...detectCustomRuleIssues(content, language, customRules));
+  
   return issues;
 };
 
 /**
  * 全体スコアを計算
  */
-const calculateOverallScore = (fileResults: FileAnalysisResult[]): number => {
+export const calculateOverallScore = (fileResults: FileAnalysisResult[]): number => {
   if (fileResults.length === 0) {
     return 0;
   }
@@ -1125,7 +971,13 @@ export const getScoreExplanation = (scoreType: string, score: number, language:
 /**
  * スコアの詳細な説明を生成
  */
-const generateDetailedExplanation = (category: string, score: number, language: string, code: string): string => {
+const generateDetailedExplanation = (
+  category: string,
+  score: number,
+  language: string,
+  code: string,
+  thresholds: AnalysisThresholds
+): string => {
   // CodeBERTの分析結果に基づいた詳細な説明
   const basicExplanation = getScoreExplanation(category, score, language);
   
@@ -1136,11 +988,12 @@ const generateDetailedExplanation = (category: string, score: number, language:
     case 'codeStyle':
       // コードスタイルの詳細分析
       const lines = code.split('\n');
-      const longLines = lines.filter(line => line.length > 100).length;
+      const { maxLineLength } = thresholds.style;
+      const longLines = lines.filter(line => line.length > maxLineLength).length;
       const longLineRatio = (longLines / lines.length) * 100;
       
       if (longLineRatio > 20) {
-        additionalDetails = `コードの${longLineRatio.toFixed(0)}%が100文字を超える長い行です。読みやすさを向上させるために行の長さを短くすることを検討してください。`;
+        additionalDetails = `コードの${longLineRatio.toFixed(0)}%が${maxLineLength}文字を超える長い行です。読みやすさを向上させるために行の長さを短くすることを検討してください。`;
       } else if (score < 5) {
         additionalDetails = 'インデントの一貫性と適切な空白の使用を改善することで、コードの可読性が向上します。';
       }
@@ -1179,10 +1032,91 @@ const generateDetailedExplanation = (category: string, score: number, language:
   return additionalDetails ? `${basicExplanation} ${additionalDetails}` : basicExplanation;
 };
 
+// チェックポイントの保存キーと有効期限
+const CHECKPOINT_KEY_PREFIX = 'codecoach-analysis-checkpoint:';
+const CHECKPOINT_TTL = 24 * 60 * 60 * 1000;
+// チェックポイントを保存する間隔（ファイル数）
+const CHECKPOINT_INTERVAL = 5;
+// 内容をまとめて取得するファイル数
+const FILE_FETCH_BATCH_SIZE = 25;
+
+// チェックポイントの保存キー（リポジトリと参照ごと）
+const getCheckpointKey = (fullRepoName: string, ref = 'HEAD'): string =>
+  `${CHECKPOINT_KEY_PREFIX}${fullRepoName}@${ref}`;
+
+/**
+ * 分析の再開用チェックポイントを読み込む
+ */
+const loadCheckpoint = (fullRepoName: string, ref?: string): AnalysisCheckpoint | null => {
+  try {
+    const saved = localStorage.getItem(getCheckpointKey(fullRepoName, ref));
+    if (!saved) return null;
+
+    const checkpoint: AnalysisCheckpoint = JSON.parse(saved);
+    const expired = Date.now() - checkpoint.updatedAt > CHECKPOINT_TTL;
+    const valid = checkpoint.repoName === fullRepoName &&
+      Boolean(checkpoint.commitSha) &&
+      checkpoint.filePaths.every(file => file.sha);
+    if (expired || !valid) {
+      clearAnalysisCheckpoint(fullRepoName, ref);
+      return null;
+    }
+    return checkpoint;
+  } catch (error) {
+    console.warn('分析チェックポイントの読み込みに失敗:', error);
+    return null;
+  }
+};
+
+/**
+ * 分析の再開用チェックポイントを保存
+ */
+const saveCheckpoint = (checkpoint: AnalysisCheckpoint): void => {
+  try {
+    // 容量を抑えるためコード内容は保存しない
+    const results = checkpoint.results.map(result => ({ ...result, codeContent: undefined }));
+    localStorage.setItem(
+      getCheckpointKey(checkpoint.repoName, checkpoint.ref),
+      JSON.stringify({ ...checkpoint, results, updatedAt: Date.now() })
+    );
+  } catch (error) {
+    console.warn('分析チェックポイントの保存に失敗:', error);
+  }
+};
+
+/**
+ * 分析の再開用チェックポイントを削除
+ */
+export const clearAnalysisCheckpoint = (fullRepoName: string, ref?: string): void => {
+  localStorage.removeItem(getCheckpointKey(fullRepoName, ref));
+};
+
+/**
+ * 再開可能な分析の進捗を取得（チェックポイントがなければ null）
+ */
+export const getAnalysisCheckpointProgress = (fullRepoName: string, ref?: string): AnalysisProgress | null => {
+  const checkpoint = loadCheckpoint(fullRepoName, ref);
+  if (!checkpoint) return null;
+
+  return {
+    totalFiles: checkpoint.filePaths.length,
+    processedFiles: checkpoint.processedPaths.length,
+    failedFiles: checkpoint.failedPaths.length,
+    currentFile: null,
+    resumed: true
+  };
+};
+
 /**
  * リポジトリのコード分析を実行
+ * ファイル指定がない場合はリポジトリ内の対応ファイルをすべて分析し、
+ * 進捗をコールバックで通知しながらチェックポイントを保存します
  */
-export const analyzeRepository = async (fullRepoName: string, targetFilePath?: string): Promise<RepositoryAnalysisResult> => {
+export const analyzeRepository = async (
+  fullRepoName: string,
+  targetFilePath?: string,
+  options: RepositoryAnalysisOptions = {}
+): Promise<RepositoryAnalysisResult> => {
   // リポジトリ名からオーナーとリポジトリ名を分離
   const [owner, repo] = fullRepoName.split('/');
   
@@ -1203,12 +1137,18 @@ export const analyzeRepository = async (fullRepoName: string, targetFilePath?: s
   
   // 各ファイルを分析
   const fileResults: FileAnalysisResult[] = [];
+  const ref = options.ref || 'HEAD';
+  let commitSha: string;
+  let progress: AnalysisProgress | undefined;
+  let config: RepositoryConfig | null;
   
   if (targetFilePath) {
-    // 特定のファイルを分析する場合
+    // 特定のファイルを分析する場合（参照をコミットに固定して取得）
+    commitSha = (await resolveRef(owner, repo, ref)).commitSha;
+    config = await loadRepositoryConfig(fullRepoName, commitSha);
     try {
       const fileName = targetFilePath.split('/').pop() || targetFilePath;
-      const result = await analyzeFile(owner, repo, targetFilePath, fileName);
+      const result = await analyzeFile(owner, repo, targetFilePath, fileName, commitSha, config);
       if (result) {
         fileResults.push(result);
       }
@@ -1216,92 +1156,249 @@ export const analyzeRepository = async (fullRepoName: string, targetFilePath?: s
       console.error(`Failed to analyze file ${targetFilePath}:`, error);
     }
   } else {
-    // 従来のようにリポジトリから複数ファイルを分析する場合
-    // ファイルを収集
-    const rootContents = await getRepositoryContents(owner, repo);
-    const filePaths = await collectFiles(owner, repo, rootContents);
-    
-    // 分析するファイルの最大数を制限（大きなリポジトリのパフォーマンス対策）
-    const MAX_FILES_TO_ANALYZE = 10;
-    const filesToAnalyze = filePaths.slice(0, MAX_FILES_TO_ANALYZE);
-    
-    for (const file of filesToAnalyze) {
-      try {
-        const result = await analyzeFile(owner, repo, file.path, file.name);
-        if (result) {
-          fileResults.push(result);
-        }
-      } catch (error) {
-        console.error(`Failed to analyze file ${file.path}:`, error);
-      }
-    }
+    // リポジトリ全体を分析する場合
+    ({ commitSha, progress, config } = await analyzeAllFiles(owner, repo, fullRepoName, ref, fileResults, options));
   }
   
   // 全体スコアを計算
   const overallScore = calculateOverallScore(fileResults);
   
+  // ベースラインに記録済みの問題を除く（キャッシュやチェックポイントの結果にも同じく適用するため最後に行う）
+  const baseline = await loadBaseline(fullRepoName, config, commitSha);
+  
   return {
     repoName: fullRepoName,
-    files: fileResults,
+    files: fileResults.map(file => applyIssueBaseline(file, baseline)),
     overallScore,
     languageBreakdown,
-    timestamp: Date.now()
+    timestamp: Date.now(),
+    ref,
+    commitSha,
+    progress,
+    config,
+    baseline
   };
 };
 
 /**
- * リポジトリから分析対象ファイルを収集
+ * リポジトリ内の対応ファイルをすべて分析（チェックポイントがあれば続きから再開）
+ * @param fileResults 分析結果の格納先
  */
-const collectFiles = async (
+const analyzeAllFiles = async (
   owner: string,
   repo: string,
-  contents: any[],
-  baseDir = '',
-  result: { name: string; path: string }[] = []
-): Promise<{ name: string; path: string }[]> => {
-  for (const item of contents) {
-    if (item.type === 'file') {
-      // コード分析対象の拡張子かチェック
-      if (SUPPORTED_EXTENSIONS.some(ext => item.name.toLowerCase().endsWith(ext))) {
-        result.push({
-          name: item.name,
-          path: item.path
-        });
+  fullRepoName: string,
+  ref: string,
+  fileResults: FileAnalysisResult[],
+  options: RepositoryAnalysisOptions
+): Promise<{ commitSha: string; progress: AnalysisProgress; config: RepositoryConfig | null }> => {
+  const { onProgress, onFileAnalyzed, signal } = options;
+
+  let checkpoint = loadCheckpoint(fullRepoName, ref);
+  const resumed = checkpoint !== null;
+  let config: RepositoryConfig | null;
+
+  if (!checkpoint) {
+    // 参照をコミットに固定し、そのコミットの設定で対象を絞り込んでファイルを収集
+    const { commitSha, treeSha } = await resolveRef(owner, repo, ref);
+    config = await loadRepositoryConfig(fullRepoName, commitSha);
+    const filePaths = await collectFiles(owner, repo, treeSha, config);
+    checkpoint = {
+      repoName: fullRepoName,
+      ref,
+      commitSha,
+      filePaths,
+      processedPaths: [],
+      failedPaths: [],
+      results: [],
+      updatedAt: Date.now()
+    };
+    saveCheckpoint(checkpoint);
+  } else {
+    console.log(`${fullRepoName}@${ref} の分析をチェックポイントから再開します (${checkpoint.processedPaths.length}/${checkpoint.filePaths.length})`);
+    // 再開時もチェックポイントと同じコミットの設定を使う
+    config = await loadRepositoryConfig(fullRepoName, checkpoint.commitSha);
+  }
+
+  fileResults.push(...checkpoint.results);
+  const processed = new Set(checkpoint.processedPaths);
+
+  const progress: AnalysisProgress = {
+    totalFiles: checkpoint.filePaths.length,
+    processedFiles: processed.size,
+    failedFiles: checkpoint.failedPaths.length,
+    currentFile: null,
+    resumed
+  };
+  onProgress?.({ ...progress });
+
+  let unsavedCount = 0;
+  const pendingFiles = checkpoint.filePaths.filter(file => !processed.has(file.path));
+
+  for (let i = 0; i < pendingFiles.length && !progress.pausedReason; i += FILE_FETCH_BATCH_SIZE) {
+    const batch = pendingFiles.slice(i, i + FILE_FETCH_BATCH_SIZE);
+
+    // 内容が変わっていない（Blob SHAが同じ）ファイルはキャッシュの結果を使う
+    const cached = await getCachedAnalyses(batch.flatMap(file => {
+      const language = getLanguageFromFileName(file.name);
+      return language ? [{ blobSha: file.sha, language, configId: config?.id }] : [];
+    }));
+
+    // キャッシュにないファイルの内容をまとめて取得
+    let contents: Map<string, string>;
+    try {
+      const uncachedShas = batch.filter(file => !cached.get(file.sha)?.fileAnalysis).map(file => file.sha);
+      contents = await fetchBlobContents(owner, repo, uncachedShas);
+    } catch (error) {
+      if (!isRateLimitError(error)) throw error;
+      // レート制限の場合はチェックポイントを残して中断
+      progress.pausedReason = (error as Error).message;
+      break;
+    }
+
+    for (const file of batch) {
+      if (signal?.aborted) {
+        progress.pausedReason = '分析がキャンセルされました。';
+        break;
+      }
+
+      progress.currentFile = file.path;
+      onProgress?.({ ...progress });
+
+      const cachedResult = cached.get(file.sha)?.fileAnalysis;
+      const content = contents.get(file.sha);
+      const result = cachedResult
+        ? { ...cachedResult, fileName: file.path, blobSha: file.sha }
+        : content !== undefined ? await analyzeFileContent(content, file.path, file.name, file.sha, config) : null;
+      if (result) {
+        fileResults.push(result);
+        checkpoint.results.push(result);
+        onFileAnalyzed?.(result, { ...progress, processedFiles: progress.processedFiles + 1 });
+      } else if (content === undefined) {
+        console.error(`Failed to fetch file ${file.path}`);
+        checkpoint.failedPaths.push(file.path);
+        progress.failedFiles++;
+      }
+
+      processed.add(file.path);
+      checkpoint.processedPaths.push(file.path);
+      progress.processedFiles++;
+
+      unsavedCount++;
+      if (unsavedCount >= CHECKPOINT_INTERVAL) {
+        saveCheckpoint(checkpoint);
+        unsavedCount = 0;
       }
-    } else if (item.type === 'dir' && !item.name.startsWith('.') && !item.name.includes('node_modules')) {
-      // ディレクトリの場合は再帰的に収集（ただし隠しディレクトリやnode_modulesは除外）
-      const dirContents = await getRepositoryContents(owner, repo, item.path);
-      await collectFiles(owner, repo, dirContents, item.path, result);
     }
   }
-  
-  return result;
+
+  progress.currentFile = null;
+  if (progress.pausedReason) {
+    saveCheckpoint(checkpoint);
+  } else {
+    // すべて分析できたらチェックポイントは不要
+    clearAnalysisCheckpoint(fullRepoName, ref);
+  }
+  onProgress?.({ ...progress });
+
+  return { commitSha: checkpoint.commitSha, progress, config };
+};
+
+/**
+ * リポジトリから分析対象ファイルを収集
+ * @param config 設定ファイルの include・exclude（設定ファイルがない場合は隠しディレクトリと node_modules 配下を除外）
+ */
+const collectFiles = async (
+  owner: string,
+  repo: string,
+  treeSha: string,
+  config: RepositoryConfig | null
+): Promise<AnalysisTargetFile[]> => {
+  const tree = await getRepositoryTree(owner, repo, treeSha);
+  const isTarget = createPathFilter(config);
+  
+  return tree
+    .filter(entry => {
+      if (entry.type !== 'blob' || !isTarget(entry.path)) return false;
+      // コード分析対象の拡張子かチェック
+      return SUPPORTED_EXTENSIONS.some(ext => entry.name.toLowerCase().endsWith(ext));
+    })
+    .map(entry => ({ name: entry.name, path: entry.path, sha: entry.sha }));
 };
 
 /**
  * 単一ファイルの分析
+ * @param config リポジトリの設定
  */
 const analyzeFile = async (
   owner: string,
   repo: string,
   path: string,
-  fileName: string
+  fileName: string,
+  ref?: string,
+  config: RepositoryConfig | null = null
 ): Promise<FileAnalysisResult | null> => {
   try {
     // ファイルの内容を取得
-    const content = await getFileContent(owner, repo, path);
-    
-    // ファイルの言語を拡張子から判定
-    const extension = fileName.split('.').pop()?.toLowerCase() || '';
-    const language = getLanguageFromExtension(extension);
-    
-    // ファイルが空または言語が未サポートの場合はスキップ
-    if (!content || !language) {
-      return null;
+    const { sha, content } = await getFileBlob(owner, repo, path, ref);
+
+    // 同じ内容のファイルを分析済みであればキャッシュの結果を使う
+    const language = getLanguageFromFileName(fileName);
+    const cached = language ? await getCachedAnalysis(sha, language, config?.id) : null;
+    if (cached?.fileAnalysis) {
+      return { ...cached.fileAnalysis, fileName: path, blobSha: sha };
     }
-    
+
+    return await analyzeFileContent(content, path, fileName, sha, config);
+  } catch (error) {
+    // レート制限は呼び出し元で中断・再開を判断するため再スロー
+    if (isRateLimitError(error)) {
+      throw error;
+    }
+    console.error(`Error analyzing file ${path}:`, error);
+    return null;
+  }
+};
+
+/**
+ * ファイル名の拡張子から言語を判定
+ */
+const getLanguageFromFileName = (fileName: string): string | null =>
+  getLanguageFromExtension(fileName.split('.').pop()?.toLowerCase() || '');
+
+/**
+ * 取得済みのファイル内容を分析
+ * @param blobSha 指定した場合は分析結果をキャッシュに保存
+ * @param config リポジトリの設定
+ */
+const analyzeFileContent = async (
+  content: string,
+  path: string,
+  fileName: string,
+  blobSha?: string,
+  config: RepositoryConfig | null = null
+): Promise<FileAnalysisResult | null> => {
+  // ファイルの言語を拡張子から判定
+  const language = getLanguageFromFileName(fileName);
+  
+  // ファイルが空または言語が未サポートの場合はスキップ
+  if (!content || !language) {
+    return null;
+  }
+  
+  try {
     // コード分析を実行
-    return analyzeCode(content, language);
+    const result: FileAnalysisResult = { ...await analyzeCode(content, language, config), fileName: path, blobSha };
+    // セキュリティチェックも分析時に行い、結果と合わせて保存（履歴・レポートで再実行しない）
+    try {
+      result.security = await performSecurityCheck(content, language, getSecurityCheckOptions(config, path));
+    } catch (error) {
+      console.error(`Failed to run security check for ${path}:`, error);
+    }
+    if (blobSha) {
+      await putCachedAnalysis(blobSha, language, { fileAnalysis: result }, config?.id);
+    }
+    return result;
   } catch (error) {
     console.error(`Error analyzing file ${path}:`, error);
     return null;
@@ -1311,7 +1408,7 @@ const analyzeFile = async (
 /**
  * ファイルの拡張子から言語を判定
  */
-const getLanguageFromExtension = (extension: string): string | null => {
+export const getLanguageFromExtension = (extension: string): string | null => {
   const extensionMap: Record<string, string> = {
     'js': 'javascript',
     'jsx': 'javascript',
@@ -1335,11 +1432,13 @@ const getLanguageFromExtension = (extension: string): string | null => {
  */
 export const analyzeSingleFile = async (
   fullRepoName: string,
-  filePath: string
+  filePath: string,
+  ref?: string
 ): Promise<FileAnalysisResult | null> => {
   const [owner, repo] = fullRepoName.split('/');
   const fileName = filePath.split('/').pop() || filePath;
-  return await analyzeFile(owner, repo, filePath, fileName);
+  const config = await loadRepositoryConfig(fullRepoName, ref);
+  return await analyzeFile(owner, repo, filePath, fileName, ref, config);
 };
 
 /**
@@ -1354,7 +1453,8 @@ const generateIssuesFromCodeBERT = (
   },
   code: string,
   language: string,
-  lines: string[]
+  lines: string[],
+  thresholds: AnalysisThresholds
 ): CodeIssue[] => {
   const issues: CodeIssue[] = [];
   
@@ -1373,7 +1473,7 @@ const generateIssuesFromCodeBERT = (
   
   if (scores.complexityScore < 6) {
     // 複雑度の問題を検出
-    const complexityIssues = detectComplexityIssues(code, language, lines);
+    const complexityIssues = detectComplexityIssues(code, language, lines, thresholds.complexity);
     issues.push(...complexityIssues);
   }
   
@@ -1386,17 +1486,48 @@ const generateIssuesFromCodeBERT = (
   return issues;
 };
 
+/**
+ * 無効にしたルールの問題を除き、重大度の変更を適用（カスタムルールのID・問題の種類の順に優先）
+ */
+const applyIssueSettings = (issues: CodeIssue[], config: RepositoryConfig | null): CodeIssue[] =>
+  applyRuleSettings(
+    issues,
+    config,
+    issue => [issue.ruleId, issue.type],
+    (issue, severity) => ({ ...issue, severity: ISSUE_SEVERITIES[severity] })
+  );
+
+/**
+ * codecoach-ignore コメントで抑制された問題を除く
+ */
+const suppressIssues = (issues: CodeIssue[], code: string, language: string): { findings: CodeIssue[]; suppressed: number } =>
+  filterSuppressed(
+    issues,
+    parseSuppressions(code, language),
+    'quality',
+    issue => [issue.line, issue.line],
+    issue => [issue.ruleId, issue.type]
+  );
+
 /**
  * コード分析を実行
+ * @param config リポジトリの設定（閾値・無効にするルール・カスタムルール）
  */
-export const analyzeCode = async (code: string, language: string): Promise<FileAnalysisResult> => {
+export const analyzeCode = async (
+  code: string,
+  language: string,
+  config: RepositoryConfig | null = null
+): Promise<FileAnalysisResult> => {
   try {
     console.log(`${language}コードの分析を開始...`);
     
+    const thresholds = getAnalysisThresholds(config);
+    const customRules = config?.ruleSet.rules || [];
+    
     // 基本的なコードメトリクスを計算
     const lines = code.split('\n');
     const lineCount = lines.length;
-    const commentCount = countCommentLines(lines, language);
+    const commentCount = countCommentLines(code, language);
     const functionCount = countFunctions(code, language);
     const maxNestingDepth = calculateMaxNestingDepth(code, language);
     
@@ -1410,22 +1541,29 @@ export const analyzeCode = async (code: string, language: string): Promise<FileA
         console.log('CodeBERT分析結果:', transformerResults);
         
         // 既存のヒューリスティック分析でissuesを取得
-        const issues = detectIssues(code, language, lines);
+        const issues = detectIssues(code, language, lines, customRules, thresholds.style.maxLineLength);
         
         // CodeBERT分析に基づいて問題を追加
         const additionalIssues = generateIssuesFromCodeBERT(
           transformerResults,
           code,
           language,
-          lines
+          lines,
+          thresholds
+        );
+        
+        const { findings: reportedIssues, suppressed } = suppressIssues(
+          applyIssueSettings([...issues, ...additionalIssues], config),
+          code,
+          language
         );
         
         // スコア説明を生成
         const scoreExplanations = {
-          codeStyle: generateDetailedExplanation('codeStyle', transformerResults.codeStyleScore, language, code),
-          naming: generateDetailedExplanation('naming', transformerResults.namingScore, language, code),
-          complexity: generateDetailedExplanation('complexity', transformerResults.complexityScore, language, code),
-          bestPractices: generateDetailedExplanation('bestPractices', transformerResults.bestPracticesScore, language, code)
+          codeStyle: generateDetailedExplanation('codeStyle', transformerResults.codeStyleScore, language, code, thresholds),
+          naming: generateDetailedExplanation('naming', transformerResults.namingScore, language, code, thresholds),
+          complexity: generateDetailedExplanation('complexity', transformerResults.complexityScore, language, code, thresholds),
+          bestPractices: generateDetailedExplanation('bestPractices', transformerResults.bestPracticesScore, language, code, thresholds)
         };
         
         return {
@@ -1439,9 +1577,10 @@ export const analyzeCode = async (code: string, language: string): Promise<FileA
           namingScore: transformerResults.namingScore,
           bestPracticesScore: transformerResults.bestPracticesScore,
           maxNestingDepth,
-          issues: [...issues, ...additionalIssues],
+          issues: reportedIssues,
           scoreExplanations,
-          codeContent: code // AI機能用にコード内容を保存
+          codeContent: code, // AI機能用にコード内容を保存
+          suppressedIssues: suppressed
         };
       }
     } catch (error) {
@@ -1453,13 +1592,17 @@ export const analyzeCode = async (code: string, language: string): Promise<FileA
     console.log('ヒューリスティックによるフォールバック分析を使用');
     
     // コード品質スコアを計算
-    const codeStyleScore = calculateCodeStyleScore(code, language);
+    const codeStyleScore = calculateCodeStyleScore(code, language, thresholds.style.maxLineLength);
     const namingScore = calculateNamingScore(code, language);
     const complexityScore = calculateComplexityScore(functionCount, lineCount, maxNestingDepth);
     const bestPracticesScore = calculateBestPracticesScore(code, language, commentCount, lineCount);
     
     // 問題を検出
-    const issues = detectIssues(code, language, lines);
+    const { findings: issues, suppressed } = suppressIssues(
+      applyIssueSettings(detectIssues(code, language, lines, customRules, thresholds.style.maxLineLength), config),
+      code,
+      language
+    );
     
     // スコア説明を生成
     const scoreExplanations = {
@@ -1482,7 +1625,8 @@ export const analyzeCode = async (code: string, language: string): Promise<FileA
       maxNestingDepth,
       issues,
       scoreExplanations,
-      codeContent: code // AI機能用にコード内容を保存
+      codeContent: code, // AI機能用にコード内容を保存
+      suppressedIssues: suppressed
     };
   } catch (error) {
     console.error('コード分析エラー:', error);
@@ -1493,6 +1637,8 @@ export const analyzeCode = async (code: string, language: string): Promise<FileA
 export default {
   analyzeRepository,
   analyzeSingleFile,
+  getAnalysisCheckpointProgress,
+  clearAnalysisCheckpoint,
   loadModel,
   analyzeCode,
   SUPPORTED_EXTENSIONS,
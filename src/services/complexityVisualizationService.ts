@@ -4,6 +4,7 @@
  */
 
 import * as tf from '@tensorflow/tfjs';
+import { getFunctionNodes, parseCode } from './parser';
 import { predictComplexity } from './tfService';
 
 // 複雑度可視化データ型定義
@@ -594,63 +595,17 @@ export const extractFunctions = (
   code: string,
   language: string
 ): { name: string; code: string; startLine: number; endLine: number }[] => {
-  const functions: { name: string; code: string; startLine: number; endLine: number }[] = [];
   const lines = code.split('\n');
   
-  // 言語別の関数抽出パターン
-  const patterns: { [key: string]: RegExp } = {
-    'javascript': /function\s+([a-zA-Z0-9_$]+)\s*\(|([a-zA-Z0-9_$]+)\s*[:=]\s*(?:async\s*)?\(|(?:async\s*)?([a-zA-Z0-9_$]+)\s*\([^)]*\)\s*{/g,
-    'typescript': /function\s+([a-zA-Z0-9_$]+)\s*\(|([a-zA-Z0-9_$]+)\s*[:=]\s*(?:async\s*)?\(|(?:async\s*)?([a-zA-Z0-9_$]+)\s*\([^)]*\)\s*{|([a-zA-Z0-9_$]+)\s*\([^)]*\):\s*[a-zA-Z0-9_<>]+\s*{/g,
-    'python': /def\s+([a-zA-Z0-9_]+)\s*\(/g,
-    'java': /(?:public|private|protected|static|final)?\s*(?:<.*>)?\s*\w+\s+([a-zA-Z0-9_$]+)\s*\(/g,
-    'go': /func\s+([a-zA-Z0-9_$]+)\s*\(/g,
-    'c': /([a-zA-Z0-9_$]+)\s*\([^;]*\)\s*{/g,
-    'cpp': /([a-zA-Z0-9_$]+)::[a-zA-Z0-9_$]+\s*\(|[a-zA-Z0-9_$]+\s+([a-zA-Z0-9_$]+)\s*\([^;]*\)\s*{/g,
-    'csharp': /(?:public|private|protected|internal|static|virtual|abstract|override|sealed)?\s*(?:<.*>)?\s*\w+\s+([a-zA-Z0-9_$]+)\s*\(/g,
-  };
-  
-  const pattern = patterns[language.toLowerCase()] || patterns['javascript'];
-  
-  // 簡易的な関数抽出（実際の実装では構文解析ライブラリを使うべき）
-  let braceCount = 0;
-  let functionStartLine = -1;
-  let currentFunction = '';
-  let inFunction = false;
-  let functionName = '';
-  
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-    
-    if (!inFunction) {
-      const match = pattern.exec(line);
-      if (match) {
-        // 関数名を抽出（正規表現のキャプチャグループから）
-        functionName = match[1] || match[2] || match[3] || match[4] || 'anonymous';
-        functionStartLine = i + 1;
-        inFunction = true;
-        currentFunction = line;
-        braceCount = (line.match(/{/g) || []).length - (line.match(/}/g) || []).length;
-      }
-    } else {
-      currentFunction += '\n' + line;
-      braceCount += (line.match(/{/g) || []).length - (line.match(/}/g) || []).length;
-      
-      if (braceCount === 0 || (language === 'python' && line.trim() === '' && i < lines.length - 1 && !lines[i + 1].startsWith(' '))) {
-        // 関数の終了を検出
-        functions.push({
-          name: functionName,
-          code: currentFunction,
-          startLine: functionStartLine,
-          endLine: i + 1
-        });
-        inFunction = false;
-        currentFunction = '';
-        functionName = '';
-      }
-    }
-  }
-  
-  return functions;
+  // 構文木から関数を取得（式本体のラムダは分析対象外）
+  return getFunctionNodes(parseCode(code, language))
+    .filter(functionNode => !functionNode.expressionBody)
+    .map(functionNode => ({
+      name: functionNode.name || 'anonymous',
+      code: lines.slice(functionNode.startLine - 1, functionNode.endLine).join('\n'),
+      startLine: functionNode.startLine,
+      endLine: functionNode.endLine
+    }));
 };
 
 /**
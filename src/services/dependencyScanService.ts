@@ -0,0 +1,860 @@
+/**
+ * 依存関係スキャンサービス
+ * リポジトリの依存関係マニフェスト（package.json・package-lock.json・requirements.txt・poetry.lock・go.mod・pom.xml）から
+ * バージョンが固定された依存パッケージを抽出し、OSV形式のアドバイザリデータベースと照合して既知の脆弱性を検出します
+ *
+ * アドバイザリデータベースは public/advisories/osv.json に置いたOSVレコードの配列（または { vulns: [...] }）です。
+ * OSVが公開しているエコシステムごとの一括データ（https://osv-vulnerabilities.storage.googleapis.com/<エコシステム>/all.zip）の
+ * 各JSONを配列にまとめたものに置き換えると、照合できるアドバイザリを増やせます
+ */
+
+import { fetchBlobContents, getRepositoryTree } from './githubService';
+import { SecurityVulnerability, Severity, VulnerabilityType } from './securityCheckService';
+
+// アドバイザリデータベースの場所（public/ 配下）
+export const ADVISORY_DATABASE_URL = '/advisories/osv.json';
+
+// 対応するエコシステム（OSVのエコシステム名）
+export type DependencyEcosystem = 'npm' | 'PyPI' | 'Go' | 'Maven';
+
+// マニフェストから抽出した依存パッケージ
+export interface Dependency {
+  ecosystem: DependencyEcosystem;
+  name: string;                   // パッケージ名（Maven は groupId:artifactId）
+  version: string;                // 固定されたバージョン
+  manifest: string;               // 宣言しているマニフェストのパス
+  line: number;                   // 宣言している行（1始まり）
+  code: string;                   // 宣言している行の内容
+  direct: boolean;                // 直接依存か（ロックファイルの間接依存は false）
+}
+
+// OSVのバージョン範囲のイベント
+export interface OsvEvent {
+  introduced?: string;
+  fixed?: string;
+  last_affected?: string;
+  limit?: string;
+}
+
+// OSVのバージョン範囲
+export interface OsvRange {
+  type: 'SEMVER' | 'ECOSYSTEM' | 'GIT';
+  events: OsvEvent[];
+}
+
+// OSVの影響を受けるパッケージ
+export interface OsvAffected {
+  package: { ecosystem: string; name: string; purl?: string };
+  ranges?: OsvRange[];
+  versions?: string[];
+}
+
+// OSVのアドバイザリ（スキャンで使う項目のみ）
+export interface OsvAdvisory {
+  id: string;
+  modified?: string;
+  summary?: string;
+  details?: string;
+  aliases?: string[];
+  affected?: OsvAffected[];
+  severity?: { type: string; score: string }[];
+  references?: { type: string; url: string }[];
+  database_specific?: { severity?: string; cwe_ids?: string[] };
+}
+
+// 脆弱性のある依存パッケージ
+export interface DependencyFinding {
+  dependency: Dependency;
+  advisory: OsvAdvisory;
+  severity: Severity;
+  cvssScore: number | null;       // CVSS v3 の基本値（ベクトルがない場合は null）
+  affectedRanges: string[];       // 影響を受けるバージョンの範囲（例: ">=1.0.0, <1.2.6"）
+  fixedVersions: string[];        // 修正済みのバージョン
+  recommendedVersion: string | null; // 使用中のバージョンより新しい最小の修正版
+}
+
+// 依存関係スキャンの結果
+export interface DependencyScanResult {
+  manifests: string[];            // 読み込んだマニフェストのパス
+  dependencies: Dependency[];     // バージョンが固定された依存パッケージ
+  findings: DependencyFinding[];  // 既知の脆弱性
+  advisoryCount: number;          // 照合したアドバイザリの数
+  error?: string;                 // アドバイザリデータベースを読み込めなかった場合の理由
+}
+
+// マニフェストを探さないディレクトリ（依存パッケージの展開先）
+const EXCLUDED_DIRECTORIES = ['node_modules', 'vendor', 'site-packages'];
+
+// 重大度の表記（GitHub Advisory Database の database_specific.severity）
+const ADVISORY_SEVERITIES: Record<string, Severity> = {
+  CRITICAL: Severity.CRITICAL,
+  HIGH: Severity.HIGH,
+  MODERATE: Severity.MEDIUM,
+  MEDIUM: Severity.MEDIUM,
+  LOW: Severity.LOW
+};
+
+// 参考情報として表示するリンクの最大数
+const MAX_REFERENCES = 5;
+
+// パスのディレクトリ部分
+const getDirectory = (path: string): string => path.split('/').slice(0, -1).join('/');
+
+// パッケージ名を照合用に正規化（PyPI は PEP 503 に従い大文字小文字と区切り文字を区別しない）
+const normalizePackageName = (ecosystem: string, name: string): string =>
+  ecosystem === 'PyPI' ? name.toLowerCase().replace(/[-_.]+/g, '-') : name;
+
+// 文字列が最初に現れる行（1始まり、見つからなければ 1）
+const findLine = (lines: string[], needle: string, from = 0): number => {
+  const index = lines.findIndex((line, i) => i >= from && line.includes(needle));
+  return index >= 0 ? index + 1 : 1;
+};
+
+// 依存パッケージを作成（宣言行の内容を添える）
+const createDependency = (
+  ecosystem: DependencyEcosystem,
+  name: string,
+  version: string,
+  manifest: string,
+  lines: string[],
+  line: number,
+  direct: boolean
+): Dependency => ({
+  ecosystem,
+  name,
+  version,
+  manifest,
+  line,
+  code: (lines[line - 1] || '').trim(),
+  direct
+});
+
+/**
+ * package.json の依存パッケージ（バージョンが完全に固定されたもののみ）
+ */
+const parsePackageJson = (path: string, content: string): Dependency[] => {
+  const manifest = JSON.parse(content);
+  const lines = content.split('\n');
+  const dependencies: Dependency[] = [];
+
+  for (const field of ['dependencies', 'devDependencies', 'optionalDependencies']) {
+    const section = manifest[field];
+    if (!section || typeof section !== 'object') continue;
+    const sectionLine = findLine(lines, `"${field}"`) - 1;
+
+    for (const [name, spec] of Object.entries(section)) {
+      // ^1.2.3 や ~1.2.3 などの範囲指定はインストールされるバージョンが分からないため対象外
+      const match = typeof spec === 'string' ? spec.trim().match(/^=?v?(\d+\.\d+\.\d+(?:-[0-9A-Za-z.-]+)?)$/) : null;
+      if (!match) continue;
+      dependencies.push(createDependency('npm', name, match[1], path, lines, findLine(lines, `"${name}"`, sectionLine), true));
+    }
+  }
+
+  return dependencies;
+};
+
+// package-lock.json のパッケージ（lockfileVersion 2 以降の packages・1 の入れ子の dependencies）
+interface LockPackageEntry {
+  version?: string;
+  name?: string;
+  link?: boolean;
+  dependencies?: Record<string, LockPackageEntry>;
+}
+
+/**
+ * package-lock.json の依存パッケージ（lockfileVersion 1〜3）
+ */
+const parsePackageLock = (path: string, content: string): Dependency[] => {
+  const lock = JSON.parse(content);
+  const lines = content.split('\n');
+  const dependencies: Dependency[] = [];
+
+  if (lock.packages && typeof lock.packages === 'object') {
+    // lockfileVersion 2 以降: "node_modules/a/node_modules/b" をキーとする平坦な一覧
+    const root = lock.packages[''] || {};
+    const directNames = new Set([
+      ...Object.keys(root.dependencies || {}),
+      ...Object.keys(root.devDependencies || {}),
+      ...Object.keys(root.optionalDependencies || {})
+    ]);
+
+    for (const [key, entry] of Object.entries<LockPackageEntry | null>(lock.packages)) {
+      const index = key.lastIndexOf('node_modules/');
+      // ルートやワークスペース自身、リンクはレジストリのパッケージではない
+      if (index < 0 || !entry || entry.link || typeof entry.version !== 'string') continue;
+      const name = entry.name || key.slice(index + 'node_modules/'.length);
+      const direct = key === `node_modules/${name}` && directNames.has(name);
+      dependencies.push(createDependency('npm', name, entry.version, path, lines, findLine(lines, `"${key}"`), direct));
+    }
+    return dependencies;
+  }
+
+  // lockfileVersion 1: dependencies が入れ子になった一覧
+  const walk = (section: Record<string, LockPackageEntry> | undefined, depth: number) => {
+    for (const [name, entry] of Object.entries(section || {})) {
+      if (!entry || typeof entry.version !== 'string') continue;
+      // file: や git: で取得したパッケージはバージョンの代わりに取得元が入る
+      if (/^\d/.test(entry.version)) {
+        dependencies.push(createDependency('npm', name, entry.version, path, lines, findLine(lines, `"${name}": {`), depth === 0));
+      }
+      walk(entry.dependencies, depth + 1);
+    }
+  };
+  walk(lock.dependencies, 0);
+  return dependencies;
+};
+
+/**
+ * requirements.txt の依存パッケージ（== で固定されたもののみ）
+ */
+const parseRequirements = (path: string, content: string): Dependency[] => {
+  const lines = content.split('\n');
+  const dependencies: Dependency[] = [];
+
+  lines.forEach((rawLine, index) => {
+    // コメント・環境マーカー・ハッシュ・行継続を除いた要求仕様
+    const line = rawLine.replace(/(^|\s)#.*$/, '').split(';')[0].replace(/\s--hash=\S+/g, '').replace(/\\\s*$/, '').trim();
+    if (!line || line.startsWith('-')) return;
+
+    const match = line.match(/^([A-Za-z0-9][A-Za-z0-9._-]*)\s*(?:\[[^\]]*\])?\s*===?\s*([^\s,*]+)$/);
+    if (match) {
+      dependencies.push(createDependency('PyPI', match[1], match[2], path, lines, index + 1, true));
+    }
+  });
+
+  return dependencies;
+};
+
+/**
+ * poetry.lock の依存パッケージ
+ * poetry.lock は直接依存と間接依存を区別しないため、すべて直接依存として扱います
+ */
+const parsePoetryLock = (path: string, content: string): Dependency[] => {
+  const lines = content.split('\n');
+  const dependencies: Dependency[] = [];
+  let current: { name?: string; version?: string; line: number } | null = null;
+
+  const flush = () => {
+    if (current?.name && current.version) {
+      dependencies.push(createDependency('PyPI', current.name, current.version, path, lines, current.line, true));
+    }
+    current = null;
+  };
+
+  lines.forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (line === '[[package]]') {
+      flush();
+      current = { line: index + 1 };
+      return;
+    }
+    // [package.dependencies] などの下位テーブルは対象外
+    if (line.startsWith('[')) {
+      flush();
+      return;
+    }
+    const match = current && line.match(/^(name|version)\s*=\s*"([^"]+)"/);
+    if (!current || !match) return;
+    if (match[1] === 'name') {
+      current.name = match[2];
+      current.line = index + 1;
+    } else {
+      current.version = match[2];
+    }
+  });
+  flush();
+
+  return dependencies;
+};
+
+/**
+ * go.mod の依存モジュール（replace ディレクティブを反映）
+ */
+const parseGoMod = (path: string, content: string): Dependency[] => {
+  const lines = content.split('\n');
+  const requires: { name: string; version: string; line: number; direct: boolean }[] = [];
+  const replacements = new Map<string, { name: string; version: string } | null>();
+  let block: 'require' | 'replace' | null = null;
+
+  const addRequire = (spec: string, comment: string, line: number) => {
+    const match = spec.match(/^(\S+)\s+(v\S+)$/);
+    if (match) requires.push({ name: match[1], version: match[2], line, direct: !/\bindirect\b/.test(comment) });
+  };
+  const addReplace = (spec: string) => {
+    const match = spec.match(/^(\S+)(?:\s+v\S+)?\s*=>\s*(\S+)(?:\s+(v\S+))?$/);
+    if (!match) return;
+    // ローカルのディレクトリに置き換えたモジュールはレジストリの版ではない
+    replacements.set(match[1], match[3] ? { name: match[2], version: match[3] } : null);
+  };
+
+  lines.forEach((rawLine, index) => {
+    const commentIndex = rawLine.indexOf('//');
+    const comment = commentIndex >= 0 ? rawLine.slice(commentIndex) : '';
+    const line = (commentIndex >= 0 ? rawLine.slice(0, commentIndex) : rawLine).trim();
+
+    if (block) {
+      if (line === ')') {
+        block = null;
+      } else if (line) {
+        if (block === 'require') addRequire(line, comment, index + 1);
+        else addReplace(line);
+      }
+      return;
+    }
+
+    const match = line.match(/^(require|replace)\s*(\(|.+)$/);
+    if (!match) return;
+    if (match[2] === '(') {
+      block = match[1] as 'require' | 'replace';
+    } else if (match[1] === 'require') {
+      addRequire(match[2].trim(), comment, index + 1);
+    } else {
+      addReplace(match[2].trim());
+    }
+  });
+
+  return requires.flatMap(require => {
+    const replacement = replacements.get(require.name);
+    if (replacement === null) return [];
+    const { name, version } = replacement || require;
+    return [createDependency('Go', name, version, path, lines, require.line, require.direct)];
+  });
+};
+
+/**
+ * pom.xml の依存ライブラリ（プロパティを展開し、バージョンが決まるもののみ）
+ */
+const parsePomXml = (path: string, content: string): Dependency[] => {
+  // 行番号を保つため、コメントは同じ長さの空白に置き換える
+  const xml = content.replace(/<!--[\s\S]*?-->/g, comment => comment.replace(/[^\n]/g, ' '));
+  const lines = content.split('\n');
+  const dependencies: Dependency[] = [];
+  const getTag = (source: string, tag: string): string | undefined =>
+    source.match(new RegExp(`<${tag}>\\s*([^<]*?)\\s*</${tag}>`))?.[1];
+
+  // <properties> とプロジェクト自身のバージョン（親の指定を除く）
+  const properties = new Map<string, string>();
+  const propertiesBlock = xml.match(/<properties>([\s\S]*?)<\/properties>/)?.[1] || '';
+  for (const match of propertiesBlock.matchAll(/<([\w.-]+)>\s*([^<]*?)\s*<\/\1>/g)) {
+    properties.set(match[1], match[2]);
+  }
+  const projectHeader = xml
+    .replace(/<parent>[\s\S]*?<\/parent>/, '')
+    .replace(/<(dependencies|dependencyManagement|build|profiles|properties)>[\s\S]*?<\/\1>/g, '');
+  const projectVersion = getTag(projectHeader, 'version');
+  if (projectVersion) {
+    properties.set('project.version', projectVersion);
+    properties.set('version', projectVersion);
+  }
+  const resolve = (value: string | undefined): string | undefined =>
+    value?.replace(/\$\{([^}]+)\}/g, (placeholder, key: string) => properties.get(key) ?? placeholder);
+
+  for (const match of xml.matchAll(/<dependency>([\s\S]*?)<\/dependency>/g)) {
+    const groupId = resolve(getTag(match[1], 'groupId'));
+    const artifactId = resolve(getTag(match[1], 'artifactId'));
+    const version = resolve(getTag(match[1], 'version'));
+    // バージョン範囲（[1.0,2.0) など）や展開できないプロパティは対象外
+    if (!groupId || !artifactId || !version || /[$[\](),]/.test(version)) continue;
+
+    const offset = (match.index || 0) + match[0].indexOf('<artifactId>');
+    const line = xml.slice(0, offset).split('\n').length;
+    dependencies.push(createDependency('Maven', `${groupId}:${artifactId}`, version, path, lines, line, true));
+  }
+
+  return dependencies;
+};
+
+// マニフェストの種類（ファイル名・解析関数・ロックファイルか）
+const MANIFEST_TYPES: {
+  pattern: RegExp;
+  parse: (path: string, content: string) => Dependency[];
+  lockfile: boolean;
+}[] = [
+  { pattern: /^package\.json$/, parse: parsePackageJson, lockfile: false },
+  { pattern: /^package-lock\.json$/, parse: parsePackageLock, lockfile: true },
+  { pattern: /^requirements[\w.-]*\.txt$/, parse: parseRequirements, lockfile: false },
+  { pattern: /^poetry\.lock$/, parse: parsePoetryLock, lockfile: true },
+  { pattern: /^go\.mod$/, parse: parseGoMod, lockfile: false },
+  { pattern: /^pom\.xml$/, parse: parsePomXml, lockfile: false }
+];
+
+/**
+ * 依存関係マニフェストかどうか
+ */
+export const isManifestFile = (path: string): boolean => {
+  const segments = path.split('/');
+  const name = segments[segments.length - 1];
+  const directories = segments.slice(0, -1);
+  if (directories.some(dir => dir.startsWith('.') || EXCLUDED_DIRECTORIES.includes(dir))) return false;
+  return MANIFEST_TYPES.some(({ pattern }) => pattern.test(name));
+};
+
+// ロックファイルかどうか（同じディレクトリのマニフェストより優先する）
+const isLockfile = (path: string): boolean => {
+  const name = path.split('/').pop() || path;
+  return MANIFEST_TYPES.some(({ pattern, lockfile }) => lockfile && pattern.test(name));
+};
+
+
+/**
+ * マニフェストから依存パッケージを抽出
+ */
+export const parseManifest = (path: string, content: string): Dependency[] => {
+  const name = path.split('/').pop() || path;
+  const parser = MANIFEST_TYPES.find(({ pattern }) => pattern.test(name));
+  return parser ? parser.parse(path, content) : [];
+};
+
+// バージョンの比較関数（a < b なら負、a > b なら正）
+type VersionComparator = (a: string, b: string) => number;
+
+const compareNumbers = (a: number, b: number): number => (a === b ? 0 : a < b ? -1 : 1);
+
+/**
+ * セマンティックバージョニングの比較（npm・Go）
+ * Go の v 接頭辞や +incompatible などのビルドメタデータは無視します
+ */
+const compareSemver: VersionComparator = (a, b) => {
+  const parse = (version: string) => {
+    const [core, ...prerelease] = version.trim().replace(/^v/, '').split('+')[0].split('-');
+    return {
+      core: core.split('.').map(part => parseInt(part, 10) || 0),
+      prerelease: prerelease.length > 0 ? prerelease.join('-').split('.') : []
+    };
+  };
+  const left = parse(a);
+  const right = parse(b);
+
+  for (let i = 0; i < 3; i++) {
+    const diff = compareNumbers(left.core[i] || 0, right.core[i] || 0);
+    if (diff !== 0) return diff;
+  }
+
+  // プレリリースのない版の方が新しい
+  if (left.prerelease.length === 0 || right.prerelease.length === 0) {
+    return compareNumbers(right.prerelease.length, left.prerelease.length);
+  }
+  for (let i = 0; i < Math.max(left.prerelease.length, right.prerelease.length); i++) {
+    const x = left.prerelease[i];
+    const y = right.prerelease[i];
+    if (x === undefined) return -1;
+    if (y === undefined) return 1;
+    const xNumeric = /^\d+$/.test(x);
+    const yNumeric = /^\d+$/.test(y);
+    if (xNumeric && yNumeric) {
+      const diff = compareNumbers(Number(x), Number(y));
+      if (diff !== 0) return diff;
+    } else if (xNumeric !== yNumeric) {
+      return xNumeric ? -1 : 1;
+    } else if (x !== y) {
+      return x < y ? -1 : 1;
+    }
+  }
+  return 0;
+};
+
+/**
+ * PEP 440 のバージョン比較（PyPI）
+ * 開発版 < プレリリース（a・b・rc）< 正式版 < ポストリリース の順に並べます
+ */
+const comparePep440: VersionComparator = (a, b) => {
+  const PRE_RELEASE_RANKS: Record<string, number> = { a: 0, alpha: 0, b: 1, beta: 1, c: 2, rc: 2, pre: 2, preview: 2 };
+  const parse = (version: string): number[] => {
+    const normalized = version.trim().toLowerCase().replace(/^v/, '').split('+')[0];
+    const match = normalized.match(
+      /^(?:(\d+)!)?(\d+(?:\.\d+)*)(?:[-_.]?(a|alpha|b|beta|c|rc|pre|preview)[-_.]?(\d*))?(?:(?:-(\d+))|(?:[-_.]?(?:post|rev|r)[-_.]?(\d*)))?(?:[-_.]?dev[-_.]?(\d*))?$/
+    );
+    if (!match) return [0];
+    const [, epoch, release, preLabel, preNumber, postImplicit, postNumber, devNumber] = match;
+    const hasPost = postImplicit !== undefined || postNumber !== undefined;
+    const hasDev = devNumber !== undefined;
+    const releaseParts = release.split('.').map(Number);
+    while (releaseParts.length < 4) releaseParts.push(0);
+
+    // 開発版のみ（1.0.dev1）はどのプレリリースよりも古い
+    const preRank = preLabel ? PRE_RELEASE_RANKS[preLabel] : hasDev && !hasPost ? -1 : 3;
+    return [
+      Number(epoch || 0),
+      ...releaseParts.slice(0, 4),
+      preRank,
+      Number(preNumber || 0),
+      hasPost ? Number(postImplicit ?? postNumber ?? 0) : -1,
+      hasDev ? Number(devNumber || 0) : Number.MAX_SAFE_INTEGER
+    ];
+  };
+  const left = parse(a);
+  const right = parse(b);
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const diff = compareNumbers(left[i] ?? 0, right[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+};
+
+/**
+ * Maven のバージョン比較（ComparableVersion の主な規則）
+ * 修飾子は alpha < beta < milestone < rc < snapshot < 正式版 < sp の順に並べます
+ */
+const compareMaven: VersionComparator = (a, b) => {
+  const QUALIFIER_RANKS: Record<string, number> = {
+    alpha: 1, a: 1, beta: 2, b: 2, milestone: 3, m: 3, rc: 4, cr: 4, snapshot: 5, '': 6, ga: 6, final: 6, release: 6, sp: 7
+  };
+  const tokenize = (version: string): (number | string)[] =>
+    (version.trim().toLowerCase().match(/\d+|[a-z]+/g) || []).map(token => (/^\d+$/.test(token) ? Number(token) : token));
+  const qualifierRank = (qualifier: string): number => QUALIFIER_RANKS[qualifier] ?? 8;
+
+  const left = tokenize(a);
+  const right = tokenize(b);
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const x = left[i];
+    const y = right[i];
+    if (x === y) continue;
+    // 短い方は数値なら 0、修飾子なら正式版とみなす
+    const xValue = x ?? (typeof y === 'number' ? 0 : '');
+    const yValue = y ?? (typeof x === 'number' ? 0 : '');
+    if (typeof xValue === 'number' && typeof yValue === 'number') {
+      const diff = compareNumbers(xValue, yValue);
+      if (diff !== 0) return diff;
+    } else if (typeof xValue === 'number' || typeof yValue === 'number') {
+      // 数値は修飾子より新しい（1.0.1 > 1.0-rc1）
+      return typeof xValue === 'number' ? 1 : -1;
+    } else {
+      const diff = compareNumbers(qualifierRank(xValue), qualifierRank(yValue));
+      if (diff !== 0) return diff;
+      if (xValue !== yValue) return xValue < yValue ? -1 : 1;
+    }
+  }
+  return 0;
+};
+
+// エコシステムごとのバージョン比較関数
+const ECOSYSTEM_COMPARATORS: Record<DependencyEcosystem, VersionComparator> = {
+  npm: compareSemver,
+  PyPI: comparePep440,
+  Go: compareSemver,
+  Maven: compareMaven
+};
+
+// イベントの境界となるバージョン
+const getEventVersion = (event: OsvEvent): string | undefined =>
+  event.introduced ?? event.fixed ?? event.last_affected ?? event.limit;
+
+// イベントをバージョン順に並べる（introduced: "0" は最も古い）
+const sortEvents = (events: OsvEvent[], compare: VersionComparator): OsvEvent[] =>
+  [...events]
+    .filter(event => getEventVersion(event) !== undefined)
+    .sort((x, y) => {
+      const xVersion = getEventVersion(x) as string;
+      const yVersion = getEventVersion(y) as string;
+      if (xVersion === '0') return yVersion === '0' ? 0 : -1;
+      if (yVersion === '0') return 1;
+      return compare(xVersion, yVersion);
+    });
+
+/**
+ * バージョンが範囲に含まれるか（OSVの評価手順に従い、バージョン以下の最後のイベントで判定）
+ */
+const isVersionInRange = (version: string, range: OsvRange, compare: VersionComparator): boolean => {
+  let affected = false;
+  for (const event of sortEvents(range.events, compare)) {
+    if (event.introduced !== undefined) {
+      if (event.introduced === '0' || compare(version, event.introduced) >= 0) affected = true;
+    } else if (event.fixed !== undefined) {
+      if (compare(version, event.fixed) >= 0) affected = false;
+    } else if (event.last_affected !== undefined) {
+      if (compare(version, event.last_affected) > 0) affected = false;
+    }
+  }
+  return affected;
+};
+
+/**
+ * 範囲を読みやすい形式に変換（例: ">=1.0.0, <1.2.6"）
+ */
+const describeRange = (range: OsvRange, compare: VersionComparator): string[] => {
+  const descriptions: string[] = [];
+  let introduced: string | null = null;
+
+  for (const event of sortEvents(range.events, compare)) {
+    if (event.introduced !== undefined) {
+      introduced = event.introduced;
+    } else if (introduced !== null && (event.fixed !== undefined || event.last_affected !== undefined)) {
+      const upper = event.fixed !== undefined ? `<${event.fixed}` : `<=${event.last_affected}`;
+      descriptions.push(introduced === '0' ? upper : `>=${introduced}, ${upper}`);
+      introduced = null;
+    }
+  }
+  // 修正版のない範囲
+  if (introduced !== null) {
+    descriptions.push(introduced === '0' ? '全バージョン' : `>=${introduced}`);
+  }
+  return descriptions;
+};
+
+/**
+ * CVSS v3 のベクトルから基本値を計算
+ */
+export const calculateCvssV3BaseScore = (vector: string): number | null => {
+  const metrics = new Map(
+    vector.split('/').slice(1).map(part => part.split(':') as [string, string])
+  );
+  const scopeChanged = metrics.get('S') === 'C';
+  const weights: Record<string, Record<string, number>> = {
+    AV: { N: 0.85, A: 0.62, L: 0.55, P: 0.2 },
+    AC: { L: 0.77, H: 0.44 },
+    PR: { N: 0.85, L: scopeChanged ? 0.68 : 0.62, H: scopeChanged ? 0.5 : 0.27 },
+    UI: { N: 0.85, R: 0.62 },
+    C: { H: 0.56, L: 0.22, N: 0 },
+    I: { H: 0.56, L: 0.22, N: 0 },
+    A: { H: 0.56, L: 0.22, N: 0 }
+  };
+  const value = (metric: string): number | undefined => weights[metric][metrics.get(metric) || ''];
+  const [av, ac, pr, ui, c, i, a] = ['AV', 'AC', 'PR', 'UI', 'C', 'I', 'A'].map(value);
+  if ([av, ac, pr, ui, c, i, a].some(weight => weight === undefined)) return null;
+
+  // 小数第1位への切り上げ（浮動小数点の誤差を避けるため整数で計算）
+  const roundUp = (score: number): number => {
+    const integer = Math.round(score * 100000);
+    return integer % 10000 === 0 ? integer / 100000 : (Math.floor(integer / 10000) + 1) / 10;
+  };
+
+  const impactSubScore = 1 - (1 - c!) * (1 - i!) * (1 - a!);
+  const impact = scopeChanged
+    ? 7.52 * (impactSubScore - 0.029) - 3.25 * Math.pow(impactSubScore - 0.02, 15)
+    : 6.42 * impactSubScore;
+  const exploitability = 8.22 * av! * ac! * pr! * ui!;
+  if (impact <= 0) return 0;
+  return roundUp(Math.min((scopeChanged ? 1.08 : 1) * (impact + exploitability), 10));
+};
+
+// CVSS の基本値から重大度を判定
+const severityFromScore = (score: number): Severity => {
+  if (score >= 9) return Severity.CRITICAL;
+  if (score >= 7) return Severity.HIGH;
+  if (score >= 4) return Severity.MEDIUM;
+  if (score > 0) return Severity.LOW;
+  return Severity.INFO;
+};
+
+/**
+ * アドバイザリの重大度（データベースの重大度を優先し、なければ CVSS の基本値から判定）
+ */
+const getAdvisorySeverity = (advisory: OsvAdvisory): { severity: Severity; cvssScore: number | null } => {
+  const cvss = advisory.severity?.find(entry => entry.type === 'CVSS_V3');
+  const cvssScore = cvss ? calculateCvssV3BaseScore(cvss.score) : null;
+  const label = advisory.database_specific?.severity?.toUpperCase();
+
+  if (label && ADVISORY_SEVERITIES[label]) return { severity: ADVISORY_SEVERITIES[label], cvssScore };
+  if (cvssScore !== null) return { severity: severityFromScore(cvssScore), cvssScore };
+  // 重大度が分からないアドバイザリは中リスクとして扱う
+  return { severity: Severity.MEDIUM, cvssScore };
+};
+
+/**
+ * 依存パッケージとアドバイザリを照合
+ */
+const matchAdvisory = (dependency: Dependency, advisory: OsvAdvisory, affected: OsvAffected): DependencyFinding | null => {
+  const compare = ECOSYSTEM_COMPARATORS[dependency.ecosystem];
+  // GIT の範囲はコミットで指定されるため、バージョンとは照合できない
+  const ranges = (affected.ranges || []).filter(range => range.type !== 'GIT');
+  const listed = (affected.versions || []).some(version => compare(version, dependency.version) === 0);
+  const inRange = ranges.some(range => isVersionInRange(dependency.version, range, compare));
+  if (!listed && !inRange) return null;
+
+  const fixedVersions = Array.from(new Set(
+    ranges.flatMap(range => range.events.flatMap(event => (event.fixed !== undefined ? [event.fixed] : [])))
+  )).sort(compare);
+  const affectedRanges = ranges.flatMap(range => describeRange(range, compare));
+
+  return {
+    dependency,
+    advisory,
+    ...getAdvisorySeverity(advisory),
+    affectedRanges: affectedRanges.length > 0 ? affectedRanges : [`=${dependency.version}`],
+    fixedVersions,
+    recommendedVersion: fixedVersions.find(version => compare(version, dependency.version) > 0) || null
+  };
+};
+
+// 読み込んだアドバイザリデータベース（URLごと）
+const advisoryDatabases = new Map<string, Promise<OsvAdvisory[]>>();
+
+/**
+ * アドバイザリデータベースを読み込む（読み込んだ結果は再利用します）
+ */
+export const loadAdvisoryDatabase = (url = ADVISORY_DATABASE_URL): Promise<OsvAdvisory[]> => {
+  const cached = advisoryDatabases.get(url);
+  if (cached) return cached;
+
+  const loading = fetch(url)
+    .then(response => {
+      if (!response.ok) throw new Error(`アドバイザリデータベースを取得できません（${response.status}）`);
+      return response.json();
+    })
+    .then(data => {
+      const advisories = Array.isArray(data) ? data : data?.vulns;
+      if (!Array.isArray(advisories)) throw new Error('アドバイザリデータベースの形式が正しくありません');
+      return advisories.filter((advisory: OsvAdvisory) => advisory && typeof advisory.id === 'string');
+    });
+  // 失敗した場合は次回読み込み直す
+  loading.catch(() => advisoryDatabases.delete(url));
+  advisoryDatabases.set(url, loading);
+  return loading;
+};
+
+/**
+ * マニフェストの依存パッケージをアドバイザリと照合
+ * 同じディレクトリにロックファイルがある場合は、ロックファイルのバージョンを優先します
+ */
+export const scanDependencies = (
+  files: { path: string; content: string }[],
+  advisories: OsvAdvisory[]
+): DependencyScanResult => {
+  // ロックファイルを先に解析し、同じディレクトリ・同じパッケージ・同じバージョンの宣言は1つにまとめる
+  const orderedFiles = [...files].sort((a, b) => Number(isLockfile(b.path)) - Number(isLockfile(a.path)));
+  const seen = new Set<string>();
+  const dependencies: Dependency[] = [];
+
+  for (const file of orderedFiles) {
+    let parsed: Dependency[];
+    try {
+      parsed = parseManifest(file.path, file.content);
+    } catch (error) {
+      console.warn(`Failed to parse manifest ${file.path}:`, error);
+      continue;
+    }
+    for (const dependency of parsed) {
+      const key = [getDirectory(file.path), dependency.ecosystem, normalizePackageName(dependency.ecosystem, dependency.name), dependency.version].join('\u0000');
+      if (seen.has(key)) continue;
+      seen.add(key);
+      dependencies.push(dependency);
+    }
+  }
+
+  // エコシステムとパッケージ名でアドバイザリを引けるようにする
+  const index = new Map<string, { advisory: OsvAdvisory; affected: OsvAffected }[]>();
+  for (const advisory of advisories) {
+    for (const affected of advisory.affected || []) {
+      if (!affected.package) continue;
+      const key = `${affected.package.ecosystem}\u0000${normalizePackageName(affected.package.ecosystem, affected.package.name)}`;
+      const entries = index.get(key) || [];
+      entries.push({ advisory, affected });
+      index.set(key, entries);
+    }
+  }
+
+  const findings: DependencyFinding[] = [];
+  for (const dependency of dependencies) {
+    const key = `${dependency.ecosystem}\u0000${normalizePackageName(dependency.ecosystem, dependency.name)}`;
+    const reported = new Set<string>();
+    for (const { advisory, affected } of index.get(key) || []) {
+      if (reported.has(advisory.id)) continue;
+      const finding = matchAdvisory(dependency, advisory, affected);
+      if (finding) {
+        findings.push(finding);
+        reported.add(advisory.id);
+      }
+    }
+  }
+
+  return {
+    manifests: files.map(file => file.path),
+    dependencies,
+    findings,
+    advisoryCount: advisories.length
+  };
+};
+
+/**
+ * リポジトリの依存関係マニフェストをスキャン
+ * @param commitSha スキャンするコミット（分析結果と同じコミットに固定する）
+ */
+export const scanRepositoryDependencies = async (
+  fullRepoName: string,
+  commitSha = 'HEAD',
+  advisoryDatabaseUrl = ADVISORY_DATABASE_URL
+): Promise<DependencyScanResult> => {
+  const [owner, repo] = fullRepoName.split('/');
+  const tree = await getRepositoryTree(owner, repo, commitSha);
+  const manifests = tree.filter(entry => entry.type === 'blob' && isManifestFile(entry.path));
+  if (manifests.length === 0) {
+    return { manifests: [], dependencies: [], findings: [], advisoryCount: 0 };
+  }
+
+  const contents = await fetchBlobContents(owner, repo, manifests.map(entry => entry.sha));
+  const files = manifests.flatMap(entry => {
+    const content = contents.get(entry.sha);
+    return content !== undefined ? [{ path: entry.path, content }] : [];
+  });
+
+  let advisories: OsvAdvisory[];
+  try {
+    advisories = await loadAdvisoryDatabase(advisoryDatabaseUrl);
+  } catch (error) {
+    console.error('Failed to load advisory database:', error);
+    const result = scanDependencies(files, []);
+    return { ...result, error: error instanceof Error ? error.message : String(error) };
+  }
+
+  return scanDependencies(files, advisories);
+};
+
+// マニフェストでの表記（go.mod のバージョンには v 接頭辞が付く）
+const formatVersion = (ecosystem: DependencyEcosystem, version: string): string =>
+  ecosystem === 'Go' && !version.startsWith('v') ? `v${version}` : version;
+
+/**
+ * 検出結果をセキュリティ脆弱性の形式に変換
+ */
+export const toSecurityVulnerability = (finding: DependencyFinding): SecurityVulnerability => {
+  const { dependency, advisory, fixedVersions } = finding;
+  const aliases = advisory.aliases || [];
+  const recommendedVersion = finding.recommendedVersion && formatVersion(dependency.ecosystem, finding.recommendedVersion);
+  const title = advisory.summary || advisory.details?.split('\n')[0] || '既知の脆弱性';
+
+  let recommendation = recommendedVersion
+    ? `${dependency.name} を ${recommendedVersion} 以上に更新してください。`
+    : '修正版はまだ公開されていません。影響を受ける機能を使用していないか確認し、代替パッケージへの移行を検討してください。';
+  if (!dependency.direct) {
+    recommendation += '間接依存のため、このパッケージに依存しているパッケージを更新するか、使用するバージョンを上書き指定してください。';
+  }
+
+  return {
+    type: VulnerabilityType.VULNERABLE_COMPONENTS,
+    severity: finding.severity,
+    line: dependency.line,
+    message: `${dependency.name}@${dependency.version} に既知の脆弱性があります（${[advisory.id, ...aliases].join('、')}）: ${title}`,
+    code: dependency.code,
+    cwe: advisory.database_specific?.cwe_ids?.[0],
+    recommendation,
+    exampleFix: recommendedVersion && dependency.code.includes(dependency.version)
+      ? dependency.code.replace(dependency.version, recommendedVersion)
+      : undefined,
+    references: [
+      `https://osv.dev/vulnerability/${advisory.id}`,
+      ...(advisory.references || []).map(reference => reference.url)
+    ].slice(0, MAX_REFERENCES),
+    falsePositiveLikelihood: 'low',
+    component: {
+      ecosystem: dependency.ecosystem,
+      name: dependency.name,
+      version: dependency.version,
+      advisoryId: advisory.id,
+      aliases,
+      affectedRanges: finding.affectedRanges,
+      fixedVersions,
+      direct: dependency.direct
+    }
+  };
+};
+
+export default {
+  ADVISORY_DATABASE_URL,
+  isManifestFile,
+  parseManifest,
+  calculateCvssV3BaseScore,
+  loadAdvisoryDatabase,
+  scanDependencies,
+  scanRepositoryDependencies,
+  toSecurityVulnerability
+};
@@ -3,8 +3,8 @@
  * ソースコード内の重複した部分を特定し、可視化するためのサービス
  */
 
-import * as tf from '@tensorflow/tfjs';
-import { extractDuplicationFeatures, predictCodeDuplication } from './tfService';
+import { Token, getCodeTokens, parseCode } from './parser';
+import { Suppression, isSuppressed, parseSuppressions } from './suppressionService';
 
 // コードブロック定義
 export interface CodeBlock {
@@ -22,6 +22,10 @@ export interface DuplicationResult {
   blockB: CodeBlock;  // 2つ目のコードブロック
 }
 
+// クローンの種類
+// exact: 完全一致 / renamed: 識別子・リテラルのみ異なる / gapped: 文の追加・削除を含む
+export type CloneType = 'exact' | 'renamed' | 'gapped';
+
 // コード重複検出サービス
 export interface DuplicateBlock {
   startLineA: number;
@@ -31,7 +35,7 @@ export interface DuplicateBlock {
   codeA: string;
   codeB: string;
   similarity: number;    // 0-1のスコア
-  type: 'exact' | 'similar' | 'refactorable';
+  type: CloneType;
   impact: 'low' | 'medium' | 'high';
 }
 
@@ -42,127 +46,236 @@ export interface DuplicationStats {
   averageBlockSize: number;
   impactScore: number;   // 0-100のスコア
   recommendations: string[];
+  suppressedDuplicates: number;  // codecoach-ignore コメントで抑制した重複の数（上の統計には含まない）
+  baselinedDuplicates: number;   // ベースラインに記録済みのため除いた重複の数（上の統計には含まない）
 }
 
 interface TokenizedBlock {
   startLine: number;
   endLine: number;
-  tokens: string[];
-  hash: string;
+  tokens: string[];            // 元のトークン
+  normalizedTokens: string[];  // 識別子・リテラルを抽象化したトークン
+  hash: string;                // 元のトークン列のハッシュ（完全一致の判定用）
+  normalizedHash: string;      // 正規化後のハッシュ（名前変更クローンの判定用）
+}
+
+// 行ごとのトークン
+interface LineTokens {
+  tokens: string[];            // 元のトークン
+  normalizedTokens: string[];  // 識別子・リテラルを抽象化したトークン
+}
+
+// 重複検出の進捗
+export interface DuplicationProgress {
+  phase: 'hashing' | 'verifying' | 'indexing';   // MinHashの計算 / 候補の類似度計算 / ファイル間の索引作成
+  processed: number;
+  total: number;
 }
 
-// トークンの埋め込みベクトル（簡易的な実装）
-const tokenEmbeddings: {[key: string]: number[]} = {
-  // 制御構造
-  'if': [0.8, 0.1, 0.0, 0.1, 0.0, 0.0, 0.0, 0.0],
-  'for': [0.1, 0.9, 0.0, 0.0, 0.0, 0.0, 0.0, 0.0],
-  'while': [0.0, 0.9, 0.1, 0.0, 0.0, 0.0, 0.0, 0.0],
-  'switch': [0.8, 0.0, 0.2, 0.0, 0.0, 0.0, 0.0, 0.0],
-  'try': [0.0, 0.0, 0.0, 0.9, 0.0, 0.0, 0.0, 0.0],
-  'catch': [0.0, 0.0, 0.0, 0.9, 0.0, 0.0, 0.0, 0.0],
-  
-  // 関数
-  'function': [0.0, 0.0, 0.0, 0.0, 0.9, 0.0, 0.0, 0.0],
-  'return': [0.0, 0.0, 0.0, 0.0, 0.7, 0.2, 0.0, 0.0],
-  
-  // 演算子
-  '+': [0.0, 0.0, 0.0, 0.0, 0.0, 0.8, 0.1, 0.0],
-  '-': [0.0, 0.0, 0.0, 0.0, 0.0, 0.8, 0.0, 0.1],
-  '*': [0.0, 0.0, 0.0, 0.0, 0.0, 0.7, 0.2, 0.0],
-  '/': [0.0, 0.0, 0.0, 0.0, 0.0, 0.7, 0.0, 0.2],
-  
-  // その他
-  'var': [0.0, 0.0, 0.0, 0.0, 0.0, 0.0, 0.8, 0.1],
-  'let': [0.0, 0.0, 0.0, 0.0, 0.0, 0.0, 0.9, 0.0],
-  'const': [0.0, 0.0, 0.0, 0.0, 0.0, 0.0, 1.0, 0.0]
+export type DuplicationProgressCallback = (progress: DuplicationProgress) => void;
+
+// ブロックとみなす最小トークン数
+const MIN_BLOCK_TOKENS = 10;
+// MinHashを計算する正規化トークンのシングル長
+const SHINGLE_SIZE = 5;
+// MinHashの署名の長さ（= LSHのバンド数 × バンドあたりの行数）
+const MINHASH_SIGNATURE_SIZE = 64;
+// LSHのバンドあたりの行数（Jaccard係数がおよそ (1/32)^(1/2) ≒ 0.18 以上のペアが高確率で候補になる）
+const LSH_ROWS_PER_BAND = 2;
+// 署名から推定したJaccard係数がこれ未満の候補は類似度を計算しない
+const MIN_ESTIMATED_JACCARD = 0.2;
+// これより多くのブロックが入るバケットは定型コードとして候補にしない
+const MAX_BUCKET_BLOCKS = 50;
+// 進捗を通知する間隔（ブロック数・候補数）
+const PROGRESS_INTERVAL = 200;
+
+// クローンの種類の強さ（結合時は弱い方に揃える）
+const CLONE_TYPE_ORDER: Record<CloneType, number> = {
+  exact: 0,
+  renamed: 1,
+  gapped: 2
 };
 
 /**
  * コード内の重複を検出する高度な機能
- * 類似コードブロックも検出できるより強力なアルゴリズム
+ * 正規化したトークン列を比較し、完全一致・名前変更・ギャップ付きのクローンを検出します
  * @param code 分析対象のコード
  * @param language プログラミング言語
  * @param minBlockSize 検出する最小ブロックサイズ（行数）
- * @param similarityThreshold 類似と判断する閾値（0-1）
+ * @param similarityThreshold ギャップ付きクローンと判断する閾値（0-1）
+ * @param onProgress ギャップ付きクローンの検出の進捗
  */
 export const detectDuplicates = async (
   code: string,
   language: string,
   minBlockSize: number = 5,
-  similarityThreshold: number = 0.7
+  similarityThreshold: number = 0.7,
+  onProgress?: DuplicationProgressCallback
 ): Promise<{ duplicates: DuplicateBlock[]; stats: DuplicationStats }> => {
   const lines = code.split('\n');
   const totalLines = lines.length;
   
   // 1. コードをトークン化し、潜在的な重複ブロックを特定
-  const blocks = tokenizeCodeBlocks(code, language, minBlockSize);
+  const tokensByLine = groupTokensByLine(code, language);
+  const blocks = tokenizeCodeBlocks(tokensByLine, minBlockSize);
   
-  // 2. ハッシュベースの正確な重複を検出
+  // 2. 正規化したトークン列が一致する重複（完全一致・名前変更）を検出
   const exactDuplicates = findExactDuplicates(blocks);
   
-  // 3. 類似コードブロックを検出
-  const similarDuplicates = await findSimilarDuplicates(
-    blocks, 
-    code, 
-    language, 
+  // 3. 文の追加・削除を含む重複を検出（完全一致・名前変更として検出済みの範囲は除く）
+  const similarDuplicates = await findSimilarDuplicates(blocks, exactDuplicates, similarityThreshold, onProgress);
+  
+  // 4. 重複を結合（連続するブロックの重複や、文の追加・削除を挟んで続く重複は1つにまとめる）
+  const lineTokens: LineTokens[] = tokensByLine.map(tokens => ({
+    tokens: tokens.map(token => token.value),
+    normalizedTokens: tokens.map(normalizeToken)
+  }));
+  const allDuplicates = mergeAdjacentDuplicates(
+    [...exactDuplicates, ...similarDuplicates],
+    lines,
+    lineTokens,
     similarityThreshold
   );
   
-  // 4. 重複を結合
-  const allDuplicates = [...exactDuplicates, ...similarDuplicates];
-  
   // 5. 重複が重なる部分を解決
   const resolvedDuplicates = resolveOverlappingDuplicates(allDuplicates);
   
-  // 6. 重複統計を計算
-  const stats = calculateDuplicationStats(resolvedDuplicates, totalLines, language);
+  // 6. codecoach-ignore コメントで抑制された重複を除く（どちらかの箇所に抑制コメントがあれば対象）
+  const suppressions = parseSuppressions(code, language);
+  const duplicates = resolvedDuplicates.filter(duplicate => !isDuplicateSuppressed(suppressions, duplicate));
+  
+  // 7. 重複統計を計算
+  const stats = calculateDuplicationStats(duplicates, totalLines, language);
+  stats.suppressedDuplicates = resolvedDuplicates.length - duplicates.length;
   
   return {
-    duplicates: resolvedDuplicates,
+    duplicates,
     stats
   };
 };
 
 /**
- * コードをトークン化してブロックに分割
+ * 文字列のハッシュ（FNV-1a 32bit）
+ */
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// MinHashの各ハッシュ関数のシード
+const MINHASH_SEEDS = Array.from({ length: MINHASH_SIGNATURE_SIZE }, (_, i) => hashString(`minhash:${i}`));
+
+/**
+ * 32bit整数の撹拌（MurmurHash3 の最終化処理）
+ */
+const mixHash = (value: number): number => {
+  let hash = value;
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return hash >>> 0;
+};
+
+/**
+ * 正規化トークン列のシングルからMinHash署名を計算
+ */
+const computeMinHashSignature = (tokens: string[]): Uint32Array => {
+  const signature = new Uint32Array(MINHASH_SIGNATURE_SIZE).fill(0xffffffff);
+  for (let i = 0; i + SHINGLE_SIZE <= tokens.length; i++) {
+    const shingle = hashString(tokens.slice(i, i + SHINGLE_SIZE).join(' '));
+    for (let h = 0; h < MINHASH_SIGNATURE_SIZE; h++) {
+      const value = mixHash(shingle ^ MINHASH_SEEDS[h]);
+      if (value < signature[h]) signature[h] = value;
+    }
+  }
+  return signature;
+};
+
+/**
+ * 署名の一致率からJaccard係数を推定
+ */
+const estimateJaccard = (signatureA: Uint32Array, signatureB: Uint32Array): number => {
+  let matches = 0;
+  for (let h = 0; h < MINHASH_SIGNATURE_SIZE; h++) {
+    if (signatureA[h] === signatureB[h]) matches++;
+  }
+  return matches / MINHASH_SIGNATURE_SIZE;
+};
+
+/**
+ * トークンを正規化（識別子・リテラルを種類ごとの記号に置き換え）
+ */
+export const normalizeToken = (token: Token): string => {
+  switch (token.type) {
+    case 'identifier':
+      return '$id';
+    case 'number':
+      return '$num';
+    case 'string':
+    case 'template':
+      return '$str';
+    case 'regex':
+      return '$re';
+    default:
+      return token.value;
+  }
+};
+
+/**
+ * 構文解析器のトークン（コメントを除く）を行ごとにまとめる（添字は1始まりの行番号）
+ */
+const groupTokensByLine = (code: string, language: string): Token[][] => {
+  const lineCount = code.split('\n').length;
+  const tokensByLine: Token[][] = Array.from({ length: lineCount + 1 }, () => []);
+  getCodeTokens(parseCode(code, language)).forEach(token => {
+    tokensByLine[token.line]?.push(token);
+  });
+  return tokensByLine;
+};
+
+/**
+ * 行ごとのトークンをブロックに分割
+ * 重なるウィンドウでブロックを作成します
  */
 const tokenizeCodeBlocks = (
-  code: string,
-  language: string,
+  tokensByLine: Token[][],
   minBlockSize: number
 ): TokenizedBlock[] => {
-  const lines = code.split('\n');
+  const lineCount = tokensByLine.length - 1;
   const blocks: TokenizedBlock[] = [];
   
   // ブロックサイズを考慮して、重なるウィンドウでコードを走査
-  for (let i = 0; i <= lines.length - minBlockSize; i++) {
-    const blockLines = lines.slice(i, i + minBlockSize);
-    const blockContent = blockLines.join('\n');
-    
-    // コメントと空白を除去
-    const normalizedContent = normalizeCode(blockContent, language);
+  for (let startLine = 1; startLine + minBlockSize - 1 <= lineCount; startLine++) {
+    const endLine = startLine + minBlockSize - 1;
     
-    // 内容が少なすぎる場合はスキップ（空白やコメントのみのブロック）
-    if (normalizedContent.trim().length < 20) {
+    // 空行やコメント行で始まる・終わるブロックは、前後にずれた同じ重複になるためスキップ
+    if (tokensByLine[startLine].length === 0 || tokensByLine[endLine].length === 0) {
       continue;
     }
     
-    // コードをトークン化
-    const tokens = tokenize(normalizedContent, language);
+    const blockTokens = tokensByLine.slice(startLine, endLine + 1).flat();
     
     // トークンが少なすぎる場合はスキップ
-    if (tokens.length < 10) {
+    if (blockTokens.length < MIN_BLOCK_TOKENS) {
       continue;
     }
     
-    // 単純なハッシュ計算（正確な重複検出用）
-    const hash = calculateHash(tokens);
+    const tokens = blockTokens.map(token => token.value);
+    const normalizedTokens = blockTokens.map(normalizeToken);
     
     blocks.push({
-      startLine: i + 1,  // 1-indexed
-      endLine: i + minBlockSize,
+      startLine,
+      endLine,
       tokens,
-      hash
+      normalizedTokens,
+      hash: calculateHash(tokens),
+      normalizedHash: calculateHash(normalizedTokens)
     });
   }
   
@@ -170,98 +283,68 @@ const tokenizeCodeBlocks = (
 };
 
 /**
- * コードを正規化（不要な部分を取り除く）
+ * トークンからハッシュを計算
  */
-const normalizeCode = (code: string, language: string): string => {
-  let normalized = code;
-  
-  // 言語に応じてコメントを削除
-  if (language === 'javascript' || language === 'typescript') {
-    // 行コメントを削除
-    normalized = normalized.replace(/\/\/.*$/gm, '');
-    // ブロックコメントを削除
-    normalized = normalized.replace(/\/\*[\s\S]*?\*\//g, '');
-  } else if (language === 'python') {
-    // # コメントを削除
-    normalized = normalized.replace(/#.*$/gm, '');
-    // 三重引用符コメントを削除
-    normalized = normalized.replace(/'''[\s\S]*?'''/g, '');
-    normalized = normalized.replace(/"""[\s\S]*?"""/g, '');
-  }
-  
-  // 余分な空白を削除
-  normalized = normalized.replace(/\s+/g, ' ').trim();
-  
-  return normalized;
+const calculateHash = (tokens: string[]): string => {
+  // 単純な連結ハッシュ（実際の実装ではより堅牢なハッシュ関数を使用）
+  return tokens.join('|');
 };
 
-/**
- * コードをトークンに分割
- */
-const tokenize = (code: string, language: string): string[] => {
-  // 言語に応じたトークン化（簡易版）
-  let pattern: RegExp;
-  
-  if (language === 'javascript' || language === 'typescript') {
-    // JavaScript/TypeScriptのトークン
-    pattern = /[\w$]+|[{}()\[\].:;,+\-*/%=<>!&|^~?]+|"[^"]*"|'[^']*'|`[^`]*`/g;
-  } else if (language === 'python') {
-    // Pythonのトークン
-    pattern = /[\w]+|[{}()\[\].:;,+\-*/%=<>!&|^~?@]+|"[^"]*"|'[^']*'/g;
-  } else {
-    // デフォルトのトークン
-    pattern = /[\w$]+|[{}()\[\].:;,+\-*/%=<>!&|^~?]+/g;
-  }
-  
-  const matches = code.match(pattern);
-  return matches ? matches : [];
-};
+// ブロックの行範囲が重なるか
+const blocksOverlap = (blockA: TokenizedBlock, blockB: TokenizedBlock): boolean =>
+  blockA.startLine <= blockB.endLine && blockB.startLine <= blockA.endLine;
 
 /**
- * トークンからハッシュを計算
+ * 同じ位置のトークンが一致する割合（名前変更クローンの類似度）
  */
-const calculateHash = (tokens: string[]): string => {
-  // 単純な連結ハッシュ（実際の実装ではより堅牢なハッシュ関数を使用）
-  return tokens.join('|');
+const calculateTokenAgreement = (tokensA: string[], tokensB: string[]): number => {
+  let identical = 0;
+  for (let i = 0; i < tokensA.length; i++) {
+    if (tokensA[i] === tokensB[i]) identical++;
+  }
+  return tokensA.length > 0 ? identical / tokensA.length : 0;
 };
 
 /**
- * ハッシュを使用して正確な重複を検出
+ * 正規化したトークン列のハッシュで重複を検出
+ * 元のトークン列も一致すれば完全一致、識別子・リテラルだけが異なれば名前変更クローン
  */
 const findExactDuplicates = (blocks: TokenizedBlock[]): DuplicateBlock[] => {
   const duplicates: DuplicateBlock[] = [];
-  const hashMap: { [key: string]: TokenizedBlock[] } = {};
+  const hashMap = new Map<string, TokenizedBlock[]>();
   
-  // ハッシュによるブロックのグループ化
+  // 正規化ハッシュによるブロックのグループ化
   for (const block of blocks) {
-    if (!hashMap[block.hash]) {
-      hashMap[block.hash] = [];
+    const group = hashMap.get(block.normalizedHash);
+    if (group) {
+      group.push(block);
+    } else {
+      hashMap.set(block.normalizedHash, [block]);
     }
-    hashMap[block.hash].push(block);
   }
   
   // 2つ以上のブロックがある場合は重複
-  for (const hash in hashMap) {
-    const duplicateBlocks = hashMap[hash];
-    if (duplicateBlocks.length >= 2) {
-      // 最初のブロックと他のブロックを組み合わせて重複ペアを作成
-      const firstBlock = duplicateBlocks[0];
+  for (const duplicateBlocks of hashMap.values()) {
+    if (duplicateBlocks.length < 2) continue;
+    
+    for (let i = 1; i < duplicateBlocks.length; i++) {
+      const block = duplicateBlocks[i];
+      // 範囲が重ならない直前のブロックと組み合わせて重複ペアを作成（3箇所以上の重複は連鎖させる）
+      const anchor = duplicateBlocks.slice(0, i).reverse().find(candidate => !blocksOverlap(candidate, block));
+      if (!anchor) continue;
       
-      for (let i = 1; i < duplicateBlocks.length; i++) {
-        const block = duplicateBlocks[i];
-        
-        duplicates.push({
-          startLineA: firstBlock.startLine,
-          endLineA: firstBlock.endLine,
-          startLineB: block.startLine,
-          endLineB: block.endLine,
-          codeA: firstBlock.tokens.join(' '),
-          codeB: block.tokens.join(' '),
-          similarity: 1.0,  // 正確な一致は類似度 100%
-          type: 'exact',
-          impact: calculateDuplicateImpact(firstBlock.endLine - firstBlock.startLine + 1)
-        });
-      }
+      const exact = anchor.hash === block.hash;
+      duplicates.push({
+        startLineA: anchor.startLine,
+        endLineA: anchor.endLine,
+        startLineB: block.startLine,
+        endLineB: block.endLine,
+        codeA: '',
+        codeB: '',
+        similarity: exact ? 1.0 : calculateTokenAgreement(anchor.tokens, block.tokens),
+        type: exact ? 'exact' : 'renamed',
+        impact: calculateDuplicateImpact(anchor.endLine - anchor.startLine + 1)
+      });
     }
   }
   
@@ -269,110 +352,348 @@ const findExactDuplicates = (blocks: TokenizedBlock[]): DuplicateBlock[] => {
 };
 
 /**
- * 類似コードブロックを検出
+ * 完全一致・名前変更の重複と同じ行差（対角線）で範囲が重なるブロックの組かを判定する関数を作成
+ * 重なる組は検出済みのクローンを前後にずらしたウィンドウのため、ギャップ付きクローンの候補にしない
+ */
+const createExactOverlapChecker = (exactDuplicates: DuplicateBlock[]) => {
+  // A側の行ごとに、その行を含む重複
+  const duplicatesByLineA = new Map<number, DuplicateBlock[]>();
+  exactDuplicates.forEach(duplicate => {
+    for (let line = duplicate.startLineA; line <= duplicate.endLineA; line++) {
+      const group = duplicatesByLineA.get(line);
+      if (group) {
+        group.push(duplicate);
+      } else {
+        duplicatesByLineA.set(line, [duplicate]);
+      }
+    }
+  });
+
+  return (blockA: TokenizedBlock, blockB: TokenizedBlock): boolean => {
+    for (let line = blockA.startLine; line <= blockA.endLine; line++) {
+      const covering = duplicatesByLineA.get(line);
+      if (covering?.some(duplicate => duplicate.startLineB - duplicate.startLineA === blockB.startLine - blockA.startLine)) {
+        return true;
+      }
+    }
+    return false;
+  };
+};
+
+/**
+ * 文の追加・削除を含む重複（ギャップ付きクローン）を検出
+ * 正規化トークンのシングルからMinHash署名を作り、LSHのバンドが一致するブロックだけを候補にして
+ * 最長共通部分列で類似度を計算します（全ペアの比較を避けるため大きなファイルでもほぼ線形）
+ * @param exactDuplicates 完全一致・名前変更の重複（同じ行差で範囲が重なる候補は除く）
  */
 const findSimilarDuplicates = async (
   blocks: TokenizedBlock[],
-  code: string,
-  language: string,
-  threshold: number
+  exactDuplicates: DuplicateBlock[],
+  threshold: number,
+  onProgress?: DuplicationProgressCallback
 ): Promise<DuplicateBlock[]> => {
   const duplicates: DuplicateBlock[] = [];
-  const lines = code.split('\n');
+  const bandCount = MINHASH_SIGNATURE_SIZE / LSH_ROWS_PER_BAND;
+  const overlapsExactDuplicate = createExactOverlapChecker(exactDuplicates);
   
-  // すべてのブロックのペアを比較（不要な比較を避けるよう最適化）
-  for (let i = 0; i < blocks.length; i++) {
-    const blockA = blocks[i];
+  // 1. 各ブロックの署名を計算し、バンドごとのバケットに振り分け
+  const signatures: Uint32Array[] = [];
+  const buckets = new Map<string, number[]>();
+  blocks.forEach((block, blockIndex) => {
+    const signature = computeMinHashSignature(block.normalizedTokens);
+    signatures.push(signature);
     
-    for (let j = i + 1; j < blocks.length; j++) {
-      const blockB = blocks[j];
-      
-      // 既に正確な重複として検出されていれば比較しない
-      if (blockA.hash === blockB.hash) {
-      continue;
+    for (let band = 0; band < bandCount; band++) {
+      const rows = signature.subarray(band * LSH_ROWS_PER_BAND, (band + 1) * LSH_ROWS_PER_BAND);
+      const key = `${band}:${rows.join(',')}`;
+      const bucket = buckets.get(key);
+      if (bucket) {
+        bucket.push(blockIndex);
+      } else {
+        buckets.set(key, [blockIndex]);
+      }
     }
     
-      // 重複範囲が重なる場合は比較しない
-      if (
-        (blockB.startLine >= blockA.startLine && blockB.startLine <= blockA.endLine) ||
-        (blockA.startLine >= blockB.startLine && blockA.startLine <= blockB.endLine)
-      ) {
-        continue;
-      }
-      
-      // コードの類似度を計算
-      const similarity = await calculateSimilarity(blockA, blockB, language);
-      
-      // 閾値を超える場合は類似重複として追加
-      if (similarity >= threshold) {
-        // ブロックの実際のコードを取得
-        const codeA = lines.slice(blockA.startLine - 1, blockA.endLine).join('\n');
-        const codeB = lines.slice(blockB.startLine - 1, blockB.endLine).join('\n');
-        
-        const type = similarity > 0.9 ? 'similar' : 'refactorable';
+    if (blockIndex % PROGRESS_INTERVAL === 0) {
+      onProgress?.({ phase: 'hashing', processed: blockIndex, total: blocks.length });
+    }
+  });
+  onProgress?.({ phase: 'hashing', processed: blocks.length, total: blocks.length });
+  
+  // 2. 同じバケットに入ったブロックの組を候補にする
+  const candidates = new Set<number>();
+  for (const indices of buckets.values()) {
+    if (indices.length < 2 || indices.length > MAX_BUCKET_BLOCKS) continue;
+    
+    for (let i = 0; i < indices.length; i++) {
+      for (let j = i + 1; j < indices.length; j++) {
+        const blockA = blocks[indices[i]];
+        const blockB = blocks[indices[j]];
         
-        duplicates.push({
-          startLineA: blockA.startLine,
-          endLineA: blockA.endLine,
-          startLineB: blockB.startLine,
-          endLineB: blockB.endLine,
-          codeA,
-          codeB,
-          similarity,
-          type,
-          impact: calculateDuplicateImpact(blockA.endLine - blockA.startLine + 1)
-        });
+        // 正規化後に一致するもの・検出済みの重複をずらしたものは除き、範囲が重なるものは比較しない
+        if (
+          blockA.normalizedHash === blockB.normalizedHash ||
+          blocksOverlap(blockA, blockB) ||
+          overlapsExactDuplicate(blockA, blockB)
+        ) {
+          continue;
+        }
+        candidates.add(indices[i] * blocks.length + indices[j]);
       }
     }
   }
   
+  // 3. 候補の類似度を計算
+  let processed = 0;
+  for (const pair of candidates) {
+    if (processed % PROGRESS_INTERVAL === 0) {
+      onProgress?.({ phase: 'verifying', processed, total: candidates.size });
+    }
+    processed++;
+    
+    const indexA = Math.floor(pair / blocks.length);
+    const indexB = pair % blocks.length;
+    if (estimateJaccard(signatures[indexA], signatures[indexB]) < MIN_ESTIMATED_JACCARD) continue;
+    
+    const blockA = blocks[indexA];
+    const blockB = blocks[indexB];
+    const similarity = calculateSimilarity(blockA.normalizedTokens, blockB.normalizedTokens, threshold);
+    if (similarity >= threshold) {
+      duplicates.push({
+        startLineA: blockA.startLine,
+        endLineA: blockA.endLine,
+        startLineB: blockB.startLine,
+        endLineB: blockB.endLine,
+        codeA: '',
+        codeB: '',
+        similarity,
+        type: 'gapped',
+        impact: calculateDuplicateImpact(blockA.endLine - blockA.startLine + 1)
+      });
+    }
+  }
+  onProgress?.({ phase: 'verifying', processed: candidates.size, total: candidates.size });
+  
   return duplicates;
 };
 
 /**
- * ブロック間の類似度を計算
+ * 最長共通部分列の長さを計算
  */
-const calculateSimilarity = async (
-  blockA: TokenizedBlock,
-  blockB: TokenizedBlock,
-  language: string
-): Promise<number> => {
-  // トークン一致による類似度計算（シンプルな実装）
-  const tokensA = new Set(blockA.tokens);
-  const tokensB = new Set(blockB.tokens);
-  
-  // 共通トークン数
-  let commonTokens = 0;
-  for (const token of tokensA) {
-    if (tokensB.has(token)) {
-      commonTokens++;
+const longestCommonSubsequence = (tokensA: string[], tokensB: string[]): number => {
+  let previous = new Array<number>(tokensB.length + 1).fill(0);
+  let current = new Array<number>(tokensB.length + 1).fill(0);
+  
+  for (let i = 1; i <= tokensA.length; i++) {
+    for (let j = 1; j <= tokensB.length; j++) {
+      current[j] = tokensA[i - 1] === tokensB[j - 1]
+        ? previous[j - 1] + 1
+        : Math.max(previous[j], current[j - 1]);
     }
+    [previous, current] = [current, previous];
   }
   
-  // Jaccard類似度
-  const similarity = commonTokens / (tokensA.size + tokensB.size - commonTokens);
-  
-  // より高度な類似度計算（必要に応じてMLモデルを使用）
-  if (similarity > 0.5) {
-    try {
-      // TFサービスを使用してブロック間の特徴ベクトルを抽出
-      const features = extractDuplicationFeatures(
-        blockA.tokens.join(' '),
-        blockB.tokens.join(' ')
-      );
-      
-      // モデルによる類似度予測
-      const predictedSimilarity = await predictCodeDuplication(features);
+  return previous[tokensB.length];
+};
+
+/**
+ * 正規化トークン列の類似度（最長共通部分列に基づくDice係数）
+ * 長さの差だけで閾値に届かない場合は計算を省略します
+ */
+const calculateSimilarity = (tokensA: string[], tokensB: string[], threshold: number): number => {
+  const totalLength = tokensA.length + tokensB.length;
+  if (totalLength === 0) return 0;
+  
+  // LCSは短い方の長さを超えないため、類似度の上限は 2 * min / (lenA + lenB)
+  const upperBound = (2 * Math.min(tokensA.length, tokensB.length)) / totalLength;
+  if (upperBound < threshold) return upperBound;
+  
+  return (2 * longestCommonSubsequence(tokensA, tokensB)) / totalLength;
+};
+
+/**
+ * 行範囲の重複の種類と類似度
+ * 正規化トークン列が一致すれば完全一致・名前変更、一致しなければギャップ付きクローンとして類似度を計算します
+ */
+const classifyRange = (
+  lineTokens: LineTokens[],
+  duplicate: DuplicateBlock,
+  threshold: number
+): { type: CloneType; similarity: number } => {
+  const linesA = lineTokens.slice(duplicate.startLineA, duplicate.endLineA + 1);
+  const linesB = lineTokens.slice(duplicate.startLineB, duplicate.endLineB + 1);
+  const normalizedA = linesA.flatMap(line => line.normalizedTokens);
+  const normalizedB = linesB.flatMap(line => line.normalizedTokens);
+  if (calculateHash(normalizedA) !== calculateHash(normalizedB)) {
+    return { type: 'gapped', similarity: calculateSimilarity(normalizedA, normalizedB, threshold) };
+  }
+  
+  const tokensA = linesA.flatMap(line => line.tokens);
+  const tokensB = linesB.flatMap(line => line.tokens);
+  return calculateHash(tokensA) === calculateHash(tokensB)
+    ? { type: 'exact', similarity: 1.0 }
+    : { type: 'renamed', similarity: calculateTokenAgreement(tokensA, tokensB) };
+};
+
+/**
+ * 連続するブロックの重複を1つの重複にまとめる
+ * 同じ行差（対角線）で範囲が接する・重なる重複を結合し、クローンの種類は弱い方に揃えます
+ * ギャップ付きクローンは完全一致・名前変更の重複とは結合しません（範囲が広がり種類が変わるため）
+ * その後、文の追加・削除を挟んで続く完全一致・名前変更の重複と、前後のギャップ付きクローンを1つにまとめます
+ * @param lineTokens 行ごとのトークン（添字は1始まりの行番号）
+ * @param threshold ギャップ付きクローンと判断する閾値（0-1）
+ */
+const mergeAdjacentDuplicates = (
+  duplicates: DuplicateBlock[],
+  lines: string[],
+  lineTokens: LineTokens[],
+  threshold: number
+): DuplicateBlock[] => {
+  const byDiagonal = new Map<number, DuplicateBlock[]>();
+  duplicates.forEach(duplicate => {
+    const diagonal = duplicate.startLineB - duplicate.startLineA;
+    const group = byDiagonal.get(diagonal);
+    if (group) {
+      group.push(duplicate);
+    } else {
+      byDiagonal.set(diagonal, [duplicate]);
+    }
+  });
+  
+  const merged: DuplicateBlock[] = [];
+  byDiagonal.forEach(group => {
+    group.sort((a, b) => a.startLineA - b.startLineA);
+    
+    let current: DuplicateBlock | null = null;
+    for (const duplicate of group) {
+      const canMerge = current !== null &&
+        (duplicate.type === 'gapped') === (current.type === 'gapped') &&
+        duplicate.startLineA <= current.endLineA + 1 &&
+        // 結合後もA側とB側が重ならないこと
+        Math.max(current.endLineA, duplicate.endLineA) < current.startLineB;
       
-      // 最終類似度（0-1）
-      return (similarity + predictedSimilarity) / 2;
-    } catch (error) {
-      console.error('重複予測エラー:', error);
-      return similarity; // モデル予測に失敗した場合はトークンベースの類似度を使用
+      if (current && canMerge) {
+        current.endLineA = Math.max(current.endLineA, duplicate.endLineA);
+        current.endLineB = Math.max(current.endLineB, duplicate.endLineB);
+        current.similarity = Math.min(current.similarity, duplicate.similarity);
+        if (CLONE_TYPE_ORDER[duplicate.type] > CLONE_TYPE_ORDER[current.type]) {
+          current.type = duplicate.type;
+        }
+      } else {
+        current = { ...duplicate };
+        merged.push(current);
+      }
     }
-  }
+  });
+  
+  const runs = joinGappedRuns(merged.filter(duplicate => duplicate.type !== 'gapped'), lineTokens, threshold);
+  const segments = merged.filter(duplicate => duplicate.type === 'gapped');
   
-  return similarity;
+  // 結合後の範囲でコードと影響度を設定
+  return attachGappedSegments(runs, segments, lineTokens).map(duplicate => ({
+    ...duplicate,
+    codeA: lines.slice(duplicate.startLineA - 1, duplicate.endLineA).join('\n'),
+    codeB: lines.slice(duplicate.startLineB - 1, duplicate.endLineB).join('\n'),
+    impact: calculateDuplicateImpact(duplicate.endLineA - duplicate.startLineA + 1)
+  }));
+};
+
+/**
+ * 重複の前後に、文の追加・削除で行差がずれたギャップ付きクローンが続く場合は1つのギャップ付きクローンにまとめる
+ * 前後のクローンは両側で重複と接する・重なるもののみ（同じ行差でずらしたウィンドウは候補の段階で除いている）
+ * まとめた重複の種類と類似度は範囲全体で判定し直します
+ * @param runs 完全一致・名前変更の重複（文の追加・削除を挟んで続くものはまとめたもの）
+ * @param gapped ギャップ付きクローン
+ */
+const attachGappedSegments = (
+  runs: DuplicateBlock[],
+  gapped: DuplicateBlock[],
+  lineTokens: LineTokens[]
+): DuplicateBlock[] => {
+  const attached = new Set<DuplicateBlock>();
+  const result: DuplicateBlock[] = [];
+
+  for (const duplicate of runs) {
+    const precedes = (segment: DuplicateBlock) =>
+      segment.startLineA < duplicate.startLineA && segment.startLineB < duplicate.startLineB &&
+      segment.endLineA >= duplicate.startLineA - 1 && segment.endLineB >= duplicate.startLineB - 1 &&
+      segment.endLineA <= duplicate.endLineA && segment.endLineB <= duplicate.endLineB;
+    const follows = (segment: DuplicateBlock) =>
+      segment.endLineA > duplicate.endLineA && segment.endLineB > duplicate.endLineB &&
+      segment.startLineA <= duplicate.endLineA + 1 && segment.startLineB <= duplicate.endLineB + 1 &&
+      segment.startLineA >= duplicate.startLineA && segment.startLineB >= duplicate.startLineB;
+
+    const segments = gapped.filter(segment => !attached.has(segment) && (precedes(segment) || follows(segment)));
+    const combined = [duplicate, ...segments].reduce((current, segment) => ({
+      ...current,
+      startLineA: Math.min(current.startLineA, segment.startLineA),
+      endLineA: Math.max(current.endLineA, segment.endLineA),
+      startLineB: Math.min(current.startLineB, segment.startLineB),
+      endLineB: Math.max(current.endLineB, segment.endLineB)
+    }));
+
+    // まとめた後もA側とB側が重ならないこと
+    if (segments.length > 0 && combined.endLineA < combined.startLineB) {
+      segments.forEach(segment => attached.add(segment));
+      result.push({ ...combined, ...classifyRange(lineTokens, combined, 0) });
+    } else {
+      result.push(duplicate);
+    }
+  }
+
+  return [...result, ...gapped.filter(segment => !attached.has(segment))];
+};
+
+/**
+ * 文の追加・削除を挟んで続く完全一致・名前変更の重複を1つのギャップ付きクローンにまとめる
+ * 両側とも後ろに続き、間の行数が前後の重複より短く、まとめた範囲の類似度が閾値以上の重複を順に結合します
+ * まとめた範囲の正規化トークン列が一致する場合（3箇所以上の重複で途切れた組など）は完全一致・名前変更のままです
+ */
+const joinGappedRuns = (
+  duplicates: DuplicateBlock[],
+  lineTokens: LineTokens[],
+  threshold: number
+): DuplicateBlock[] => {
+  const sorted = [...duplicates].sort((a, b) => a.startLineA - b.startLineA || a.startLineB - b.startLineB);
+  const joined = new Set<DuplicateBlock>();
+  const result: DuplicateBlock[] = [];
+
+  for (const duplicate of sorted) {
+    if (joined.has(duplicate)) continue;
+    joined.add(duplicate);
+
+    let current = duplicate;
+    let extended = true;
+    while (extended) {
+      extended = false;
+      const sizeA = current.endLineA - current.startLineA + 1;
+      for (const candidate of sorted) {
+        const gapA = candidate.startLineA - current.endLineA - 1;
+        if (gapA < 0 || joined.has(candidate)) continue;
+        // 候補はA側の開始行順のため、間が前の重複より長くなったら以降も結合しない
+        if (gapA > sizeA) break;
+
+        const gapB = candidate.startLineB - current.endLineB - 1;
+        const sizeB = candidate.endLineA - candidate.startLineA + 1;
+        // まとめた後もA側とB側が重ならないこと
+        if (gapB < 0 || Math.max(gapA, gapB) > Math.min(sizeA, sizeB) || candidate.endLineA >= current.startLineB) {
+          continue;
+        }
+
+        const combined: DuplicateBlock = { ...current, endLineA: candidate.endLineA, endLineB: candidate.endLineB };
+        const range = classifyRange(lineTokens, combined, threshold);
+        if (range.type !== 'gapped' || range.similarity >= threshold) {
+          joined.add(candidate);
+          current = { ...combined, ...range };
+          extended = true;
+          break;
+        }
+      }
+    }
+    result.push(current);
+  }
+
+  return result;
 };
 
 /**
@@ -393,8 +714,10 @@ const calculateDuplicateImpact = (blockSize: number): 'low' | 'medium' | 'high'
 const resolveOverlappingDuplicates = (
   duplicates: DuplicateBlock[]
 ): DuplicateBlock[] => {
-  // 類似度でソート（高い順）
-  duplicates.sort((a, b) => b.similarity - a.similarity);
+  // クローンの種類（完全一致 → 名前変更 → ギャップ付き）、類似度の高い順にソート
+  duplicates.sort((a, b) =>
+    CLONE_TYPE_ORDER[a.type] - CLONE_TYPE_ORDER[b.type] || b.similarity - a.similarity
+  );
   
   const resolvedDuplicates: DuplicateBlock[] = [];
   const coveredLinesA: Set<number> = new Set();
@@ -439,9 +762,18 @@ const resolveOverlappingDuplicates = (
 };
 
 /**
- * 重複統計を計算
+ * 重複のどちらかの箇所が抑制コメントの対象か
  */
-const calculateDuplicationStats = (
+const isDuplicateSuppressed = (suppressions: Suppression[], duplicate: DuplicateBlock): boolean =>
+  suppressions.length > 0 && (
+    isSuppressed(suppressions, 'duplication', duplicate.startLineA, duplicate.endLineA, [duplicate.type]) ||
+    isSuppressed(suppressions, 'duplication', duplicate.startLineB, duplicate.endLineB, [duplicate.type])
+  );
+
+/**
+ * 重複統計を計算（抑制・ベースラインの件数は呼び出し元で設定）
+ */
+export const calculateDuplicationStats = (
   duplicates: DuplicateBlock[],
   totalLines: number,
   language: string
@@ -509,7 +841,9 @@ const calculateDuplicationStats = (
     duplicateBlocks,
     averageBlockSize: Math.round(averageBlockSize * 10) / 10,
     impactScore,
-    recommendations: uniqueRecommendations
+    recommendations: uniqueRecommendations,
+    suppressedDuplicates: 0,
+    baselinedDuplicates: 0
   };
 };
 
@@ -522,8 +856,8 @@ export const generateDuplicationReport = (
 ): string => {
   const duplicatesByType = {
     exact: duplicates.filter(d => d.type === 'exact'),
-    similar: duplicates.filter(d => d.type === 'similar'),
-    refactorable: duplicates.filter(d => d.type === 'refactorable')
+    renamed: duplicates.filter(d => d.type === 'renamed'),
+    gapped: duplicates.filter(d => d.type === 'gapped')
   };
   
   const impactText = stats.impactScore < 30 
@@ -541,8 +875,8 @@ export const generateDuplicationReport = (
   
   report += `## 重複タイプ別件数\n`;
   report += `- 完全一致: ${duplicatesByType.exact.length}件\n`;
-  report += `- 類似コード: ${duplicatesByType.similar.length}件\n`;
-  report += `- リファクタリング候補: ${duplicatesByType.refactorable.length}件\n\n`;
+  report += `- 名前変更（識別子・リテラルのみ異なる）: ${duplicatesByType.renamed.length}件\n`;
+  report += `- ギャップ付き（文の追加・削除あり）: ${duplicatesByType.gapped.length}件\n\n`;
   
   report += `## 推奨事項\n`;
   stats.recommendations.forEach(rec => {
@@ -570,7 +904,303 @@ export const generateDuplicationReport = (
   return report;
 };
 
+// リポジトリ全体の重複検出の対象ファイル
+export interface SourceFile {
+  file: string;      // ファイルパス
+  content: string;
+  language: string;
+}
+
+// リポジトリ全体の重複検出オプション
+export interface CrossFileDuplicateOptions {
+  kGramSize?: number;       // フィンガープリントを取るトークン数
+  windowSize?: number;      // winnowingのウィンドウ幅
+  minTokens?: number;       // 重複とみなす最小トークン数
+  minLines?: number;        // 重複とみなす最小行数
+  maxOccurrences?: number;  // これより多く出現するフィンガープリントは定型コードとして無視
+}
+
+// 位置情報付きのトークン
+interface PositionedToken {
+  value: string;
+  hash: number;
+  line: number;
+  endLine: number;
+}
+
+// winnowingで選ばれたフィンガープリント
+interface Fingerprint {
+  hash: number;
+  position: number;   // k-gramの先頭トークンの位置
+}
+
+// 索引に登録したフィンガープリントの出現位置
+interface FingerprintOccurrence {
+  fileIndex: number;
+  position: number;
+}
+
+const DEFAULT_CROSS_FILE_OPTIONS: Required<CrossFileDuplicateOptions> = {
+  kGramSize: 15,
+  windowSize: 8,
+  minTokens: 50,
+  minLines: 5,
+  maxOccurrences: 20
+};
+
+// ローリングハッシュの基数
+const ROLLING_HASH_BASE = 31;
+
+// 文やブロックの終わりを表すトークン（一致範囲の先頭からは除く）
+const CLOSING_TOKENS = new Set([';', '}', ')', ']', ',']);
+
+/**
+ * 構文解析器でコメントを除いたトークン列を取得
+ */
+const getPositionedTokens = (source: SourceFile): PositionedToken[] =>
+  getCodeTokens(parseCode(source.content, source.language)).map(token => ({
+    value: token.value,
+    hash: hashString(token.value),
+    line: token.line,
+    endLine: token.endLine
+  }));
+
+/**
+ * k-gramのハッシュをローリングハッシュで計算
+ */
+const computeKGramHashes = (tokens: PositionedToken[], k: number): number[] => {
+  if (tokens.length < k) return [];
+
+  // 先頭トークンの寄与を取り除くための係数（BASE^(k-1)）
+  let highestPower = 1;
+  for (let i = 0; i < k - 1; i++) {
+    highestPower = Math.imul(highestPower, ROLLING_HASH_BASE);
+  }
+
+  const hashes: number[] = [];
+  let hash = 0;
+  for (let i = 0; i < tokens.length; i++) {
+    if (i >= k) {
+      hash = (hash - Math.imul(tokens[i - k].hash, highestPower)) | 0;
+    }
+    hash = (Math.imul(hash, ROLLING_HASH_BASE) + tokens[i].hash) | 0;
+    if (i >= k - 1) {
+      hashes.push(hash >>> 0);
+    }
+  }
+  return hashes;
+};
+
+/**
+ * winnowingでフィンガープリントを選択
+ * 各ウィンドウの最小ハッシュ（同値は右端）を選び、連続して同じ位置は1回だけ記録
+ */
+const winnow = (hashes: number[], windowSize: number): Fingerprint[] => {
+  const fingerprints: Fingerprint[] = [];
+  if (hashes.length === 0) return fingerprints;
+
+  const window = Math.min(windowSize, hashes.length);
+  let lastSelected = -1;
+  for (let start = 0; start + window <= hashes.length; start++) {
+    let minPosition = start;
+    for (let i = start + 1; i < start + window; i++) {
+      if (hashes[i] <= hashes[minPosition]) minPosition = i;
+    }
+    if (minPosition !== lastSelected) {
+      fingerprints.push({ hash: hashes[minPosition], position: minPosition });
+      lastSelected = minPosition;
+    }
+  }
+  return fingerprints;
+};
+
+/**
+ * 一致したk-gramの位置から、トークンが一致する範囲を前後に広げる
+ */
+const extendMatch = (
+  tokensA: PositionedToken[],
+  tokensB: PositionedToken[],
+  positionA: number,
+  positionB: number
+): { startA: number; startB: number; length: number } => {
+  let startA = positionA;
+  let startB = positionB;
+  while (startA > 0 && startB > 0 && tokensA[startA - 1].value === tokensB[startB - 1].value) {
+    startA--;
+    startB--;
+  }
+
+  let length = 0;
+  while (
+    startA + length < tokensA.length &&
+    startB + length < tokensB.length &&
+    tokensA[startA + length].value === tokensB[startB + length].value
+  ) {
+    length++;
+  }
+
+  // 直前の文の終わり（「;」「}」など）から始まる場合は次の文の先頭まで進める
+  while (length > 0 && CLOSING_TOKENS.has(tokensA[startA].value)) {
+    startA++;
+    startB++;
+    length--;
+  }
+
+  return { startA, startB, length };
+};
+
+/**
+ * リポジトリ内のファイル間の重複を検出
+ * 各ファイルのトークン列からwinnowingでフィンガープリントを選んで索引を作り、
+ * 異なるファイルで一致したフィンガープリントを起点に一致範囲を求めます
+ */
+export const detectCrossFileDuplicates = async (
+  files: SourceFile[],
+  options: CrossFileDuplicateOptions = {},
+  onProgress?: DuplicationProgressCallback
+): Promise<DuplicationResult[]> => {
+  const { kGramSize, windowSize, minTokens, minLines, maxOccurrences } = {
+    ...DEFAULT_CROSS_FILE_OPTIONS,
+    ...options
+  };
+
+  // 1. 各ファイルのトークン列とフィンガープリントの索引を作成
+  const tokenLists: PositionedToken[][] = [];
+  const index = new Map<number, FingerprintOccurrence[]>();
+  files.forEach((file, fileIndex) => {
+    onProgress?.({ phase: 'indexing', processed: fileIndex, total: files.length });
+    const tokens = getPositionedTokens(file);
+    tokenLists.push(tokens);
+    winnow(computeKGramHashes(tokens, kGramSize), windowSize).forEach(({ hash, position }) => {
+      const occurrences = index.get(hash);
+      if (occurrences) {
+        occurrences.push({ fileIndex, position });
+      } else {
+        index.set(hash, [{ fileIndex, position }]);
+      }
+    });
+  });
+  onProgress?.({ phase: 'indexing', processed: files.length, total: files.length });
+
+  // 2. 異なるファイル間で共有されるフィンガープリントから一致範囲を広げる
+  const matches = new Map<string, { fileA: number; fileB: number; startA: number; startB: number; length: number }>();
+  const coveredSeeds = new Set<string>();
+
+  for (const occurrences of index.values()) {
+    if (occurrences.length < 2 || occurrences.length > maxOccurrences) continue;
+
+    for (let i = 0; i < occurrences.length; i++) {
+      for (let j = i + 1; j < occurrences.length; j++) {
+        // ファイルの順序を揃える
+        const [a, b] = occurrences[i].fileIndex <= occurrences[j].fileIndex
+          ? [occurrences[i], occurrences[j]]
+          : [occurrences[j], occurrences[i]];
+        if (a.fileIndex === b.fileIndex) continue;
+
+        // 同じ一致範囲の別のフィンガープリントは処理済み（同じ対角線上で範囲内）
+        const diagonal = `${a.fileIndex}:${b.fileIndex}:${a.position - b.position}`;
+        if (coveredSeeds.has(`${diagonal}:${a.position}`)) continue;
+
+        const tokensA = tokenLists[a.fileIndex];
+        const tokensB = tokenLists[b.fileIndex];
+        // ハッシュの衝突を除外
+        if (tokensA[a.position].value !== tokensB[b.position].value) continue;
+
+        const match = extendMatch(tokensA, tokensB, a.position, b.position);
+        for (let offset = 0; offset < match.length; offset++) {
+          coveredSeeds.add(`${diagonal}:${match.startA + offset}`);
+        }
+        if (match.length < minTokens) continue;
+
+        matches.set(`${diagonal}:${match.startA}`, { fileA: a.fileIndex, fileB: b.fileIndex, ...match });
+      }
+    }
+  }
+
+  // 3. 行範囲に変換して結果を作成（どちらかの箇所に抑制コメントがある重複は除く）
+  const suppressions = files.map(file => parseSuppressions(file.content, file.language));
+  const results: DuplicationResult[] = [];
+  for (const match of matches.values()) {
+    const tokensA = tokenLists[match.fileA];
+    const tokensB = tokenLists[match.fileB];
+    const startLineA = tokensA[match.startA].line;
+    const endLineA = tokensA[match.startA + match.length - 1].endLine;
+    const startLineB = tokensB[match.startB].line;
+    const endLineB = tokensB[match.startB + match.length - 1].endLine;
+
+    if (endLineA - startLineA + 1 < minLines || endLineB - startLineB + 1 < minLines) continue;
+    if (
+      isSuppressed(suppressions[match.fileA], 'duplication', startLineA, endLineA, ['cross-file']) ||
+      isSuppressed(suppressions[match.fileB], 'duplication', startLineB, endLineB, ['cross-file'])
+    ) continue;
+
+    const sourceA = files[match.fileA];
+    const sourceB = files[match.fileB];
+    results.push({
+      similarity: 1.0,  // トークン列が完全に一致
+      blockA: {
+        file: sourceA.file,
+        content: sourceA.content.split('\n').slice(startLineA - 1, endLineA).join('\n'),
+        startLine: startLineA,
+        endLine: endLineA,
+        language: sourceA.language
+      },
+      blockB: {
+        file: sourceB.file,
+        content: sourceB.content.split('\n').slice(startLineB - 1, endLineB).join('\n'),
+        startLine: startLineB,
+        endLine: endLineB,
+        language: sourceB.language
+      }
+    });
+  }
+
+  // 大きい重複から表示
+  return results.sort((a, b) =>
+    (b.blockA.endLine - b.blockA.startLine) - (a.blockA.endLine - a.blockA.startLine)
+  );
+};
+
+// Web Workerへの依頼
+export type DuplicationWorkerRequest =
+  | {
+      id: number;
+      type: 'detectDuplicates';
+      code: string;
+      language: string;
+      minBlockSize?: number;
+      similarityThreshold?: number;
+    }
+  | {
+      id: number;
+      type: 'detectCrossFileDuplicates';
+      files: SourceFile[];
+      options?: CrossFileDuplicateOptions;
+    };
+
+// Web Workerからの応答
+export type DuplicationWorkerResponse =
+  | { id: number; type: 'progress'; progress: DuplicationProgress }
+  | { id: number; type: 'result'; result: unknown }
+  | { id: number; type: 'error'; message: string };
+
+/**
+ * Web Workerへの依頼を実行（ワーカーが使えない環境ではメインスレッドから呼び出す）
+ */
+export const runDuplicationRequest = (
+  request: DuplicationWorkerRequest,
+  onProgress?: DuplicationProgressCallback
+): Promise<unknown> => {
+  if (request.type === 'detectDuplicates') {
+    return detectDuplicates(request.code, request.language, request.minBlockSize, request.similarityThreshold, onProgress);
+  }
+  return detectCrossFileDuplicates(request.files, request.options, onProgress);
+};
+
 export default {
   detectDuplicates,
-  generateDuplicationReport
+  detectCrossFileDuplicates,
+  calculateDuplicationStats,
+  generateDuplicationReport,
+  runDuplicationRequest
 }; 
\ No newline at end of file
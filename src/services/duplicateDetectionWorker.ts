@@ -0,0 +1,33 @@
+/**
+ * 重複検出のWeb Worker
+ * duplicateWorkerService から受け取った依頼を実行し、進捗と結果をメインスレッドへ返します
+ */
+
+import {
+  DuplicationWorkerRequest,
+  DuplicationWorkerResponse,
+  runDuplicationRequest
+} from './duplicateDetectionService';
+
+// ワーカーのグローバルスコープ（tsconfig に WebWorker の型定義がないため使う部分だけを定義）
+const workerScope = self as unknown as {
+  onmessage: ((event: MessageEvent<DuplicationWorkerRequest>) => void) | null;
+  postMessage: (message: DuplicationWorkerResponse) => void;
+};
+
+workerScope.onmessage = async event => {
+  const request = event.data;
+
+  try {
+    const result = await runDuplicationRequest(request, progress => {
+      workerScope.postMessage({ id: request.id, type: 'progress', progress });
+    });
+    workerScope.postMessage({ id: request.id, type: 'result', result });
+  } catch (error) {
+    workerScope.postMessage({
+      id: request.id,
+      type: 'error',
+      message: error instanceof Error ? error.message : String(error)
+    });
+  }
+};
@@ -0,0 +1,192 @@
+/**
+ * 重複検出ワーカーサービス
+ * 重複検出をWeb Workerで実行し、画面を止めずに進捗を通知します
+ * Web Workerが使えない環境（テスト環境やワーカーの読み込み失敗時）では同じ処理をメインスレッドで実行します
+ */
+
+import {
+  CrossFileDuplicateOptions,
+  DuplicateBlock,
+  DuplicationProgressCallback,
+  DuplicationResult,
+  DuplicationStats,
+  DuplicationWorkerRequest,
+  DuplicationWorkerResponse,
+  SourceFile,
+  runDuplicationRequest
+} from './duplicateDetectionService';
+
+// ワーカーでの実行オプション
+export interface DuplicationWorkerOptions {
+  onProgress?: DuplicationProgressCallback;
+  signal?: AbortSignal;
+}
+
+// 応答を待っている依頼
+interface PendingRequest {
+  request: DuplicationWorkerRequest;
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  onProgress?: DuplicationProgressCallback;
+}
+
+let worker: Worker | null = null;
+let workerUnavailable = false;
+let nextRequestId = 1;
+const pendingRequests = new Map<number, PendingRequest>();
+
+/**
+ * メインスレッドで依頼を実行
+ */
+const runInMainThread = (pending: PendingRequest): void => {
+  runDuplicationRequest(pending.request, pending.onProgress)
+    .then(pending.resolve)
+    .catch(error => pending.reject(error instanceof Error ? error : new Error(String(error))));
+};
+
+/**
+ * ワーカーからの応答を処理
+ */
+const handleWorkerMessage = (event: MessageEvent<DuplicationWorkerResponse>): void => {
+  const response = event.data;
+  const pending = pendingRequests.get(response.id);
+  if (!pending) return;
+
+  if (response.type === 'progress') {
+    pending.onProgress?.(response.progress);
+    return;
+  }
+
+  pendingRequests.delete(response.id);
+  if (response.type === 'result') {
+    pending.resolve(response.result);
+  } else {
+    pending.reject(new Error(response.message));
+  }
+};
+
+/**
+ * ワーカーを取得（未作成なら作成、使えない環境では null）
+ */
+const getWorker = (): Worker | null => {
+  if (worker) return worker;
+  if (workerUnavailable || typeof Worker === 'undefined') return null;
+
+  try {
+    worker = new Worker(new URL('./duplicateDetectionWorker.ts', import.meta.url), { type: 'module' });
+  } catch (error) {
+    console.warn('重複検出ワーカーを作成できないため、メインスレッドで実行します:', error);
+    workerUnavailable = true;
+    return null;
+  }
+
+  worker.onmessage = handleWorkerMessage;
+  worker.onerror = event => {
+    // ワーカーのスクリプトを読み込めない場合など。実行中の依頼はメインスレッドでやり直す
+    console.warn('重複検出ワーカーでエラーが発生したため、メインスレッドで実行します:', event.message);
+    event.preventDefault();
+    workerUnavailable = true;
+    worker?.terminate();
+    worker = null;
+    pendingRequests.forEach(runInMainThread);
+    pendingRequests.clear();
+  };
+  return worker;
+};
+
+/**
+ * 実行中のワーカーを停止し、残りの依頼を新しいワーカーに送り直す
+ * （ワーカー内の同期的な処理は中断できないため、キャンセルはワーカーごと停止して実現する）
+ */
+const restartWorker = (): void => {
+  worker?.terminate();
+  worker = null;
+
+  const remaining = getWorker();
+  pendingRequests.forEach(pending => {
+    if (remaining) {
+      remaining.postMessage(pending.request);
+    } else {
+      pendingRequests.delete(pending.request.id);
+      runInMainThread(pending);
+    }
+  });
+};
+
+/**
+ * 依頼をワーカーで実行
+ */
+const runInWorker = <T>(
+  createRequest: (id: number) => DuplicationWorkerRequest,
+  options: DuplicationWorkerOptions
+): Promise<T> => {
+  const { onProgress, signal } = options;
+  const request = createRequest(nextRequestId++);
+
+  return new Promise<T>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error('重複検出がキャンセルされました'));
+      return;
+    }
+
+    const pending: PendingRequest = {
+      request,
+      resolve: result => resolve(result as T),
+      reject,
+      onProgress
+    };
+
+    const target = getWorker();
+    if (!target) {
+      runInMainThread(pending);
+      return;
+    }
+
+    pendingRequests.set(request.id, pending);
+    signal?.addEventListener('abort', () => {
+      if (!pendingRequests.delete(request.id)) return;
+      reject(new Error('重複検出がキャンセルされました'));
+      restartWorker();
+    }, { once: true });
+    target.postMessage(request);
+  });
+};
+
+/**
+ * ファイル内の重複をワーカーで検出
+ * @see detectDuplicates
+ */
+export const detectDuplicatesInWorker = (
+  code: string,
+  language: string,
+  options: DuplicationWorkerOptions & { minBlockSize?: number; similarityThreshold?: number } = {}
+): Promise<{ duplicates: DuplicateBlock[]; stats: DuplicationStats }> =>
+  runInWorker(id => ({
+    id,
+    type: 'detectDuplicates',
+    code,
+    language,
+    minBlockSize: options.minBlockSize,
+    similarityThreshold: options.similarityThreshold
+  }), options);
+
+/**
+ * ファイル間の重複をワーカーで検出
+ * @see detectCrossFileDuplicates
+ */
+export const detectCrossFileDuplicatesInWorker = (
+  files: SourceFile[],
+  crossFileOptions: CrossFileDuplicateOptions = {},
+  options: DuplicationWorkerOptions = {}
+): Promise<DuplicationResult[]> =>
+  runInWorker(id => ({
+    id,
+    type: 'detectCrossFileDuplicates',
+    files,
+    options: crossFileOptions
+  }), options);
+
+export default {
+  detectDuplicatesInWorker,
+  detectCrossFileDuplicatesInWorker
+};
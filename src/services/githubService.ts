@@ -43,6 +43,100 @@ export interface CodeFile {
   type: string;
 }
 
+/**
+ * Gitツリーのエントリの型定義
+ */
+export interface RepositoryTreeEntry {
+  path: string;
+  name: string;
+  sha: string;
+  size: number;
+  type: 'blob' | 'tree' | 'commit';
+  mode: string;
+}
+
+/**
+ * 解決済みの参照（ブランチ・タグ・コミット）の型定義
+ */
+export interface ResolvedRef {
+  ref: string;         // 指定された参照（未指定時は HEAD）
+  commitSha: string;   // 参照が指すコミットのSHA
+  treeSha: string;     // コミットのルートツリーのSHA
+}
+
+/**
+ * プルリクエスト情報の型定義
+ */
+export interface PullRequest {
+  number: number;
+  title: string;
+  state: string;
+  html_url: string;
+  user: {
+    login: string;
+    avatar_url: string;
+  };
+  head: {
+    ref: string;
+    sha: string;
+  };
+  base: {
+    ref: string;
+    sha: string;
+  };
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * プルリクエストの変更ファイルの型定義
+ */
+export interface PullRequestFile {
+  sha: string;                // 変更後のBlob SHA
+  filename: string;
+  status: 'added' | 'removed' | 'modified' | 'renamed' | 'copied' | 'changed' | 'unchanged';
+  additions: number;
+  deletions: number;
+  changes: number;
+  patch?: string;             // unified diff（バイナリや大きな差分では省略される）
+  previous_filename?: string;
+}
+
+/**
+ * コミットの詳細の型定義（変更ファイルはプルリクエストの変更ファイルと同じ形式）
+ */
+export interface CommitDetail {
+  sha: string;
+  html_url: string;
+  commit: {
+    message: string;
+    author: {
+      name: string;
+      date: string;
+    };
+  };
+  files?: PullRequestFile[];
+}
+
+/**
+ * Blob取得オプションの型定義
+ */
+export interface BlobFetchOptions {
+  concurrency?: number;  // REST APIでの同時リクエスト数
+  batchSize?: number;    // GraphQL 1リクエストあたりのBlob数
+  onBlob?: (sha: string, content: string) => void;
+}
+
+// GraphQLでまとめて取得するBlob数とRESTでの同時リクエスト数の既定値
+const DEFAULT_BLOB_BATCH_SIZE = 25;
+const DEFAULT_BLOB_CONCURRENCY = 4;
+
+// 参照名をURLのパスに埋め込める形式に変換（ブランチ名のスラッシュは保持）
+const encodeRef = (ref: string): string => encodeURIComponent(ref).replace(/%2F/g, '/');
+
+// 参照を指定するクエリ文字列を生成
+const refQuery = (ref?: string): string => (ref ? `?ref=${encodeURIComponent(ref)}` : '');
+
 // GitHubのアクセストークンを取得
 const getGithubToken = (): string | null => {
   // ローカルストレージからGitHubトークンを取得
@@ -65,8 +159,17 @@ const getGithubToken = (): string | null => {
   return token;
 };
 
+// レート制限エラーのメッセージ接頭辞
+const RATE_LIMIT_ERROR_PREFIX = 'GitHub API rate limit exceeded';
+
+/**
+ * GitHub APIのレート制限によるエラーかを判定
+ */
+export const isRateLimitError = (error: unknown): boolean =>
+  error instanceof Error && error.message.startsWith(RATE_LIMIT_ERROR_PREFIX);
+
 // GitHub APIを呼び出す共通関数
-const fetchFromGithub = async (endpoint: string, options?: RequestInit) => {
+export const fetchFromGithub = async (endpoint: string, options?: RequestInit) => {
   const token = getGithubToken();
   
   if (!token) {
@@ -113,7 +216,7 @@ const fetchFromGithub = async (endpoint: string, options?: RequestInit) => {
       const resetTime = response.headers.get('X-RateLimit-Reset');
       const resetDate = resetTime ? new Date(parseInt(resetTime) * 1000).toLocaleTimeString() : 'unknown time';
       console.warn('GitHub API rate limit exceeded');
-      throw new Error(`GitHub API rate limit exceeded. Resets at ${resetDate}`);
+      throw new Error(`${RATE_LIMIT_ERROR_PREFIX}. Resets at ${resetDate}`);
     }
     
     if (!response.ok) {
@@ -153,6 +256,9 @@ const fetchFromGithub = async (endpoint: string, options?: RequestInit) => {
   }
 };
 
+// GitHub API呼び出し関数の型（テスト時はモックに差し替え可能）
+export type GithubRequest = typeof fetchFromGithub;
+
 /**
  * 認証済みユーザーの情報を取得
  */
@@ -183,14 +289,15 @@ export const getRepository = async (owner: string, repo: string): Promise<Reposi
   }
 };
 
-// リポジトリのコンテンツを取得
+// リポジトリのコンテンツを取得（ref 未指定時はデフォルトブランチ）
 export const getRepositoryContents = async (
   owner: string,
   repo: string,
-  path = ''
+  path = '',
+  ref?: string
 ): Promise<any[]> => {
   try {
-    const contents = await fetchFromGithub(`/repos/${owner}/${repo}/contents/${path}`);
+    const contents = await fetchFromGithub(`/repos/${owner}/${repo}/contents/${path}${refQuery(ref)}`);
     return contents;
   } catch (error) {
     console.error(`Failed to fetch repository contents ${owner}/${repo}/${path}:`, error);
@@ -198,17 +305,30 @@ export const getRepositoryContents = async (
   }
 };
 
-// ファイルの内容を取得
+// ファイルの内容を取得（ref 未指定時はデフォルトブランチ）
 export const getFileContent = async (
   owner: string,
   repo: string,
-  path: string
+  path: string,
+  ref?: string
 ): Promise<string> => {
+  return (await getFileBlob(owner, repo, path, ref)).content;
+};
+
+/**
+ * ファイルの内容とBlob SHAを取得
+ */
+export const getFileBlob = async (
+  owner: string,
+  repo: string,
+  path: string,
+  ref?: string
+): Promise<{ sha: string; content: string }> => {
   try {
-    const content = await fetchFromGithub(`/repos/${owner}/${repo}/contents/${path}`);
+    const content = await fetchFromGithub(`/repos/${owner}/${repo}/contents/${path}${refQuery(ref)}`);
     // Base64エンコードされたコンテンツをデコード
     if (content.encoding === 'base64' && content.content) {
-      return atob(content.content.replace(/\n/g, ''));
+      return { sha: content.sha, content: atob(content.content.replace(/\n/g, '')) };
     }
     throw new Error('Unexpected content format');
   } catch (error) {
@@ -217,6 +337,23 @@ export const getFileContent = async (
   }
 };
 
+/**
+ * テキストファイルの内容を UTF-8 としてデコードして取得（ref 未指定時はデフォルトブランチ）
+ * 設定ファイルなど日本語を含むファイル向け（getFileContent はバイト列をそのまま文字にします）
+ */
+export const getTextFileContent = async (
+  owner: string,
+  repo: string,
+  path: string,
+  ref?: string
+): Promise<string> => {
+  const file = await fetchFromGithub(`/repos/${owner}/${repo}/contents/${path}${refQuery(ref)}`);
+  if (file.encoding !== 'base64' || typeof file.content !== 'string') {
+    throw new Error('Unexpected content format');
+  }
+  return decodeBase64Text(file.content);
+};
+
 /**
  * リポジトリの言語統計を取得
  */
@@ -224,6 +361,104 @@ export const getRepositoryLanguages = async (owner: string, repo: string) => {
   return await fetchFromGithub(`/repos/${owner}/${repo}/languages`);
 };
 
+/**
+ * リポジトリのブランチ一覧を取得
+ */
+export const getRepositoryBranches = async (owner: string, repo: string): Promise<{ name: string; commit: { sha: string } }[]> => {
+  try {
+    return await fetchFromGithub(`/repos/${owner}/${repo}/branches?per_page=100`);
+  } catch (error) {
+    console.error(`Failed to fetch branches ${owner}/${repo}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * リポジトリのタグ一覧を取得
+ */
+export const getRepositoryTags = async (owner: string, repo: string): Promise<{ name: string; commit: { sha: string } }[]> => {
+  try {
+    return await fetchFromGithub(`/repos/${owner}/${repo}/tags?per_page=100`);
+  } catch (error) {
+    console.error(`Failed to fetch tags ${owner}/${repo}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * ブランチ・タグ・コミットSHAをコミットとツリーのSHAに解決
+ * @param ref 未指定時はデフォルトブランチ（HEAD）
+ */
+export const resolveRef = async (owner: string, repo: string, ref?: string): Promise<ResolvedRef> => {
+  const target = ref || 'HEAD';
+  try {
+    const commit = await fetchFromGithub(`/repos/${owner}/${repo}/commits/${encodeRef(target)}`);
+    return {
+      ref: target,
+      commitSha: commit.sha,
+      treeSha: commit.commit.tree.sha
+    };
+  } catch (error) {
+    console.error(`Failed to resolve ref ${target} in ${owner}/${repo}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * リポジトリのプルリクエスト一覧を取得
+ */
+export const getPullRequests = async (
+  owner: string,
+  repo: string,
+  state: 'open' | 'closed' | 'all' = 'open'
+): Promise<PullRequest[]> => {
+  try {
+    return await fetchFromGithub(`/repos/${owner}/${repo}/pulls?state=${state}&per_page=100&sort=updated&direction=desc`);
+  } catch (error) {
+    console.error(`Failed to fetch pull requests ${owner}/${repo}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * プルリクエストの詳細を取得
+ */
+export const getPullRequest = async (owner: string, repo: string, pullNumber: number): Promise<PullRequest> => {
+  try {
+    return await fetchFromGithub(`/repos/${owner}/${repo}/pulls/${pullNumber}`);
+  } catch (error) {
+    console.error(`Failed to fetch pull request ${owner}/${repo}#${pullNumber}:`, error);
+    throw error;
+  }
+};
+
+// プルリクエストの変更ファイル取得で読むページ数の上限（APIの上限は3000ファイル）
+const MAX_PULL_REQUEST_FILE_PAGES = 30;
+
+/**
+ * プルリクエストの変更ファイルとパッチを取得（全ページ）
+ */
+export const getPullRequestFiles = async (
+  owner: string,
+  repo: string,
+  pullNumber: number
+): Promise<PullRequestFile[]> => {
+  try {
+    let files: PullRequestFile[] = [];
+    for (let page = 1; page <= MAX_PULL_REQUEST_FILE_PAGES; page++) {
+      const pageFiles: PullRequestFile[] = await fetchFromGithub(
+        `/repos/${owner}/${repo}/pulls/${pullNumber}/files?per_page=100&page=${page}`
+      );
+      files = [...files, ...pageFiles];
+      if (pageFiles.length < 100) break;
+    }
+    return files;
+  } catch (error) {
+    console.error(`Failed to fetch pull request files ${owner}/${repo}#${pullNumber}:`, error);
+    throw error;
+  }
+};
+
 /**
  * ユーザーのリポジトリコミット履歴を取得
  */
@@ -231,6 +466,18 @@ export const getRepositoryCommits = async (owner: string, repo: string) => {
   return await fetchFromGithub(`/repos/${owner}/${repo}/commits?per_page=100`);
 };
 
+/**
+ * コミットの詳細と変更ファイルのパッチを取得
+ */
+export const getCommit = async (owner: string, repo: string, sha: string): Promise<CommitDetail> => {
+  try {
+    return await fetchFromGithub(`/repos/${owner}/${repo}/commits/${sha}`);
+  } catch (error) {
+    console.error(`Failed to fetch commit ${owner}/${repo}@${sha}:`, error);
+    throw error;
+  }
+};
+
 /**
  * Base64でエンコードされたコンテンツをデコード
  */
@@ -238,16 +485,226 @@ export const decodeBase64Content = (content: string): string => {
   return atob(content.replace(/\s/g, ''));
 };
 
+// Base64でエンコードされたテキストを UTF-8 としてデコード（GraphQLで取得したテキストと同じ内容になる）
+const decodeBase64Text = (content: string): string => {
+  const binary = decodeBase64Content(content);
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+};
+
+/**
+ * リポジトリ全体のファイルツリーを取得
+ * 再帰的なGit Trees APIを1回呼び出すだけで全エントリを取得します
+ * （エントリ数が上限を超えて切り詰められた場合はディレクトリ単位で取得）
+ * @param treeSha ツリーSHA・コミットSHA・ブランチ名・タグ名のいずれか
+ */
+export const getRepositoryTree = async (
+  owner: string,
+  repo: string,
+  treeSha = 'HEAD'
+): Promise<RepositoryTreeEntry[]> => {
+  try {
+    const tree = await fetchFromGithub(`/repos/${owner}/${repo}/git/trees/${encodeRef(treeSha)}?recursive=1`);
+    if (!tree.truncated) {
+      return tree.tree.map((entry: GithubTreeItem) => toTreeEntry(entry, ''));
+    }
+
+    console.warn(`Tree for ${owner}/${repo} was truncated. Falling back to per-directory tree requests.`);
+    return await walkTree(owner, repo, treeSha, '');
+  } catch (error) {
+    console.error(`Failed to fetch repository tree ${owner}/${repo}:`, error);
+    throw error;
+  }
+};
+
+// ディレクトリごとにツリーを取得（切り詰められた場合のフォールバック）
+const walkTree = async (
+  owner: string,
+  repo: string,
+  treeSha: string,
+  basePath: string
+): Promise<RepositoryTreeEntry[]> => {
+  const tree = await fetchFromGithub(`/repos/${owner}/${repo}/git/trees/${treeSha}`);
+  let entries: RepositoryTreeEntry[] = [];
+
+  for (const item of tree.tree) {
+    const entry = toTreeEntry(item, basePath);
+    entries.push(entry);
+    if (entry.type === 'tree') {
+      entries = [...entries, ...await walkTree(owner, repo, entry.sha, entry.path)];
+    }
+  }
+
+  return entries;
+};
+
+// Git Trees APIのツリー要素（path はツリーからの相対パス）
+interface GithubTreeItem {
+  path: string;
+  sha: string;
+  size?: number;
+  type: RepositoryTreeEntry['type'];
+  mode: string;
+}
+
+// GraphQL APIのエラー
+interface GithubGraphQLError {
+  type?: string;
+  message: string;
+}
+
+// APIのツリー要素をエントリに変換
+const toTreeEntry = (item: GithubTreeItem, basePath: string): RepositoryTreeEntry => {
+  const path = basePath ? `${basePath}/${item.path}` : item.path;
+  return {
+    path,
+    name: path.split('/').pop() || path,
+    sha: item.sha,
+    size: item.size || 0,
+    type: item.type,
+    mode: item.mode
+  };
+};
+
+/**
+ * SHAを指定してBlobの内容を取得
+ */
+export const getBlobContent = async (owner: string, repo: string, sha: string): Promise<string> => {
+  try {
+    const blob = await fetchFromGithub(`/repos/${owner}/${repo}/git/blobs/${sha}`);
+    if (blob.encoding === 'base64' && typeof blob.content === 'string') {
+      return decodeBase64Text(blob.content);
+    }
+    if (blob.encoding === 'utf-8' && typeof blob.content === 'string') {
+      return blob.content;
+    }
+    throw new Error('Unexpected content format');
+  } catch (error) {
+    console.error(`Failed to fetch blob ${owner}/${repo}@${sha}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * 複数のBlobの内容をまとめて取得
+ * GraphQL APIで一括取得し、取得できなかったBlobは同時実行数を制限してREST APIで取得します
+ * @returns SHA → ファイル内容（取得に失敗したBlobは含まれない）
+ */
+export const fetchBlobContents = async (
+  owner: string,
+  repo: string,
+  shas: string[],
+  options: BlobFetchOptions = {}
+): Promise<Map<string, string>> => {
+  const {
+    concurrency = DEFAULT_BLOB_CONCURRENCY,
+    batchSize = DEFAULT_BLOB_BATCH_SIZE,
+    onBlob
+  } = options;
+  const contents = new Map<string, string>();
+  const uniqueShas = Array.from(new Set(shas));
+
+  const store = (sha: string, content: string) => {
+    contents.set(sha, content);
+    onBlob?.(sha, content);
+  };
+
+  // GraphQLでまとめて取得
+  let graphqlAvailable = true;
+  for (let i = 0; i < uniqueShas.length && graphqlAvailable; i += batchSize) {
+    const batch = uniqueShas.slice(i, i + batchSize);
+    try {
+      const texts = await fetchBlobTextsWithGraphQL(owner, repo, batch);
+      texts.forEach((text, sha) => store(sha, text));
+    } catch (error) {
+      if (isRateLimitError(error)) throw error;
+      console.warn('GraphQLによるBlobの一括取得に失敗したため、REST APIで取得します:', error);
+      graphqlAvailable = false;
+    }
+  }
+
+  // 残り（バイナリ・大きなファイル・GraphQL失敗分）はREST APIで取得
+  const remaining = uniqueShas.filter(sha => !contents.has(sha));
+  await runWithConcurrency(remaining, concurrency, async sha => {
+    try {
+      store(sha, await getBlobContent(owner, repo, sha));
+    } catch (error) {
+      if (isRateLimitError(error)) throw error;
+    }
+  });
+
+  return contents;
+};
+
+// GraphQLでBlobのテキストを一括取得（テキストとして取得できないBlobは含まれない）
+const fetchBlobTextsWithGraphQL = async (
+  owner: string,
+  repo: string,
+  shas: string[]
+): Promise<Map<string, string>> => {
+  const fields = shas
+    .map((sha, index) => `b${index}: object(oid: "${sha}") { ... on Blob { text isBinary isTruncated } }`)
+    .join('\n');
+  const query = `query($owner: String!, $name: String!) { repository(owner: $owner, name: $name) { ${fields} } }`;
+
+  const response = await fetchFromGithub('/graphql', {
+    method: 'POST',
+    body: JSON.stringify({ query, variables: { owner, name: repo } })
+  });
+
+  if (response.errors && response.errors.length > 0) {
+    if (response.errors.some((error: GithubGraphQLError) => error.type === 'RATE_LIMITED')) {
+      throw new Error(`${RATE_LIMIT_ERROR_PREFIX}. ${response.errors[0].message}`);
+    }
+    throw new Error(`GitHub GraphQL error: ${response.errors.map((error: GithubGraphQLError) => error.message).join(', ')}`);
+  }
+
+  const texts = new Map<string, string>();
+  const repository = response.data?.repository || {};
+  shas.forEach((sha, index) => {
+    const blob = repository[`b${index}`];
+    if (blob && !blob.isBinary && !blob.isTruncated && typeof blob.text === 'string') {
+      texts.set(sha, blob.text);
+    }
+  });
+  return texts;
+};
+
+// 同時実行数を制限して非同期処理を実行（最初のエラーで残りの処理を打ち切る）
+const runWithConcurrency = async <T>(
+  items: T[],
+  limit: number,
+  worker: (item: T) => Promise<void>
+): Promise<void> => {
+  let nextIndex = 0;
+  let failed = false;
+
+  const runNext = async (): Promise<void> => {
+    while (!failed && nextIndex < items.length) {
+      const item = items[nextIndex++];
+      try {
+        await worker(item);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  const workers = Array.from({ length: Math.min(Math.max(1, limit), items.length) }, () => runNext());
+  await Promise.all(workers);
+};
+
 /**
  * リポジトリの特定の言語のファイル一覧を取得
  */
 export const getRepositoryFilesByLanguage = async (
   owner: string, 
   repo: string, 
-  language: string
+  language: string,
+  ref?: string
 ): Promise<any[]> => {
   // まずリポジトリ内のファイル一覧を再帰的に取得
-  const allFiles = await fetchAllRepositoryFiles(owner, repo);
+  const allFiles = await fetchAllRepositoryFiles(owner, repo, '', ref);
   
   // 特定の言語の拡張子でフィルタリング
   const languageExtensions: {[key: string]: string[]} = {
@@ -269,26 +726,28 @@ export const getRepositoryFilesByLanguage = async (
 };
 
 /**
- * リポジトリ内のすべてのファイルを再帰的に取得（大きなリポジトリでは時間がかかる場合があります）
+ * リポジトリ内のすべてのファイルを取得（Git Trees APIで一括取得）
+ * @param path 指定した場合はそのディレクトリ配下のファイルのみ
  */
 export const fetchAllRepositoryFiles = async (
   owner: string, 
   repo: string, 
-  path: string = ''
+  path: string = '',
+  ref?: string
 ): Promise<any[]> => {
-  const contents = await getRepositoryContents(owner, repo, path);
-  let files: any[] = [];
-  
-  for (const item of contents) {
-    if (item.type === 'file') {
-      files.push(item);
-    } else if (item.type === 'dir') {
-      const dirFiles = await fetchAllRepositoryFiles(owner, repo, item.path);
-      files = [...files, ...dirFiles];
-    }
-  }
+  const tree = await getRepositoryTree(owner, repo, ref);
+  const prefix = path ? `${path.replace(/\/$/, '')}/` : '';
   
-  return files;
+  // Contents APIと同じ形式（type: 'file'）で返す
+  return tree
+    .filter(entry => entry.type === 'blob' && entry.path.startsWith(prefix))
+    .map(entry => ({
+      name: entry.name,
+      path: entry.path,
+      sha: entry.sha,
+      size: entry.size,
+      type: 'file'
+    }));
 };
 
 export default {
@@ -297,8 +756,21 @@ export default {
   getRepository,
   getRepositoryContents,
   getFileContent,
+  getFileBlob,
+  getTextFileContent,
   getRepositoryLanguages,
   getRepositoryCommits,
+  getCommit,
+  getRepositoryBranches,
+  getRepositoryTags,
+  resolveRef,
+  getPullRequests,
+  getPullRequest,
+  getPullRequestFiles,
   decodeBase64Content,
-  getRepositoryFilesByLanguage
+  getRepositoryFilesByLanguage,
+  getRepositoryTree,
+  getBlobContent,
+  fetchBlobContents,
+  isRateLimitError
 }; 
\ No newline at end of file
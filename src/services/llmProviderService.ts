@@ -0,0 +1,576 @@
+/**
+ * LLMプロバイダーサービス
+ * AIコードレビュー・コード解説で使う言語モデルの呼び出しをプロバイダーごとのアダプターにまとめ、
+ * 機能ごとに選んだプロバイダーとモデルで応答を生成します
+ *
+ *   openai            : Cloud Functions（llmCompletion）経由の OpenAI の Chat Completions API
+ *   openai-compatible : OpenAI 互換のエンドポイント（Ollama・llama.cpp などのローカルサーバー）
+ *   anthropic         : Cloud Functions（llmCompletion）経由の Anthropic の Messages API（利用者のAPIキーが必要）
+ *   gemini            : Cloud Functions（llmCompletion）から Genkit フロー（functions/src/genkit-sample.ts）で呼び出す Gemini
+ *   mock              : ネットワークを使わない固定の応答（動作確認・テスト用）
+ */
+
+import { db, auth, functions, getFunctionUrl } from '../firebase/services';
+
+export type LlmProviderId = 'openai' | 'openai-compatible' | 'anthropic' | 'gemini' | 'mock';
+
+// プロバイダーとモデルを選べる機能
+export type LlmFeature = 'review' | 'explain';
+
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// アダプターに渡すリクエスト
+export interface LlmRequest {
+  model: string;
+  messages: LlmMessage[];
+  temperature: number;
+  apiKey: string | null;          // Cloud Functions 経由のプロバイダーではサーバーに保存したキーを使うため null
+  baseUrl: string | null;         // OpenAI 互換のエンドポイントのみ
+}
+
+// 生成した応答
+export interface LlmCompletion {
+  provider: LlmProviderId;
+  model: string;
+  content: string;
+}
+
+export interface LlmProvider {
+  id: LlmProviderId;
+  label: string;
+  defaultModel: string;
+  models: string[];               // 設定画面で候補として表示するモデル
+  requiresApiKey: boolean;        // 利用者のAPIキーの設定が必要か
+  proxied: boolean;               // Cloud Functions 経由で呼び出すか（APIキーと無料枠はサーバー側で扱う）
+  complete: (request: LlmRequest) => Promise<LlmCompletion>;
+  // 応答を生成しながら受け取る（未対応のプロバイダーは complete の結果を一度に返す）
+  // レスポンスのヘッダーを受け取った時点で解決し、APIのエラーはここで例外になる
+  stream?: (request: LlmRequest, signal?: AbortSignal) => Promise<AsyncIterable<string>>;
+}
+
+// 機能ごとのプロバイダーとモデル
+export interface LlmFeatureSettings {
+  provider: LlmProviderId;
+  model: string;
+}
+
+// 利用者のLLM設定（users/{uid}/settings/llm）
+// APIキーは含めない（OpenAI・Anthropic のキーは Cloud Functions で暗号化して保存し、OpenAI 互換のキーは保存しない）
+export interface LlmSettings {
+  features: Record<LlmFeature, LlmFeatureSettings>;
+  baseUrl: string;                // OpenAI 互換のエンドポイント
+}
+
+export const LLM_FEATURES: { id: LlmFeature; label: string }[] = [
+  { id: 'review', label: 'AIコードレビュー' },
+  { id: 'explain', label: 'コード解説' }
+];
+
+// Ollama の既定のエンドポイント（llama.cpp のサーバーは http://localhost:8080/v1）
+export const DEFAULT_COMPATIBLE_BASE_URL = 'http://localhost:11434/v1';
+
+const LLM_COMPLETION_FUNCTION = 'llmCompletion';
+// Cloud Functions の応答待ちの上限（関数の timeoutSeconds に合わせる）
+const LLM_COMPLETION_TIMEOUT = 300000;
+
+// 無効なAPIキーによるエラーのメッセージ接頭辞
+const INVALID_API_KEY_ERROR_PREFIX = 'Invalid LLM API key';
+
+// 月間の無料利用枠を使い切ったことによるエラーのメッセージ接頭辞
+const FREE_LIMIT_EXCEEDED_ERROR_PREFIX = 'LLM free quota exceeded';
+
+// APIキーが設定されていないことによるエラーのメッセージ接頭辞
+const API_KEY_REQUIRED_ERROR_PREFIX = 'LLM API key required';
+
+/**
+ * 無効なAPIキーによるエラーかを判定
+ */
+export const isInvalidApiKeyError = (error: unknown): boolean =>
+  error instanceof Error && error.message.startsWith(INVALID_API_KEY_ERROR_PREFIX);
+
+/**
+ * 無料利用枠を使い切ったことによるエラーかを判定
+ */
+export const isFreeLimitExceededError = (error: unknown): boolean =>
+  error instanceof Error && error.message.startsWith(FREE_LIMIT_EXCEEDED_ERROR_PREFIX);
+
+/**
+ * APIキーが設定されていないことによるエラーかを判定
+ */
+export const isApiKeyRequiredError = (error: unknown): boolean =>
+  error instanceof Error && error.message.startsWith(API_KEY_REQUIRED_ERROR_PREFIX);
+
+/**
+ * 中断（AbortController.abort）によるエラーかを判定
+ */
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof Error && error.name === 'AbortError';
+
+/**
+ * エラーのレスポンスからメッセージを取得
+ */
+const readErrorMessage = async (response: Response): Promise<string> => {
+  try {
+    const errorData = await response.json();
+    return errorData.error?.message || errorData.message || `HTTP ${response.status}`;
+  } catch {
+    return `HTTP ${response.status}`;
+  }
+};
+
+// サーバー送信イベント（text/event-stream）の1件
+interface ServerSentEvent {
+  event: string;                  // event フィールドがない場合は 'message'
+  data: string;
+}
+
+/**
+ * レスポンスの本文をサーバー送信イベントとして読み込む
+ * 中断した場合は読み込み中の例外（AbortError）がそのまま伝わります
+ */
+export async function* readServerSentEvents(response: Response): AsyncGenerator<ServerSentEvent> {
+  if (!response.body) return;
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let event = 'message';
+  let data: string[] = [];
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      const lines = buffer.split(/\r\n|\r|\n/);
+      // 最後の行は途中までしか届いていない可能性がある（終端では空行として処理する）
+      buffer = done ? '' : lines.pop() || '';
+      if (done) lines.push('');
+
+      for (const line of lines) {
+        if (line === '') {
+          // 空行でイベントを送出する
+          if (data.length > 0) yield { event, data: data.join('\n') };
+          event = 'message';
+          data = [];
+        } else if (!line.startsWith(':')) {
+          const separator = line.indexOf(':');
+          const field = separator >= 0 ? line.slice(0, separator) : line;
+          const fieldValue = separator >= 0 ? line.slice(separator + 1).replace(/^ /, '') : '';
+          if (field === 'event') event = fieldValue;
+          if (field === 'data') data.push(fieldValue);
+        }
+      }
+
+      if (done) return;
+    }
+  } finally {
+    // 途中で読み込みをやめた場合は接続を閉じる
+    reader.cancel().catch(() => undefined);
+  }
+}
+
+/**
+ * OpenAI の Chat Completions API 形式のエンドポイントにリクエストを送る
+ * @throws APIのエラー（無効なAPIキーは isInvalidApiKeyError で判定できる）
+ */
+const postChat = async (
+  endpoint: string,
+  request: LlmRequest,
+  stream: boolean,
+  signal?: AbortSignal
+): Promise<Response> => {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  // ローカルのサーバーはキーなしで呼び出せる
+  if (request.apiKey) headers.Authorization = `Bearer ${request.apiKey}`;
+
+  const response = await fetch(endpoint, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({
+      model: request.model,
+      messages: request.messages,
+      temperature: request.temperature,
+      ...(stream ? { stream: true } : {})
+    }),
+    signal
+  });
+
+  if (!response.ok) {
+    const message = await readErrorMessage(response);
+    if (response.status === 401 || message.includes('API key provided')) {
+      throw new Error(`${INVALID_API_KEY_ERROR_PREFIX}: ${message}`);
+    }
+    throw new Error(message);
+  }
+  return response;
+};
+
+/**
+ * OpenAI の Chat Completions API 形式のエンドポイントを呼び出す
+ */
+const completeChat = async (
+  provider: LlmProviderId,
+  endpoint: string,
+  request: LlmRequest
+): Promise<LlmCompletion> => {
+  const response = await postChat(endpoint, request, false);
+  const data = await response.json();
+  return {
+    provider,
+    model: data.model || request.model,
+    content: data.choices?.[0]?.message?.content || ''
+  };
+};
+
+/**
+ * OpenAI の Chat Completions API 形式のエンドポイントから応答の差分を受け取る
+ */
+const streamChat = async (
+  endpoint: string,
+  request: LlmRequest,
+  signal?: AbortSignal
+): Promise<AsyncIterable<string>> => {
+  const response = await postChat(endpoint, request, true, signal);
+
+  return (async function* () {
+    for await (const { data } of readServerSentEvents(response)) {
+      if (data === '[DONE]') return;
+      const chunk = JSON.parse(data);
+      if (chunk.error) throw new Error(chunk.error.message || '応答の生成中にエラーが発生しました');
+      const delta = chunk.choices?.[0]?.delta?.content;
+      if (delta) yield delta;
+    }
+  })();
+};
+
+/**
+ * Cloud Functions（llmCompletion）のエラーを変換
+ * 理由（details.reason）が分かるエラーは判定用の接頭辞を付ける
+ */
+const toProxyError = (message: string, details: unknown): Error => {
+  const reason = details && typeof details === 'object' ? (details as { reason?: unknown }).reason : undefined;
+  if (reason === 'INVALID_API_KEY') return new Error(`${INVALID_API_KEY_ERROR_PREFIX}: ${message}`);
+  if (reason === 'FREE_LIMIT_EXCEEDED') return new Error(`${FREE_LIMIT_EXCEEDED_ERROR_PREFIX}: ${message}`);
+  if (reason === 'API_KEY_REQUIRED') return new Error(`${API_KEY_REQUIRED_ERROR_PREFIX}: ${message}`);
+  return new Error(message);
+};
+
+const toProxyInput = (provider: LlmProviderId, request: LlmRequest) => ({
+  provider,
+  model: request.model,
+  messages: request.messages,
+  temperature: request.temperature
+});
+
+/**
+ * Cloud Functions 経由で応答を生成
+ */
+const completeWithProxy = async (provider: LlmProviderId, request: LlmRequest): Promise<LlmCompletion> => {
+  if (!functions) {
+    throw new Error('Cloud Functions を利用できないため、AIサービスを呼び出せません。');
+  }
+
+  try {
+    const callable = functions.httpsCallable(LLM_COMPLETION_FUNCTION, { timeout: LLM_COMPLETION_TIMEOUT });
+    const result = await callable(toProxyInput(provider, request));
+    return { provider, model: result.data?.model || request.model, content: result.data?.content || '' };
+  } catch (error: unknown) {
+    // 呼び出し可能関数のエラー（HttpsError）は code と details を持つ
+    if (error instanceof Error && 'code' in error && typeof error.code === 'string') {
+      throw toProxyError(error.message, 'details' in error ? error.details : undefined);
+    }
+    throw error;
+  }
+};
+
+/**
+ * Cloud Functions 経由で応答の差分を受け取る
+ * Firebase v8 の SDK はストリーミングに対応していないため、呼び出し可能関数のプロトコルで直接呼び出す
+ * 無料枠・APIキーのエラーは最初のイベントで届くため、最初の差分を受け取ってから返します
+ */
+const streamWithProxy = async (
+  provider: LlmProviderId,
+  request: LlmRequest,
+  signal?: AbortSignal
+): Promise<AsyncIterable<string>> => {
+  const url = getFunctionUrl(LLM_COMPLETION_FUNCTION);
+  const user = auth?.currentUser;
+  if (!url || !user) {
+    throw new Error('AIサービスを利用するにはログインしてください。');
+  }
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': 'text/event-stream',
+      'Authorization': `Bearer ${await user.getIdToken()}`
+    },
+    body: JSON.stringify({ data: toProxyInput(provider, request) }),
+    signal
+  });
+
+  if (!response.ok) {
+    // 認証エラーなど、ストリーミングを始める前のエラー
+    const errorData = await response.json().catch(() => ({}));
+    throw toProxyError(errorData.error?.message || `HTTP ${response.status}`, errorData.error?.details);
+  }
+
+  const chunks = (async function* () {
+    for await (const { data } of readServerSentEvents(response)) {
+      const payload = JSON.parse(data);
+      if (payload.error) throw toProxyError(payload.error.message || '応答の生成中にエラーが発生しました', payload.error.details);
+      // result は生成を終えた応答の全体
+      if ('result' in payload) return;
+      if (typeof payload.message === 'string') yield payload.message;
+    }
+  })();
+
+  const first = await chunks.next();
+  return (async function* () {
+    if (first.done) return;
+    yield first.value;
+    yield* chunks;
+  })();
+};
+
+const openAIProvider: LlmProvider = {
+  id: 'openai',
+  label: 'OpenAI',
+  defaultModel: 'gpt-3.5-turbo-0125',
+  models: ['gpt-3.5-turbo-0125', 'gpt-4o-mini', 'gpt-4o'],
+  requiresApiKey: false,
+  proxied: true,
+  complete: request => completeWithProxy('openai', request),
+  stream: (request, signal) => streamWithProxy('openai', request, signal)
+};
+
+const getCompatibleEndpoint = (request: LlmRequest): string =>
+  `${(request.baseUrl || DEFAULT_COMPATIBLE_BASE_URL).replace(/\/+$/, '')}/chat/completions`;
+
+const openAICompatibleProvider: LlmProvider = {
+  id: 'openai-compatible',
+  label: 'OpenAI互換（Ollama・llama.cpp など）',
+  defaultModel: 'llama3.1',
+  models: ['llama3.1', 'qwen2.5-coder', 'codellama'],
+  requiresApiKey: false,
+  proxied: false,
+  complete: request => completeChat('openai-compatible', getCompatibleEndpoint(request), request),
+  stream: (request, signal) => streamChat(getCompatibleEndpoint(request), request, signal)
+};
+
+const anthropicProvider: LlmProvider = {
+  id: 'anthropic',
+  label: 'Anthropic',
+  defaultModel: 'claude-3-5-haiku-latest',
+  models: ['claude-3-5-haiku-latest', 'claude-3-5-sonnet-latest'],
+  requiresApiKey: true,
+  proxied: true,
+  complete: request => completeWithProxy('anthropic', request),
+  stream: (request, signal) => streamWithProxy('anthropic', request, signal)
+};
+
+const geminiProvider: LlmProvider = {
+  id: 'gemini',
+  label: 'Gemini（Cloud Functions 経由）',
+  defaultModel: 'gemini-1.5-flash',
+  models: ['gemini-1.5-flash', 'gemini-1.5-pro'],
+  requiresApiKey: false,
+  proxied: true,
+  complete: request => completeWithProxy('gemini', request),
+  stream: (request, signal) => streamWithProxy('gemini', request, signal)
+};
+
+// モックの応答を作る関数
+export type MockLlmResponder = (request: LlmRequest) => string | Promise<string>;
+
+// 既定のモックの応答（最後のメッセージの概要を返す）
+const defaultMockResponder: MockLlmResponder = request => {
+  const lastMessage = request.messages[request.messages.length - 1]?.content || '';
+  return [
+    '## モックの応答',
+    '',
+    `モデル \`${request.model}\` への ${request.messages.length} 件のメッセージを受け取りました。`,
+    '',
+    `> ${lastMessage.split('\n')[0]}`
+  ].join('\n');
+};
+
+let mockResponder: MockLlmResponder = defaultMockResponder;
+
+/**
+ * モックの応答を差し替える（null で既定の応答に戻す）
+ */
+export const setMockLlmResponder = (responder: MockLlmResponder | null): void => {
+  mockResponder = responder || defaultMockResponder;
+};
+
+const mockProvider: LlmProvider = {
+  id: 'mock',
+  label: 'モック（ローカル・テスト用）',
+  defaultModel: 'mock',
+  models: ['mock'],
+  requiresApiKey: false,
+  proxied: false,
+  complete: async request => ({
+    provider: 'mock',
+    model: request.model,
+    content: await mockResponder(request)
+  }),
+  // 表示の確認のため、行ごとに分けて返す
+  stream: async (request, signal) => {
+    const content = await mockResponder(request);
+    return (async function* () {
+      for (const line of content.match(/[^\n]*\n|[^\n]+$/g) || []) {
+        if (signal?.aborted) return;
+        yield line;
+      }
+    })();
+  }
+};
+
+export const LLM_PROVIDERS: Record<LlmProviderId, LlmProvider> = {
+  'openai': openAIProvider,
+  'openai-compatible': openAICompatibleProvider,
+  'anthropic': anthropicProvider,
+  'gemini': geminiProvider,
+  'mock': mockProvider
+};
+
+export const DEFAULT_LLM_SETTINGS: LlmSettings = {
+  features: {
+    review: { provider: 'openai', model: openAIProvider.defaultModel },
+    explain: { provider: 'openai', model: openAIProvider.defaultModel }
+  },
+  baseUrl: DEFAULT_COMPATIBLE_BASE_URL
+};
+
+// OpenAI 互換のエンドポイントのAPIキー（ブラウザから直接送るため保存せず、ページを開いている間だけ保持する）
+let compatibleApiKey = '';
+
+/**
+ * OpenAI 互換のエンドポイントのAPIキーを設定（空文字で削除）
+ */
+export const setCompatibleApiKey = (apiKey: string): void => {
+  compatibleApiKey = apiKey.trim();
+};
+
+/**
+ * OpenAI 互換のエンドポイントのAPIキーを取得（未設定の場合は null）
+ */
+export const getCompatibleApiKey = (): string | null => compatibleApiKey || null;
+
+// オブジェクトでない値は空のオブジェクトとして扱う
+const asRecord = (value: unknown): Record<string, unknown> =>
+  value && typeof value === 'object' ? (value as Record<string, unknown>) : {};
+
+const isProviderId = (value: unknown): value is LlmProviderId =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(LLM_PROVIDERS, value);
+
+/**
+ * 保存されたLLM設定を検証し、不足・不正な値を既定値で補う
+ */
+export const normalizeLlmSettings = (raw: unknown): LlmSettings => {
+  const settings = asRecord(raw);
+  const features = {} as Record<LlmFeature, LlmFeatureSettings>;
+  for (const { id } of LLM_FEATURES) {
+    const feature = asRecord(asRecord(settings.features)[id]);
+    const rawProvider = feature.provider;
+    const provider = isProviderId(rawProvider) ? rawProvider : DEFAULT_LLM_SETTINGS.features[id].provider;
+    const model = typeof feature.model === 'string' && feature.model.trim()
+      ? feature.model.trim()
+      : LLM_PROVIDERS[provider].defaultModel;
+    features[id] = { provider, model };
+  }
+
+  return {
+    features,
+    baseUrl: typeof settings.baseUrl === 'string' && settings.baseUrl.trim() ? settings.baseUrl.trim() : DEFAULT_COMPATIBLE_BASE_URL
+  };
+};
+
+/**
+ * 利用者のLLM設定を取得
+ * 未認証・未保存の場合は既定の設定（すべて OpenAI）を返します
+ */
+export const getLlmSettings = async (): Promise<LlmSettings> => {
+  if (!db || !auth || !auth.currentUser) return normalizeLlmSettings(null);
+
+  try {
+    const settingsRef = db.collection('users').doc(auth.currentUser.uid).collection('settings').doc('llm');
+    const doc = await settingsRef.get();
+    return normalizeLlmSettings(doc.exists ? doc.data() : null);
+  } catch (error) {
+    console.error('LLM設定の取得に失敗:', error);
+    return normalizeLlmSettings(null);
+  }
+};
+
+/**
+ * 利用者のLLM設定を保存
+ * 以前のバージョンが保存したAPIキー（apiKeys）は上書きして削除されます
+ */
+export const saveLlmSettings = async (settings: LlmSettings): Promise<boolean> => {
+  if (!db || !auth || !auth.currentUser) {
+    console.error('認証が完了していないため、LLM設定を保存できません');
+    return false;
+  }
+
+  try {
+    const settingsRef = db.collection('users').doc(auth.currentUser.uid).collection('settings').doc('llm');
+    await settingsRef.set(normalizeLlmSettings(settings));
+    return true;
+  } catch (error) {
+    console.error('LLM設定の保存に失敗しました:', error);
+    return false;
+  }
+};
+
+/**
+ * 指定したプロバイダーで応答を生成
+ * @throws 通信・APIのエラー（無効なAPIキーは isInvalidApiKeyError で判定できる）
+ */
+export const completeWithProvider = (providerId: LlmProviderId, request: LlmRequest): Promise<LlmCompletion> =>
+  LLM_PROVIDERS[providerId].complete(request);
+
+/**
+ * 指定したプロバイダーで応答を生成しながら受け取る
+ * ストリーミングに対応していないプロバイダーは、生成した応答を一度に返します
+ * @param signal 中断用のシグナル（中断すると読み込み中の反復が AbortError で終了する）
+ * @throws 通信・APIのエラー（無効なAPIキーは isInvalidApiKeyError で判定できる）
+ */
+export const streamWithProvider = async (
+  providerId: LlmProviderId,
+  request: LlmRequest,
+  signal?: AbortSignal
+): Promise<AsyncIterable<string>> => {
+  const provider = LLM_PROVIDERS[providerId];
+  if (provider.stream) return provider.stream(request, signal);
+
+  const completion = await provider.complete(request);
+  return (async function* () {
+    if (!signal?.aborted && completion.content) yield completion.content;
+  })();
+};
+
+export default {
+  LLM_PROVIDERS,
+  LLM_FEATURES,
+  DEFAULT_LLM_SETTINGS,
+  isInvalidApiKeyError,
+  isFreeLimitExceededError,
+  isApiKeyRequiredError,
+  isAbortError,
+  readServerSentEvents,
+  setMockLlmResponder,
+  setCompatibleApiKey,
+  getCompatibleApiKey,
+  normalizeLlmSettings,
+  getLlmSettings,
+  saveLlmSettings,
+  completeWithProvider,
+  streamWithProvider
+};
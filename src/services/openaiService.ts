@@ -1,16 +1,38 @@
-import { db, auth, firebase } from '../firebase/services';
-
-// OpenAI API関連の型定義
+import firebase from 'firebase/app';
+import { db, auth, functions } from '../firebase/services';
+import {
+  AI_REVIEW_SCHEMA,
+  AiReviewParseResult,
+  StructuredReviewResult,
+  numberCodeLines,
+  parseReviewResponse,
+  toCodeIssues
+} from './aiReviewService';
+import {
+  LLM_PROVIDERS,
+  LlmFeature,
+  LlmMessage,
+  LlmProvider,
+  LlmProviderId,
+  LlmRequest,
+  completeWithProvider,
+  getCompatibleApiKey,
+  getLlmSettings,
+  isAbortError,
+  isApiKeyRequiredError,
+  isFreeLimitExceededError,
+  isInvalidApiKeyError,
+  streamWithProvider
+} from './llmProviderService';
+
+// OpenAI API関連の型定義（APIキーそのものは Cloud Functions のみが扱う）
 interface ApiKeyStatus {
   hasCustomKey: boolean;
-  customKey?: string;
+  hasAnthropicKey: boolean;
   monthlyRequestCount: number;
   lastResetDate: Date;
 }
 
-// トランザクションの型定義
-type FirestoreTransaction = any; // Firebaseの型が正確にインポートできない場合のフォールバック
-
 interface ReviewRequest {
   code: string;
   language: string; 
@@ -30,183 +52,81 @@ interface ApiResponse {
   errorMessage?: string;
 }
 
-const MONTHLY_FREE_LIMIT = 50;
-const API_ENDPOINT = 'https://api.openai.com/v1/chat/completions';
-const DEFAULT_MODEL = 'gpt-3.5-turbo-0125';
-
-// サーバーサイドのAPIキー（環境変数から取得）
-const SERVER_API_KEY = import.meta.env.VITE_OPENAI_API_KEY || '';
+// ストリーミングの応答（成功時の stream は応答の差分を順に返す）
+export interface StreamApiResponse {
+  success: boolean;
+  stream?: AsyncIterable<string>;
+  error?: string;
+  errorMessage?: string;
+}
 
-// サーバー側のAPIキーが設定されているかチェック
-if (!SERVER_API_KEY) {
-  console.warn('VITE_OPENAI_API_KEY is not set. OpenAI functionality will be limited.');
+// プロバイダー・APIキーを確認したリクエスト
+interface PreparedLlmRequest {
+  providerId: LlmProviderId;
+  provider: LlmProvider;
+  request: LlmRequest;
 }
 
+// 無料利用枠（Cloud Functions の functions/src/llmProxy.ts と合わせる）
+const MONTHLY_FREE_LIMIT = 50;
+
+// 構造化レビューの応答がスキーマに合わない場合の再試行の回数（再試行ごとに利用回数を消費する）
+const STRUCTURED_REVIEW_MAX_RETRIES = 2;
+
 export class OpenAIService {
+  /**
+   * APIキーの状態と今月の利用回数を取得
+   * 月初めの利用回数のリセットと、平文で保存された古いAPIキーの暗号化は Cloud Functions が行います
+   */
   public async getUserApiKeyStatus(): Promise<ApiKeyStatus | null> {
+    const defaultStatus: ApiKeyStatus = {
+      hasCustomKey: false,
+      hasAnthropicKey: false,
+      monthlyRequestCount: 0,
+      lastResetDate: new Date()
+    };
+
     // Firebaseが利用可能でない場合のデフォルト状態を返す
-    if (!db || !auth) {
+    if (!functions || !auth) {
       console.warn('Firebase services not available');
-      return {
-        hasCustomKey: false,
-        monthlyRequestCount: 0,
-        lastResetDate: new Date()
-      };
+      return defaultStatus;
+    }
+    if (!auth.currentUser) {
+      console.warn('User not authenticated');
+      return defaultStatus;
     }
 
     try {
-      // 認証ユーザーの取得
-      const user = auth.currentUser;
-      if (!user) {
-        console.warn('User not authenticated');
-        return {
-          hasCustomKey: false, 
-          monthlyRequestCount: 0,
-          lastResetDate: new Date()
-        };
-      }
-
-      const userRef = db.collection('users').doc(user.uid);
-      const settingsRef = userRef.collection('settings').doc('apiKey');
-      const apiKeyDoc = await settingsRef.get();
-
-      if (!apiKeyDoc.exists) {
-        // 初期状態の作成
-        const initialStatus: ApiKeyStatus = {
-          hasCustomKey: false,
-          monthlyRequestCount: 0,
-          lastResetDate: new Date()
-        };
-        try {
-          await settingsRef.set(initialStatus);
-        } catch (error) {
-          console.error('APIキー初期状態の保存に失敗:', error);
-        }
-        return initialStatus;
-      }
-
-      const data = apiKeyDoc.data() as ApiKeyStatus;
-      // Firestoreのタイムスタンプを通常のDateに変換 (Firebase v8)
-      const timestamp = data.lastResetDate as any;
-      if (timestamp && typeof timestamp.toDate === 'function') {
-        data.lastResetDate = timestamp.toDate();
-      }
-      
-      // 月初めに利用回数をリセット
-      const now = new Date();
-      const lastReset = data.lastResetDate;
-      if (now.getMonth() !== lastReset.getMonth() || now.getFullYear() !== lastReset.getFullYear()) {
-        const updatedStatus = {
-          ...data,
-          monthlyRequestCount: 0,
-          lastResetDate: now
-        };
-        try {
-          await settingsRef.update(updatedStatus);
-        } catch (error) {
-          console.error('APIキー状態の更新に失敗:', error);
-        }
-        return updatedStatus;
-      }
-
-      return data;
-    } catch (error) {
-      console.error('APIキー状態の取得に失敗:', error);
+      const result = await functions.httpsCallable('getLlmKeyStatus')();
       return {
-        hasCustomKey: false,
-        monthlyRequestCount: 0,
-        lastResetDate: new Date()
+        hasCustomKey: result.data.hasCustomKey === true,
+        hasAnthropicKey: result.data.hasAnthropicKey === true,
+        monthlyRequestCount: result.data.monthlyRequestCount || 0,
+        lastResetDate: new Date(result.data.lastResetDate)
       };
-    }
-  }
-
-  private async incrementRequestCount(): Promise<void> {
-    if (!auth || !auth.currentUser) {
-      console.warn('認証が完了していないため、利用回数を記録できません');
-      return;
-    }
-
-    const user = auth.currentUser;
-    try {
-      // トランザクションを使用して確実にカウントを更新
-      const userRef = db.collection('users').doc(user.uid);
-      const settingsRef = userRef.collection('settings').doc('apiKey');
-      
-      await db.runTransaction(async (transaction: FirestoreTransaction) => {
-        const doc = await transaction.get(settingsRef);
-        if (!doc.exists) {
-          // ドキュメントが存在しない場合は新規作成
-          transaction.set(settingsRef, {
-            hasCustomKey: false,
-            monthlyRequestCount: 1,
-            lastResetDate: new Date()
-          });
-        } else {
-          const currentCount = doc.data()?.monthlyRequestCount || 0;
-          transaction.update(settingsRef, { 
-            monthlyRequestCount: currentCount + 1 
-          });
-        }
-      });
-      
-      console.log('利用回数を更新しました');
     } catch (error) {
-      console.error('利用回数の更新に失敗:', error);
+      console.error('APIキー状態の取得に失敗:', error);
+      return defaultStatus;
     }
   }
 
-  public async saveCustomApiKey(apiKey: string): Promise<boolean> {
-    if (!auth || !auth.currentUser) {
+  /**
+   * OpenAI・Anthropic のカスタムAPIキーを保存（空文字で削除）
+   * APIキーは Cloud Functions で暗号化して保存し、クライアントには返しません
+   */
+  public async saveCustomApiKey(apiKey: string, provider: 'openai' | 'anthropic' = 'openai'): Promise<boolean> {
+    if (!functions || !auth || !auth.currentUser) {
       console.error('認証が完了していないため、APIキーを保存できません');
       return false;
     }
 
-    const user = auth.currentUser;
     try {
-      const userRef = db.collection('users').doc(user.uid);
-      const settingsRef = userRef.collection('settings').doc('apiKey');
-      await settingsRef.update({
-        hasCustomKey: true,
-        customKey: apiKey
-      });
+      await functions.httpsCallable('saveLlmApiKey')({ provider, apiKey });
       return true;
     } catch (error) {
       console.error('APIキーの保存に失敗しました:', error);
-      // ドキュメントが存在しない場合はsetで作成を試みる
-      try {
-        const userRef = db.collection('users').doc(user.uid);
-        const settingsRef = userRef.collection('settings').doc('apiKey');
-        await settingsRef.set({
-          hasCustomKey: true,
-          customKey: apiKey,
-          monthlyRequestCount: 0,
-          lastResetDate: new Date()
-        });
-        return true;
-      } catch (setError) {
-        console.error('APIキーの新規作成に失敗しました:', setError);
-        return false;
-      }
-    }
-  }
-
-  private async getApiKey(): Promise<string | null> {
-    const keyStatus = await this.getUserApiKeyStatus();
-    if (!keyStatus) return null;
-
-    // カスタムキーがある場合はそれを使用
-    if (keyStatus.hasCustomKey && keyStatus.customKey) {
-      return keyStatus.customKey;
-    }
-
-    // 無料枠の使用回数を確認
-    if (keyStatus.monthlyRequestCount < MONTHLY_FREE_LIMIT) {
-      // 上限以下の場合はサーバーキーを返す
-      return SERVER_API_KEY;
+      return false;
     }
-
-    // 上限を超えた場合はnullを返す
-    return null;
   }
 
   public async getMonthlyUsage(): Promise<{ current: number, limit: number }> {
@@ -225,12 +145,19 @@ export class OpenAIService {
       const apiKeyDoc = await settingsRef.get({ source: 'server' });
       
       if (!apiKeyDoc.exists) {
-        console.log('利用状況データが存在しません、デフォルト値を使用します');
         return { current: 0, limit: MONTHLY_FREE_LIMIT };
       }
       
       const data = apiKeyDoc.data() as ApiKeyStatus;
-      console.log('最新の利用状況を取得しました:', data.monthlyRequestCount);
+
+      // 月が変わった後にまだ利用していなければ、Cloud Functions がリセットする前の回数が残っている
+      // Firestore のドキュメントには Timestamp として保存されている
+      const timestamp: firebase.firestore.Timestamp | undefined = apiKeyDoc.get('lastResetDate');
+      const lastReset = timestamp && typeof timestamp.toDate === 'function' ? timestamp.toDate() : null;
+      const now = new Date();
+      if (lastReset && (now.getMonth() !== lastReset.getMonth() || now.getFullYear() !== lastReset.getFullYear())) {
+        return { current: 0, limit: MONTHLY_FREE_LIMIT };
+      }
       
       return { 
         current: data.monthlyRequestCount || 0, 
@@ -242,75 +169,136 @@ export class OpenAIService {
     }
   }
 
-  private async makeOpenAIRequest(
-    messages: Array<{ role: string; content: string }>,
-    temperature: number = 0.7
-  ): Promise<ApiResponse> {
-    const apiKey = await this.getApiKey();
-    if (!apiKey) {
+  /**
+   * 機能ごとに設定したプロバイダーとモデルのリクエストを準備
+   * APIキーが設定されていない場合はエラーの応答を返します
+   */
+  private async prepareLlmRequest(
+    feature: LlmFeature,
+    messages: LlmMessage[],
+    temperature: number
+  ): Promise<PreparedLlmRequest | ApiResponse> {
+    const settings = await getLlmSettings();
+    const { provider: providerId, model } = settings.features[feature];
+    const provider = LLM_PROVIDERS[providerId];
+
+    // Cloud Functions 経由のプロバイダーはサーバーに保存したキー（未設定なら無料枠）を使い、
+    // OpenAI 互換のエンドポイントにはページで入力したキーを送る（未設定の場合は Cloud Functions がエラーを返す）
+    const apiKey = providerId === 'openai-compatible' ? getCompatibleApiKey() : null;
+
+    if (provider.requiresApiKey && !provider.proxied && !apiKey) {
       return {
         success: false,
-        error: 'API_KEY_LIMIT_EXCEEDED'
+        error: 'API_KEY_REQUIRED',
+        errorMessage: `${provider.label}のAPIキーを設定してください。`
       };
     }
 
-    try {
-      const response = await fetch(API_ENDPOINT, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${apiKey}`
-        },
-        body: JSON.stringify({
-          model: DEFAULT_MODEL,
-          messages: messages,
-          temperature: temperature,
-        })
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        // APIキー関連のエラーをチェック
-        if (errorData.error?.message?.includes('API key provided')) {
-          return {
-            success: false,
-            error: 'INVALID_API_KEY',
-            errorMessage: '無効なAPIキーです。別のAPIキーを入力してください。'
-          };
-        }
-        return {
-          success: false,
-          error: errorData.error?.message || '不明なエラーが発生しました'
-        };
+    return {
+      providerId,
+      provider,
+      request: {
+        model,
+        messages,
+        temperature,
+        apiKey,
+        baseUrl: providerId === 'openai-compatible' ? settings.baseUrl : null
       }
+    };
+  }
 
-      const data = await response.json();
-      
-      // キー状態を取得
-      const keyStatus = await this.getUserApiKeyStatus();
-      
-      // デフォルトのAPIキーを使用している場合のみカウントを増やす
-      if (!keyStatus?.hasCustomKey || !keyStatus?.customKey) {
-        await this.incrementRequestCount();
-        console.log('OpenAI API使用回数をインクリメントしました（デフォルトキー使用）');
-      } else {
-        console.log('カスタムAPIキーを使用中のため、使用回数はカウントしません');
-      }
+  /**
+   * プロバイダーの呼び出しエラーを応答に変換
+   */
+  private toErrorResponse(error: unknown, prepared: PreparedLlmRequest): ApiResponse {
+    console.error(`${prepared.provider.label}の呼び出しエラー:`, error);
+    if (isFreeLimitExceededError(error)) {
+      // 無料枠の利用回数は Cloud Functions が確認する
+      return {
+        success: false,
+        error: 'API_KEY_LIMIT_EXCEEDED'
+      };
+    }
+    if (isInvalidApiKeyError(error)) {
+      return {
+        success: false,
+        error: 'INVALID_API_KEY',
+        errorMessage: '無効なAPIキーです。別のAPIキーを入力してください。'
+      };
+    }
+    if (isApiKeyRequiredError(error)) {
+      // Anthropic のキーが保存されていない
+      return {
+        success: false,
+        error: 'API_KEY_REQUIRED',
+        errorMessage: `${prepared.provider.label}のAPIキーを設定してください。`
+      };
+    }
+    if (error instanceof TypeError) {
+      // fetch の失敗（ネットワーク・ローカルのサーバーの停止など）
+      return {
+        success: false,
+        error: prepared.providerId === 'openai-compatible'
+          ? `通信エラーが発生しました（${prepared.request.baseUrl} に接続できません）`
+          : '通信エラーが発生しました'
+      };
+    }
+    return {
+      success: false,
+      error: error instanceof Error && error.message ? error.message : '不明なエラーが発生しました'
+    };
+  }
+
+  /**
+   * 機能ごとに設定したプロバイダーとモデルで応答を生成
+   * 成功時の data は LlmCompletion（provider・model・content）
+   */
+  private async makeLlmRequest(
+    feature: LlmFeature,
+    messages: LlmMessage[],
+    temperature: number = 0.7
+  ): Promise<ApiResponse> {
+    const prepared = await this.prepareLlmRequest(feature, messages, temperature);
+    if ('success' in prepared) return prepared;
 
+    try {
+      const completion = await completeWithProvider(prepared.providerId, prepared.request);
       return {
         success: true,
-        data: data
+        data: completion
       };
     } catch (error) {
-      console.error('OpenAI API呼び出しエラー:', error);
+      return this.toErrorResponse(error, prepared);
+    }
+  }
+
+  /**
+   * 機能ごとに設定したプロバイダーとモデルで応答を生成しながら受け取る
+   * 応答の生成が始まった時点で解決し、APIのエラーはエラーの応答として返します
+   * 生成中の通信エラーは stream の反復中の例外、中断は AbortError（isAbortError で判定）になります
+   */
+  private async makeLlmStreamRequest(
+    feature: LlmFeature,
+    messages: LlmMessage[],
+    temperature: number,
+    signal?: AbortSignal
+  ): Promise<StreamApiResponse> {
+    const prepared = await this.prepareLlmRequest(feature, messages, temperature);
+    if ('success' in prepared) return prepared;
+
+    try {
+      const stream = await streamWithProvider(prepared.providerId, prepared.request, signal);
       return {
-        success: false,
-        error: '通信エラーが発生しました'
+        success: true,
+        stream
       };
+    } catch (error) {
+      if (isAbortError(error)) return { success: false, error: 'ABORTED' };
+      return this.toErrorResponse(error, prepared);
     }
   }
 
-  public async getCodeReview(request: ReviewRequest): Promise<ApiResponse> {
+  private buildReviewMessages(request: ReviewRequest): LlmMessage[] {
     const systemPrompt = `あなたは熟練したプログラマーであり、高品質なコードレビューを提供します。
 以下のコードを分析し、次の点について具体的なフィードバックを日本語で提供してください：
 
@@ -328,15 +316,102 @@ export class OpenAIService {
       ? `\n\n追加コンテキスト情報: ${request.context}`
       : '';
 
-    const messages = [
+    return [
       { role: 'system', content: systemPrompt + contextInfo },
       { role: 'user', content: `以下の${request.language}コードをレビューしてください：\n\n\`\`\`${request.language}\n${request.code}\n\`\`\`` }
     ];
+  }
 
-    return this.makeOpenAIRequest(messages, 0.7);
+  public async getCodeReview(request: ReviewRequest): Promise<ApiResponse> {
+    return this.makeLlmRequest('review', this.buildReviewMessages(request), 0.7);
   }
 
-  public async explainCode(request: ExplainRequest): Promise<ApiResponse> {
+  /**
+   * コードレビューを生成しながら受け取る
+   * @param signal 中断用のシグナル
+   */
+  public async streamCodeReview(request: ReviewRequest, signal?: AbortSignal): Promise<StreamApiResponse> {
+    return this.makeLlmStreamRequest('review', this.buildReviewMessages(request), 0.7, signal);
+  }
+
+  private buildStructuredReviewMessages(request: ReviewRequest): LlmMessage[] {
+    const systemPrompt = `あなたは熟練したプログラマーであり、コードレビューの検出結果を機械で処理できる形式で報告します。
+コードを分析し、バグ・セキュリティ・パフォーマンス・可読性・命名・複雑さの問題を検出してください。
+応答は次の JSON スキーマに従う JSON オブジェクトのみとし、説明文やコードブロックは含めないでください：
+
+${JSON.stringify(AI_REVIEW_SCHEMA, null, 2)}
+
+- startLine・endLine はコードの左端に付けた行番号で、問題のある範囲を指定してください
+- category は問題の種類、severity は重要度（high: バグ・脆弱性、medium: 保守性を損なう問題、low: 軽微な改善）です
+- message は問題の内容と修正が必要な理由を日本語で簡潔に説明してください
+- patch は startLine〜endLine の行をそのまま置き換えるコード（行番号なし・元のインデントのまま）とし、提案できない場合は null にしてください
+- 問題がない場合は {"findings": []} を返してください`;
+
+    const contextInfo = request.context
+      ? `\n\n追加コンテキスト情報: ${request.context}`
+      : '';
+
+    return [
+      { role: 'system', content: systemPrompt + contextInfo },
+      { role: 'user', content: `以下の${request.language}コード（行番号付き）をレビューしてください：\n\n${numberCodeLines(request.code)}` }
+    ];
+  }
+
+  /**
+   * 検出結果をスキーマで検証した構造化レビューを取得
+   * 応答がスキーマに合わない場合は、誤りを伝えて STRUCTURED_REVIEW_MAX_RETRIES 回まで再試行し、
+   * 最後の応答でもスキーマに合わない検出結果は除きます
+   * 成功時の data は StructuredReviewResult
+   */
+  public async getStructuredCodeReview(request: ReviewRequest): Promise<ApiResponse> {
+    const lineCount = request.code.split('\n').length;
+    const messages = this.buildStructuredReviewMessages(request);
+
+    for (let attempt = 1; ; attempt++) {
+      const response = await this.makeLlmRequest('review', messages, 0.2);
+      if (!response.success) return response;
+
+      const { provider, model, content } = response.data;
+      const result: AiReviewParseResult = parseReviewResponse(content, lineCount);
+      const isLastAttempt = attempt > STRUCTURED_REVIEW_MAX_RETRIES;
+
+      if (result.errors.length === 0 || (isLastAttempt && result.parsed)) {
+        if (result.errors.length > 0) {
+          console.warn('構造化レビューのスキーマに合わない検出結果を除きました:', result.errors);
+        }
+        const data: StructuredReviewResult = {
+          provider,
+          model,
+          issues: toCodeIssues(result.findings, { type: 'ai', provider, model }),
+          attempts: attempt,
+          rejectedCount: result.rejectedCount
+        };
+        return {
+          success: true,
+          data
+        };
+      }
+
+      if (isLastAttempt) {
+        console.error('構造化レビューの応答を解析できませんでした:', content);
+        return {
+          success: false,
+          error: 'AIの応答を検出結果として解析できませんでした。再度お試しください。'
+        };
+      }
+
+      console.warn(`構造化レビューの応答がスキーマに合わないため再試行します（${attempt}回目）:`, result.errors);
+      messages.push(
+        { role: 'assistant', content },
+        {
+          role: 'user',
+          content: `応答がスキーマに合いません。次の誤りを修正し、スキーマに従う JSON オブジェクトのみを返してください：\n${result.errors.map(error => `- ${error}`).join('\n')}`
+        }
+      );
+    }
+  }
+
+  private buildExplainMessages(request: ExplainRequest): LlmMessage[] {
     let experienceLevelPrompt = '';
     
     switch(request.experienceLevel) {
@@ -364,12 +439,22 @@ ${experienceLevelPrompt}
 
 専門用語を使う場合は適切に解説し、必要に応じて例やアナロジーを使って概念を説明してください。`;
 
-    const messages = [
+    return [
       { role: 'system', content: systemPrompt },
       { role: 'user', content: `以下の${request.language}コードを説明してください：\n\n\`\`\`${request.language}\n${request.code}\n\`\`\`` }
     ];
+  }
+
+  public async explainCode(request: ExplainRequest): Promise<ApiResponse> {
+    return this.makeLlmRequest('explain', this.buildExplainMessages(request), 0.5);
+  }
 
-    return this.makeOpenAIRequest(messages, 0.5);
+  /**
+   * コードの解説を生成しながら受け取る
+   * @param signal 中断用のシグナル
+   */
+  public async streamCodeExplanation(request: ExplainRequest, signal?: AbortSignal): Promise<StreamApiResponse> {
+    return this.makeLlmStreamRequest('explain', this.buildExplainMessages(request), 0.5, signal);
   }
 }
 
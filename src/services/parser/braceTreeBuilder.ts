@@ -0,0 +1,176 @@
+/**
+ * 波括弧系言語の構文木構築
+ * 括弧の対応関係から関数・クラス・制御構文のブロック構造を組み立てます
+ */
+
+import { SyntaxNode, SyntaxNodeKind, Token } from './types';
+
+// ブロックの分類結果
+export interface BlockInfo {
+  kind: Exclude<SyntaxNodeKind, 'program'>;
+  name: string;
+  startLine: number;
+  params?: string[];
+}
+
+// 構文木構築オプション
+export interface BraceTreeOptions {
+  // `{` が何のブロックを開始するかを判定（関数・クラス・制御構文以外は null）
+  classifyBlock: (tokens: Token[], braceIndex: number, matches: Int32Array) => BlockInfo | null;
+  // 式本体のラムダ（`x => x * 2` など）を判定
+  describeLambda: (tokens: Token[], arrowIndex: number, matches: Int32Array) => BlockInfo | null;
+  lambdaOperators: Set<string>;
+  // 改行後にこれらのキーワードが現れたら式本体のラムダを閉じる
+  statementKeywords: Set<string>;
+}
+
+// 解析中の括弧の状態
+interface Frame {
+  closer: string;
+  node: SyntaxNode | null;
+  expression: boolean;
+}
+
+const CLOSERS: Record<string, string> = { '(': ')', '[': ']', '{': '}' };
+
+/**
+ * トークン列から構文木を構築
+ * @param tokens コメントを除いたトークン列
+ * @param matches 対応する括弧のインデックス
+ * @param options 言語ごとの判定処理
+ */
+export const buildBraceTree = (
+  tokens: Token[],
+  matches: Int32Array,
+  options: BraceTreeOptions
+): SyntaxNode => {
+  const lastLine = tokens.length > 0 ? tokens[tokens.length - 1].endLine : 1;
+  const root: SyntaxNode = { kind: 'program', name: '', startLine: 1, endLine: lastLine, children: [] };
+  const stack: Frame[] = [];
+
+  // 最も内側の構文ノードを取得
+  const currentParent = (): SyntaxNode => {
+    for (let s = stack.length - 1; s >= 0; s--) {
+      const node = stack[s].node;
+      if (node) return node;
+    }
+    return root;
+  };
+
+  const openNode = (info: BlockInfo, expression: boolean, closer: string) => {
+    const node: SyntaxNode = {
+      kind: info.kind,
+      name: info.name,
+      startLine: info.startLine,
+      endLine: info.startLine,
+      children: []
+    };
+    if (info.params) node.params = info.params;
+    if (expression) node.expressionBody = true;
+    currentParent().children.push(node);
+    stack.push({ closer, node, expression });
+  };
+
+  // 式本体のラムダを閉じる
+  const closeExpressions = (endLine: number) => {
+    while (stack.length > 0 && stack[stack.length - 1].expression) {
+      const frame = stack.pop() as Frame;
+      if (frame.node) frame.node.endLine = endLine;
+    }
+  };
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const previousLine = i > 0 ? tokens[i - 1].endLine : token.line;
+
+    // 改行後に新しい文が始まった場合は式本体のラムダを終了
+    if (token.type === 'keyword' && token.line > previousLine && options.statementKeywords.has(token.value)) {
+      closeExpressions(previousLine);
+    }
+
+    if (token.type !== 'punctuator') continue;
+    const value = token.value;
+
+    if (value === '{') {
+      const info = options.classifyBlock(tokens, i, matches);
+      if (info) {
+        openNode(info, false, '}');
+      } else {
+        stack.push({ closer: '}', node: null, expression: false });
+      }
+    } else if (value === '(' || value === '[') {
+      stack.push({ closer: CLOSERS[value], node: null, expression: false });
+    } else if (value === ')' || value === ']' || value === '}') {
+      closeExpressions(previousLine);
+      // 対応する開き括弧まで戻る（対応しない閉じ括弧は無視）
+      const frameIndex = findFrame(stack, value);
+      if (frameIndex !== -1) {
+        while (stack.length > frameIndex) {
+          const frame = stack.pop() as Frame;
+          if (frame.node) frame.node.endLine = token.line;
+        }
+      }
+    } else if (value === ',' || value === ';') {
+      closeExpressions(previousLine);
+    } else if (options.lambdaOperators.has(value)) {
+      const next = tokens[i + 1];
+      if (next && next.value !== '{') {
+        const info = options.describeLambda(tokens, i, matches);
+        if (info) openNode(info, true, '');
+      }
+    }
+  }
+
+  // 閉じられていないブロックはファイル末尾で終了
+  while (stack.length > 0) {
+    const frame = stack.pop() as Frame;
+    if (frame.node) frame.node.endLine = lastLine;
+  }
+
+  return root;
+};
+
+const findFrame = (stack: Frame[], closer: string): number => {
+  for (let s = stack.length - 1; s >= 0; s--) {
+    if (stack[s].closer === closer) return s;
+  }
+  return -1;
+};
+
+/**
+ * 文の開始位置を探す（括弧の内側は読み飛ばす）
+ * @param newlineTerminates 改行で文が終わりうる言語（Go）の場合に true
+ */
+export const findStatementStart = (
+  tokens: Token[],
+  index: number,
+  matches: Int32Array,
+  newlineTerminates = false
+): number => {
+  let j = index - 1;
+  while (j >= 0) {
+    const token = tokens[j];
+    if (token.type === 'punctuator') {
+      if ((token.value === ')' || token.value === ']') && matches[j] !== -1) {
+        j = matches[j] - 1;
+        continue;
+      }
+      if ([';', '{', '}', '(', '[', ','].includes(token.value)) {
+        return j + 1;
+      }
+    }
+    const next = tokens[j + 1];
+    if (newlineTerminates && next && next.line > token.endLine && endsGoStatement(token)) {
+      return j + 1;
+    }
+    j--;
+  }
+  return 0;
+};
+
+// Goの自動セミコロン挿入規則で文末になるトークン
+const endsGoStatement = (token: Token): boolean => {
+  if (['identifier', 'number', 'string'].includes(token.type)) return true;
+  if (token.type === 'keyword') return ['break', 'continue', 'fallthrough', 'return'].includes(token.value);
+  return ['++', '--', ')', ']', '}'].includes(token.value);
+};
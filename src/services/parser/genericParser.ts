@@ -0,0 +1,321 @@
+/**
+ * 汎用パーサー（Go/Java/C/C++/C#）
+ * tree-sitter のように文単位でブロックを分類する、波括弧系言語向けのフォールバック実装
+ */
+
+import { BlockInfo, buildBraceTree, findStatementStart } from './braceTreeBuilder';
+import { matchBrackets, significantTokens, tokenizeCStyle } from './lexer';
+import { Declaration, LanguageParser, SyntaxNode, SyntaxTree, Token } from './types';
+
+const GO_KEYWORDS = [
+  'break', 'case', 'chan', 'const', 'continue', 'default', 'defer', 'else', 'fallthrough',
+  'for', 'func', 'go', 'goto', 'if', 'import', 'interface', 'map', 'package', 'range',
+  'return', 'select', 'struct', 'switch', 'type', 'var'
+];
+
+const JAVA_KEYWORDS = [
+  'abstract', 'assert', 'boolean', 'break', 'byte', 'case', 'catch', 'char', 'class', 'const',
+  'continue', 'default', 'do', 'double', 'else', 'enum', 'extends', 'final', 'finally', 'float',
+  'for', 'goto', 'if', 'implements', 'import', 'instanceof', 'int', 'interface', 'long', 'native',
+  'new', 'package', 'private', 'protected', 'public', 'return', 'short', 'static', 'strictfp',
+  'super', 'switch', 'synchronized', 'this', 'throw', 'throws', 'transient', 'try', 'void',
+  'volatile', 'while', 'record'
+];
+
+const C_KEYWORDS = [
+  'auto', 'break', 'case', 'char', 'const', 'continue', 'default', 'do', 'double', 'else',
+  'enum', 'extern', 'float', 'for', 'goto', 'if', 'inline', 'int', 'long', 'register', 'return',
+  'short', 'signed', 'sizeof', 'static', 'struct', 'switch', 'typedef', 'union', 'unsigned',
+  'void', 'volatile', 'while'
+];
+
+const CPP_KEYWORDS = [
+  ...C_KEYWORDS,
+  'class', 'namespace', 'new', 'delete', 'template', 'typename', 'public', 'private',
+  'protected', 'virtual', 'try', 'catch', 'throw', 'using', 'operator', 'this'
+];
+
+const CSHARP_KEYWORDS = [
+  'abstract', 'as', 'base', 'bool', 'break', 'byte', 'case', 'catch', 'char', 'checked', 'class',
+  'const', 'continue', 'decimal', 'default', 'delegate', 'do', 'double', 'else', 'enum', 'event',
+  'explicit', 'extern', 'false', 'finally', 'fixed', 'float', 'for', 'foreach', 'goto', 'if',
+  'implicit', 'in', 'int', 'interface', 'internal', 'is', 'lock', 'long', 'namespace', 'new',
+  'null', 'object', 'operator', 'out', 'override', 'params', 'private', 'protected', 'public',
+  'readonly', 'ref', 'return', 'sbyte', 'sealed', 'short', 'sizeof', 'stackalloc', 'static',
+  'string', 'struct', 'switch', 'this', 'throw', 'true', 'try', 'typeof', 'uint', 'ulong',
+  'unchecked', 'unsafe', 'ushort', 'using', 'virtual', 'void', 'volatile', 'while', 'record'
+];
+
+const LANGUAGE_KEYWORDS: Record<string, Set<string>> = {
+  go: new Set(GO_KEYWORDS),
+  java: new Set(JAVA_KEYWORDS),
+  c: new Set(C_KEYWORDS),
+  cpp: new Set(CPP_KEYWORDS),
+  csharp: new Set(CSHARP_KEYWORDS)
+};
+
+// ブロックを取る制御構文
+const CONTROL_KEYWORDS = new Set([
+  'if', 'else', 'for', 'foreach', 'while', 'do', 'switch', 'try', 'catch', 'finally',
+  'select', 'synchronized', 'lock', 'using', 'fixed', 'unsafe', 'checked', 'unchecked'
+]);
+
+// クラス相当の型宣言
+const CLASS_KEYWORDS = new Set(['class', 'struct', 'record', 'union']);
+
+// ブロック構造として扱わない宣言（名前空間・インターフェースなど）
+const CONTAINER_KEYWORDS = new Set(['interface', 'enum', 'namespace', 'extern', 'new']);
+
+// 改行後に現れたら新しい文とみなすキーワード
+const STATEMENT_KEYWORDS = new Set(['if', 'for', 'while', 'return', 'switch', 'try', 'var', 'const']);
+
+const isPunctuator = (token: Token | undefined, value: string): boolean =>
+  !!token && token.type === 'punctuator' && token.value === value;
+
+/**
+ * 引数リストから引数名を抽出
+ * Goは「名前 型」、その他は「型 名前」の順で宣言される
+ */
+const extractParams = (tokens: Token[], open: number, close: number, nameFirst: boolean): string[] => {
+  const params: string[] = [];
+  let current: Token[] = [];
+  let depth = 0;
+  let inDefault = false;
+
+  const flush = () => {
+    const identifiers = current.filter(token => token.type === 'identifier');
+    if (identifiers.length > 0) {
+      params.push((nameFirst ? identifiers[0] : identifiers[identifiers.length - 1]).value);
+    }
+    current = [];
+    inDefault = false;
+  };
+
+  for (let j = open + 1; j < close; j++) {
+    const token = tokens[j];
+    if (token.type === 'punctuator') {
+      if (['(', '[', '{', '<'].includes(token.value)) depth++;
+      else if ([')', ']', '}', '>'].includes(token.value)) depth--;
+      else if (token.value === ',' && depth === 0) {
+        flush();
+        continue;
+      } else if (token.value === '=' && depth === 0) {
+        // 既定値（C#/C++）以降は引数名に含めない
+        inDefault = true;
+      }
+    }
+    if (depth === 0 && !inDefault) current.push(token);
+  }
+  flush();
+  return params;
+};
+
+/**
+ * 文の先頭にあるアノテーション・属性・ラベルを読み飛ばす
+ */
+const skipPrefixes = (tokens: Token[], start: number, end: number, matches: Int32Array): number => {
+  let k = start;
+  while (k < end) {
+    const token = tokens[k];
+    if (isPunctuator(token, '@') && tokens[k + 1]?.type !== 'string') {
+      // Java のアノテーション（@Override, @RequestMapping("/")）
+      k += 2;
+      while (isPunctuator(tokens[k], '.') && k + 1 < end) k += 2;
+      if (isPunctuator(tokens[k], '(') && matches[k] !== -1) k = matches[k] + 1;
+      continue;
+    }
+    if (isPunctuator(token, '[') && matches[k] !== -1 && matches[k] < end) {
+      // C# の属性（[HttpGet]）
+      k = matches[k] + 1;
+      continue;
+    }
+    if (token.type === 'identifier' && isPunctuator(tokens[k + 1], ':') && !isPunctuator(tokens[k + 2], ':')) {
+      // ラベル付き文（outer: for ...）
+      k += 2;
+      continue;
+    }
+    break;
+  }
+  return k;
+};
+
+/**
+ * 言語ごとのブロック分類処理を生成
+ */
+const createClassifier = (language: string) => {
+  const isGo = language === 'go';
+
+  // ラムダ式（Java の ->、C# の =>）
+  const describeLambda = (tokens: Token[], arrowIndex: number, matches: Int32Array): BlockInfo => {
+    let paramsStart = arrowIndex - 1;
+    let params: string[] = [];
+    const before = tokens[paramsStart];
+    if (isPunctuator(before, ')') && matches[paramsStart] !== -1) {
+      paramsStart = matches[paramsStart];
+      params = extractParams(tokens, paramsStart, arrowIndex - 1, false);
+    } else if (before?.type === 'identifier') {
+      params = [before.value];
+    }
+    return { kind: 'function', name: '', startLine: tokens[Math.max(0, paramsStart)].line, params };
+  };
+
+  const classifyBlock = (tokens: Token[], braceIndex: number, matches: Int32Array): BlockInfo | null => {
+    const previous = tokens[braceIndex - 1];
+    if (!previous) return null;
+
+    if (isPunctuator(previous, '->') || isPunctuator(previous, '=>')) {
+      return describeLambda(tokens, braceIndex - 1, matches);
+    }
+
+    const statementStart = findStatementStart(tokens, braceIndex, matches, isGo);
+    const start = skipPrefixes(tokens, statementStart, braceIndex, matches);
+    const first = tokens[start];
+    if (!first || start >= braceIndex) return null;
+
+    // 制御構文
+    if (first.type === 'keyword' && CONTROL_KEYWORDS.has(first.value)) {
+      return { kind: 'control', name: first.value, startLine: first.line };
+    }
+
+    // 文中の括弧の外側にあるトークンだけを調べる
+    const topLevel: number[] = [];
+    for (let j = start; j < braceIndex; j++) {
+      topLevel.push(j);
+      const token = tokens[j];
+      if ((isPunctuator(token, '(') || isPunctuator(token, '[')) && matches[j] !== -1 && matches[j] < braceIndex) {
+        j = matches[j];
+        topLevel.push(j);
+      }
+    }
+
+    // Go の関数宣言・メソッド・関数リテラル
+    if (isGo) {
+      const funcIndex = topLevel.find(j => tokens[j].type === 'keyword' && tokens[j].value === 'func');
+      if (funcIndex !== undefined) {
+        let j = funcIndex + 1;
+        let name = '';
+        if (isPunctuator(tokens[j], '(') && matches[j] !== -1) {
+          // レシーバー付きメソッド
+          const afterReceiver = matches[j] + 1;
+          if (tokens[afterReceiver]?.type === 'identifier') {
+            name = tokens[afterReceiver].value;
+            j = afterReceiver + 1;
+          }
+        } else if (tokens[j]?.type === 'identifier') {
+          name = tokens[j].value;
+          j++;
+        }
+        if (isPunctuator(tokens[j], '[') && matches[j] !== -1) j = matches[j] + 1; // 型パラメータ
+        const params = isPunctuator(tokens[j], '(') && matches[j] !== -1
+          ? extractParams(tokens, j, matches[j], true)
+          : [];
+        return { kind: 'function', name, startLine: tokens[funcIndex].line, params };
+      }
+      // type Name struct {}
+      const structIndex = topLevel.find(j => tokens[j].value === 'struct');
+      if (structIndex !== undefined) {
+        const typeIndex = topLevel.find(j => tokens[j].value === 'type');
+        const name = typeIndex !== undefined && tokens[typeIndex + 1]?.type === 'identifier' ? tokens[typeIndex + 1].value : '';
+        return name ? { kind: 'class', name, startLine: tokens[typeIndex as number].line } : null;
+      }
+      return null;
+    }
+
+    // クラス・構造体の宣言
+    for (const j of topLevel) {
+      const token = tokens[j];
+      if (token.type !== 'keyword') continue;
+      if (CONTAINER_KEYWORDS.has(token.value)) return null;
+      if (CLASS_KEYWORDS.has(token.value)) {
+        if (tokens[j - 1]?.value === 'enum') return null; // C++ の enum class
+        const name = tokens[j + 1];
+        return {
+          kind: 'class',
+          name: name?.type === 'identifier' ? name.value : '',
+          startLine: tokens[start].line
+        };
+      }
+    }
+
+    // C++ のラムダ式（[&](int x) {}）
+    const lastParen = [...topLevel].reverse().find(j => isPunctuator(tokens[j], '(') && matches[j] !== -1);
+    if (lastParen !== undefined && isPunctuator(tokens[lastParen - 1], ']')) {
+      return {
+        kind: 'function',
+        name: '',
+        startLine: tokens[lastParen - 1].line,
+        params: extractParams(tokens, lastParen, matches[lastParen], false)
+      };
+    }
+
+    // 関数・メソッド定義（戻り値型 名前(引数) {）
+    const firstParen = topLevel.find(j => isPunctuator(tokens[j], '('));
+    if (firstParen === undefined || matches[firstParen] === -1) return null;
+    const hasInitializer = topLevel.some(j => j < firstParen && (isPunctuator(tokens[j], '=') || isPunctuator(tokens[j], ':=')));
+    if (hasInitializer) return null;
+    const nameToken = tokens[firstParen - 1];
+    if (!nameToken || nameToken.type !== 'identifier') return null;
+
+    return {
+      kind: 'function',
+      name: nameToken.value,
+      startLine: tokens[start].line,
+      params: extractParams(tokens, firstParen, matches[firstParen], false)
+    };
+  };
+
+  return { classifyBlock, describeLambda };
+};
+
+/**
+ * 構文木から関数・クラスの宣言を収集
+ */
+const collectDeclarations = (root: SyntaxNode): Declaration[] => {
+  const declarations: Declaration[] = [];
+  const visit = (node: SyntaxNode) => {
+    if ((node.kind === 'function' || node.kind === 'class') && node.name) {
+      declarations.push({ name: node.name, kind: node.kind, line: node.startLine, column: 1 });
+    }
+    node.children.forEach(visit);
+  };
+  visit(root);
+  return declarations;
+};
+
+/**
+ * 波括弧系言語のコードを解析
+ */
+const parseGeneric = (code: string, language: string): SyntaxTree => {
+  const keywords = LANGUAGE_KEYWORDS[language] || LANGUAGE_KEYWORDS.c;
+  const tokens = tokenizeCStyle(code, {
+    keywords,
+    rawStrings: language === 'go',
+    verbatimStrings: language === 'csharp',
+    preprocessor: language === 'c' || language === 'cpp' || language === 'csharp'
+  });
+  const significant = significantTokens(tokens);
+  const matches = matchBrackets(significant);
+  const { classifyBlock, describeLambda } = createClassifier(language);
+
+  const root = buildBraceTree(significant, matches, {
+    classifyBlock,
+    describeLambda,
+    lambdaOperators: new Set(language === 'java' ? ['->'] : language === 'csharp' ? ['=>'] : []),
+    statementKeywords: STATEMENT_KEYWORDS
+  });
+
+  return {
+    language,
+    root,
+    tokens,
+    comments: tokens.filter(token => token.type === 'comment'),
+    declarations: collectDeclarations(root)
+  };
+};
+
+export const genericParser: LanguageParser = {
+  languages: ['go', 'java', 'c', 'cpp', 'csharp'],
+  parse: parseGeneric
+};
+
+export default genericParser;
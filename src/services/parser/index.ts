@@ -0,0 +1,168 @@
+/**
+ * 構文解析サービス
+ * 言語ごとのパーサーを登録・選択し、各分析サービスに構文木を提供します
+ */
+
+import genericParser from './genericParser';
+import javascriptParser from './javascriptParser';
+import pythonParser from './pythonParser';
+import { LanguageParser, SyntaxNode, SyntaxTree, Token } from './types';
+
+export * from './types';
+
+// 登録済みパーサー（言語ID → パーサー）
+const parsers = new Map<string, LanguageParser>();
+
+// 別名で扱う言語（Jupyter NotebookはPythonとして解析）
+const LANGUAGE_ALIASES: Record<string, string> = {
+  jupyter: 'python'
+};
+
+// 同じコードを複数の分析で解析し直さないためのキャッシュ
+const MAX_CACHED_TREES = 16;
+const treeCache = new Map<string, SyntaxTree>();
+
+/**
+ * パーサーを登録（既存の言語は上書き）
+ */
+export const registerParser = (parser: LanguageParser): void => {
+  parser.languages.forEach(language => parsers.set(language, parser));
+  treeCache.clear();
+};
+
+registerParser(javascriptParser);
+registerParser(pythonParser);
+registerParser(genericParser);
+
+/**
+ * 言語IDを正規化
+ */
+const resolveLanguage = (language: string): string => {
+  const normalized = language.toLowerCase();
+  return LANGUAGE_ALIASES[normalized] || normalized;
+};
+
+/**
+ * 言語に対応するパーサーを取得（未登録の言語は汎用パーサー）
+ */
+export const getParser = (language: string): LanguageParser =>
+  parsers.get(resolveLanguage(language)) || genericParser;
+
+/**
+ * コードを解析して構文木を取得
+ */
+export const parseCode = (code: string, language: string): SyntaxTree => {
+  const resolved = resolveLanguage(language);
+  const cacheKey = `${resolved}\u0000${code}`;
+  const cached = treeCache.get(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  const tree = getParser(resolved).parse(code, resolved);
+
+  treeCache.set(cacheKey, tree);
+  if (treeCache.size > MAX_CACHED_TREES) {
+    // 最も古いエントリを削除
+    const oldestKey = treeCache.keys().next().value;
+    if (oldestKey !== undefined) treeCache.delete(oldestKey);
+  }
+
+  return tree;
+};
+
+/**
+ * 構文木を深さ優先で走査
+ * @param visitor ノードと、ファイル直下を1とするネスト深度を受け取る
+ */
+export const walkSyntaxTree = (
+  node: SyntaxNode,
+  visitor: (node: SyntaxNode, depth: number, ancestors: SyntaxNode[]) => void,
+  depth = 0,
+  ancestors: SyntaxNode[] = []
+): void => {
+  if (node.kind !== 'program') {
+    visitor(node, depth, ancestors);
+  }
+  const nextAncestors = node.kind === 'program' ? ancestors : [...ancestors, node];
+  node.children.forEach(child => walkSyntaxTree(child, visitor, depth + 1, nextAncestors));
+};
+
+/**
+ * 関数ノードを出現順に取得
+ */
+export const getFunctionNodes = (tree: SyntaxTree): SyntaxNode[] => {
+  const functions: SyntaxNode[] = [];
+  walkSyntaxTree(tree.root, node => {
+    if (node.kind === 'function') functions.push(node);
+  });
+  return functions;
+};
+
+/**
+ * 最大ネスト深度を計算（関数・クラス・制御構文のブロックの入れ子）
+ */
+export const getMaxNestingDepth = (tree: SyntaxTree): number => {
+  let maxDepth = 0;
+  walkSyntaxTree(tree.root, (_node, depth) => {
+    maxDepth = Math.max(maxDepth, depth);
+  });
+  return maxDepth;
+};
+
+/**
+ * 指定した深さに最初に到達するノードを取得
+ */
+export const findFirstNodeAtDepth = (tree: SyntaxTree, targetDepth: number): SyntaxNode | null => {
+  let found: SyntaxNode | null = null;
+  walkSyntaxTree(tree.root, (node, depth) => {
+    if (depth >= targetDepth && (!found || node.startLine < found.startLine)) {
+      found = node;
+    }
+  });
+  return found;
+};
+
+// コメントとレイアウト用トークン（改行・インデント）を除外
+const isCodeToken = (token: Token): boolean =>
+  !['comment', 'newline', 'indent', 'dedent'].includes(token.type);
+
+/**
+ * コメントのみで構成される行番号を取得
+ */
+export const getCommentOnlyLines = (tree: SyntaxTree): Set<number> => {
+  const codeLines = new Set<number>();
+  const commentTokens = new Set(tree.comments);
+
+  for (const token of tree.tokens) {
+    if (!isCodeToken(token) || commentTokens.has(token)) continue;
+    for (let line = token.line; line <= token.endLine; line++) {
+      codeLines.add(line);
+    }
+  }
+
+  const commentLines = new Set<number>();
+  for (const comment of tree.comments) {
+    for (let line = comment.line; line <= comment.endLine; line++) {
+      if (!codeLines.has(line)) commentLines.add(line);
+    }
+  }
+  return commentLines;
+};
+
+/**
+ * コメント以外のトークンを取得
+ */
+export const getCodeTokens = (tree: SyntaxTree): Token[] => tree.tokens.filter(isCodeToken);
+
+export default {
+  registerParser,
+  getParser,
+  parseCode,
+  walkSyntaxTree,
+  getFunctionNodes,
+  getMaxNestingDepth,
+  findFirstNodeAtDepth,
+  getCommentOnlyLines,
+  getCodeTokens
+};
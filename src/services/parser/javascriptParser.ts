@@ -0,0 +1,373 @@
+/**
+ * JavaScript/TypeScript パーサー
+ * 文字列・テンプレートリテラル・コメント・アロー関数を考慮した構文木を生成します
+ */
+
+import { BlockInfo, buildBraceTree, findStatementStart } from './braceTreeBuilder';
+import { matchBrackets, significantTokens, tokenizeCStyle } from './lexer';
+import { Declaration, LanguageParser, SyntaxTree, Token } from './types';
+
+const KEYWORDS = new Set([
+  'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default', 'delete',
+  'do', 'else', 'export', 'extends', 'finally', 'for', 'function', 'if', 'import', 'in',
+  'instanceof', 'let', 'new', 'return', 'super', 'switch', 'this', 'throw', 'try', 'typeof',
+  'var', 'void', 'while', 'with', 'yield', 'await', 'null', 'true', 'false',
+  'interface', 'enum', 'implements'
+]);
+
+// 括弧付きの条件を取る制御構文
+const CONDITIONAL_KEYWORDS = new Set(['if', 'for', 'while', 'switch', 'catch', 'with']);
+
+// 条件なしでブロックを取る制御構文
+const BLOCK_KEYWORDS = new Set(['else', 'try', 'finally', 'do']);
+
+// 改行後に現れたら新しい文とみなすキーワード
+const STATEMENT_KEYWORDS = new Set([
+  'const', 'let', 'var', 'function', 'class', 'return', 'if', 'for', 'while', 'do',
+  'switch', 'try', 'throw', 'export', 'import', 'break', 'continue', 'interface', 'enum'
+]);
+
+// クラス以外の型宣言（ブロック構造として扱わない）
+const TYPE_DECLARATION_WORDS = new Set(['interface', 'enum', 'namespace', 'module', 'type', 'declare']);
+
+// 戻り値型注釈をさかのぼるときに止まる宣言キーワード（前の文に入り込まない）
+const DECLARATION_BOUNDARY_WORDS = new Set(['class', 'interface', 'enum', 'type']);
+
+// 型リテラル（`: { a: T }`）の波括弧の直前に来るトークン（それ以外の `}` は前の文のブロック）
+const TYPE_LITERAL_PRECEDING = new Set([':', '|', '&', '<', ',', '(', '[']);
+
+const isPunctuator = (token: Token | undefined, value: string): boolean =>
+  !!token && token.type === 'punctuator' && token.value === value;
+
+/**
+ * 関数の戻り値型注釈（`(a): Promise<T> {`）の前にある閉じ括弧を探す
+ * 文の区切り（ブロックの `}`・`;`・宣言キーワード）を越えてはさかのぼりません
+ */
+export const findAnnotatedParamsClose = (tokens: Token[], index: number, matches: Int32Array): number => {
+  // `Promise<{` などの `{` は型リテラル
+  if (TYPE_LITERAL_PRECEDING.has(tokens[index - 1]?.value ?? '')) return -1;
+  let j = index - 1;
+  for (let steps = 0; j > 0 && steps < 40; steps++) {
+    const token = tokens[j];
+    if (token.type !== 'punctuator' && DECLARATION_BOUNDARY_WORDS.has(token.value)) {
+      return -1;
+    }
+    if (token.type === 'punctuator') {
+      if (token.value === ':') {
+        return isPunctuator(tokens[j - 1], ')') ? j - 1 : -1;
+      }
+      if (token.value === '}' && matches[j] !== -1 && !TYPE_LITERAL_PRECEDING.has(tokens[matches[j] - 1]?.value ?? '')) {
+        return -1;
+      }
+      if ((token.value === ')' || token.value === ']' || token.value === '}') && matches[j] !== -1) {
+        j = matches[j] - 1;
+        continue;
+      }
+      if ([';', '{', '(', '[', '=', '=>', ','].includes(token.value)) {
+        return -1;
+      }
+    }
+    j--;
+  }
+  return -1;
+};
+
+/**
+ * 引数リストから引数名を抽出
+ */
+const extractParams = (tokens: Token[], open: number, close: number): string[] => {
+  const params: string[] = [];
+  let depth = 0;
+  for (let j = open + 1; j < close; j++) {
+    const token = tokens[j];
+    if (token.type === 'punctuator') {
+      if (['(', '[', '{', '<'].includes(token.value)) depth++;
+      else if ([')', ']', '}', '>'].includes(token.value)) depth--;
+      continue;
+    }
+    if (depth !== 0 || token.type !== 'identifier') continue;
+    const before = tokens[j - 1];
+    const after = tokens[j + 1];
+    const startsParam = j === open + 1 || isPunctuator(before, ',') || isPunctuator(before, '...');
+    const endsName = [',', ')', '=', ':', '?'].includes(after?.value ?? '');
+    if (startsParam && endsName) {
+      params.push(token.value);
+    }
+  }
+  return params;
+};
+
+/**
+ * アロー関数の情報を取得
+ */
+const describeArrow = (tokens: Token[], arrowIndex: number, matches: Int32Array): BlockInfo => {
+  let paramsStart = arrowIndex - 1;
+  let params: string[] = [];
+  const before = tokens[paramsStart];
+
+  if (before && before.type === 'identifier') {
+    params = [before.value];
+  } else {
+    const close = isPunctuator(before, ')') ? paramsStart : findAnnotatedParamsClose(tokens, arrowIndex, matches);
+    if (close !== -1 && matches[close] !== -1) {
+      paramsStart = matches[close];
+      params = extractParams(tokens, paramsStart, close);
+    }
+  }
+
+  if (tokens[paramsStart - 1]?.value === 'async') {
+    paramsStart--;
+  }
+
+  return {
+    kind: 'function',
+    name: findAssignedName(tokens, paramsStart),
+    startLine: tokens[Math.max(0, paramsStart)].line,
+    params
+  };
+};
+
+/**
+ * 関数式が代入される変数名・プロパティ名を取得（`const foo = () => {}` の foo）
+ */
+const findAssignedName = (tokens: Token[], expressionStart: number): string => {
+  const operator = tokens[expressionStart - 1];
+  if (!operator || operator.type !== 'punctuator') return '';
+
+  if (operator.value === ':' || operator.value === '=') {
+    // 型注釈付きの変数宣言（`const foo: Handler = ...`）は宣言キーワードまで遡る
+    if (operator.value === '=') {
+      for (let j = expressionStart - 2; j >= 0 && j >= expressionStart - 15; j--) {
+        const token = tokens[j];
+        if (token.type === 'keyword' && ['const', 'let', 'var'].includes(token.value)) {
+          const name = tokens[j + 1];
+          return name?.type === 'identifier' ? name.value : '';
+        }
+        if (token.type === 'punctuator' && [';', '{', '}', '=>'].includes(token.value)) break;
+      }
+    }
+    const name = tokens[expressionStart - 2];
+    if (name && (name.type === 'identifier' || name.type === 'string')) {
+      return name.value.replace(/^['"]|['"]$/g, '');
+    }
+  }
+  return '';
+};
+
+/**
+ * `{` が開始するブロックを分類
+ */
+const classifyBlock = (tokens: Token[], braceIndex: number, matches: Int32Array): BlockInfo | null => {
+  const previous = tokens[braceIndex - 1];
+  if (!previous) return null;
+
+  // アロー関数のブロック本体
+  if (isPunctuator(previous, '=>')) {
+    return describeArrow(tokens, braceIndex - 1, matches);
+  }
+
+  // else / try / finally / do
+  if (previous.type === 'keyword' && BLOCK_KEYWORDS.has(previous.value)) {
+    return { kind: 'control', name: previous.value, startLine: previous.line };
+  }
+
+  // 括弧付きの構文（制御構文・関数宣言・メソッド）
+  const close = isPunctuator(previous, ')') ? braceIndex - 1 : findAnnotatedParamsClose(tokens, braceIndex, matches);
+  if (close !== -1 && matches[close] > 0) {
+    const open = matches[close];
+    const head = tokens[open - 1];
+
+    if (head.type === 'keyword' && CONDITIONAL_KEYWORDS.has(head.value)) {
+      return { kind: 'control', name: head.value, startLine: head.line };
+    }
+    if (head.type === 'keyword' && head.value === 'await' && tokens[open - 2]?.value === 'for') {
+      return { kind: 'control', name: 'for', startLine: tokens[open - 2].line };
+    }
+
+    const params = extractParams(tokens, open, close);
+
+    // function () {} / function* () {}
+    if (head.value === 'function' || (isPunctuator(head, '*') && tokens[open - 2]?.value === 'function')) {
+      const keyword = head.value === 'function' ? open - 1 : open - 2;
+      return { kind: 'function', name: findAssignedName(tokens, keyword), startLine: tokens[keyword].line, params };
+    }
+
+    // 総称型メソッド（foo<T>() {}）は型引数を読み飛ばす
+    let nameIndex = open - 1;
+    if (isPunctuator(head, '>')) {
+      for (let j = open - 2; j >= 0 && j >= open - 20; j--) {
+        if (isPunctuator(tokens[j], '<')) {
+          nameIndex = j - 1;
+          break;
+        }
+      }
+    }
+    const nameToken = tokens[nameIndex];
+
+    if (nameToken && nameToken.type === 'identifier') {
+      // function foo() {} / function* foo() {}
+      const beforeName = tokens[nameIndex - 1];
+      const keyword = beforeName?.value === 'function'
+        ? nameIndex - 1
+        : isPunctuator(beforeName, '*') && tokens[nameIndex - 2]?.value === 'function' ? nameIndex - 2 : -1;
+      if (keyword !== -1) {
+        return { kind: 'function', name: nameToken.value, startLine: tokens[keyword].line, params };
+      }
+      // クラス・オブジェクトのメソッド
+      return { kind: 'function', name: nameToken.value, startLine: nameToken.line, params };
+    }
+
+    // 計算されたプロパティ名のメソッド（[Symbol.iterator]() {}）
+    if (isPunctuator(head, ']')) {
+      return { kind: 'function', name: '', startLine: head.line, params };
+    }
+  }
+
+  // クラス宣言・クラス式
+  const statementStart = findStatementStart(tokens, braceIndex, matches);
+  for (let j = statementStart; j < braceIndex; j++) {
+    const token = tokens[j];
+    if (TYPE_DECLARATION_WORDS.has(token.value) && token.type !== 'punctuator') {
+      // interface / enum / namespace の本体
+      if (j === statementStart || tokens[j - 1].value === 'export' || tokens[j - 1].value === 'declare') {
+        return null;
+      }
+    }
+    if (token.type === 'keyword' && token.value === 'class') {
+      const name = tokens[j + 1];
+      const hasAssignment = tokens.slice(j, braceIndex).some(t => isPunctuator(t, '=') || isPunctuator(t, '=>'));
+      if (hasAssignment) return null;
+      return {
+        kind: 'class',
+        name: name && name.type === 'identifier' ? name.value : findAssignedName(tokens, j),
+        startLine: token.line
+      };
+    }
+  }
+
+  // オブジェクトリテラル・型リテラル・単独ブロック
+  return null;
+};
+
+/**
+ * 分割代入パターンから束縛される識別子を抽出
+ */
+const collectPatternBindings = (tokens: Token[], open: number, close: number, results: Token[]) => {
+  for (let j = open + 1; j < close; j++) {
+    const token = tokens[j];
+    if (token.type !== 'identifier') continue;
+    const before = tokens[j - 1];
+    const after = tokens[j + 1];
+    if (isPunctuator(before, '=') || isPunctuator(before, '.')) continue;
+    if ([',', '}', ']', '='].includes(after?.value ?? '')) {
+      results.push(token);
+    }
+  }
+};
+
+/**
+ * 変数・関数・クラスの宣言を収集
+ */
+const collectDeclarations = (tokens: Token[], matches: Int32Array): Declaration[] => {
+  const declarations: Declaration[] = [];
+  const add = (token: Token, kind: Declaration['kind']) =>
+    declarations.push({ name: token.value, kind, line: token.line, column: token.column });
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.type !== 'keyword') continue;
+
+    if (token.value === 'function') {
+      const next = isPunctuator(tokens[i + 1], '*') ? tokens[i + 2] : tokens[i + 1];
+      if (next?.type === 'identifier') add(next, 'function');
+      continue;
+    }
+
+    if (token.value === 'class') {
+      const next = tokens[i + 1];
+      if (next?.type === 'identifier') add(next, 'class');
+      continue;
+    }
+
+    if (!['const', 'let', 'var'].includes(token.value)) continue;
+
+    // 宣言リスト（let a = 1, b = 2）を走査
+    let expectBinding = true;
+    let depth = 0;
+    for (let j = i + 1; j < tokens.length; j++) {
+      const current = tokens[j];
+      const previous = tokens[j - 1];
+
+      // セミコロンなしで改行された新しい文
+      if (depth === 0 && j > i + 1 && current.line > previous.endLine &&
+          (current.type === 'keyword' || current.type === 'identifier') &&
+          !(previous.type === 'punctuator' && !['}', ')', ']'].includes(previous.value))) {
+        break;
+      }
+
+      if (depth === 0 && expectBinding) {
+        expectBinding = false;
+        if (current.type === 'identifier') {
+          add(current, 'variable');
+          continue;
+        }
+        if ((isPunctuator(current, '{') || isPunctuator(current, '[')) && matches[j] !== -1) {
+          const bindings: Token[] = [];
+          collectPatternBindings(tokens, j, matches[j], bindings);
+          bindings.forEach(binding => add(binding, 'variable'));
+          j = matches[j];
+          continue;
+        }
+      }
+
+      if (current.type === 'keyword' && (current.value === 'in' || current.value === 'of') && depth === 0) break;
+      if (current.type !== 'punctuator') {
+        if (current.value === 'of' && depth === 0) break;
+        continue;
+      }
+      if (['(', '[', '{'].includes(current.value)) depth++;
+      else if ([')', ']', '}'].includes(current.value)) {
+        depth--;
+        if (depth < 0) break;
+      } else if (current.value === ';' && depth === 0) break;
+      else if (current.value === ',' && depth === 0) expectBinding = true;
+    }
+  }
+
+  return declarations;
+};
+
+/**
+ * JavaScript/TypeScript のコードを解析
+ */
+const parseJavaScript = (code: string, language: string): SyntaxTree => {
+  const tokens = tokenizeCStyle(code, {
+    keywords: KEYWORDS,
+    regexLiterals: true,
+    templateLiterals: true
+  });
+  const significant = significantTokens(tokens);
+  const matches = matchBrackets(significant);
+
+  const root = buildBraceTree(significant, matches, {
+    classifyBlock,
+    describeLambda: describeArrow,
+    lambdaOperators: new Set(['=>']),
+    statementKeywords: STATEMENT_KEYWORDS
+  });
+
+  return {
+    language,
+    root,
+    tokens,
+    comments: tokens.filter(token => token.type === 'comment'),
+    declarations: collectDeclarations(significant, matches)
+  };
+};
+
+export const javascriptParser: LanguageParser = {
+  languages: ['javascript', 'typescript'],
+  parse: parseJavaScript
+};
+
+export default javascriptParser;
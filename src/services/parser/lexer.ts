@@ -0,0 +1,383 @@
+/**
+ * 字句解析の共通処理
+ * 波括弧系言語（JavaScript/TypeScript/Go/Java/C/C++/C#）向けのトークナイザーを提供します
+ */
+
+import { Token, TokenType } from './types';
+
+// C系言語オプション
+export interface CStyleLexerOptions {
+  keywords: Set<string>;
+  regexLiterals?: boolean;     // `/.../` 正規表現リテラル（JavaScript）
+  templateLiterals?: boolean;  // `...${}...` テンプレートリテラル（JavaScript）
+  rawStrings?: boolean;        // `...` 生文字列リテラル（Go）
+  verbatimStrings?: boolean;   // @"..." 逐語的文字列リテラル（C#）
+  preprocessor?: boolean;      // #include などのプリプロセッサ行（C/C++/C#）
+}
+
+// 複数文字の演算子（長いものから順に判定）
+const MULTI_CHAR_PUNCTUATORS = [
+  '>>>=', '...', '===', '!==', '**=', '<<=', '>>=', '>>>', '&&=', '||=', '??=',
+  '=>', '==', '!=', '<=', '>=', '&&', '||', '??', '?.', '++', '--', '+=', '-=',
+  '*=', '/=', '%=', '&=', '|=', '^=', '**', '<<', '>>', '->', '::', ':='
+];
+
+// 正規表現リテラルの直前に来うるキーワード
+const REGEX_PRECEDING_KEYWORDS = new Set([
+  'return', 'typeof', 'case', 'do', 'else', 'in', 'of', 'new', 'delete',
+  'void', 'throw', 'instanceof', 'yield', 'await'
+]);
+
+const IDENTIFIER_START = /[A-Za-z_$\u00C0-\uFFFF]/;
+const IDENTIFIER_PART = /[\w$\u00C0-\uFFFF]/y;
+const NUMBER_PATTERN = /(?:0[xXbBoO][0-9a-fA-F_]+n?|(?:\d[\d_]*\.?[\d_]*|\.\d[\d_]*)(?:[eE][+-]?\d+)?[a-zA-Z]*)/y;
+
+/**
+ * オフセットから行・列を求めるためのインデックスを作成
+ */
+export const createLineIndex = (code: string) => {
+  const lineStarts = [0];
+  for (let i = 0; i < code.length; i++) {
+    if (code.charCodeAt(i) === 10) {
+      lineStarts.push(i + 1);
+    }
+  }
+
+  // 二分探索で行番号を特定
+  const lineAt = (offset: number): number => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (lineStarts[mid] <= offset) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return low + 1;
+  };
+
+  const columnAt = (offset: number): number => offset - lineStarts[lineAt(offset) - 1] + 1;
+
+  return { lineAt, columnAt, lineStarts };
+};
+
+/**
+ * トークンを生成するヘルパー
+ */
+export const createTokenFactory = (code: string) => {
+  const { lineAt, columnAt } = createLineIndex(code);
+
+  return (type: TokenType, start: number, end: number): Token => ({
+    type,
+    value: code.slice(start, end),
+    start,
+    end,
+    line: lineAt(start),
+    column: columnAt(start),
+    endLine: lineAt(Math.max(start, end - 1))
+  });
+};
+
+/**
+ * 引用符で囲まれた文字列の終端を探す（エスケープを考慮）
+ */
+export const scanQuoted = (code: string, start: number, quote: string, multiline: boolean): number => {
+  let i = start + quote.length;
+  while (i < code.length) {
+    const char = code[i];
+    if (char === '\\') {
+      i += 2;
+      continue;
+    }
+    if (code.startsWith(quote, i)) {
+      return i + quote.length;
+    }
+    if (char === '\n' && !multiline) {
+      // 閉じられていない文字列は行末で打ち切る
+      return i;
+    }
+    i++;
+  }
+  return code.length;
+};
+
+/**
+ * テンプレートリテラルの終端を探す（${...} 内の入れ子を考慮）
+ */
+const scanTemplate = (code: string, start: number): number => {
+  let i = start + 1;
+  while (i < code.length) {
+    const char = code[i];
+    if (char === '\\') {
+      i += 2;
+      continue;
+    }
+    if (char === '`') {
+      return i + 1;
+    }
+    if (char === '$' && code[i + 1] === '{') {
+      i = scanInterpolation(code, i + 2);
+      continue;
+    }
+    i++;
+  }
+  return code.length;
+};
+
+/**
+ * テンプレート内の式部分（${ の直後から対応する } まで）を読み飛ばす
+ */
+const scanInterpolation = (code: string, start: number): number => {
+  let depth = 1;
+  let i = start;
+  while (i < code.length && depth > 0) {
+    const char = code[i];
+    if (char === '\'' || char === '"') {
+      i = scanQuoted(code, i, char, false);
+      continue;
+    }
+    if (char === '`') {
+      i = scanTemplate(code, i);
+      continue;
+    }
+    if (char === '/' && code[i + 1] === '/') {
+      const newline = code.indexOf('\n', i);
+      i = newline === -1 ? code.length : newline;
+      continue;
+    }
+    if (char === '/' && code[i + 1] === '*') {
+      const close = code.indexOf('*/', i + 2);
+      i = close === -1 ? code.length : close + 2;
+      continue;
+    }
+    if (char === '{') depth++;
+    if (char === '}') depth--;
+    i++;
+  }
+  return i;
+};
+
+/**
+ * 正規表現リテラルの終端を探す。正規表現でなければ -1 を返す
+ */
+const scanRegex = (code: string, start: number): number => {
+  let i = start + 1;
+  let inClass = false;
+  while (i < code.length) {
+    const char = code[i];
+    if (char === '\n') {
+      return -1;
+    }
+    if (char === '\\') {
+      i += 2;
+      continue;
+    }
+    if (char === '[') inClass = true;
+    else if (char === ']') inClass = false;
+    else if (char === '/' && !inClass) {
+      i++;
+      // フラグを読み飛ばす
+      while (i < code.length && /[a-z]/i.test(code[i])) i++;
+      return i;
+    }
+    i++;
+  }
+  return -1;
+};
+
+/**
+ * 直前のトークンから `/` が正規表現の開始かどうかを判定
+ */
+const canStartRegex = (previous: Token | undefined): boolean => {
+  if (!previous) return true;
+  if (previous.type === 'keyword') return REGEX_PRECEDING_KEYWORDS.has(previous.value);
+  if (previous.type !== 'punctuator') return false;
+  return ![')', ']', '}', '++', '--'].includes(previous.value);
+};
+
+/**
+ * C系言語のソースコードをトークン化
+ */
+export const tokenizeCStyle = (code: string, options: CStyleLexerOptions): Token[] => {
+  const tokens: Token[] = [];
+  const createToken = createTokenFactory(code);
+  let previous: Token | undefined;
+  let atLineStart = true;
+  let i = 0;
+
+  const push = (type: TokenType, start: number, end: number) => {
+    const token = createToken(type, start, end);
+    tokens.push(token);
+    if (type !== 'comment') {
+      previous = token;
+    }
+  };
+
+  while (i < code.length) {
+    const char = code[i];
+
+    // 空白
+    if (char === '\n') {
+      atLineStart = true;
+      i++;
+      continue;
+    }
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    const lineStart = atLineStart;
+    atLineStart = false;
+
+    // プリプロセッサ行はコメントとして扱う
+    if (options.preprocessor && char === '#' && lineStart) {
+      let end = i;
+      while (end < code.length && code[end] !== '\n') {
+        end = code[end] === '\\' && code[end + 1] === '\n' ? end + 2 : end + 1;
+      }
+      push('comment', i, end);
+      i = end;
+      continue;
+    }
+
+    // コメント
+    if (char === '/' && code[i + 1] === '/') {
+      const newline = code.indexOf('\n', i);
+      const end = newline === -1 ? code.length : newline;
+      push('comment', i, end);
+      i = end;
+      continue;
+    }
+    if (char === '/' && code[i + 1] === '*') {
+      const close = code.indexOf('*/', i + 2);
+      const end = close === -1 ? code.length : close + 2;
+      push('comment', i, end);
+      i = end;
+      continue;
+    }
+
+    // 文字列
+    if (char === '"' || char === '\'') {
+      const end = scanQuoted(code, i, char, false);
+      push('string', i, end);
+      i = end;
+      continue;
+    }
+    if (char === '`' && options.templateLiterals) {
+      const end = scanTemplate(code, i);
+      push('template', i, end);
+      i = end;
+      continue;
+    }
+    if (char === '`' && options.rawStrings) {
+      const close = code.indexOf('`', i + 1);
+      const end = close === -1 ? code.length : close + 1;
+      push('string', i, end);
+      i = end;
+      continue;
+    }
+    if (char === '@' && code[i + 1] === '"' && options.verbatimStrings) {
+      // 逐語的文字列では "" がエスケープされた引用符
+      let end = i + 2;
+      while (end < code.length) {
+        if (code[end] === '"') {
+          if (code[end + 1] === '"') {
+            end += 2;
+            continue;
+          }
+          end++;
+          break;
+        }
+        end++;
+      }
+      push('string', i, end);
+      i = end;
+      continue;
+    }
+
+    // 正規表現リテラル
+    if (char === '/' && options.regexLiterals && canStartRegex(previous)) {
+      const end = scanRegex(code, i);
+      if (end !== -1) {
+        push('regex', i, end);
+        i = end;
+        continue;
+      }
+    }
+
+    // 数値
+    if (/\d/.test(char) || (char === '.' && /\d/.test(code[i + 1] || ''))) {
+      NUMBER_PATTERN.lastIndex = i;
+      const match = NUMBER_PATTERN.exec(code);
+      const end = match ? i + match[0].length : i + 1;
+      push('number', i, end);
+      i = end;
+      continue;
+    }
+
+    // 識別子・キーワード
+    if (IDENTIFIER_START.test(char)) {
+      let end = i + 1;
+      IDENTIFIER_PART.lastIndex = end;
+      while (end < code.length && IDENTIFIER_PART.test(code)) {
+        end++;
+        IDENTIFIER_PART.lastIndex = end;
+      }
+      const word = code.slice(i, end);
+      // メンバーアクセスの直後はキーワードではなくプロパティ名
+      const isMember = previous?.type === 'punctuator' && (previous.value === '.' || previous.value === '?.');
+      push(options.keywords.has(word) && !isMember ? 'keyword' : 'identifier', i, end);
+      i = end;
+      continue;
+    }
+
+    // 演算子・区切り文字
+    const punctuator = MULTI_CHAR_PUNCTUATORS.find(p => code.startsWith(p, i));
+    const end = i + (punctuator ? punctuator.length : 1);
+    push('punctuator', i, end);
+    i = end;
+  }
+
+  return tokens;
+};
+
+/**
+ * コメント以外のトークンを取り出す
+ */
+export const significantTokens = (tokens: Token[]): Token[] =>
+  tokens.filter(token => token.type !== 'comment');
+
+/**
+ * 対応する括弧のインデックスを計算（閉じ括弧 → 開き括弧、開き括弧 → 閉じ括弧）
+ */
+export const matchBrackets = (tokens: Token[]): Int32Array => {
+  const matches = new Int32Array(tokens.length).fill(-1);
+  const stack: number[] = [];
+  const pairs: Record<string, string> = { ')': '(', ']': '[', '}': '{' };
+
+  tokens.forEach((token, index) => {
+    if (token.type !== 'punctuator') return;
+    if (token.value === '(' || token.value === '[' || token.value === '{') {
+      stack.push(index);
+      return;
+    }
+    const opener = pairs[token.value];
+    if (!opener) return;
+
+    // 対応しない閉じ括弧は読み飛ばす（壊れたコードへの耐性）
+    for (let s = stack.length - 1; s >= 0; s--) {
+      if (tokens[stack[s]].value === opener) {
+        const openIndex = stack[s];
+        stack.length = s;
+        matches[openIndex] = index;
+        matches[index] = openIndex;
+        break;
+      }
+    }
+  });
+
+  return matches;
+};
@@ -0,0 +1,376 @@
+/**
+ * Python パーサー
+ * インデントを INDENT/DEDENT トークンに変換し、ブロック構造の構文木を生成します
+ */
+
+import { createTokenFactory, scanQuoted } from './lexer';
+import { Declaration, LanguageParser, SyntaxNode, SyntaxTree, Token, TokenType } from './types';
+
+const KEYWORDS = new Set([
+  'False', 'None', 'True', 'and', 'as', 'assert', 'async', 'await', 'break', 'class',
+  'continue', 'def', 'del', 'elif', 'else', 'except', 'finally', 'for', 'from', 'global',
+  'if', 'import', 'in', 'is', 'lambda', 'nonlocal', 'not', 'or', 'pass', 'raise',
+  'return', 'try', 'while', 'with', 'yield'
+]);
+
+// ブロックを持つ制御構文
+const CONTROL_KEYWORDS = new Set(['if', 'elif', 'else', 'for', 'while', 'try', 'except', 'finally', 'with']);
+
+// 文脈によってキーワードになる制御構文（Python 3.10 以降）
+const SOFT_CONTROL_KEYWORDS = new Set(['match', 'case']);
+
+const PUNCTUATORS = [
+  '**=', '//=', '>>=', '<<=', '...', '->', ':=', '**', '//', '==', '!=', '<=', '>=',
+  '<<', '>>', '+=', '-=', '*=', '/=', '%=', '&=', '|=', '^=', '@='
+];
+
+const STRING_START = /[rRbBuUfF]{0,2}(?:'''|"""|'|")/y;
+const NUMBER_PATTERN = /(?:0[xXbBoO][0-9a-fA-F_]+|(?:\d[\d_]*\.?[\d_]*|\.\d[\d_]*)(?:[eE][+-]?\d+)?[jJ]?)/y;
+const IDENTIFIER_PATTERN = /[A-Za-z_\u00C0-\uFFFF][\w\u00C0-\uFFFF]*/y;
+
+/**
+ * Python のソースコードをトークン化
+ */
+export const tokenizePython = (code: string): Token[] => {
+  const tokens: Token[] = [];
+  const createToken = createTokenFactory(code);
+  const indentStack = [0];
+  let depth = 0;               // 括弧の深さ（括弧内は暗黙の行継続）
+  let atLineStart = true;
+  let lineHasContent = false;
+  let i = 0;
+
+  const push = (type: TokenType, start: number, end: number) => {
+    tokens.push(createToken(type, start, end));
+    if (type !== 'comment' && type !== 'indent' && type !== 'dedent') {
+      lineHasContent = true;
+    }
+  };
+
+  while (i < code.length) {
+    // 行頭のインデントを計測
+    if (atLineStart && depth === 0) {
+      atLineStart = false;
+      let column = 0;
+      let j = i;
+      while (j < code.length && (code[j] === ' ' || code[j] === '\t' || code[j] === '\f')) {
+        column = code[j] === '\t' ? Math.floor(column / 8) * 8 + 8 : column + 1;
+        j++;
+      }
+      i = j;
+      // 空行・コメント行はインデントに影響しない
+      if (j >= code.length || code[j] === '\n' || code[j] === '\r' || code[j] === '#') {
+        continue;
+      }
+      if (column > indentStack[indentStack.length - 1]) {
+        indentStack.push(column);
+        push('indent', j, j);
+      } else {
+        while (column < indentStack[indentStack.length - 1]) {
+          indentStack.pop();
+          push('dedent', j, j);
+        }
+      }
+      continue;
+    }
+
+    const char = code[i];
+
+    if (char === '\n') {
+      if (depth === 0 && lineHasContent) {
+        push('newline', i, i + 1);
+        lineHasContent = false;
+      }
+      atLineStart = depth === 0;
+      i++;
+      continue;
+    }
+
+    // バックスラッシュによる明示的な行継続
+    if (char === '\\' && (code[i + 1] === '\n' || (code[i + 1] === '\r' && code[i + 2] === '\n'))) {
+      i += code[i + 1] === '\n' ? 2 : 3;
+      continue;
+    }
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (char === '#') {
+      const newline = code.indexOf('\n', i);
+      const end = newline === -1 ? code.length : newline;
+      push('comment', i, end);
+      i = end;
+      continue;
+    }
+
+    // 文字列（接頭辞・三重引用符を含む）
+    STRING_START.lastIndex = i;
+    const stringMatch = STRING_START.exec(code);
+    if (stringMatch) {
+      const quote = stringMatch[0].replace(/^[rRbBuUfF]+/, '');
+      const prefixLength = stringMatch[0].length - quote.length;
+      const end = scanQuoted(code, i + prefixLength, quote, quote.length === 3);
+      push('string', i, end);
+      i = end;
+      continue;
+    }
+
+    if (/\d/.test(char) || (char === '.' && /\d/.test(code[i + 1] || ''))) {
+      NUMBER_PATTERN.lastIndex = i;
+      const match = NUMBER_PATTERN.exec(code);
+      const end = match ? i + match[0].length : i + 1;
+      push('number', i, end);
+      i = end;
+      continue;
+    }
+
+    IDENTIFIER_PATTERN.lastIndex = i;
+    const identifierMatch = IDENTIFIER_PATTERN.exec(code);
+    if (identifierMatch) {
+      const end = i + identifierMatch[0].length;
+      push(KEYWORDS.has(identifierMatch[0]) ? 'keyword' : 'identifier', i, end);
+      i = end;
+      continue;
+    }
+
+    if ('([{'.includes(char)) depth++;
+    if (')]}'.includes(char)) depth = Math.max(0, depth - 1);
+
+    const punctuator = PUNCTUATORS.find(p => code.startsWith(p, i));
+    const end = i + (punctuator ? punctuator.length : 1);
+    push('punctuator', i, end);
+    i = end;
+  }
+
+  // ファイル末尾で論理行とインデントを閉じる
+  if (lineHasContent) {
+    push('newline', code.length, code.length);
+  }
+  while (indentStack.length > 1) {
+    indentStack.pop();
+    push('dedent', code.length, code.length);
+  }
+
+  return tokens;
+};
+
+const isPunctuator = (token: Token | undefined, value: string): boolean =>
+  !!token && token.type === 'punctuator' && token.value === value;
+
+/**
+ * 括弧の深さ0の位置で区切り文字ごとにトークン列を分割
+ */
+const splitTopLevel = (tokens: Token[], separator: string): Token[][] => {
+  const parts: Token[][] = [[]];
+  let depth = 0;
+  for (const token of tokens) {
+    if (token.type === 'punctuator') {
+      if ('([{'.includes(token.value)) depth++;
+      else if (')]}'.includes(token.value)) depth--;
+      else if (token.value === separator && depth === 0) {
+        parts.push([]);
+        continue;
+      }
+    }
+    parts[parts.length - 1].push(token);
+  }
+  return parts;
+};
+
+/**
+ * 代入先のトークン列から変数名を抽出（a, (b, c) = ... など）
+ */
+const extractTargets = (target: Token[]): Token[] => {
+  // 型注釈付きの代入（x: int = 1）
+  if (target.length >= 2 && target[0].type === 'identifier' && isPunctuator(target[1], ':')) {
+    return [target[0]];
+  }
+  const isSimpleTarget = target.length > 0 && target.every(token =>
+    token.type === 'identifier' || ['(', ')', '[', ']', ',', '*'].includes(token.value)
+  );
+  return isSimpleTarget ? target.filter(token => token.type === 'identifier') : [];
+};
+
+/**
+ * def の引数名を抽出
+ */
+const extractParams = (tokens: Token[], open: number): string[] => {
+  const params: string[] = [];
+  let depth = 0;
+  for (let j = open; j < tokens.length; j++) {
+    const token = tokens[j];
+    if (token.type === 'punctuator') {
+      if ('([{'.includes(token.value)) depth++;
+      else if (')]}'.includes(token.value)) {
+        depth--;
+        if (depth === 0) break;
+      }
+      continue;
+    }
+    if (depth !== 1 || token.type !== 'identifier') continue;
+    const before = tokens[j - 1];
+    if (['(', ',', '*', '**'].includes(before.value) && before.type === 'punctuator') {
+      params.push(token.value);
+    }
+  }
+  return params;
+};
+
+/**
+ * Python のコードを解析
+ */
+const parsePython = (code: string, language: string): SyntaxTree => {
+  const tokens = tokenizePython(code);
+  const lastLine = code.split('\n').length;
+  const root: SyntaxNode = { kind: 'program', name: '', startLine: 1, endLine: lastLine, children: [] };
+  const comments: Token[] = tokens.filter(token => token.type === 'comment');
+  const declarations: Declaration[] = [];
+  const declaredNames = new Set<string>();
+
+  // インデントブロックごとの構文ノード（ブロックを持たないインデントは null）
+  const blockStack: (SyntaxNode | null)[] = [];
+  let pendingBlock: SyntaxNode | null = null;
+  let lastContentLine = 1;
+  let lineTokens: Token[] = [];
+
+  const currentParent = (): SyntaxNode => {
+    for (let s = blockStack.length - 1; s >= 0; s--) {
+      const node = blockStack[s];
+      if (node) return node;
+    }
+    return root;
+  };
+
+  const declare = (token: Token, kind: Declaration['kind']) => {
+    // Pythonでは最初の代入が宣言にあたる
+    const key = `${kind}:${token.value}`;
+    if (declaredNames.has(key)) return;
+    declaredNames.add(key);
+    declarations.push({ name: token.value, kind, line: token.line, column: token.column });
+  };
+
+  // 論理行を処理
+  const processLine = (line: Token[]) => {
+    pendingBlock = null;
+    if (line.length === 0) return;
+
+    // docstring（文字列のみの文）はコメントとして扱う
+    if (line.length === 1 && line[0].type === 'string') {
+      comments.push(line[0]);
+      return;
+    }
+
+    let k = 0;
+    if (line[0].value === 'async') k++;
+    const head = line[k];
+    if (!head) return;
+    const last = line[line.length - 1];
+    const opensBlock = isPunctuator(last, ':');
+
+    const isSoftControl = head.type === 'identifier' && SOFT_CONTROL_KEYWORDS.has(head.value) &&
+      opensBlock && line.length > k + 2 && !['=', '.', ':', '('].includes(line[k + 1].value);
+    const isCompound = head.type === 'keyword' &&
+      (head.value === 'def' || head.value === 'class' || CONTROL_KEYWORDS.has(head.value));
+
+    if (!isCompound && !isSoftControl) {
+      collectAssignments(line);
+      return;
+    }
+
+    let node: SyntaxNode;
+    if (head.value === 'def' || head.value === 'class') {
+      const nameToken = line[k + 1];
+      const name = nameToken && nameToken.type === 'identifier' ? nameToken.value : '';
+      if (nameToken && name) declare(nameToken, head.value === 'def' ? 'function' : 'class');
+      node = {
+        kind: head.value === 'def' ? 'function' : 'class',
+        name,
+        startLine: line[0].line,
+        endLine: last.endLine,
+        children: []
+      };
+      if (head.value === 'def') {
+        const open = line.findIndex(token => isPunctuator(token, '('));
+        node.params = open === -1 ? [] : extractParams(line, open);
+      }
+    } else {
+      node = { kind: 'control', name: head.value, startLine: line[0].line, endLine: last.endLine, children: [] };
+      collectControlTargets(line, k);
+    }
+
+    currentParent().children.push(node);
+    if (opensBlock) {
+      pendingBlock = node;
+    }
+  };
+
+  // 代入文の左辺を宣言として収集
+  const collectAssignments = (line: Token[]) => {
+    const parts = splitTopLevel(line, '=');
+    if (parts.length > 1) {
+      parts.slice(0, -1).forEach(target => extractTargets(target).forEach(token => declare(token, 'variable')));
+    } else if (line.length >= 2 && line[0].type === 'identifier' && isPunctuator(line[1], ':')) {
+      // 値なしの型注釈（x: int）
+      declare(line[0], 'variable');
+    }
+  };
+
+  // for / with の束縛変数を収集
+  const collectControlTargets = (line: Token[], k: number) => {
+    const head = line[k];
+    if (head.value === 'for') {
+      const inIndex = line.findIndex((token, index) => index > k && token.type === 'keyword' && token.value === 'in');
+      if (inIndex !== -1) {
+        extractTargets(line.slice(k + 1, inIndex)).forEach(token => declare(token, 'variable'));
+      }
+    } else if (head.value === 'with' || head.value === 'except') {
+      line.forEach((token, index) => {
+        const next = line[index + 1];
+        if (token.value === 'as' && next?.type === 'identifier') {
+          declare(next, 'variable');
+        }
+      });
+    }
+  };
+
+  for (const token of tokens) {
+    switch (token.type) {
+      case 'comment':
+        break;
+      case 'indent':
+        blockStack.push(pendingBlock);
+        pendingBlock = null;
+        break;
+      case 'dedent': {
+        const node = blockStack.pop();
+        if (node) node.endLine = lastContentLine;
+        break;
+      }
+      case 'newline':
+        processLine(lineTokens);
+        lineTokens = [];
+        break;
+      default:
+        lineTokens.push(token);
+        lastContentLine = token.endLine;
+    }
+  }
+  processLine(lineTokens);
+
+  return {
+    language,
+    root,
+    tokens,
+    comments: comments.sort((a, b) => a.start - b.start),
+    declarations
+  };
+};
+
+export const pythonParser: LanguageParser = {
+  languages: ['python'],
+  parse: parsePython
+};
+
+export default pythonParser;
@@ -0,0 +1,73 @@
+/**
+ * 構文解析レイヤーの型定義
+ * 各言語のパーサーが生成するトークン・構文木の共通表現
+ */
+
+// トークンの種類
+export type TokenType =
+  | 'identifier'
+  | 'keyword'
+  | 'number'
+  | 'string'
+  | 'template'
+  | 'regex'
+  | 'comment'
+  | 'punctuator'
+  | 'newline'   // Pythonの論理行の終端
+  | 'indent'    // Pythonのインデント開始
+  | 'dedent';   // Pythonのインデント終了
+
+// トークン定義
+export interface Token {
+  type: TokenType;
+  value: string;    // ソース上の文字列
+  start: number;    // 開始オフセット
+  end: number;      // 終了オフセット（排他的）
+  line: number;     // 開始行（1始まり）
+  column: number;   // 開始列（1始まり）
+  endLine: number;  // 終了行（1始まり）
+}
+
+// 構文ノードの種類
+export type SyntaxNodeKind =
+  | 'program'   // ファイル全体
+  | 'function'  // 関数・メソッド・ラムダ
+  | 'class'     // クラス・構造体
+  | 'control';  // if / for / while / try などの制御構文
+
+// 構文ノード定義
+export interface SyntaxNode {
+  kind: SyntaxNodeKind;
+  name: string;              // 関数名・クラス名・制御構文のキーワード（無名関数は空文字）
+  startLine: number;         // 開始行（1始まり）
+  endLine: number;           // 終了行（1始まり）
+  params?: string[];         // 関数の引数名
+  expressionBody?: boolean;  // 式本体のラムダ（`x => x * 2` など）
+  children: SyntaxNode[];
+}
+
+// 宣言された識別子の種類
+export type DeclarationKind = 'variable' | 'function' | 'class';
+
+// 宣言された識別子
+export interface Declaration {
+  name: string;
+  kind: DeclarationKind;
+  line: number;
+  column: number;
+}
+
+// 構文解析結果
+export interface SyntaxTree {
+  language: string;
+  root: SyntaxNode;
+  tokens: Token[];             // コメントを含む全トークン
+  comments: Token[];           // コメント（Pythonではdocstringを含む）
+  declarations: Declaration[];
+}
+
+// 言語ごとのパーサー
+export interface LanguageParser {
+  languages: string[];         // 対応する言語ID
+  parse: (code: string, language: string) => SyntaxTree;
+}
@@ -0,0 +1,345 @@
+/**
+ * プルリクエスト分析サービス
+ * プルリクエストの差分を取得し、追加・変更された行に限定してコード分析を行います
+ */
+
+import { CachedAnalysis, getCachedAnalyses, putCachedAnalysis } from './analysisCacheService';
+import {
+  FindingBaseline,
+  applyDuplicationBaseline,
+  applyIssueBaseline,
+  applySecurityBaseline,
+  loadBaseline
+} from './baselineService';
+import { CodeIssue, FileAnalysisResult, analyzeCode, getLanguageFromExtension } from './codeAnalysisService';
+import { DuplicateBlock } from './duplicateDetectionService';
+import { detectDuplicatesInWorker } from './duplicateWorkerService';
+import {
+  PullRequestFile,
+  fetchBlobContents,
+  getPullRequest,
+  getPullRequestFiles
+} from './githubService';
+import {
+  RepositoryConfig,
+  createPathFilter,
+  getAnalysisThresholds,
+  getSecurityCheckOptions,
+  loadRepositoryConfig
+} from './repositoryConfigService';
+import { SecurityVulnerability, performSecurityCheck } from './securityCheckService';
+
+// 差分の1行
+export interface DiffLine {
+  type: 'added' | 'removed' | 'context';
+  content: string;
+  oldLine: number | null;   // 変更前の行番号（追加行は null）
+  newLine: number | null;   // 変更後の行番号（削除行は null）
+}
+
+// 差分のハンク（@@ で始まるまとまり）
+export interface DiffHunk {
+  header: string;
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+// 分析対象外としたファイルの理由
+export type SkippedReason = 'removed' | 'unsupported' | 'excluded' | 'no_patch' | 'fetch_failed';
+
+// ファイル単位のプルリクエスト分析結果
+export interface PullRequestFileAnalysis {
+  fileName: string;
+  previousFileName?: string;
+  status: PullRequestFile['status'];
+  language: string;
+  additions: number;
+  deletions: number;
+  hunks: DiffHunk[];
+  issues: CodeIssue[];                         // 追加・変更行の問題（行番号は変更後のファイル）
+  vulnerabilities: SecurityVulnerability[];    // 追加・変更行の脆弱性
+  duplicates: DuplicateBlock[];                // 追加・変更行を含む重複
+  baselined: number;                           // 追加・変更行の検出結果のうち、ベースラインに記録済みのため除いた件数
+  analysis: FileAnalysisResult | null;         // ファイル全体のメトリクス
+}
+
+// プルリクエスト分析結果
+export interface PullRequestAnalysisResult {
+  repoName: string;
+  pullNumber: number;
+  title: string;
+  htmlUrl: string;
+  headSha: string;
+  baseSha: string;
+  files: PullRequestFileAnalysis[];
+  skippedFiles: { fileName: string; reason: SkippedReason }[];
+  summary: {
+    analyzedFiles: number;
+    changedLines: number;
+    issues: number;
+    vulnerabilities: number;
+    duplicates: number;
+    baselined: number;          // ベースラインに記録済みのため除いた件数（上の件数には含まない）
+  };
+  timestamp: number;
+}
+
+// プルリクエスト分析オプション
+export interface PullRequestAnalysisOptions {
+  onProgress?: (processedFiles: number, totalFiles: number, currentFile: string | null) => void;
+}
+
+// ハンクヘッダー（@@ -a,b +c,d @@）
+const HUNK_HEADER_PATTERN = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/**
+ * unified diff のパッチをハンクに分解
+ */
+export const parsePatch = (patch: string): DiffHunk[] => {
+  const hunks: DiffHunk[] = [];
+  let current: DiffHunk | null = null;
+  let oldLine = 0;
+  let newLine = 0;
+
+  for (const line of patch.split('\n')) {
+    const header = line.match(HUNK_HEADER_PATTERN);
+    if (header) {
+      current = {
+        header: line,
+        oldStart: parseInt(header[1], 10),
+        oldLines: header[2] !== undefined ? parseInt(header[2], 10) : 1,
+        newStart: parseInt(header[3], 10),
+        newLines: header[4] !== undefined ? parseInt(header[4], 10) : 1,
+        lines: []
+      };
+      hunks.push(current);
+      oldLine = current.oldStart;
+      newLine = current.newStart;
+      continue;
+    }
+
+    // ヘッダー前の行や「\ No newline at end of file」は無視
+    if (!current || line.startsWith('\\')) continue;
+
+    if (line.startsWith('+')) {
+      current.lines.push({ type: 'added', content: line.substring(1), oldLine: null, newLine: newLine++ });
+    } else if (line.startsWith('-')) {
+      current.lines.push({ type: 'removed', content: line.substring(1), oldLine: oldLine++, newLine: null });
+    } else {
+      current.lines.push({ type: 'context', content: line.substring(1), oldLine: oldLine++, newLine: newLine++ });
+    }
+  }
+
+  return hunks;
+};
+
+/**
+ * 追加・変更された行の行番号（変更後のファイル）を取得
+ */
+export const getChangedLineNumbers = (hunks: DiffHunk[]): Set<number> => {
+  const lineNumbers = new Set<number>();
+  hunks.forEach(hunk => {
+    hunk.lines.forEach(line => {
+      if (line.type === 'added' && line.newLine !== null) lineNumbers.add(line.newLine);
+    });
+  });
+  return lineNumbers;
+};
+
+// 行範囲に変更行が含まれるか
+const rangeContainsChange = (changedLines: Set<number>, startLine: number, endLine: number): boolean => {
+  for (let line = startLine; line <= endLine; line++) {
+    if (changedLines.has(line)) return true;
+  }
+  return false;
+};
+
+// キャッシュにファイル全体の分析・セキュリティ・重複の結果がすべて揃っているか
+const isCompleteCache = (cached: CachedAnalysis | undefined): boolean =>
+  Boolean(cached?.fileAnalysis?.codeContent !== undefined && cached?.security && cached?.duplication);
+
+/**
+ * 変更後のファイル内容を分析し、結果を変更行に限定
+ * ファイル全体の分析結果はBlob SHAをキーにキャッシュします
+ * ベースラインの指紋は出現順を含むため、変更行に限定する前のファイル全体の結果に適用します
+ * @param config プルリクエストの変更後のコミットのリポジトリ設定
+ * @param baseline プルリクエストの変更後のコミットのベースライン
+ */
+export const analyzeChangedFile = async (
+  file: PullRequestFile,
+  content: string,
+  language: string,
+  cached?: CachedAnalysis,
+  config: RepositoryConfig | null = null,
+  baseline: FindingBaseline | null = null
+): Promise<PullRequestFileAnalysis> => {
+  const hunks = parsePatch(file.patch || '');
+  const changedLines = getChangedLineNumbers(hunks);
+  const cacheUpdate: Parameters<typeof putCachedAnalysis>[2] = {};
+  let baselined = 0;
+
+  // 構文解析のためファイル全体を分析し、変更行に該当する結果だけを残す
+  let analysis: FileAnalysisResult | null = null;
+  let issues: CodeIssue[] = [];
+  try {
+    if (cached?.fileAnalysis) {
+      analysis = { ...cached.fileAnalysis, fileName: file.filename, blobSha: file.sha };
+    } else {
+      analysis = { ...await analyzeCode(content, language, config), fileName: file.filename, blobSha: file.sha };
+      cacheUpdate.fileAnalysis = analysis;
+    }
+    const changedIssues = analysis.issues.filter(issue => changedLines.has(issue.line)).length;
+    analysis = applyIssueBaseline(analysis, baseline);
+    issues = analysis.issues.filter(issue => changedLines.has(issue.line));
+    baselined += changedIssues - issues.length;
+  } catch (error) {
+    console.error(`Failed to analyze ${file.filename}:`, error);
+  }
+
+  let vulnerabilities: SecurityVulnerability[] = [];
+  try {
+    const securityResult = cached?.security ||
+      await performSecurityCheck(content, language, getSecurityCheckOptions(config, file.filename));
+    if (!cached?.security) cacheUpdate.security = securityResult;
+    const isChanged = (vulnerability: SecurityVulnerability) => changedLines.has(vulnerability.line);
+    vulnerabilities = applySecurityBaseline(file.filename, securityResult, baseline).vulnerabilities.filter(isChanged);
+    baselined += securityResult.vulnerabilities.filter(isChanged).length - vulnerabilities.length;
+  } catch (error) {
+    console.error(`Failed to run security check for ${file.filename}:`, error);
+  }
+
+  let duplicates: DuplicateBlock[] = [];
+  try {
+    const duplicationResult = cached?.duplication ||
+      await detectDuplicatesInWorker(content, language, getAnalysisThresholds(config).duplication);
+    if (!cached?.duplication) cacheUpdate.duplication = duplicationResult;
+    const isChanged = (duplicate: DuplicateBlock) =>
+      rangeContainsChange(changedLines, duplicate.startLineA, duplicate.endLineA) ||
+      rangeContainsChange(changedLines, duplicate.startLineB, duplicate.endLineB);
+    const fileResult = analysis || { fileName: file.filename, language, lineCount: content.split('\n').length };
+    duplicates = applyDuplicationBaseline(fileResult, duplicationResult, baseline).duplicates.filter(isChanged);
+    baselined += duplicationResult.duplicates.filter(isChanged).length - duplicates.length;
+  } catch (error) {
+    console.error(`Failed to detect duplicates for ${file.filename}:`, error);
+  }
+
+  if (cacheUpdate.fileAnalysis || cacheUpdate.security || cacheUpdate.duplication) {
+    await putCachedAnalysis(file.sha, language, cacheUpdate, config?.id);
+  }
+
+  return {
+    fileName: file.filename,
+    previousFileName: file.previous_filename,
+    status: file.status,
+    language,
+    additions: file.additions,
+    deletions: file.deletions,
+    hunks,
+    issues,
+    vulnerabilities,
+    duplicates,
+    baselined,
+    analysis
+  };
+};
+
+/**
+ * プルリクエストの差分を分析
+ */
+export const analyzePullRequest = async (
+  fullRepoName: string,
+  pullNumber: number,
+  options: PullRequestAnalysisOptions = {}
+): Promise<PullRequestAnalysisResult> => {
+  const [owner, repo] = fullRepoName.split('/');
+  const { onProgress } = options;
+
+  const [pullRequest, changedFiles] = await Promise.all([
+    getPullRequest(owner, repo, pullNumber),
+    getPullRequestFiles(owner, repo, pullNumber)
+  ]);
+
+  // 変更後のコミットの設定（プルリクエストで設定やルールを変更した場合もその内容で分析する）
+  const config = await loadRepositoryConfig(fullRepoName, pullRequest.head.sha);
+  const baseline = await loadBaseline(fullRepoName, config, pullRequest.head.sha);
+  const isTarget = createPathFilter(config);
+
+  // 分析対象のファイルを選別
+  const skippedFiles: PullRequestAnalysisResult['skippedFiles'] = [];
+  const targets: { file: PullRequestFile; language: string }[] = [];
+
+  for (const file of changedFiles) {
+    const extension = file.filename.split('.').pop()?.toLowerCase() || '';
+    const language = getLanguageFromExtension(extension);
+
+    if (file.status === 'removed') {
+      skippedFiles.push({ fileName: file.filename, reason: 'removed' });
+    } else if (!language) {
+      skippedFiles.push({ fileName: file.filename, reason: 'unsupported' });
+    } else if (!isTarget(file.filename)) {
+      skippedFiles.push({ fileName: file.filename, reason: 'excluded' });
+    } else if (!file.patch) {
+      skippedFiles.push({ fileName: file.filename, reason: 'no_patch' });
+    } else {
+      targets.push({ file, language });
+    }
+  }
+
+  // 分析済みのBlobはキャッシュを使い、それ以外の変更後のファイル内容をまとめて取得
+  const cached = await getCachedAnalyses(
+    targets.map(({ file, language }) => ({ blobSha: file.sha, language, configId: config?.id }))
+  );
+  const contents = await fetchBlobContents(
+    owner,
+    repo,
+    targets.filter(({ file }) => !isCompleteCache(cached.get(file.sha))).map(({ file }) => file.sha)
+  );
+
+  const files: PullRequestFileAnalysis[] = [];
+  for (let i = 0; i < targets.length; i++) {
+    const { file, language } = targets[i];
+    onProgress?.(i, targets.length, file.filename);
+
+    const cachedFile = cached.get(file.sha);
+    const content = isCompleteCache(cachedFile) ? cachedFile?.fileAnalysis?.codeContent : contents.get(file.sha);
+    if (content === undefined) {
+      skippedFiles.push({ fileName: file.filename, reason: 'fetch_failed' });
+      continue;
+    }
+
+    files.push(await analyzeChangedFile(file, content, language, cachedFile, config, baseline));
+  }
+  onProgress?.(targets.length, targets.length, null);
+
+  const summary = {
+    analyzedFiles: files.length,
+    changedLines: files.reduce((sum, file) => sum + getChangedLineNumbers(file.hunks).size, 0),
+    issues: files.reduce((sum, file) => sum + file.issues.length, 0),
+    vulnerabilities: files.reduce((sum, file) => sum + file.vulnerabilities.length, 0),
+    duplicates: files.reduce((sum, file) => sum + file.duplicates.length, 0),
+    baselined: files.reduce((sum, file) => sum + file.baselined, 0)
+  };
+
+  return {
+    repoName: fullRepoName,
+    pullNumber,
+    title: pullRequest.title,
+    htmlUrl: pullRequest.html_url,
+    headSha: pullRequest.head.sha,
+    baseSha: pullRequest.base.sha,
+    files,
+    skippedFiles,
+    summary,
+    timestamp: Date.now()
+  };
+};
+
+export default {
+  analyzePullRequest,
+  analyzeChangedFile,
+  parsePatch,
+  getChangedLineNumbers
+};
@@ -0,0 +1,1136 @@
+/**
+ * リファクタリング生成サービス
+ * 検出した重複コードから共通の関数を抽出するリファクタリングを生成し、unified diff として返します
+ * 対応言語は JavaScript / TypeScript / Python で、完全一致・名前変更クローンのみを対象とします
+ */
+
+import { DuplicateBlock, normalizeToken } from './duplicateDetectionService';
+import { SyntaxNode, SyntaxTree, Token, parseCode } from './parser';
+import { matchBrackets } from './parser/lexer';
+
+// 抽出した関数の引数
+export interface ExtractFunctionParameter {
+  name: string;
+  argumentA: string;   // 1つ目の重複箇所の呼び出しで渡す値
+  argumentB: string;   // 2つ目の重複箇所の呼び出しで渡す値
+}
+
+// 共通関数の抽出リファクタリング
+export interface ExtractFunctionRefactoring {
+  fileName: string;
+  functionName: string;
+  parameters: ExtractFunctionParameter[];
+  returnValues: string[];      // 呼び出し元に返す変数（1つ目の重複箇所の名前）
+  startLineA: number;          // 置き換える範囲（文の境界に合わせて重複範囲から絞り込んだ行）
+  endLineA: number;
+  startLineB: number;
+  endLineB: number;
+  extractedCode: string;       // 抽出した関数
+  refactoredCode: string;      // 適用後のファイル全体
+  diff: string;                // unified diff
+}
+
+// 対応する言語
+const SUPPORTED_LANGUAGES = new Set(['javascript', 'typescript', 'python']);
+
+// 抽出する最小トークン数
+const MIN_EXTRACT_TOKENS = 10;
+
+// diff の前後に表示する行数
+const DIFF_CONTEXT_LINES = 3;
+
+// 引数として渡さなくても参照できる組み込みの名前
+const JS_GLOBALS = new Set([
+  'console', 'Math', 'JSON', 'Object', 'Array', 'String', 'Number', 'Boolean', 'Date', 'Promise',
+  'Error', 'TypeError', 'RangeError', 'RegExp', 'Map', 'Set', 'WeakMap', 'WeakSet', 'Symbol', 'BigInt',
+  'parseInt', 'parseFloat', 'isNaN', 'isFinite', 'undefined', 'NaN', 'Infinity', 'globalThis',
+  'window', 'document', 'navigator', 'localStorage', 'sessionStorage', 'fetch', 'setTimeout',
+  'clearTimeout', 'setInterval', 'clearInterval', 'encodeURIComponent', 'decodeURIComponent',
+  'require', 'module', 'exports', 'process', 'Buffer',
+  // 文脈によってはキーワードとして扱われる識別子
+  'of', 'as', 'from', 'async', 'get', 'set', 'static', 'type',
+  // TypeScript の組み込み型
+  'string', 'number', 'boolean', 'any', 'unknown', 'never', 'object', 'Record', 'Partial', 'Readonly'
+]);
+
+const PYTHON_BUILTINS = new Set([
+  'print', 'len', 'range', 'str', 'int', 'float', 'bool', 'list', 'dict', 'set', 'tuple', 'bytes',
+  'sum', 'min', 'max', 'abs', 'round', 'sorted', 'reversed', 'enumerate', 'zip', 'map', 'filter',
+  'any', 'all', 'isinstance', 'issubclass', 'hasattr', 'getattr', 'setattr', 'type', 'open', 'iter',
+  'next', 'repr', 'format', 'id', 'hash', 'input', 'super', 'object', 'Exception', 'ValueError',
+  'TypeError', 'KeyError', 'IndexError', 'RuntimeError', 'AttributeError', 'NotImplementedError'
+]);
+
+// 代入演算子
+const ASSIGNMENT_OPERATORS = new Set([
+  '=', '+=', '-=', '*=', '/=', '%=', '**=', '//=', '<<=', '>>=', '>>>=', '&=', '|=', '^=', '&&=', '||=', '??=', ':='
+]);
+
+// 次の行の先頭にあると前の行から式が続いているとみなすトークン
+const JS_CONTINUATION_TOKENS = new Set([
+  '.', '?.', ',', ')', ']', '?', ':', '=>', '&&', '||', '??', '+', '-', '*', '/', '%', '**',
+  '=', '==', '===', '!=', '!==', '<', '>', '<=', '>=', '|', '&', '^', '<<', '>>', '>>>', 'in', 'instanceof'
+]);
+
+// 直前の文の続きになる節のキーワード
+const CLAUSE_KEYWORDS = new Set(['else', 'catch', 'finally', 'elif', 'except']);
+
+// 宣言のキーワードの前に付く修飾子
+const DECLARATION_MODIFIERS = new Set(['export', 'default', 'async']);
+
+// 直後の改行で文が終わらないキーワード
+const JS_OPEN_KEYWORDS = new Set([
+  'return', 'throw', 'new', 'typeof', 'delete', 'void', 'await', 'yield', 'in', 'instanceof', 'else', 'do', 'case'
+]);
+
+// ファイル全体のトークン情報
+interface SourceContext {
+  code: string;
+  language: string;
+  isPython: boolean;
+  tree: SyntaxTree;
+  lines: string[];
+  lineOffsets: number[];       // 各行の開始オフセット
+  allTokens: Token[];          // コメントを除くトークン（Pythonの改行・インデントを含む）
+  codeTokens: Token[];         // 比較対象のコードトークン
+  codeIndexes: number[];       // コードトークンの allTokens 上の位置
+  brackets: Int32Array;        // コードトークンの対応する括弧
+  moduleNames: Set<string>;    // ファイル直下で宣言・インポートされた名前
+}
+
+// 範囲内の識別子の役割
+type IdentifierRole = 'property' | 'key' | 'type' | 'local' | 'global' | 'external';
+
+// 重複箇所1つ分の解析結果
+interface CloneRange {
+  start: number;               // コードトークンの開始位置
+  end: number;                 // コードトークンの終了位置（含む）
+  roles: (IdentifierRole | null)[];
+  declarationKeywords: Map<string, string>;   // 範囲の直下で宣言した変数と const / let / var
+  scopedLocals: Set<string>;   // 範囲の外から参照できない名前（ネストしたブロック・関数の引数など）
+  assigned: string[];          // 代入された名前（出現順）
+  hasReturn: boolean;
+  isAsync: boolean;
+}
+
+// 行単位の編集（start は1始まりの行番号で、その行の前に挿入・その行から削除）
+interface LineEdit {
+  start: number;
+  deleteCount: number;
+  lines: string[];
+}
+
+/**
+ * ファイル全体のトークン情報を作成
+ */
+const createSourceContext = (code: string, language: string): SourceContext => {
+  const tree = parseCode(code, language);
+  const lines = code.split('\n');
+  const lineOffsets: number[] = [];
+  let offset = 0;
+  for (const line of lines) {
+    lineOffsets.push(offset);
+    offset += line.length + 1;
+  }
+
+  const allTokens = tree.tokens.filter(token => token.type !== 'comment');
+  const codeIndexes: number[] = [];
+  allTokens.forEach((token, index) => {
+    if (token.type !== 'newline' && token.type !== 'indent' && token.type !== 'dedent') {
+      codeIndexes.push(index);
+    }
+  });
+  const codeTokens = codeIndexes.map(index => allTokens[index]);
+
+  return {
+    code,
+    language,
+    isPython: language === 'python',
+    tree,
+    lines,
+    lineOffsets,
+    allTokens,
+    codeTokens,
+    codeIndexes,
+    brackets: matchBrackets(codeTokens),
+    moduleNames: collectModuleNames(tree, allTokens)
+  };
+};
+
+/**
+ * ファイル直下で宣言・インポートされた名前を収集（抽出した関数からも参照できる）
+ */
+const collectModuleNames = (tree: SyntaxTree, allTokens: Token[]): Set<string> => {
+  const topLevelRanges = tree.root.children.map(node => [node.startLine, node.endLine]);
+  const isTopLevel = (line: number) => !topLevelRanges.some(([start, end]) => line >= start && line <= end);
+
+  const names = new Set(
+    tree.declarations.filter(declaration => isTopLevel(declaration.line)).map(declaration => declaration.name)
+  );
+
+  for (let i = 0; i < allTokens.length; i++) {
+    const token = allTokens[i];
+    if (token.type !== 'keyword' || !isTopLevel(token.line)) continue;
+
+    if (tree.language === 'python') {
+      // import x / from x import a, b as c
+      const previous = allTokens[i - 1];
+      const atStatementStart = !previous || ['newline', 'indent', 'dedent'].includes(previous.type);
+      if (!atStatementStart || (token.value !== 'import' && token.value !== 'from')) continue;
+      for (let j = i + 1; j < allTokens.length && allTokens[j].type !== 'newline'; j++) {
+        if (allTokens[j].type === 'identifier') names.add(allTokens[j].value);
+      }
+    } else if (token.value === 'import') {
+      // import x, { a as b } from 'module'
+      for (let j = i + 1; j < allTokens.length && allTokens[j].type !== 'string'; j++) {
+        if (allTokens[j].type === 'identifier') names.add(allTokens[j].value);
+      }
+    }
+  }
+
+  return names;
+};
+
+const isLiteral = (token: Token): boolean =>
+  token.type === 'number' || token.type === 'string' || token.type === 'template' || token.type === 'regex';
+
+/**
+ * 行範囲に含まれるコードトークンの位置を取得
+ */
+const findTokenRange = (context: SourceContext, startLine: number, endLine: number): [number, number] | null => {
+  let start = -1;
+  let end = -1;
+  context.codeTokens.forEach((token, index) => {
+    if (token.line >= startLine && token.endLine <= endLine) {
+      if (start === -1) start = index;
+      end = index;
+    }
+  });
+  return start === -1 ? null : [start, end];
+};
+
+/**
+ * 文の先頭かどうか（行単位で置き換えるため行の先頭であることも確認）
+ */
+const isStatementStart = (context: SourceContext, index: number): boolean => {
+  const token = context.codeTokens[index];
+  if (token.type === 'keyword' && CLAUSE_KEYWORDS.has(token.value)) return false;
+
+  if (context.isPython) {
+    const previous = context.allTokens[context.codeIndexes[index] - 1];
+    return !previous || ['newline', 'indent', 'dedent'].includes(previous.type);
+  }
+
+  const previous = context.codeTokens[index - 1];
+  if (!previous) return true;
+  if (previous.endLine >= token.line) return false;
+  if (token.type === 'punctuator' && !['(', '[', '{', '++', '--'].includes(token.value)) return false;
+  if (previous.type === 'punctuator') {
+    if ([';', '{', '}', ']', '++', '--'].includes(previous.value)) return true;
+    if (previous.value !== ')') return false;
+    // if (x) の直後の改行は本体の途中
+    const opener = context.brackets[index - 1];
+    const head = opener > 0 ? context.codeTokens[opener - 1] : null;
+    return !(head && head.type === 'keyword' && ['if', 'for', 'while', 'with'].includes(head.value));
+  }
+  return !(previous.type === 'keyword' && JS_OPEN_KEYWORDS.has(previous.value));
+};
+
+/**
+ * 文の末尾かどうか（行単位で置き換えるため行の末尾であることも確認）
+ */
+const isStatementEnd = (context: SourceContext, index: number): boolean => {
+  if (context.isPython) {
+    const next = context.allTokens[context.codeIndexes[index] + 1];
+    return !next || next.type === 'newline';
+  }
+
+  const token = context.codeTokens[index];
+  const next = context.codeTokens[index + 1];
+  if (next && next.line <= token.endLine) return false;
+  if (next && (JS_CONTINUATION_TOKENS.has(next.value) ||
+      (next.type === 'keyword' && CLAUSE_KEYWORDS.has(next.value)))) {
+    return false;
+  }
+  if (token.type === 'punctuator') return [';', '}', ')', ']', '++', '--'].includes(token.value);
+  return !(token.type === 'keyword' && JS_OPEN_KEYWORDS.has(token.value));
+};
+
+/**
+ * 重複範囲を文の境界に合わせて絞り込む
+ * 両方の重複箇所で括弧が閉じていて、文の途中で切れない最長の範囲を返します
+ */
+const findExtractableRange = (
+  context: SourceContext,
+  startA: number,
+  startB: number,
+  length: number
+): [number, number] | null => {
+  const { codeTokens, isPython } = context;
+  let best: [number, number] | null = null;
+
+  const depthChange = (token: Token): number => {
+    if (token.type !== 'punctuator') return 0;
+    if (['(', '[', '{'].includes(token.value)) return 1;
+    if ([')', ']', '}'].includes(token.value)) return -1;
+    return 0;
+  };
+
+  for (let s = 0; s + MIN_EXTRACT_TOKENS <= length; s++) {
+    if (best && best[1] - best[0] >= length - s - 1) break;
+    if (!isStatementStart(context, startA + s) || !isStatementStart(context, startB + s)) continue;
+
+    const baseColumnA = codeTokens[startA + s].column;
+    const baseColumnB = codeTokens[startB + s].column;
+    let depthA = 0;
+    let depthB = 0;
+
+    for (let e = s; e < length; e++) {
+      const tokenA = codeTokens[startA + e];
+      const tokenB = codeTokens[startB + e];
+      depthA += depthChange(tokenA);
+      depthB += depthChange(tokenB);
+      if (depthA < 0 || depthB < 0) break;
+
+      // Pythonでは範囲の先頭より浅いインデントの行を含めない
+      if (isPython && e > s) {
+        const lineStartA = isStatementStart(context, startA + e) && tokenA.column < baseColumnA;
+        const lineStartB = isStatementStart(context, startB + e) && tokenB.column < baseColumnB;
+        if (lineStartA || lineStartB) break;
+      }
+
+      if (depthA !== 0 || depthB !== 0 || e - s + 1 < MIN_EXTRACT_TOKENS) continue;
+      if (best && best[1] - best[0] >= e - s) continue;
+      if (!isStatementEnd(context, startA + e) || !isStatementEnd(context, startB + e)) continue;
+      if (isPython && (!isPythonBlockEnd(context, startA + e, baseColumnA) ||
+          !isPythonBlockEnd(context, startB + e, baseColumnB))) {
+        continue;
+      }
+      best = [s, e];
+    }
+  }
+
+  return best;
+};
+
+/**
+ * Pythonの範囲の直後が、範囲の先頭と同じかより浅いインデントの文で始まるか
+ * （if の本体だけを含めて elif / else を残すような範囲を除く）
+ */
+const isPythonBlockEnd = (context: SourceContext, index: number, baseColumn: number): boolean => {
+  const next = context.codeTokens[index + 1];
+  if (!next) return true;
+  if (next.column > baseColumn) return false;
+  return !(next.column === baseColumn && next.type === 'keyword' && CLAUSE_KEYWORDS.has(next.value));
+};
+
+/**
+ * 範囲の直下にある関数・クラス宣言を収集
+ * @returns 宣言の文の先頭の位置（修飾子・デコレーターを含む）
+ */
+const findTopLevelDeclarations = (context: SourceContext, from: number, to: number): number[] => {
+  const { codeTokens, brackets, isPython } = context;
+  const baseColumn = codeTokens[from].column;
+  const declarations: number[] = [];
+
+  for (let i = from; i <= to; i++) {
+    const token = codeTokens[i];
+    if (isStatementStart(context, i) && (!isPython || token.column === baseColumn)) {
+      let keyword = i;
+      while (keyword < to && DECLARATION_MODIFIERS.has(codeTokens[keyword].value)) keyword++;
+      if (token.value === '@' || ['function', 'class', 'def'].includes(codeTokens[keyword].value)) declarations.push(i);
+    }
+    // JavaScript では括弧の中（ネストしたブロック・コールバック）の宣言を読み飛ばす
+    if (!isPython && token.type === 'punctuator' && ['(', '[', '{'].includes(token.value) && brackets[i] > i) {
+      i = brackets[i];
+    }
+  }
+  return declarations;
+};
+
+/**
+ * 範囲全体が関数宣言1つの場合に、その本体（波括弧の内側・def の見出しの後）の範囲を取得
+ * 本体が見出しと同じ行にあるなど、行単位で置き換えられない場合は null
+ */
+const findFunctionBody = (context: SourceContext, start: number, end: number): [number, number] | null => {
+  const { codeTokens, brackets, isPython } = context;
+  let keyword = start;
+  while (keyword < end && DECLARATION_MODIFIERS.has(codeTokens[keyword].value)) keyword++;
+  if (codeTokens[keyword].value !== (isPython ? 'def' : 'function')) return null;
+
+  let open = keyword + 1;
+  while (open < end && codeTokens[open].value !== '(') open++;
+  if (brackets[open] <= open || brackets[open] >= end) return null;
+
+  let bodyStart: number;
+  let bodyEnd: number;
+  if (isPython) {
+    // 戻り値の型注釈（-> T）の後の `:`
+    let colon = brackets[open] + 1;
+    while (colon < end && codeTokens[colon].value !== ':') colon++;
+    bodyStart = colon + 1;
+    bodyEnd = end;
+    if (bodyStart > bodyEnd || codeTokens[bodyStart].line <= codeTokens[colon].line) return null;
+  } else {
+    if (codeTokens[end].value !== '}' || brackets[end] <= brackets[open]) return null;
+    bodyStart = brackets[end] + 1;
+    bodyEnd = end - 1;
+    if (bodyStart > bodyEnd || codeTokens[bodyStart].line <= codeTokens[bodyStart - 1].line ||
+        codeTokens[bodyEnd].endLine >= codeTokens[end].line) {
+      return null;
+    }
+  }
+  return bodyEnd - bodyStart + 1 >= MIN_EXTRACT_TOKENS ? [bodyStart, bodyEnd] : null;
+};
+
+/**
+ * 関数・クラスの宣言を含む範囲を抽出できる範囲に絞り込む
+ * 両方の重複箇所が関数宣言1つ全体の場合は本体だけを抽出し、元の関数は抽出した関数を呼び出す形で残します
+ * @returns 抽出する範囲（重複範囲の先頭からの位置）。宣言を移すことになる範囲は null
+ */
+const excludeDeclarations = (
+  context: SourceContext,
+  startA: number,
+  startB: number,
+  [offsetStart, offsetEnd]: [number, number]
+): [number, number] | null => {
+  const declarations = findTopLevelDeclarations(context, startA + offsetStart, startA + offsetEnd);
+  if (declarations.length === 0) return [offsetStart, offsetEnd];
+  if (declarations.length > 1 || declarations[0] !== startA + offsetStart) return null;
+
+  const bodyA = findFunctionBody(context, startA + offsetStart, startA + offsetEnd);
+  const bodyB = findFunctionBody(context, startB + offsetStart, startB + offsetEnd);
+  if (!bodyA || !bodyB || bodyA[0] - startA !== bodyB[0] - startB || bodyA[1] - startA !== bodyB[1] - startB) {
+    return null;
+  }
+  return [bodyA[0] - startA, bodyA[1] - startA];
+};
+
+/**
+ * 行範囲を含む最も内側の関数ノードを取得（なければファイル全体）
+ */
+const findEnclosingFunction = (node: SyntaxNode, startLine: number, endLine: number): SyntaxNode => {
+  for (const child of node.children) {
+    if (startLine >= child.startLine && endLine <= child.endLine) {
+      const inner = findEnclosingFunction(child, startLine, endLine);
+      if (inner.kind === 'function') return inner;
+      if (child.kind === 'function') return child;
+    }
+  }
+  return node;
+};
+
+/**
+ * 範囲の外で名前が参照されているか
+ * @param before true なら範囲より前（スコープの先頭から）、false なら範囲より後（スコープの末尾まで）
+ */
+const isReferencedOutside = (
+  context: SourceContext,
+  name: string,
+  start: number,
+  end: number,
+  before: boolean
+): boolean => {
+  const { codeTokens } = context;
+  const scope = findEnclosingFunction(context.tree.root, codeTokens[start].line, codeTokens[end].endLine);
+  const from = before ? 0 : end + 1;
+  const to = before ? start : codeTokens.length;
+
+  for (let i = from; i < to; i++) {
+    const token = codeTokens[i];
+    if (token.line < scope.startLine || token.line > scope.endLine) continue;
+    if (token.type !== 'identifier' || token.value !== name) continue;
+    const previous = codeTokens[i - 1];
+    if (previous && (previous.value === '.' || previous.value === '?.')) continue;
+    return true;
+  }
+  return false;
+};
+
+/**
+ * 範囲内の宣言・代入・制御フローを解析
+ * 抽出できない構造（this、関数を抜ける break など）を含む場合は null
+ */
+const analyzeCloneRange = (context: SourceContext, start: number, end: number): CloneRange | null => {
+  const { codeTokens, brackets, isPython } = context;
+  const declarationKeywords = new Map<string, string>();
+  const scopedLocals = new Set<string>();
+  const assignedSet = new Set<string>();
+  const assigned: string[] = [];
+  const firstAssignment = new Map<string, number>();
+  let hasLoop = false;
+  let hasNestedFunction = false;
+  let hasReturn = false;
+  let isAsync = false;
+
+  const assign = (name: string, index: number) => {
+    if (!assignedSet.has(name)) {
+      assignedSet.add(name);
+      assigned.push(name);
+      firstAssignment.set(name, index);
+    }
+  };
+
+  // 関数本体の括弧の中にいるかどうかの判定用
+  const functionBodies: number[] = [];
+  let braceDepth = 0;
+
+  for (let i = start; i <= end; i++) {
+    const token = codeTokens[i];
+    const previous = i > start ? codeTokens[i - 1] : null;
+    const next = i < end ? codeTokens[i + 1] : null;
+    const inNestedFunction = functionBodies.length > 0;
+
+    if (token.type === 'punctuator') {
+      if (token.value === '{') {
+        braceDepth++;
+        const opener = previous?.value === ')' ? brackets[i - 1] : -1;
+        const head = opener > start ? codeTokens[opener - 1] : null;
+        if (previous?.value === '=>' ||
+            (head && (head.value === 'function' || (head.type === 'identifier' && codeTokens[opener - 2]?.value !== '.')))) {
+          functionBodies.push(braceDepth);
+        }
+      } else if (token.value === '}') {
+        if (functionBodies[functionBodies.length - 1] === braceDepth) functionBodies.pop();
+        braceDepth--;
+      } else if (token.value === '=>') {
+        hasNestedFunction = true;
+        // 引数（x => ... / (a, b) => ...）
+        if (previous?.type === 'identifier') scopedLocals.add(previous.value);
+        if (previous?.value === ')' && brackets[i - 1] >= start) {
+          for (let j = brackets[i - 1] + 1; j < i - 1; j++) {
+            if (codeTokens[j].type === 'identifier' && codeTokens[j - 1].value !== ':') {
+              scopedLocals.add(codeTokens[j].value);
+            }
+          }
+        }
+      } else if (ASSIGNMENT_OPERATORS.has(token.value) && previous?.type === 'identifier' &&
+          codeTokens[i - 2]?.value !== '.' && codeTokens[i - 2]?.value !== '?.') {
+        // Pythonの代入は文の先頭で判定するため、ここでは JavaScript と := のみ
+        if (!isPython || token.value === ':=') assign(previous.value, i - 1);
+      } else if ((token.value === '++' || token.value === '--') && !isPython) {
+        const target = next?.type === 'identifier' ? next : previous?.type === 'identifier' ? previous : null;
+        if (target) assign(target.value, i);
+      }
+      continue;
+    }
+
+    if (token.type !== 'keyword') continue;
+
+    switch (token.value) {
+      case 'this':
+      case 'super':
+      case 'global':
+      case 'nonlocal':
+      case 'yield':
+        return null;
+      case 'for':
+      case 'while':
+      case 'do':
+      case 'switch':
+        hasLoop = true;
+        break;
+      case 'break':
+      case 'continue':
+        // 範囲外のループを抜ける制御は関数に移せない
+        if (!hasLoop) return null;
+        break;
+      case 'return':
+        if (!inNestedFunction) hasReturn = true;
+        break;
+      case 'await':
+        if (!inNestedFunction) isAsync = true;
+        break;
+      case 'function':
+      case 'def':
+      case 'lambda':
+        hasNestedFunction = true;
+        break;
+    }
+
+    if (!isPython) {
+      // const / let / var の宣言（直下のブロックの宣言は範囲の後からも参照できる）
+      if (['const', 'let', 'var'].includes(token.value)) {
+        const visible = braceDepth === 0 || token.value === 'var';
+        const declare = (name: string, index: number) => {
+          if (visible) declarationKeywords.set(name, token.value);
+          else scopedLocals.add(name);
+          assign(name, index);
+        };
+        if (next?.type === 'identifier') {
+          declare(next.value, i + 1);
+        } else if (next && (next.value === '{' || next.value === '[') && brackets[i + 1] > i) {
+          for (let j = i + 2; j < brackets[i + 1]; j++) {
+            const binding = codeTokens[j];
+            if (binding.type === 'identifier' && codeTokens[j + 1]?.value !== ':' && codeTokens[j - 1].value !== '=') {
+              declare(binding.value, j);
+            }
+          }
+        }
+      } else if (token.value === 'function' || token.value === 'class') {
+        if (next?.type === 'identifier') {
+          if (braceDepth === 0) declarationKeywords.set(next.value, token.value);
+          else scopedLocals.add(next.value);
+          assign(next.value, i + 1);
+        }
+        // 関数の引数
+        const open = codeTokens.findIndex((candidate, index) => index > i && index <= end && candidate.value === '(');
+        if (token.value === 'function' && open !== -1 && brackets[open] <= end) {
+          for (let j = open + 1; j < brackets[open]; j++) {
+            if (codeTokens[j].type === 'identifier' && codeTokens[j - 1].value !== ':') scopedLocals.add(codeTokens[j].value);
+          }
+        }
+      } else if (token.value === 'catch' && next?.value === '(' && codeTokens[i + 2]?.type === 'identifier') {
+        scopedLocals.add(codeTokens[i + 2].value);
+      }
+    }
+  }
+
+  if (isPython) {
+    if (!collectPythonAssignments(context, start, end, assign, scopedLocals)) return null;
+    if (hasReturn && hasNestedFunction) return null;
+  }
+
+  // 範囲の途中の return は、範囲が return で終わる場合のみ呼び出し側の return で置き換えられる
+  if (hasReturn && !endsWithReturn(context, start, end)) return null;
+
+  // 識別子の役割を決定
+  const roles: (IdentifierRole | null)[] = [];
+  for (let i = start; i <= end; i++) {
+    const token = codeTokens[i];
+    if (token.type !== 'identifier') {
+      roles.push(null);
+      continue;
+    }
+    const previous = i > start ? codeTokens[i - 1] : null;
+    const next = i < end ? codeTokens[i + 1] : null;
+    const name = token.value;
+
+    if (previous && (previous.value === '.' || previous.value === '?.')) {
+      roles.push('property');
+    } else if (!isPython && next?.value === ':' && previous && (previous.value === '{' || previous.value === ',')) {
+      roles.push('key');
+    } else if (isPython && next?.value === '=' && previous && (previous.value === '(' || previous.value === ',') &&
+        isInsideParentheses(context, i, start)) {
+      roles.push('key');
+    } else if (context.language === 'typescript' && previous && (previous.value === 'as' ||
+        (previous.value === ':' && (codeTokens[i - 2]?.value === ')' || declarationKeywords.has(codeTokens[i - 2]?.value) ||
+          scopedLocals.has(codeTokens[i - 2]?.value))))) {
+      roles.push('type');
+    } else if (scopedLocals.has(name) || declarationKeywords.has(name) ||
+        (isPython && assignedSet.has(name) && isPythonLocal(context, name, start, end, firstAssignment.get(name)!))) {
+      roles.push('local');
+    } else if ((isPython ? PYTHON_BUILTINS : JS_GLOBALS).has(name) || context.moduleNames.has(name)) {
+      roles.push('global');
+    } else {
+      roles.push('external');
+    }
+  }
+
+  return {
+    start,
+    end,
+    roles,
+    declarationKeywords,
+    scopedLocals,
+    assigned,
+    hasReturn,
+    isAsync
+  };
+};
+
+/**
+ * トークンが丸括弧の中にあるか（Pythonのキーワード引数の判定用）
+ */
+const isInsideParentheses = (context: SourceContext, index: number, start: number): boolean => {
+  let depth = 0;
+  for (let i = index - 1; i >= start; i--) {
+    const value = context.codeTokens[i].value;
+    if (value === ')' || value === ']' || value === '}') depth++;
+    else if (value === '(' || value === '[' || value === '{') {
+      if (depth === 0) return value === '(';
+      depth--;
+    }
+  }
+  return false;
+};
+
+/**
+ * Pythonの代入先を収集
+ * 文頭の代入・for の変数・as の別名・def の名前を代入として扱い、内包表記やラムダの変数は範囲内に閉じた名前とします
+ */
+const collectPythonAssignments = (
+  context: SourceContext,
+  start: number,
+  end: number,
+  assign: (name: string, index: number) => void,
+  scopedLocals: Set<string>
+): boolean => {
+  const { codeTokens } = context;
+  let depth = 0;
+
+  for (let i = start; i <= end; i++) {
+    const token = codeTokens[i];
+    if (['(', '[', '{'].includes(token.value)) depth++;
+    if ([')', ']', '}'].includes(token.value)) depth--;
+
+    // 文頭の代入（a = ... / a, b = ... / a += ...）
+    if (isStatementStart(context, i) && token.type === 'identifier') {
+      const targets: Token[] = [];
+      let j = i;
+      while (j <= end && (codeTokens[j].type === 'identifier' || codeTokens[j].value === ',')) {
+        if (codeTokens[j].type === 'identifier') targets.push(codeTokens[j]);
+        j++;
+      }
+      if (j <= end && ASSIGNMENT_OPERATORS.has(codeTokens[j].value)) {
+        targets.forEach(target => assign(target.value, codeTokens.indexOf(target, i)));
+      }
+    }
+
+    if (token.type !== 'keyword') continue;
+
+    if (token.value === 'for') {
+      // for の変数（内包表記の変数は外から参照できない）
+      for (let j = i + 1; j <= end && codeTokens[j].value !== 'in'; j++) {
+        if (codeTokens[j].type !== 'identifier') continue;
+        if (depth > 0) scopedLocals.add(codeTokens[j].value);
+        else assign(codeTokens[j].value, j);
+      }
+    } else if (token.value === 'as' && codeTokens[i + 1]?.type === 'identifier') {
+      assign(codeTokens[i + 1].value, i + 1);
+    } else if (token.value === 'def' && codeTokens[i + 1]?.type === 'identifier') {
+      assign(codeTokens[i + 1].value, i + 1);
+      const open = i + 2;
+      if (codeTokens[open]?.value === '(' && context.brackets[open] <= end) {
+        for (let j = open + 1; j < context.brackets[open]; j++) {
+          if (codeTokens[j].type === 'identifier' && codeTokens[j - 1].value !== ':' && codeTokens[j - 1].value !== '=') {
+            scopedLocals.add(codeTokens[j].value);
+          }
+        }
+      }
+    } else if (token.value === 'lambda') {
+      for (let j = i + 1; j <= end && codeTokens[j].value !== ':'; j++) {
+        if (codeTokens[j].type === 'identifier') scopedLocals.add(codeTokens[j].value);
+      }
+    }
+  }
+
+  return depth === 0;
+};
+
+/**
+ * Pythonで代入された名前が範囲内で初めて定義されるか
+ * 範囲より前や、範囲内の最初の代入より前（右辺・累算代入を含む）で参照されていれば外部の変数とみなします
+ */
+const isPythonLocal = (
+  context: SourceContext,
+  name: string,
+  start: number,
+  end: number,
+  firstAssignment: number
+): boolean => {
+  if (isReferencedOutside(context, name, start, end, true)) return false;
+  const { codeTokens } = context;
+
+  // 代入先の並び（a, b = ...）の後の演算子
+  let operator = firstAssignment;
+  while (operator <= end && (codeTokens[operator].type === 'identifier' || codeTokens[operator].value === ',')) operator++;
+  if (operator <= end && ASSIGNMENT_OPERATORS.has(codeTokens[operator].value) &&
+      codeTokens[operator].value !== '=' && codeTokens[operator].value !== ':=') {
+    return false;
+  }
+
+  let statementEnd = firstAssignment;
+  while (statementEnd < end && !isStatementEnd(context, statementEnd)) statementEnd++;
+
+  for (let i = start; i <= statementEnd; i++) {
+    if (i >= firstAssignment && i < operator) continue;
+    const token = codeTokens[i];
+    if (token.type === 'identifier' && token.value === name && codeTokens[i - 1]?.value !== '.') return false;
+  }
+  return true;
+};
+
+/**
+ * 範囲の最後の文が return かどうか
+ */
+const endsWithReturn = (context: SourceContext, start: number, end: number): boolean => {
+  const { codeTokens } = context;
+  const baseColumn = codeTokens[start].column;
+  let depth = 0;
+  let lastStatement = -1;
+
+  for (let i = start; i <= end; i++) {
+    const token = codeTokens[i];
+    const atBase = context.isPython ? token.column === baseColumn : depth === 0;
+    if (atBase && isStatementStart(context, i)) lastStatement = i;
+    if (!context.isPython && i > start && depth === 0 && codeTokens[i - 1].value === ';' && i - 1 !== end) {
+      // 1行に複数の文がある場合
+      lastStatement = i;
+    }
+    if (['(', '[', '{'].includes(token.value)) depth++;
+    if ([')', ']', '}'].includes(token.value)) depth--;
+  }
+
+  return lastStatement !== -1 && codeTokens[lastStatement].value === 'return';
+};
+
+/**
+ * ファイルのインデント単位を推定
+ */
+const detectIndentUnit = (lines: string[], isPython: boolean): string => {
+  if (lines.some(line => line.startsWith('\t'))) return '\t';
+  let unit = Infinity;
+  for (const line of lines) {
+    const match = line.match(/^( +)\S/);
+    if (match) unit = Math.min(unit, match[1].length);
+  }
+  return ' '.repeat(Number.isFinite(unit) && unit >= 2 ? unit : isPython ? 4 : 2);
+};
+
+/**
+ * 他と重ならない名前を作成（name, name2, name3, ...）
+ */
+const createUniqueName = (base: string, used: Set<string>): string => {
+  let name = base;
+  for (let suffix = 2; used.has(name); suffix++) {
+    name = `${base}${suffix}`;
+  }
+  used.add(name);
+  return name;
+};
+
+/**
+ * 行単位の編集から unified diff を作成
+ */
+const createUnifiedDiff = (fileName: string, lines: string[], edits: LineEdit[]): string => {
+  const sorted = edits.slice().sort((a, b) => a.start - b.start || a.deleteCount - b.deleteCount);
+  const output = [`--- a/${fileName}`, `+++ b/${fileName}`];
+  let lineDelta = 0;
+  let index = 0;
+
+  while (index < sorted.length) {
+    // 前後の表示行が重なる編集は1つのハンクにまとめる
+    const group = [sorted[index]];
+    while (index + 1 < sorted.length) {
+      const previous = group[group.length - 1];
+      const next = sorted[index + 1];
+      if (next.start - (previous.start + previous.deleteCount) > DIFF_CONTEXT_LINES * 2) break;
+      group.push(next);
+      index++;
+    }
+    index++;
+
+    const first = group[0];
+    const last = group[group.length - 1];
+    const oldStart = Math.max(1, first.start - DIFF_CONTEXT_LINES);
+    const oldEnd = Math.min(lines.length, last.start + last.deleteCount - 1 + DIFF_CONTEXT_LINES);
+    const body: string[] = [];
+    let oldCount = 0;
+    let newCount = 0;
+    let line = oldStart;
+
+    for (const edit of group) {
+      for (; line < edit.start; line++) {
+        body.push(` ${lines[line - 1]}`);
+        oldCount++;
+        newCount++;
+      }
+      for (let i = 0; i < edit.deleteCount; i++, line++) {
+        body.push(`-${lines[line - 1]}`);
+        oldCount++;
+      }
+      edit.lines.forEach(added => body.push(`+${added}`));
+      newCount += edit.lines.length;
+    }
+    for (; line <= oldEnd; line++) {
+      body.push(` ${lines[line - 1]}`);
+      oldCount++;
+      newCount++;
+    }
+
+    const newStart = oldStart + lineDelta;
+    output.push(`@@ -${oldCount === 0 ? oldStart - 1 : oldStart},${oldCount} +${newCount === 0 ? newStart - 1 : newStart},${newCount} @@`);
+    output.push(...body);
+    lineDelta += newCount - oldCount;
+  }
+
+  return output.join('\n');
+};
+
+/**
+ * 編集を適用したファイル全体を作成
+ */
+const applyLineEdits = (lines: string[], edits: LineEdit[]): string[] => {
+  const result = lines.slice();
+  edits
+    .slice()
+    .sort((a, b) => b.start - a.start || b.deleteCount - a.deleteCount)
+    .forEach(edit => result.splice(edit.start - 1, edit.deleteCount, ...edit.lines));
+  return result;
+};
+
+/**
+ * 抽出した関数を挿入する行（重複箇所を含むファイル直下の関数・クラスの直前）
+ */
+const findInsertionLine = (context: SourceContext, line: number): number => {
+  const container = context.tree.root.children.find(node => line >= node.startLine && line <= node.endLine);
+  let insertion = container ? Math.min(container.startLine, line) : line;
+
+  // 直前のコメント・デコレーターは関数に付属するものとして一緒に扱う
+  while (insertion > 1) {
+    const previous = context.lines[insertion - 2].trim();
+    const attached = context.isPython
+      ? previous.startsWith('@') || previous.startsWith('#')
+      : previous.startsWith('//') || previous.startsWith('/*') || previous.startsWith('*') || previous.startsWith('@');
+    if (!attached || previous === '') break;
+    insertion--;
+  }
+  return insertion;
+};
+
+/**
+ * 重複ペアから共通関数を抽出するリファクタリングを生成
+ * 異なる識別子・リテラルは引数に、範囲の後で使われる変数は戻り値にして、両方の重複箇所を呼び出しに置き換えます
+ * 範囲が関数宣言全体の場合は本体だけを抽出し、元の関数は残します
+ * @returns 自動で抽出できない重複（ギャップ付きクローン、文の途中で切れる範囲、宣言をまたぐ範囲、this の使用など）は null
+ */
+export const generateExtractFunctionRefactoring = (
+  code: string,
+  language: string,
+  duplicate: DuplicateBlock,
+  fileName: string
+): ExtractFunctionRefactoring | null => {
+  if (!SUPPORTED_LANGUAGES.has(language) || duplicate.type === 'gapped') return null;
+
+  try {
+    const context = createSourceContext(code, language);
+    const { codeTokens, isPython } = context;
+
+    // 識別子・リテラル以外が一致していることを確認
+    const rangeA = findTokenRange(context, duplicate.startLineA, duplicate.endLineA);
+    const rangeB = findTokenRange(context, duplicate.startLineB, duplicate.endLineB);
+    if (!rangeA || !rangeB) return null;
+    const length = rangeA[1] - rangeA[0] + 1;
+    if (length !== rangeB[1] - rangeB[0] + 1) return null;
+    for (let i = 0; i < length; i++) {
+      if (normalizeToken(codeTokens[rangeA[0] + i]) !== normalizeToken(codeTokens[rangeB[0] + i])) return null;
+    }
+
+    const statements = findExtractableRange(context, rangeA[0], rangeB[0], length);
+    const extractable = statements && excludeDeclarations(context, rangeA[0], rangeB[0], statements);
+    if (!extractable) return null;
+    const [offsetStart, offsetEnd] = extractable;
+    const cloneA = analyzeCloneRange(context, rangeA[0] + offsetStart, rangeA[0] + offsetEnd);
+    const cloneB = analyzeCloneRange(context, rangeB[0] + offsetStart, rangeB[0] + offsetEnd);
+    if (!cloneA || !cloneB || cloneA.hasReturn !== cloneB.hasReturn) return null;
+
+    // 範囲内の名前（引数名の重複を避けるため）
+    const usedNames = new Set<string>();
+    codeTokens.forEach(token => {
+      if (token.type === 'identifier') usedNames.add(token.value);
+    });
+    const functionName = createUniqueName(isPython ? 'extracted_function' : 'extractedFunction', usedNames);
+    const blockNames = new Set<string>([functionName]);
+    for (let i = cloneA.start; i <= cloneA.end; i++) {
+      if (codeTokens[i].type === 'identifier') blockNames.add(codeTokens[i].value);
+    }
+
+    // 対応する識別子・リテラルを比較して引数を決定
+    const parameters: ExtractFunctionParameter[] = [];
+    const parameterByPair = new Map<string, string>();
+    const localRenames = new Map<string, string>();   // 1つ目の名前 → 2つ目の名前
+    const replacements: { start: number; end: number; text: string }[] = [];
+
+    const getParameter = (pairKey: string, baseName: string, argumentA: string, argumentB: string): string => {
+      const existing = parameterByPair.get(pairKey);
+      if (existing) return existing;
+      const name = parameters.some(parameter => parameter.name === baseName) || (baseName !== argumentA && blockNames.has(baseName))
+        ? createUniqueName(baseName, blockNames)
+        : baseName;
+      blockNames.add(name);
+      parameterByPair.set(pairKey, name);
+      parameters.push({ name, argumentA, argumentB });
+      return name;
+    };
+
+    for (let i = 0; i <= offsetEnd - offsetStart; i++) {
+      const tokenA = codeTokens[cloneA.start + i];
+      const tokenB = codeTokens[cloneB.start + i];
+      const roleA = cloneA.roles[i];
+      const roleB = cloneB.roles[i];
+
+      if (isLiteral(tokenA)) {
+        if (tokenA.value === tokenB.value) continue;
+        // 式を含むテンプレートリテラルは範囲内の変数を参照する可能性がある
+        if (tokenA.type === 'template' && (tokenA.value.includes('${') || tokenB.value.includes('${'))) return null;
+        const name = getParameter(`literal:${tokenA.value}\u0000${tokenB.value}`, 'value', tokenA.value, tokenB.value);
+        replacements.push({ start: tokenA.start, end: tokenA.end, text: name });
+        continue;
+      }
+      if (tokenA.type !== 'identifier') continue;
+
+      const sameName = tokenA.value === tokenB.value;
+      if (roleA === 'property' || roleA === 'key' || roleA === 'type') {
+        if (roleB !== roleA) return null;
+        if (sameName) continue;
+        // 異なるプロパティ名は引数で受け取る（JavaScript はブラケット記法、Python は getattr）
+        const dot = codeTokens[cloneA.start + i - 1];
+        if (roleA !== 'property' || dot.value !== '.') return null;
+        const name = getParameter(
+          `property:${tokenA.value}\u0000${tokenB.value}`,
+          isPython ? 'attribute_name' : 'propertyName',
+          `'${tokenA.value}'`,
+          `'${tokenB.value}'`
+        );
+        if (!isPython) {
+          replacements.push({ start: dot.start, end: tokenA.end, text: `[${name}]` });
+          continue;
+        }
+        const target = codeTokens[cloneA.start + i - 2];
+        if (i < 2 || target.type !== 'identifier' || codeTokens[cloneA.start + i - 3]?.value === '.') return null;
+        const renamedTarget = replacements[replacements.length - 1]?.start === target.start ? replacements.pop()!.text : target.value;
+        replacements.push({ start: target.start, end: tokenA.end, text: `getattr(${renamedTarget}, ${name})` });
+        continue;
+      }
+
+      if (roleA === 'local' || roleB === 'local') {
+        // 範囲内で宣言された変数は関数のローカル変数になる（名前の対応が一貫している場合のみ）
+        if (roleA !== roleB) return null;
+        const renamed = localRenames.get(tokenA.value);
+        if (renamed !== undefined && renamed !== tokenB.value) return null;
+        localRenames.set(tokenA.value, tokenB.value);
+        continue;
+      }
+
+      // 組み込み・ファイル直下の同じ名前はそのまま参照できる
+      if (roleA === 'global' && roleB === 'global' && sameName) continue;
+
+      const name = getParameter(`name:${tokenA.value}\u0000${tokenB.value}`, tokenA.value, tokenA.value, tokenB.value);
+      if (name !== tokenA.value) {
+        replacements.push({ start: tokenA.start, end: tokenA.end, text: name });
+      }
+    }
+
+    // 範囲の後で使われる変数を戻り値にする
+    const outputs = cloneA.assigned.filter(name =>
+      !cloneA.scopedLocals.has(name) && isReferencedOutside(context, name, cloneA.start, cloneA.end, false)
+    );
+    const outputsB = cloneB.assigned.filter(name =>
+      !cloneB.scopedLocals.has(name) && isReferencedOutside(context, name, cloneB.start, cloneB.end, false)
+    );
+    const toNameB = (name: string): string => {
+      const parameter = parameters.find(candidate => candidate.name === parameterByPair.get(`name:${name}\u0000${name}`) ||
+        (candidate.argumentA === name && /^[A-Za-z_$][\w$]*$/.test(candidate.argumentB)));
+      return localRenames.get(name) ?? parameter?.argumentB ?? name;
+    };
+    if (outputsB.length !== outputs.length || outputsB.some(name => !outputs.map(toNameB).includes(name))) return null;
+    if (outputs.length > 0 && cloneA.hasReturn) return null;
+
+    // 引数として受け取った変数への代入は戻り値で呼び出し元に反映する
+    const declaredOutputs = outputs.filter(name => cloneA.declarationKeywords.has(name) || localRenames.has(name));
+    if (!isPython && declaredOutputs.length > 0 && declaredOutputs.length !== outputs.length) return null;
+
+    // 抽出する関数を組み立て
+    const indentUnit = detectIndentUnit(context.lines, isPython);
+    const useSemicolon = !isPython && /;\s*$/m.test(code);
+    const semicolon = useSemicolon ? ';' : '';
+    const startLineA = codeTokens[cloneA.start].line;
+    const endLineA = codeTokens[cloneA.end].endLine;
+    const startLineB = codeTokens[cloneB.start].line;
+    const endLineB = codeTokens[cloneB.end].endLine;
+
+    const bodyStart = context.lineOffsets[startLineA - 1];
+    let bodyText = code.slice(bodyStart, context.lineOffsets[endLineA - 1] + context.lines[endLineA - 1].length);
+    replacements
+      .sort((a, b) => b.start - a.start)
+      .forEach(replacement => {
+        bodyText = bodyText.slice(0, replacement.start - bodyStart) + replacement.text + bodyText.slice(replacement.end - bodyStart);
+      });
+
+    const baseIndent = context.lines[startLineA - 1].match(/^\s*/)?.[0] || '';
+    const bodyLines = bodyText.split('\n').map(line => {
+      if (line.trim() === '') return '';
+      const dedented = line.startsWith(baseIndent) ? line.slice(baseIndent.length) : line.trimStart();
+      return indentUnit + dedented;
+    });
+
+    const parameterList = parameters.map(parameter => parameter.name).join(', ');
+    const asyncPrefix = cloneA.isAsync ? 'async ' : '';
+    const extractedLines: string[] = [];
+    if (isPython) {
+      extractedLines.push(`${asyncPrefix}def ${functionName}(${parameterList}):`, ...bodyLines);
+      if (outputs.length > 0) extractedLines.push(`${indentUnit}return ${outputs.join(', ')}`);
+    } else {
+      extractedLines.push(`${asyncPrefix}function ${functionName}(${parameterList}) {`, ...bodyLines);
+      if (outputs.length === 1) extractedLines.push(`${indentUnit}return ${outputs[0]}${semicolon}`);
+      if (outputs.length > 1) extractedLines.push(`${indentUnit}return { ${outputs.join(', ')} }${semicolon}`);
+      extractedLines.push('}');
+    }
+
+    // 呼び出しに置き換え
+    const createCall = (clone: CloneRange, getArgument: (parameter: ExtractFunctionParameter) => string, getName: (name: string) => string) => {
+      const call = `${cloneA.isAsync ? 'await ' : ''}${functionName}(${parameters.map(getArgument).join(', ')})`;
+      if (clone.hasReturn) return `return ${call}${semicolon}`;
+      if (outputs.length === 0) return `${call}${semicolon}`;
+      if (isPython) return `${outputs.map(getName).join(', ')} = ${call}`;
+
+      const keywords = outputs.map(name => cloneA.declarationKeywords.get(name));
+      const keyword = keywords.every(value => value === 'const') ? 'const' : keywords.includes('var') ? 'var' : 'let';
+      if (outputs.length === 1) {
+        return declaredOutputs.length > 0
+          ? `${keyword} ${getName(outputs[0])} = ${call}${semicolon}`
+          : `${getName(outputs[0])} = ${call}${semicolon}`;
+      }
+      const pattern = `{ ${outputs.map(name => (getName(name) === name ? name : `${name}: ${getName(name)}`)).join(', ')} }`;
+      return declaredOutputs.length > 0 ? `${keyword} ${pattern} = ${call}${semicolon}` : `(${pattern} = ${call})${semicolon}`;
+    };
+
+    const indentOf = (line: number) => context.lines[line - 1].match(/^\s*/)?.[0] || '';
+    const callA = createCall(cloneA, parameter => parameter.argumentA, name => name);
+    const callB = createCall(cloneB, parameter => parameter.argumentB, toNameB);
+
+    const insertionLine = findInsertionLine(context, Math.min(startLineA, startLineB));
+    const edits: LineEdit[] = [
+      { start: insertionLine, deleteCount: 0, lines: [...extractedLines, ''] },
+      { start: startLineA, deleteCount: endLineA - startLineA + 1, lines: [indentOf(startLineA) + callA] },
+      { start: startLineB, deleteCount: endLineB - startLineB + 1, lines: [indentOf(startLineB) + callB] }
+    ];
+
+    return {
+      fileName,
+      functionName,
+      parameters,
+      returnValues: outputs,
+      startLineA,
+      endLineA,
+      startLineB,
+      endLineB,
+      extractedCode: extractedLines.join('\n'),
+      refactoredCode: applyLineEdits(context.lines, edits).join('\n'),
+      diff: createUnifiedDiff(fileName, context.lines, edits)
+    };
+  } catch (error) {
+    console.error('Failed to generate extract function refactoring:', error);
+    return null;
+  }
+};
+
+/**
+ * ファイル内の重複それぞれについてリファクタリングを生成
+ * 各リファクタリングは元のファイルに対する差分のため、1つずつ適用してください
+ */
+export const generateDuplicateRefactorings = (
+  code: string,
+  language: string,
+  duplicates: DuplicateBlock[],
+  fileName: string
+): ExtractFunctionRefactoring[] =>
+  duplicates
+    .map(duplicate => generateExtractFunctionRefactoring(code, language, duplicate, fileName))
+    .filter((refactoring): refactoring is ExtractFunctionRefactoring => refactoring !== null);
+
+export default {
+  generateExtractFunctionRefactoring,
+  generateDuplicateRefactorings
+};
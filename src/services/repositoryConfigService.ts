@@ -0,0 +1,379 @@
+/**
+ * リポジトリ設定サービス
+ * リポジトリのルート直下の .codecoach.yml を読み込み、分析対象のファイル・分析ごとの閾値・
+ * 無効にするルール・重大度の変更・ベースラインのファイルを検証して提供します
+ * 同じファイルの rules と rulePacks はカスタムルールとして rulePackService で読み込みます
+ */
+
+import { getRepositoryContents, getTextFileContent, isRateLimitError } from './githubService';
+import {
+  CustomRuleSeverity,
+  RULE_CATEGORIES,
+  RULE_SEVERITIES,
+  RulePackError,
+  RuleSet,
+  RuleSettings,
+  computeContentId,
+  loadRuleSet,
+  parseConfigDocument,
+  validateRulePack
+} from './rulePackService';
+import { SecurityCheckOptions, Severity, VulnerabilityType } from './securityCheckService';
+
+// 分析ごとの閾値
+export interface AnalysisThresholds {
+  style: {
+    maxLineLength: number;          // これより長い行を報告
+  };
+  complexity: {
+    maxFunctionLines: number;       // これより長い関数を報告
+    maxNestingDepth: number;        // これより深いネストを報告
+  };
+  duplication: {
+    minBlockSize: number;           // 重複とみなす最小行数
+    similarityThreshold: number;    // ギャップ付きクローンと判断する類似度（0-1）
+  };
+  security: {
+    minSeverity: CustomRuleSeverity;  // 報告する最小の重大度
+  };
+}
+
+// リポジトリの設定（disabledRules と severityOverrides のキーはカスタムルールのID・CWE・問題や脆弱性の種類）
+export interface RepositoryConfig extends RuleSettings {
+  id: string;                       // 分析結果に影響する設定から計算した識別子（分析キャッシュのキーに使用）
+  source: string;                   // 設定ファイル
+  include: string[];                // 分析対象にするファイルのグロブ（空の場合はすべて）
+  exclude: string[];                // 分析対象から除くファイルのグロブ（未指定の場合は DEFAULT_EXCLUDE）
+  thresholds: AnalysisThresholds;
+  baseline: string | null;          // 既知の検出結果を記録したベースラインのファイル（未指定の場合は既定のファイル）
+  ruleSet: RuleSet;                 // rules と rulePacks で定義されたカスタムルール
+  errors: RulePackError[];          // 設定の検証エラー（無効な値の代わりに既定値を使用）
+}
+
+// リポジトリのルート直下で探す設定ファイル（先に見つかったものを使う）
+export const CONFIG_FILES = ['.codecoach.yml', '.codecoach.yaml', '.codecoach.json'];
+
+// 既定で分析対象から除くファイル（隠しディレクトリと node_modules 配下）
+export const DEFAULT_EXCLUDE = ['**/node_modules/**', '**/.*/**'];
+
+// 既定の閾値
+export const DEFAULT_THRESHOLDS: AnalysisThresholds = {
+  style: { maxLineLength: 100 },
+  complexity: { maxFunctionLines: 50, maxNestingDepth: 4 },
+  duplication: { minBlockSize: 5, similarityThreshold: 0.7 },
+  security: { minSeverity: 'low' }
+};
+
+// 設定ファイルの最上位のキー
+const CONFIG_KEYS = ['include', 'exclude', 'thresholds', 'disabledRules', 'severityOverrides', 'baseline', 'rules', 'rulePacks'];
+
+// 閾値に指定できる値の範囲
+const THRESHOLD_RANGES: Record<string, { min: number; max?: number; integer: boolean }> = {
+  'style.maxLineLength': { min: 20, integer: true },
+  'complexity.maxFunctionLines': { min: 1, integer: true },
+  'complexity.maxNestingDepth': { min: 1, integer: true },
+  'duplication.minBlockSize': { min: 2, integer: true },
+  'duplication.similarityThreshold': { min: 0.1, max: 1, integer: false }
+};
+
+// カスタムルールのID以外で disabledRules・severityOverrides に指定できる種類
+const BUILTIN_RULE_KEYS = new Set<string>([...RULE_CATEGORIES, ...Object.values(VulnerabilityType)]);
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * ルールのキーを正規化（CWE は大文字の CWE-89 の形式にそろえる）
+ */
+const normalizeRuleKey = (key: string): string => {
+  const match = key.trim().match(/^cwe-(\d+)$/i);
+  return match ? `CWE-${match[1]}` : key.trim();
+};
+
+/**
+ * 文字列または文字列の配列を検証
+ * @returns 文字列の配列、または検証エラーのメッセージ
+ */
+const readStringList = (value: unknown, key: string): string[] | string => {
+  const values = typeof value === 'string' ? [value] : value;
+  if (!Array.isArray(values) || values.some(item => typeof item !== 'string' || item.trim() === '')) {
+    return `${key} には空でない文字列の配列を指定してください。`;
+  }
+  return values.map(item => item.trim());
+};
+
+/**
+ * 閾値を検証し、指定されていない値は既定値で補う
+ */
+const validateThresholds = (raw: unknown, source: string, errors: RulePackError[]): AnalysisThresholds => {
+  const thresholds: AnalysisThresholds = {
+    style: { ...DEFAULT_THRESHOLDS.style },
+    complexity: { ...DEFAULT_THRESHOLDS.complexity },
+    duplication: { ...DEFAULT_THRESHOLDS.duplication },
+    security: { ...DEFAULT_THRESHOLDS.security }
+  };
+  if (raw === undefined || raw === null) return thresholds;
+  if (!isPlainObject(raw)) {
+    errors.push({ source, message: 'thresholds には分析ごとの閾値のオブジェクトを指定してください。' });
+    return thresholds;
+  }
+
+  const analyzers = Object.keys(thresholds);
+  for (const [analyzer, values] of Object.entries(raw)) {
+    if (!analyzers.includes(analyzer)) {
+      errors.push({ source, message: `thresholds.${analyzer} は不明な分析です（${analyzers.join(' / ')} を指定できます）。` });
+      continue;
+    }
+    if (!isPlainObject(values)) {
+      errors.push({ source, message: `thresholds.${analyzer} には閾値のオブジェクトを指定してください。` });
+      continue;
+    }
+
+    const target = thresholds[analyzer as keyof AnalysisThresholds] as Record<string, unknown>;
+    for (const [key, value] of Object.entries(values)) {
+      const path = `${analyzer}.${key}`;
+      if (!Object.prototype.hasOwnProperty.call(target, key)) {
+        errors.push({ source, message: `thresholds.${path} は不明な閾値です（${Object.keys(target).join(' / ')} を指定できます）。` });
+        continue;
+      }
+
+      if (path === 'security.minSeverity') {
+        if (RULE_SEVERITIES.includes(value as CustomRuleSeverity)) {
+          target[key] = value;
+        } else {
+          errors.push({ source, message: `thresholds.${path} は ${RULE_SEVERITIES.join(' / ')} のいずれかを指定してください。` });
+        }
+        continue;
+      }
+
+      const range = THRESHOLD_RANGES[path];
+      const valid = typeof value === 'number' && Number.isFinite(value) &&
+        (!range.integer || Number.isInteger(value)) &&
+        value >= range.min && (range.max === undefined || value <= range.max);
+      if (valid) {
+        target[key] = value;
+      } else {
+        const expected = range.max === undefined ? `${range.min}以上` : `${range.min}〜${range.max}`;
+        errors.push({
+          source,
+          message: `thresholds.${path} には${expected}の${range.integer ? '整数' : '数値'}を指定してください（既定値 ${target[key]} を使用します）。`
+        });
+      }
+    }
+  }
+
+  return thresholds;
+};
+
+/**
+ * ルールのキーがカスタムルール・CWE・問題や脆弱性の種類のいずれかに一致するか
+ */
+const isKnownRuleKey = (key: string, ruleSet: RuleSet): boolean =>
+  /^CWE-\d+$/.test(key) || BUILTIN_RULE_KEYS.has(key) || ruleSet.rules.some(rule => rule.id === key);
+
+/**
+ * 解析済みの設定ファイルを検証して設定を作成
+ * 無効な値はエラーに記録して既定値を使います
+ * @param ruleSet 設定ファイルと rulePacks から読み込んだカスタムルール
+ */
+export const validateRepositoryConfig = (document: unknown, source: string, ruleSet: RuleSet): RepositoryConfig => {
+  // 最上位がオブジェクトでない場合のエラーはルールパックの検証で記録される
+  const errors: RulePackError[] = [];
+  const raw: Record<string, unknown> = isPlainObject(document) ? document : {};
+
+  Object.keys(raw)
+    .filter(key => !CONFIG_KEYS.includes(key))
+    .forEach(key => errors.push({ source, message: `${key} は不明な設定のため無視しました（${CONFIG_KEYS.join(' / ')} を指定できます）。` }));
+
+  // パスのグロブ（先頭の ./ と / はリポジトリのルートを表すものとして取り除く）
+  const readGlobs = (key: 'include' | 'exclude', defaults: string[]): string[] => {
+    if (raw[key] === undefined || raw[key] === null) return defaults;
+    const globs = readStringList(raw[key], key);
+    if (typeof globs === 'string') {
+      errors.push({ source, message: globs });
+      return defaults;
+    }
+    return globs.map(glob => glob.replace(/^\.?\//, ''));
+  };
+  const include = readGlobs('include', []);
+  const exclude = readGlobs('exclude', DEFAULT_EXCLUDE);
+
+  const thresholds = validateThresholds(raw.thresholds, source, errors);
+
+  let disabledRules: string[] = [];
+  if (raw.disabledRules !== undefined && raw.disabledRules !== null) {
+    const keys = readStringList(raw.disabledRules, 'disabledRules');
+    if (typeof keys === 'string') {
+      errors.push({ source, message: keys });
+    } else {
+      disabledRules = Array.from(new Set(keys.map(normalizeRuleKey)));
+    }
+  }
+
+  const severityOverrides: Record<string, CustomRuleSeverity> = {};
+  if (raw.severityOverrides !== undefined && raw.severityOverrides !== null) {
+    if (!isPlainObject(raw.severityOverrides)) {
+      errors.push({ source, message: 'severityOverrides にはルールと重大度の組み合わせ（例: CWE-89: critical）を指定してください。' });
+    } else {
+      for (const [key, severity] of Object.entries(raw.severityOverrides)) {
+        if (RULE_SEVERITIES.includes(severity as CustomRuleSeverity)) {
+          severityOverrides[normalizeRuleKey(key)] = severity as CustomRuleSeverity;
+        } else {
+          errors.push({ source, message: `severityOverrides.${key} は ${RULE_SEVERITIES.join(' / ')} のいずれかを指定してください。` });
+        }
+      }
+    }
+  }
+
+  let baseline: string | null = null;
+  if (raw.baseline !== undefined && raw.baseline !== null) {
+    if (typeof raw.baseline === 'string' && raw.baseline.trim() !== '') {
+      baseline = raw.baseline.trim().replace(/^\.?\//, '');
+    } else {
+      errors.push({ source, message: 'baseline にはベースラインのファイルのパスを指定してください。' });
+    }
+  }
+
+  // 綴りの誤りなどで何にも一致しないキーは、設定が効いていないことが分かるよう報告する
+  [...disabledRules, ...Object.keys(severityOverrides)]
+    .filter(key => !isKnownRuleKey(key, ruleSet))
+    .forEach(key => errors.push({
+      source,
+      message: `${key} に一致するルールがありません。カスタムルールのID、CWE（CWE-89 の形式）、問題の種類（code_style など）、脆弱性の種類（xss など）を指定してください。`
+    }));
+
+  // ファイルの絞り込みとベースライン（キャッシュした結果に後から適用する）は識別子に含めない
+  const id = computeContentId({ thresholds, disabledRules, severityOverrides, ruleSetId: ruleSet.id });
+
+  return { id, source, include, exclude, thresholds, baseline, disabledRules, severityOverrides, ruleSet, errors };
+};
+
+/**
+ * リポジトリの設定を読み込む
+ * 設定ファイルを読み込めない・解析できない場合はエラーを記録し、既定値で分析を続行できるようにします
+ * @param ref 未指定時はデフォルトブランチ
+ * @returns 設定ファイルがない場合は null
+ */
+export const loadRepositoryConfig = async (fullRepoName: string, ref?: string): Promise<RepositoryConfig | null> => {
+  const [owner, repo] = fullRepoName.split('/');
+
+  let rootEntries: { name: string; type: string }[];
+  try {
+    rootEntries = await getRepositoryContents(owner, repo, '', ref);
+  } catch (error) {
+    if (isRateLimitError(error)) throw error;
+    console.warn(`Failed to list repository root for config ${fullRepoName}:`, error);
+    return null;
+  }
+
+  const source = CONFIG_FILES.find(name => rootEntries.some(entry => entry.type === 'file' && entry.name === name));
+  if (!source) return null;
+
+  let document: unknown = null;
+  let loadError: RulePackError | null = null;
+  try {
+    const content = await getTextFileContent(owner, repo, source, ref);
+    try {
+      document = parseConfigDocument(content, source);
+    } catch (error) {
+      loadError = { source, message: `設定ファイルを解析できません: ${error instanceof Error ? error.message : String(error)}` };
+    }
+  } catch (error) {
+    if (isRateLimitError(error)) throw error;
+    console.warn(`Failed to load repository config ${source}:`, error);
+    loadError = { source, message: '設定ファイルを読み込めませんでした。' };
+  }
+
+  const ruleSet = await loadRuleSet(fullRepoName, { source, pack: validateRulePack(document, source) }, ref);
+  const config = validateRepositoryConfig(document, source, ruleSet);
+  if (loadError) config.errors.unshift(loadError);
+  if (config.errors.length > 0) {
+    console.warn(`Repository config errors in ${fullRepoName}:`, config.errors);
+  }
+  return config;
+};
+
+/**
+ * グロブを正規表現に変換
+ * ** は0個以上のディレクトリ、* と ? は / 以外の文字、{a,b} はいずれかに一致します
+ * / を含まないパターンは .gitignore と同じくどの階層の名前にも一致させ、
+ * ディレクトリに一致した場合はその配下のファイルもすべて一致させます
+ */
+const globToRegExps = (glob: string): RegExp[] => {
+  const brace = glob.match(/\{([^{}]*)\}/);
+  if (brace && brace.index !== undefined) {
+    const [prefix, suffix] = [glob.slice(0, brace.index), glob.slice(brace.index + brace[0].length)];
+    return brace[1].split(',').flatMap(option => globToRegExps(prefix + option + suffix));
+  }
+
+  let pattern = glob.endsWith('/') ? `${glob}**` : glob;
+  if (!glob.slice(0, -1).includes('/')) pattern = `**/${pattern}`;
+
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*' && (i === 0 || pattern[i - 1] === '/')) {
+      if (pattern[i + 2] === '/') {
+        source += '(?:[^/]*/)*';
+        i += 2;
+        continue;
+      }
+      if (i + 2 === pattern.length) {
+        source += '.*';
+        i += 1;
+        continue;
+      }
+    }
+    if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return [new RegExp(`^${source}(?:/.*)?$`)];
+};
+
+/**
+ * 分析対象のファイルか判定する関数を作成
+ * include に一致し（未指定の場合はすべて）、exclude に一致しないファイルを対象にします
+ * @param config 設定ファイルがない場合は null（既定の除外だけを適用）
+ */
+export const createPathFilter = (config: RepositoryConfig | null): ((path: string) => boolean) => {
+  const include = (config?.include || []).flatMap(globToRegExps);
+  const exclude = (config?.exclude || DEFAULT_EXCLUDE).flatMap(globToRegExps);
+  return path =>
+    (include.length === 0 || include.some(regex => regex.test(path))) &&
+    !exclude.some(regex => regex.test(path));
+};
+
+/**
+ * 設定の閾値を取得（設定ファイルがない場合は既定値）
+ */
+export const getAnalysisThresholds = (config: RepositoryConfig | null | undefined): AnalysisThresholds =>
+  config?.thresholds || DEFAULT_THRESHOLDS;
+
+/**
+ * 設定を反映したセキュリティチェックのオプションを作成
+ */
+export const getSecurityCheckOptions = (
+  config: RepositoryConfig | null | undefined,
+  fileName: string
+): SecurityCheckOptions => ({
+  fileName,
+  minSeverity: getAnalysisThresholds(config).security.minSeverity as Severity,
+  customRules: config?.ruleSet.rules,
+  ruleSettings: config
+});
+
+export default {
+  CONFIG_FILES,
+  DEFAULT_EXCLUDE,
+  DEFAULT_THRESHOLDS,
+  validateRepositoryConfig,
+  loadRepositoryConfig,
+  createPathFilter,
+  getAnalysisThresholds,
+  getSecurityCheckOptions
+};
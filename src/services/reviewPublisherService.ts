@@ -0,0 +1,474 @@
+/**
+ * レビュー投稿サービス
+ * プルリクエスト分析の指摘をGitHubのインラインレビューコメントとチェック結果として投稿します
+ */
+
+import { CodeIssue, calculateOverallScore } from './codeAnalysisService';
+import { CodeImprovement, generateCodeImprovements } from './codeImprovementService';
+import { GithubRequest, fetchFromGithub, isRateLimitError } from './githubService';
+import { DiffHunk, PullRequestAnalysisResult, PullRequestFileAnalysis } from './pullRequestAnalysisService';
+import { SecurityVulnerability, Severity } from './securityCheckService';
+
+// インラインレビューコメントの下書き
+export interface ReviewCommentDraft {
+  path: string;
+  line: number;                 // コメント対象の行（変更後のファイル）
+  startLine?: number;           // 複数行の提案の場合の開始行
+  side: 'RIGHT';
+  body: string;
+  source: 'issue' | 'security' | 'improvement';
+  hasSuggestion: boolean;       // GitHubのsuggestionブロックを含むか
+}
+
+// コメントにできなかった指摘
+export interface SkippedFinding {
+  path: string;
+  line: number;
+  source: ReviewCommentDraft['source'];
+  reason: 'outside_diff' | 'comment_limit';
+}
+
+// チェック結果の下書き
+export interface CheckRunDraft {
+  name: string;
+  headSha: string;
+  conclusion: 'success' | 'neutral' | 'failure';
+  title: string;
+  summary: string;
+  text: string;
+}
+
+// 投稿内容（ドライラン時はこの内容をプレビュー）
+export interface ReviewPublication {
+  owner: string;
+  repo: string;
+  pullNumber: number;
+  commitId: string;
+  overallScore: number;
+  reviewBody: string;
+  comments: ReviewCommentDraft[];
+  skipped: SkippedFinding[];
+  checkRun: CheckRunDraft;
+}
+
+// 投稿結果
+export interface PublishResult {
+  dryRun: boolean;
+  publication: ReviewPublication;
+  reviewUrl: string | null;
+  postedComments: number;
+  // チェックランはGitHub Appのトークンが必要なため、使えない場合はコミットステータスで代替
+  checkDelivery: 'check_run' | 'commit_status' | 'failed' | 'not_sent';
+}
+
+// 投稿オプション
+export interface PublishOptions {
+  dryRun?: boolean;
+  request?: GithubRequest;      // GitHub API呼び出し（テスト時はモックを渡す）
+}
+
+// 1回のレビューに含めるコメントの上限
+const MAX_REVIEW_COMMENTS = 50;
+
+// チェックランとコミットステータスの名前
+const CHECK_NAME = 'CodeCoach';
+
+// コミットステータスの説明文の最大長（GitHubの制限）
+const STATUS_DESCRIPTION_MAX_LENGTH = 140;
+
+// 改善パターンが見つからず汎用の例を出した場合の目印（そのまま適用できないためsuggestionにしない）
+const GENERIC_IMPROVEMENT_MARKER = '-> 以下のように修正:';
+
+/**
+ * 差分上でコメント可能な行（変更後のファイルの追加行・文脈行）とそのハンク番号を取得
+ */
+const getCommentableLines = (hunks: DiffHunk[]): Map<number, number> => {
+  const lines = new Map<number, number>();
+  hunks.forEach((hunk, hunkIndex) => {
+    hunk.lines.forEach(line => {
+      if (line.newLine !== null) lines.set(line.newLine, hunkIndex);
+    });
+  });
+  return lines;
+};
+
+/**
+ * 改善コードからsuggestionブロックとして適用できる行範囲と置換内容を求める
+ * 前後の一致する行を取り除き、残った範囲が同じハンク内でコメント可能な場合のみ返す
+ */
+export const buildSuggestion = (
+  improvement: CodeImprovement,
+  commentableLines: Map<number, number>
+): { startLine: number; endLine: number; replacement: string[] } | null => {
+  const { originalIssue, improvedCode } = improvement;
+  if (!originalIssue.codeContext || improvedCode.includes(GENERIC_IMPROVEMENT_MARKER)) {
+    return null;
+  }
+
+  const originalLines = originalIssue.codeContext.split('\n');
+  const improvedLines = improvedCode.split('\n');
+  // コンテキストは問題行の4行前から取得されている（codeImprovementServiceと同じ範囲）
+  const contextStartLine = Math.max(0, originalIssue.line - 5) + 1;
+
+  let prefix = 0;
+  while (
+    prefix < originalLines.length &&
+    prefix < improvedLines.length &&
+    originalLines[prefix] === improvedLines[prefix]
+  ) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < originalLines.length - prefix &&
+    suffix < improvedLines.length - prefix &&
+    originalLines[originalLines.length - 1 - suffix] === improvedLines[improvedLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  // 変更なし、または行の挿入のみの場合は適用範囲を特定できない
+  if (prefix + suffix >= originalLines.length) return null;
+
+  const startLine = contextStartLine + prefix;
+  const endLine = contextStartLine + originalLines.length - 1 - suffix;
+  const hunkIndex = commentableLines.get(startLine);
+  for (let line = startLine; line <= endLine; line++) {
+    if (hunkIndex === undefined || commentableLines.get(line) !== hunkIndex) return null;
+  }
+
+  return {
+    startLine,
+    endLine,
+    replacement: improvedLines.slice(prefix, improvedLines.length - suffix)
+  };
+};
+
+// 問題と改善提案を対応付けるキー
+const getIssueKey = (issue: CodeIssue): string => `${issue.line}:${issue.type}:${issue.message}`;
+
+// カスタムルールで検出した場合のルールID表記
+const formatRuleId = (ruleId?: string): string => (ruleId ? `（ルール: \`${ruleId}\`）` : '');
+
+/**
+ * コード品質の問題のコメント本文（カスタムルールの自動修正はsuggestionブロック付き）
+ */
+const formatIssueComment = (issue: CodeIssue): string => {
+  const lines = [`**[コード品質: ${issue.type} / ${issue.severity}]** ${issue.message}${formatRuleId(issue.ruleId)}`];
+  if (issue.suggestion) {
+    lines.push('', `提案: ${issue.suggestion}`);
+  }
+  if (issue.fix) {
+    lines.push('', '```suggestion', issue.fix.fixedLine, '```');
+  }
+  return lines.join('\n');
+};
+
+/**
+ * 改善提案のコメント本文（適用可能な場合はsuggestionブロック付き）
+ */
+const formatImprovementComment = (
+  improvement: CodeImprovement,
+  replacement: string[] | null
+): string => {
+  const { originalIssue } = improvement;
+  const lines = [
+    `**[コード品質: ${originalIssue.type} / ${originalIssue.severity}]** ${originalIssue.message}`,
+    '',
+    `提案: ${improvement.suggestion}`
+  ];
+  if (replacement) {
+    lines.push('', '```suggestion', ...replacement, '```');
+  }
+  if (improvement.explanation) {
+    lines.push('', '<details><summary>解説</summary>', '', improvement.explanation, '', '</details>');
+  }
+  return lines.join('\n');
+};
+
+/**
+ * 脆弱性のコメント本文（カスタムルールの自動修正はsuggestionブロック付き）
+ */
+const formatVulnerabilityComment = (vulnerability: SecurityVulnerability): string => {
+  const cwe = vulnerability.cwe ? ` (${vulnerability.cwe})` : '';
+  const lines = [
+    `**[セキュリティ: ${vulnerability.type} / ${vulnerability.severity}]** ${vulnerability.message}${cwe}${formatRuleId(vulnerability.ruleId)}`,
+    '',
+    `推奨: ${vulnerability.recommendation}`
+  ];
+  if (vulnerability.fix) {
+    lines.push('', '```suggestion', vulnerability.fix.fixedLine, '```');
+  } else if (vulnerability.exampleFix) {
+    lines.push('', '<details><summary>修正例</summary>', '', '```', vulnerability.exampleFix, '```', '', '</details>');
+  }
+  return lines.join('\n');
+};
+
+/**
+ * ファイルの指摘をコメントの下書きに変換
+ */
+const buildFileComments = (
+  file: PullRequestFileAnalysis,
+  improvements: CodeImprovement[]
+): { comments: ReviewCommentDraft[]; skipped: SkippedFinding[] } => {
+  const commentableLines = getCommentableLines(file.hunks);
+  const comments: ReviewCommentDraft[] = [];
+  const skipped: SkippedFinding[] = [];
+
+  const addComment = (comment: Omit<ReviewCommentDraft, 'path' | 'side'>) => {
+    if (!commentableLines.has(comment.line)) {
+      skipped.push({ path: file.fileName, line: comment.line, source: comment.source, reason: 'outside_diff' });
+      return;
+    }
+    comments.push({ ...comment, path: file.fileName, side: 'RIGHT' });
+  };
+
+  const improvementsByIssue = new Map(
+    improvements.map(improvement => [getIssueKey(improvement.originalIssue), improvement])
+  );
+
+  file.issues.forEach(issue => {
+    const improvement = improvementsByIssue.get(getIssueKey(issue));
+    if (!improvement) {
+      addComment({ line: issue.line, body: formatIssueComment(issue), source: 'issue', hasSuggestion: Boolean(issue.fix) });
+      return;
+    }
+
+    const suggestion = buildSuggestion(improvement, commentableLines);
+    addComment({
+      line: suggestion ? suggestion.endLine : issue.line,
+      startLine: suggestion && suggestion.startLine < suggestion.endLine ? suggestion.startLine : undefined,
+      body: formatImprovementComment(improvement, suggestion ? suggestion.replacement : null),
+      source: 'improvement',
+      hasSuggestion: suggestion !== null
+    });
+  });
+
+  file.vulnerabilities.forEach(vulnerability => addComment({
+    line: vulnerability.line,
+    body: formatVulnerabilityComment(vulnerability),
+    source: 'security',
+    hasSuggestion: Boolean(vulnerability.fix)
+  }));
+
+  return { comments, skipped };
+};
+
+/**
+ * チェック結果の下書きを作成
+ */
+const buildCheckRun = (result: PullRequestAnalysisResult, overallScore: number): CheckRunDraft => {
+  const vulnerabilities = result.files.flatMap(file => file.vulnerabilities);
+  const blocking = vulnerabilities.filter(vulnerability =>
+    vulnerability.severity === Severity.CRITICAL || vulnerability.severity === Severity.HIGH
+  ).length;
+  const findings = result.summary.issues + result.summary.vulnerabilities + result.summary.duplicates;
+
+  const conclusion: CheckRunDraft['conclusion'] = blocking > 0
+    ? 'failure'
+    : findings > 0 ? 'neutral' : 'success';
+
+  const summary = [
+    `総合スコア: **${overallScore}/100**`,
+    '',
+    '| 項目 | 件数 |',
+    '| --- | --- |',
+    `| 分析ファイル | ${result.summary.analyzedFiles} |`,
+    `| 変更行 | ${result.summary.changedLines} |`,
+    `| コード品質の問題 | ${result.summary.issues} |`,
+    `| 脆弱性 | ${result.summary.vulnerabilities}（重大・高: ${blocking}） |`,
+    `| 重複 | ${result.summary.duplicates} |`
+  ].join('\n');
+
+  const text = result.files
+    .filter(file => file.issues.length + file.vulnerabilities.length + file.duplicates.length > 0)
+    .map(file => `- \`${file.fileName}\`: 問題 ${file.issues.length} / 脆弱性 ${file.vulnerabilities.length} / 重複 ${file.duplicates.length}`)
+    .join('\n');
+
+  return {
+    name: CHECK_NAME,
+    headSha: result.headSha,
+    conclusion,
+    title: `スコア ${overallScore}/100・指摘 ${findings}件`,
+    summary,
+    text
+  };
+};
+
+/**
+ * プルリクエスト分析結果から投稿内容を作成（GitHubへは送信しない）
+ * @param improvementsByFile ファイル名ごとの改善提案（該当する問題はsuggestion付きのコメントになる）
+ */
+export const buildReviewPublication = (
+  result: PullRequestAnalysisResult,
+  improvementsByFile: Record<string, CodeImprovement[]> = {}
+): ReviewPublication => {
+  const [owner, repo] = result.repoName.split('/');
+  const comments: ReviewCommentDraft[] = [];
+  const skipped: SkippedFinding[] = [];
+
+  result.files.forEach(file => {
+    const fileComments = buildFileComments(file, improvementsByFile[file.fileName] || []);
+    comments.push(...fileComments.comments);
+    skipped.push(...fileComments.skipped);
+  });
+
+  // 上限を超えたコメントは重要度の高いもの（脆弱性 → 改善提案 → 問題）を優先
+  const priority: Record<ReviewCommentDraft['source'], number> = { security: 0, improvement: 1, issue: 2 };
+  const sorted = [...comments].sort((a, b) => priority[a.source] - priority[b.source]);
+  sorted.slice(MAX_REVIEW_COMMENTS).forEach(comment => {
+    skipped.push({ path: comment.path, line: comment.line, source: comment.source, reason: 'comment_limit' });
+  });
+
+  const analyses = result.files
+    .map(file => file.analysis)
+    .filter((analysis): analysis is NonNullable<typeof analysis> => analysis !== null);
+  const overallScore = calculateOverallScore(analyses);
+  const checkRun = buildCheckRun(result, overallScore);
+
+  const reviewBody = [
+    `### CodeCoach レビュー`,
+    '',
+    checkRun.summary,
+    skipped.length > 0 ? `\n差分外または上限超過のため ${skipped.length}件の指摘はインラインコメントにしていません。` : ''
+  ].join('\n').trim();
+
+  return {
+    owner,
+    repo,
+    pullNumber: result.pullNumber,
+    commitId: result.headSha,
+    overallScore,
+    reviewBody,
+    comments: sorted.slice(0, MAX_REVIEW_COMMENTS),
+    skipped,
+    checkRun
+  };
+};
+
+/**
+ * 問題のあるファイルの改善提案を生成し、投稿内容を作成
+ */
+export const prepareReviewPublication = async (
+  result: PullRequestAnalysisResult
+): Promise<ReviewPublication> => {
+  const improvementsByFile: Record<string, CodeImprovement[]> = {};
+
+  for (const file of result.files) {
+    if (file.issues.length === 0 || !file.analysis?.codeContent) continue;
+    try {
+      improvementsByFile[file.fileName] = await generateCodeImprovements(
+        file.analysis.codeContent,
+        file.language,
+        file.issues
+      );
+    } catch (error) {
+      console.error(`Failed to generate improvements for ${file.fileName}:`, error);
+    }
+  }
+
+  return buildReviewPublication(result, improvementsByFile);
+};
+
+/**
+ * チェックランを作成（権限がない場合はコミットステータスで代替）
+ */
+const publishCheck = async (
+  publication: ReviewPublication,
+  request: GithubRequest
+): Promise<PublishResult['checkDelivery']> => {
+  const { owner, repo, checkRun } = publication;
+
+  try {
+    await request(`/repos/${owner}/${repo}/check-runs`, {
+      method: 'POST',
+      body: JSON.stringify({
+        name: checkRun.name,
+        head_sha: checkRun.headSha,
+        status: 'completed',
+        conclusion: checkRun.conclusion,
+        output: {
+          title: checkRun.title,
+          summary: checkRun.summary,
+          text: checkRun.text
+        }
+      })
+    });
+    return 'check_run';
+  } catch (error) {
+    if (isRateLimitError(error)) throw error;
+    console.error('Failed to create check run, falling back to commit status:', error);
+  }
+
+  try {
+    await request(`/repos/${owner}/${repo}/statuses/${checkRun.headSha}`, {
+      method: 'POST',
+      body: JSON.stringify({
+        state: checkRun.conclusion === 'failure' ? 'failure' : 'success',
+        context: checkRun.name,
+        description: checkRun.title.substring(0, STATUS_DESCRIPTION_MAX_LENGTH)
+      })
+    });
+    return 'commit_status';
+  } catch (error) {
+    if (isRateLimitError(error)) throw error;
+    console.error('Failed to create commit status:', error);
+    return 'failed';
+  }
+};
+
+/**
+ * 投稿内容をGitHubに送信
+ * ドライラン時は何も送信せず、投稿内容をそのまま返します
+ */
+export const publishReview = async (
+  publication: ReviewPublication,
+  options: PublishOptions = {}
+): Promise<PublishResult> => {
+  const { dryRun = false, request = fetchFromGithub } = options;
+
+  if (dryRun) {
+    return {
+      dryRun: true,
+      publication,
+      reviewUrl: null,
+      postedComments: 0,
+      checkDelivery: 'not_sent'
+    };
+  }
+
+  const { owner, repo, pullNumber } = publication;
+  const review = await request(`/repos/${owner}/${repo}/pulls/${pullNumber}/reviews`, {
+    method: 'POST',
+    body: JSON.stringify({
+      commit_id: publication.commitId,
+      body: publication.reviewBody,
+      event: 'COMMENT',
+      comments: publication.comments.map(comment => ({
+        path: comment.path,
+        line: comment.line,
+        side: comment.side,
+        ...(comment.startLine !== undefined ? { start_line: comment.startLine, start_side: comment.side } : {}),
+        body: comment.body
+      }))
+    })
+  });
+
+  const checkDelivery = await publishCheck(publication, request);
+
+  return {
+    dryRun: false,
+    publication,
+    reviewUrl: review?.html_url || null,
+    postedComments: publication.comments.length,
+    checkDelivery
+  };
+};
+
+export default {
+  buildReviewPublication,
+  prepareReviewPublication,
+  buildSuggestion,
+  publishReview
+};
@@ -0,0 +1,783 @@
+/**
+ * カスタムルールパックサービス
+ * リポジトリの .codecoach.yml（または JSON のルールパック）に定義されたチーム独自のルールを読み込み、
+ * 正規表現のパターンまたは構文木のクエリでコードを検査します
+ * 検出結果はセキュリティチェック（category: security）とコード品質の問題検出に合流します
+ */
+
+import { parse as parseYaml } from 'yaml';
+import { IssueType } from './codeAnalysisService';
+import { getTextFileContent, isRateLimitError } from './githubService';
+import { SyntaxNode, SyntaxTree, Token, getCodeTokens, parseCode, walkSyntaxTree } from './parser';
+import { matchBrackets } from './parser/lexer';
+
+// ルールの重大度（セキュリティチェックの重大度と同じ値）
+export type CustomRuleSeverity = 'critical' | 'high' | 'medium' | 'low' | 'info';
+
+// 構文木クエリの対象
+export type CustomRuleQueryKind = 'call' | 'import' | 'function' | 'class' | 'control';
+
+// 構文木クエリ
+export interface CustomRuleQuery {
+  kind: CustomRuleQueryKind;
+  name?: string;          // 名前に一致させる正規表現（呼び出しは a.b.c のようなドット区切り、import はモジュール名）
+  minLines?: number;      // function/class/control: この行数以上のブロックだけ報告
+  minParams?: number;     // function: この数以上の引数を取る関数だけ報告
+  inside?: string;        // 囲んでいる関数・クラスの名前に一致させる正規表現（一致するものの中だけ報告）
+  notInside?: string;     // 囲んでいる関数・クラスの名前がこの正規表現に一致する場合は報告しない
+}
+
+// カスタムルール
+export interface CustomRule {
+  id: string;
+  message: string;
+  severity: CustomRuleSeverity;
+  category: IssueType;            // security はセキュリティチェック、それ以外はコード品質の問題として報告
+  languages?: string[];           // 未指定の場合はすべての言語
+  cwe?: string;                   // CWE-89 の形式
+  vulnerabilityType?: string;     // category が security の場合の脆弱性タイプ（VulnerabilityType の値）
+  suggestion?: string;            // 修正の提案
+  pattern?: string;               // 正規表現のパターン（pattern と query のどちらか一方）
+  flags?: string;                 // 正規表現のフラグ（i, m, s, u）
+  query?: CustomRuleQuery;
+  fix?: string;                   // 自動修正のテンプレート（一致した部分を置き換える。$1 や $& で一致した文字列を参照）
+  source: string;                 // ルールを定義したファイル
+}
+
+// 自動修正（1行の中の置換）
+export interface RuleFix {
+  line: number;
+  startColumn: number;            // 置き換える範囲の開始列（1始まり）
+  endColumn: number;              // 置き換える範囲の終了列（排他的）
+  replacement: string;
+  fixedLine: string;              // 修正後の行全体
+}
+
+// ルールに一致した箇所
+export interface CustomRuleMatch {
+  rule: CustomRule;
+  line: number;
+  column: number;
+  code: string;                   // 一致した行（前後の空白を除く）
+  fix?: RuleFix;
+}
+
+// ルールパックの読み込み・検証エラー
+export interface RulePackError {
+  source: string;
+  ruleId?: string;
+  message: string;
+}
+
+// リポジトリで有効なルールの集合
+export interface RuleSet {
+  id: string;                     // ルールの内容から計算した識別子（分析キャッシュのキーに使用）
+  rules: CustomRule[];
+  sources: string[];              // 読み込んだファイル
+  errors: RulePackError[];        // 読み込めなかったファイル・無効なルール（無効なルールは使用しない）
+}
+
+// ルールパックの解析結果
+export interface ParsedRulePack {
+  rules: CustomRule[];
+  rulePacks: string[];            // 設定ファイルから参照されている別のルールパック
+  errors: RulePackError[];
+}
+
+// 無効にするルールと重大度の変更（キーはカスタムルールのID・CWE・問題や脆弱性の種類）
+export interface RuleSettings {
+  disabledRules: string[];
+  severityOverrides: Record<string, CustomRuleSeverity>;
+}
+
+// ルールの重大度・カテゴリ（カテゴリはコード品質の問題の種類と同じ値）
+export const RULE_SEVERITIES: CustomRuleSeverity[] = ['critical', 'high', 'medium', 'low', 'info'];
+export const RULE_CATEGORIES: IssueType[] = ['code_style', 'naming', 'complexity', 'best_practice', 'security', 'performance'];
+const QUERY_KINDS: CustomRuleQueryKind[] = ['call', 'import', 'function', 'class', 'control'];
+
+// 自動修正を生成できるクエリ（名前の位置が1か所に決まるもの）
+const FIXABLE_QUERY_KINDS: CustomRuleQueryKind[] = ['call', 'import'];
+
+const RULE_ID_PATTERN = /^[A-Za-z0-9_.\-/]+$/;
+const ALLOWED_FLAGS = /^[imsu]*$/;
+
+// 呼び出しの直前に置かれても宣言にはならないキーワード（`return foo()` など）
+const EXPRESSION_KEYWORDS = new Set([
+  'return', 'new', 'await', 'yield', 'throw', 'raise', 'typeof', 'delete', 'in', 'of', 'is',
+  'case', 'else', 'do', 'not', 'and', 'or', 'if', 'elif', 'while', 'assert', 'go', 'defer', 'lambda'
+]);
+
+// 呼び出し先のドット区切りの名前を構成するキーワード（`this.save()` など）
+const RECEIVER_KEYWORDS = new Set(['this', 'super', 'self', 'base']);
+
+// メンバーアクセスの演算子
+const MEMBER_OPERATORS = new Set(['.', '?.', '->', '::']);
+
+/**
+ * 正規表現を作成（不正な場合は null）
+ */
+const compileRegExp = (source: string, flags = ''): RegExp | null => {
+  try {
+    return new RegExp(source, flags);
+  } catch (error) {
+    return null;
+  }
+};
+
+/**
+ * 1件のルール定義を検証
+ * @returns 有効なルール、または検証エラーのメッセージ
+ */
+const validateRule = (raw: unknown, source: string): CustomRule | string => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return 'ルールはオブジェクトで定義してください。';
+  }
+  const definition = raw as Record<string, unknown>;
+
+  if (typeof definition.id !== 'string' || !RULE_ID_PATTERN.test(definition.id)) {
+    return 'id には英数字と _ . - / だけを使った文字列を指定してください。';
+  }
+  if (typeof definition.message !== 'string' || definition.message.trim() === '') {
+    return 'message を指定してください。';
+  }
+
+  const severity = (definition.severity ?? 'medium') as CustomRuleSeverity;
+  if (!RULE_SEVERITIES.includes(severity)) {
+    return `severity は ${RULE_SEVERITIES.join(' / ')} のいずれかを指定してください。`;
+  }
+  const category = (definition.category ?? 'best_practice') as IssueType;
+  if (!RULE_CATEGORIES.includes(category)) {
+    return `category は ${RULE_CATEGORIES.join(' / ')} のいずれかを指定してください。`;
+  }
+
+  let languages: string[] | undefined;
+  if (definition.languages !== undefined) {
+    const values = typeof definition.languages === 'string' ? [definition.languages] : definition.languages;
+    if (!Array.isArray(values) || values.some(language => typeof language !== 'string')) {
+      return 'languages には言語IDの配列を指定してください。';
+    }
+    languages = values.map((language: string) => language.toLowerCase());
+  }
+
+  let cwe: string | undefined;
+  if (definition.cwe !== undefined) {
+    const match = String(definition.cwe).match(/^(?:CWE-)?(\d+)$/i);
+    if (!match) return 'cwe は CWE-89 の形式で指定してください。';
+    cwe = `CWE-${match[1]}`;
+  }
+
+  for (const key of ['suggestion', 'vulnerabilityType', 'fix']) {
+    if (definition[key] !== undefined && typeof definition[key] !== 'string') {
+      return `${key} には文字列を指定してください。`;
+    }
+  }
+
+  const hasPattern = definition.pattern !== undefined;
+  const hasQuery = definition.query !== undefined;
+  if (hasPattern === hasQuery) {
+    return 'pattern と query のどちらか一方を指定してください。';
+  }
+
+  const rule: CustomRule = {
+    id: definition.id,
+    message: definition.message,
+    severity,
+    category,
+    languages,
+    cwe,
+    vulnerabilityType: definition.vulnerabilityType as string | undefined,
+    suggestion: definition.suggestion as string | undefined,
+    fix: definition.fix as string | undefined,
+    source
+  };
+
+  if (hasPattern) {
+    const flags = definition.flags ?? '';
+    if (typeof definition.pattern !== 'string' || definition.pattern === '') {
+      return 'pattern には正規表現の文字列を指定してください。';
+    }
+    if (typeof flags !== 'string' || !ALLOWED_FLAGS.test(flags)) {
+      return 'flags に指定できるのは i, m, s, u だけです。';
+    }
+    if (!compileRegExp(definition.pattern, flags)) {
+      return `pattern の正規表現が不正です: ${definition.pattern}`;
+    }
+    return { ...rule, pattern: definition.pattern, flags: flags || undefined };
+  }
+
+  const query = (definition.query && typeof definition.query === 'object' ? definition.query : {}) as Record<string, unknown>;
+  const kind = query.kind as CustomRuleQueryKind;
+  if (!QUERY_KINDS.includes(kind)) {
+    return `query.kind は ${QUERY_KINDS.join(' / ')} のいずれかを指定してください。`;
+  }
+  for (const key of ['name', 'inside', 'notInside']) {
+    const value = query[key];
+    if (value === undefined) continue;
+    if (typeof value !== 'string' || !compileRegExp(value)) {
+      return `query.${key} の正規表現が不正です。`;
+    }
+  }
+  for (const key of ['minLines', 'minParams']) {
+    const value = query[key];
+    if (value !== undefined && (typeof value !== 'number' || !Number.isInteger(value) || value < 1)) {
+      return `query.${key} には1以上の整数を指定してください。`;
+    }
+  }
+  if (query.minParams !== undefined && kind !== 'function') {
+    return 'query.minParams は kind: function でのみ使用できます。';
+  }
+  if (query.minLines !== undefined && FIXABLE_QUERY_KINDS.includes(kind)) {
+    return `query.minLines は kind: ${kind} では使用できません。`;
+  }
+  if (rule.fix !== undefined && !FIXABLE_QUERY_KINDS.includes(kind)) {
+    return `fix は pattern のルールと kind: ${FIXABLE_QUERY_KINDS.join(' / ')} のクエリでのみ使用できます。`;
+  }
+
+  return {
+    ...rule,
+    query: {
+      kind,
+      name: query.name as string | undefined,
+      minLines: query.minLines as number | undefined,
+      minParams: query.minParams as number | undefined,
+      inside: query.inside as string | undefined,
+      notInside: query.notInside as string | undefined
+    }
+  };
+};
+
+/**
+ * 設定ファイル・ルールパックの文書を解析（拡張子が .json の場合は JSON、それ以外は YAML）
+ * @throws 構文が不正な場合
+ */
+export const parseConfigDocument = (content: string, source: string): unknown =>
+  source.toLowerCase().endsWith('.json') ? JSON.parse(content) : parseYaml(content);
+
+/**
+ * ルールパック（YAML または JSON）を解析して検証
+ * 無効なルールはエラーに記録して読み飛ばします
+ * @param source ファイルのパス（拡張子が .json の場合は JSON として解析）
+ */
+export const parseRulePack = (content: string, source: string): ParsedRulePack => {
+  let document: unknown;
+  try {
+    document = parseConfigDocument(content, source);
+  } catch (error) {
+    const message = `ルールパックを解析できません: ${error instanceof Error ? error.message : String(error)}`;
+    return { rules: [], rulePacks: [], errors: [{ source, message }] };
+  }
+  return validateRulePack(document, source);
+};
+
+/**
+ * 解析済みの文書からルールと参照しているルールパックを取り出して検証
+ * 設定ファイルの rules 以外のキー（include など）は読み飛ばします
+ */
+export const validateRulePack = (document: unknown, source: string): ParsedRulePack => {
+  const result: ParsedRulePack = { rules: [], rulePacks: [], errors: [] };
+
+  if (document === null || document === undefined) return result;
+  if (typeof document !== 'object' || Array.isArray(document)) {
+    result.errors.push({ source, message: 'ルールパックの最上位はオブジェクトにしてください。' });
+    return result;
+  }
+  const { rules, rulePacks } = document as Record<string, unknown>;
+
+  if (rules !== undefined && !Array.isArray(rules)) {
+    result.errors.push({ source, message: 'rules にはルールの配列を指定してください。' });
+  } else {
+    (rules || []).forEach((raw: unknown, index: number) => {
+      const validated = validateRule(raw, source);
+      if (typeof validated === 'string') {
+        const id = raw && typeof raw === 'object' ? (raw as Record<string, unknown>).id : undefined;
+        const ruleId = typeof id === 'string' ? id : undefined;
+        result.errors.push({ source, ruleId, message: `rules[${index}]: ${validated}` });
+      } else {
+        result.rules.push(validated);
+      }
+    });
+  }
+
+  if (rulePacks !== undefined) {
+    if (!Array.isArray(rulePacks) || rulePacks.some((path: unknown) => typeof path !== 'string')) {
+      result.errors.push({ source, message: 'rulePacks にはルールパックのパスの配列を指定してください。' });
+    } else {
+      result.rulePacks = rulePacks.map((path: string) => path.replace(/^\.?\//, ''));
+    }
+  }
+
+  return result;
+};
+
+// 内容から識別子を計算（FNV-1a）
+export const computeContentId = (value: unknown): string => {
+  const text = JSON.stringify(value);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+/**
+ * 解析済みのルールパックをまとめてルールセットを作成
+ * 同じ id のルールは最初に定義されたものを使います
+ */
+export const createRuleSet = (packs: { source: string; pack: ParsedRulePack }[]): RuleSet => {
+  const rules: CustomRule[] = [];
+  const errors: RulePackError[] = [];
+  const definedIn = new Map<string, string>();
+
+  for (const { source, pack } of packs) {
+    errors.push(...pack.errors);
+    for (const rule of pack.rules) {
+      const existing = definedIn.get(rule.id);
+      if (existing) {
+        errors.push({ source, ruleId: rule.id, message: `ルール ${rule.id} は ${existing} で定義済みのため無視しました。` });
+        continue;
+      }
+      definedIn.set(rule.id, source);
+      rules.push(rule);
+    }
+  }
+
+  return { id: computeContentId(rules), rules, sources: packs.map(({ source }) => source), errors };
+};
+
+/**
+ * 設定ファイルのルールと、rulePacks で参照されたルールパックのルールをまとめてルールセットを作成
+ * 読み込めなかったルールパックはエラーに記録し、分析は続行できるようにします
+ * @param config 解析済みの設定ファイル
+ * @param ref 未指定時はデフォルトブランチ
+ */
+export const loadRuleSet = async (
+  fullRepoName: string,
+  config: { source: string; pack: ParsedRulePack },
+  ref?: string
+): Promise<RuleSet> => {
+  const [owner, repo] = fullRepoName.split('/');
+  const packs = [config];
+
+  // ルールパックからさらに別のルールパックは参照しない（設定ファイルからの参照だけを読む）
+  for (const path of new Set(config.pack.rulePacks)) {
+    try {
+      packs.push({ source: path, pack: parseRulePack(await getTextFileContent(owner, repo, path, ref), path) });
+    } catch (error) {
+      if (isRateLimitError(error)) throw error;
+      console.warn(`Failed to load rule pack ${path}:`, error);
+      packs.push({ source: path, pack: { rules: [], rulePacks: [], errors: [{ source: path, message: 'ルールパックを読み込めませんでした。' }] } });
+    }
+  }
+
+  const ruleSet = createRuleSet(packs);
+  if (ruleSet.errors.length > 0) {
+    console.warn(`Rule pack errors in ${fullRepoName}:`, ruleSet.errors);
+  }
+  return ruleSet;
+};
+
+/**
+ * 無効にしたルールの検出結果を除き、重大度の変更を適用
+ * 検出結果のキーは優先する順（カスタムルールのID・CWE・種類）に指定します
+ * @param getKeys 検出結果を識別するキー
+ * @param withSeverity 重大度を変更した検出結果を作成
+ */
+export const applyRuleSettings = <T>(
+  findings: T[],
+  settings: RuleSettings | null | undefined,
+  getKeys: (finding: T) => (string | undefined)[],
+  withSeverity: (finding: T, severity: CustomRuleSeverity) => T
+): T[] => {
+  if (!settings) return findings;
+  const disabled = new Set(settings.disabledRules);
+
+  return findings.flatMap(finding => {
+    const keys = getKeys(finding).filter((key): key is string => Boolean(key));
+    if (keys.some(key => disabled.has(key))) return [];
+    const overrideKey = keys.find(key => Object.prototype.hasOwnProperty.call(settings.severityOverrides, key));
+    return [overrideKey ? withSeverity(finding, settings.severityOverrides[overrideKey]) : finding];
+  });
+};
+
+/**
+ * ルールが言語に適用されるか判定（Jupyter Notebook は Python のルールも適用）
+ */
+const appliesToLanguage = (rule: CustomRule, language: string): boolean =>
+  !rule.languages ||
+  rule.languages.includes(language) ||
+  (language === 'jupyter' && rule.languages.includes('python'));
+
+/**
+ * 自動修正のテンプレートを展開（$$, $&, $1〜$99, $<name> に対応）
+ */
+const expandFixTemplate = (template: string, match: RegExpExecArray | string[]): string =>
+  template.replace(/\$(\$|&|\d{1,2}|<([^>]+)>)/g, (whole, token: string, groupName?: string) => {
+    if (token === '$') return '$';
+    if (token === '&') return match[0];
+    if (groupName !== undefined) return (match as RegExpExecArray).groups?.[groupName] ?? '';
+    const index = Number(token);
+    return index < match.length ? match[index] ?? '' : whole;
+  });
+
+/**
+ * 行の中の範囲を置き換える自動修正を作成
+ */
+const createFix = (lines: string[], line: number, startColumn: number, endColumn: number, replacement: string): RuleFix => {
+  const text = lines[line - 1] ?? '';
+  return {
+    line,
+    startColumn,
+    endColumn,
+    replacement,
+    fixedLine: text.slice(0, startColumn - 1) + replacement + text.slice(endColumn - 1)
+  };
+};
+
+/**
+ * 正規表現のパターンでコードを検査
+ */
+const evaluatePatternRule = (rule: CustomRule, code: string, lines: string[], lineStarts: number[]): CustomRuleMatch[] => {
+  const regex = compileRegExp(rule.pattern as string, `${rule.flags || ''}g`);
+  if (!regex) return [];
+
+  const matches: CustomRuleMatch[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(code)) !== null) {
+    if (match[0].length === 0) {
+      // 空文字列に一致した場合は無限ループを避けて1文字進める
+      regex.lastIndex++;
+      continue;
+    }
+
+    const line = findLine(lineStarts, match.index);
+    const column = match.index - lineStarts[line - 1] + 1;
+    // 複数行にまたがる一致は行単位の置換で表せないため、自動修正は作らない
+    const fix = rule.fix !== undefined && !match[0].includes('\n')
+      ? createFix(lines, line, column, column + match[0].length, expandFixTemplate(rule.fix, match))
+      : undefined;
+    matches.push({ rule, line, column, code: (lines[line - 1] ?? '').trim(), fix });
+  }
+  return matches;
+};
+
+// オフセットが含まれる行番号（1始まり）を二分探索で取得
+const findLine = (lineStarts: number[], offset: number): number => {
+  let low = 0;
+  let high = lineStarts.length - 1;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (lineStarts[mid] <= offset) low = mid;
+    else high = mid - 1;
+  }
+  return low + 1;
+};
+
+// 名前のある関数・クラスの範囲（囲んでいる関数・クラスの判定に使用）
+interface NamedScope {
+  name: string;
+  startLine: number;
+  endLine: number;
+}
+
+// クエリで見つけた名前の出現箇所
+interface NameOccurrence {
+  name: string;
+  line: number;
+  column: number;
+  endColumn: number;        // 名前の終了列（排他的）
+  singleLine: boolean;      // 名前が1行に収まっているか（複数行の場合は自動修正を作らない）
+}
+
+/**
+ * 関数呼び出しを検出（呼び出し先は `a.b.c` の形式に正規化）
+ * 関数・メソッドの宣言（直前に型名や def などがあるもの）は除きます
+ */
+const findCalls = (tokens: Token[], language: string): NameOccurrence[] => {
+  const brackets = matchBrackets(tokens);
+  const calls: NameOccurrence[] = [];
+
+  tokens.forEach((token, index) => {
+    if (token.type !== 'identifier' || tokens[index + 1]?.value !== '(') return;
+
+    // メンバーアクセスをさかのぼって呼び出し先の先頭を探す
+    let start = index;
+    while (
+      MEMBER_OPERATORS.has(tokens[start - 1]?.value) &&
+      (tokens[start - 2]?.type === 'identifier' || RECEIVER_KEYWORDS.has(tokens[start - 2]?.value))
+    ) {
+      start -= 2;
+    }
+
+    // 型名・キーワードが同じ行の直前にある場合だけ宣言とみなす（前の文の末尾の識別子は除く）
+    const previous = tokens[start - 1];
+    if (
+      previous &&
+      previous.line === tokens[start].line &&
+      (previous.type === 'identifier' || previous.type === 'keyword') &&
+      !EXPRESSION_KEYWORDS.has(previous.value)
+    ) {
+      return;
+    }
+    // Go のメソッド宣言 `func (r *T) Name(`
+    if (language === 'go' && previous?.value === ')' && tokens[brackets[start - 1] - 1]?.value === 'func') {
+      return;
+    }
+    // JavaScript/TypeScript のクラス・オブジェクトのメソッド宣言 `name() {` / `name(): Type {`
+    if (
+      (language === 'javascript' || language === 'typescript') &&
+      (!previous || ['{', '}', ';', ','].includes(previous.value)) &&
+      ['{', ':'].includes(tokens[brackets[index + 1] + 1]?.value)
+    ) {
+      return;
+    }
+
+    const first = tokens[start];
+    calls.push({
+      name: tokens.slice(start, index + 1).map(part => (MEMBER_OPERATORS.has(part.value) ? '.' : part.value)).join(''),
+      line: first.line,
+      column: first.column,
+      endColumn: token.column + token.value.length,
+      singleLine: first.line === token.line
+    });
+  });
+
+  return calls;
+};
+
+/**
+ * ドット区切りの名前を読み取る（Python・Java・C# の import 文）
+ * @returns 名前と、名前の次のトークンのインデックス
+ */
+const readDottedName = (tokens: Token[], start: number): { tokens: Token[]; next: number } => {
+  const parts: Token[] = [];
+  let index = start;
+  while (tokens[index] && (tokens[index].type === 'identifier' || tokens[index].value === '.' || tokens[index].value === '*')) {
+    parts.push(tokens[index]);
+    index++;
+  }
+  return { tokens: parts, next: index };
+};
+
+// トークン列を名前の出現箇所に変換
+const toOccurrence = (parts: Token[]): NameOccurrence | null => {
+  if (parts.length === 0) return null;
+  const first = parts[0];
+  const last = parts[parts.length - 1];
+  return {
+    name: parts.map(part => part.value).join(''),
+    line: first.line,
+    column: first.column,
+    endColumn: last.column + last.value.length,
+    singleLine: first.line === last.line
+  };
+};
+
+// 文字列リテラルの中身を名前の出現箇所に変換
+const stringOccurrence = (token: Token): NameOccurrence => ({
+  name: token.value.slice(1, -1),
+  line: token.line,
+  column: token.column + 1,
+  endColumn: token.column + token.value.length - 1,
+  singleLine: token.line === token.endLine
+});
+
+/**
+ * import・require・#include などで読み込まれるモジュールを検出
+ */
+const findImports = (tree: SyntaxTree, tokens: Token[], language: string): NameOccurrence[] => {
+  const imports: NameOccurrence[] = [];
+  const push = (occurrence: NameOccurrence | null) => {
+    if (occurrence && occurrence.name) imports.push(occurrence);
+  };
+
+  switch (language) {
+    case 'javascript':
+    case 'typescript':
+      // import x from 'mod' / import 'mod' / export * from 'mod' / require('mod') / import('mod')
+      tokens.forEach((token, index) => {
+        if (token.type !== 'string') return;
+        const previous = tokens[index - 1];
+        const isImport = previous?.value === 'from' || previous?.value === 'import' ||
+          (previous?.value === '(' && ['require', 'import'].includes(tokens[index - 2]?.value) && tokens[index + 1]?.value === ')');
+        if (isImport) push(stringOccurrence(token));
+      });
+      break;
+
+    case 'python':
+    case 'jupyter': {
+      const fromImports = new Set<number>();
+      tokens.forEach((token, index) => {
+        if (token.type !== 'keyword') return;
+        if (token.value === 'from') {
+          // from a.b import c（相対インポートの先頭のドットも名前に含める）
+          let start = index + 1;
+          const dots: Token[] = [];
+          while (tokens[start]?.value === '.' || tokens[start]?.value === '...') dots.push(tokens[start++]);
+          const { tokens: parts, next } = readDottedName(tokens, start);
+          if (tokens[next]?.value === 'import') fromImports.add(next);
+          push(toOccurrence([...dots, ...parts]));
+        } else if (token.value === 'import' && !fromImports.has(index)) {
+          // import a.b as c, d
+          let next = index + 1;
+          while (tokens[next] && tokens[next].line === token.line) {
+            const name = readDottedName(tokens, next);
+            push(toOccurrence(name.tokens));
+            next = name.next;
+            if (tokens[next]?.value === 'as') next += 2;
+            if (tokens[next]?.value !== ',') break;
+            next++;
+          }
+        }
+      });
+      break;
+    }
+
+    case 'go':
+      // import "fmt" / import f "fmt" / import ( "fmt"; "os" )
+      tokens.forEach((token, index) => {
+        if (token.value !== 'import') return;
+        if (tokens[index + 1]?.value === '(') {
+          for (let i = index + 2; i < tokens.length && tokens[i].value !== ')'; i++) {
+            if (tokens[i].type === 'string') push(stringOccurrence(tokens[i]));
+          }
+        } else {
+          const literal = [tokens[index + 1], tokens[index + 2]].find(candidate => candidate?.type === 'string');
+          if (literal) push(stringOccurrence(literal));
+        }
+      });
+      break;
+
+    case 'java':
+    case 'csharp':
+      // import [static] a.b.C; / using [static] [Alias =] A.B;
+      tokens.forEach((token, index) => {
+        if (token.value !== (language === 'java' ? 'import' : 'using')) return;
+        let start = index + 1;
+        if (tokens[start]?.value === 'static') start++;
+        if (language === 'csharp' && tokens[start + 1]?.value === '=') start += 2;
+        const { tokens: parts, next } = readDottedName(tokens, start);
+        // C# の using 文（using (...) や using var）は除く
+        if (tokens[next]?.value === ';') push(toOccurrence(parts));
+      });
+      break;
+
+    case 'c':
+    case 'cpp':
+      // プリプロセッサ行はコメントとして字句解析されている
+      tree.comments.forEach(comment => {
+        const match = comment.value.match(/^#\s*include\s*[<"]([^>"]+)[>"]/);
+        if (!match) return;
+        // 閉じ括弧の直前までがファイル名
+        const offset = match[0].length - match[1].length - 1;
+        push({
+          name: match[1],
+          line: comment.line,
+          column: comment.column + offset,
+          endColumn: comment.column + offset + match[1].length,
+          singleLine: true
+        });
+      });
+      break;
+  }
+
+  return imports;
+};
+
+/**
+ * 構文木のクエリでコードを検査
+ */
+const evaluateQueryRule = (rule: CustomRule, code: string, language: string, lines: string[]): CustomRuleMatch[] => {
+  const query = rule.query as CustomRuleQuery;
+  const tree = parseCode(code, language);
+  const nameRegex = query.name !== undefined ? compileRegExp(query.name) : null;
+  const insideRegex = query.inside !== undefined ? compileRegExp(query.inside) : null;
+  const notInsideRegex = query.notInside !== undefined ? compileRegExp(query.notInside) : null;
+
+  // 囲んでいる関数・クラスの名前による絞り込み
+  const isInScope = (names: string[]): boolean =>
+    (!insideRegex || names.some(name => insideRegex.test(name))) &&
+    (!notInsideRegex || !names.some(name => notInsideRegex.test(name)));
+
+  const toMatch = (line: number, column: number, fix?: RuleFix): CustomRuleMatch =>
+    ({ rule, line, column, code: (lines[line - 1] ?? '').trim(), fix });
+
+  if (query.kind === 'call' || query.kind === 'import') {
+    const scopes: NamedScope[] = [];
+    walkSyntaxTree(tree.root, node => {
+      if ((node.kind === 'function' || node.kind === 'class') && node.name) {
+        scopes.push({ name: node.name, startLine: node.startLine, endLine: node.endLine });
+      }
+    });
+
+    const tokens = getCodeTokens(tree);
+    const occurrences = query.kind === 'call' ? findCalls(tokens, language) : findImports(tree, tokens, language);
+    return occurrences
+      .filter(occurrence => !nameRegex || nameRegex.test(occurrence.name))
+      .filter(occurrence => isInScope(
+        scopes.filter(scope => scope.startLine <= occurrence.line && occurrence.line <= scope.endLine).map(scope => scope.name)
+      ))
+      .map(occurrence => toMatch(
+        occurrence.line,
+        occurrence.column,
+        rule.fix !== undefined && occurrence.singleLine
+          ? createFix(lines, occurrence.line, occurrence.column, occurrence.endColumn, expandFixTemplate(rule.fix, [occurrence.name]))
+          : undefined
+      ));
+  }
+
+  const matches: CustomRuleMatch[] = [];
+  walkSyntaxTree(tree.root, (node: SyntaxNode, _depth, ancestors) => {
+    if (node.kind !== query.kind) return;
+    if (nameRegex && !nameRegex.test(node.name)) return;
+    if (query.minLines !== undefined && node.endLine - node.startLine + 1 < query.minLines) return;
+    if (query.minParams !== undefined && (node.params?.length ?? 0) < query.minParams) return;
+    const scopeNames = ancestors
+      .filter(ancestor => (ancestor.kind === 'function' || ancestor.kind === 'class') && ancestor.name)
+      .map(ancestor => ancestor.name);
+    if (!isInScope(scopeNames)) return;
+
+    const text = lines[node.startLine - 1] ?? '';
+    matches.push(toMatch(node.startLine, text.length - text.trimStart().length + 1));
+  });
+  return matches;
+};
+
+/**
+ * カスタムルールでコードを検査
+ * @returns 行番号順の一致箇所（ルールの評価に失敗した場合はそのルールだけを読み飛ばす）
+ */
+export const evaluateCustomRules = (code: string, language: string, rules: CustomRule[]): CustomRuleMatch[] => {
+  const applicable = rules.filter(rule => appliesToLanguage(rule, language));
+  if (applicable.length === 0) return [];
+
+  const lines = code.split('\n');
+  const lineStarts: number[] = [];
+  let offset = 0;
+  for (const line of lines) {
+    lineStarts.push(offset);
+    offset += line.length + 1;
+  }
+
+  const matches: CustomRuleMatch[] = [];
+  for (const rule of applicable) {
+    try {
+      matches.push(...(rule.query
+        ? evaluateQueryRule(rule, code, language, lines)
+        : evaluatePatternRule(rule, code, lines, lineStarts)));
+    } catch (error) {
+      console.warn(`Failed to evaluate custom rule ${rule.id}:`, error);
+    }
+  }
+
+  return matches.sort((a, b) => a.line - b.line || a.column - b.column);
+};
+
+export default {
+  parseRulePack,
+  validateRulePack,
+  createRuleSet,
+  loadRuleSet,
+  applyRuleSettings,
+  evaluateCustomRules
+};
@@ -0,0 +1,777 @@
+/**
+ * SARIF出力サービス
+ * 分析結果（セキュリティ・コード品質・重複・複雑度）を SARIF 2.1.0 形式に変換します
+ * GitHub Code Scanning などの CI ツールにそのままアップロードできます
+ */
+
+import { ANALYZER_VERSION } from './analysisCacheService';
+import { AnalysisReport } from './analysisReportService';
+import { CodeIssue, RepositoryAnalysisResult } from './codeAnalysisService';
+import { FunctionComplexity } from './complexityVisualizationService';
+import { DependencyFinding, toSecurityVulnerability } from './dependencyScanService';
+import { CodeBlock, DuplicateBlock } from './duplicateDetectionService';
+import { generateExtractFunctionRefactoring } from './refactoringService';
+import { RuleFix } from './rulePackService';
+import { SecurityVulnerability, Severity } from './securityCheckService';
+import { TAINT_STEP_LABELS } from './taintAnalysisService';
+
+export const SARIF_VERSION = '2.1.0';
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+
+// ツール情報
+const TOOL_NAME = 'CodeCoach';
+
+// ファイルの場所の基準（リポジトリのルート）
+const SOURCE_ROOT = '%SRCROOT%';
+
+// 指紋の名前（計算方法を変えたら更新する）
+const FINGERPRINT_KEY = 'codecoach/v1';
+
+// 複雑度のホットスポットとみなす循環的複雑度（CodeComplexityVisualizer の「高い循環的複雑度」と同じ基準）
+const HOTSPOT_CYCLOMATIC_COMPLEXITY = 10;
+
+// CWE の分類
+const CWE_TAXONOMY_NAME = 'CWE';
+const CWE_TAXONOMY_VERSION = '4.13';
+
+// 結果のレベル
+export type SarifLevel = 'error' | 'warning' | 'note' | 'none';
+
+export interface SarifMessage {
+  text: string;
+  markdown?: string;
+}
+
+export interface SarifRegion {
+  startLine: number;
+  startColumn?: number;
+  endLine?: number;
+  endColumn?: number;
+  snippet?: { text: string };
+}
+
+export interface SarifArtifactLocation {
+  uri: string;
+  uriBaseId?: string;
+}
+
+export interface SarifPhysicalLocation {
+  artifactLocation: SarifArtifactLocation;
+  region?: SarifRegion;
+}
+
+export interface SarifLocation {
+  id?: number;
+  physicalLocation: SarifPhysicalLocation;
+  message?: SarifMessage;
+}
+
+export interface SarifReplacement {
+  deletedRegion: SarifRegion;
+  insertedContent?: { text: string };
+}
+
+export interface SarifFix {
+  description: SarifMessage;
+  artifactChanges: {
+    artifactLocation: SarifArtifactLocation;
+    replacements: SarifReplacement[];
+  }[];
+}
+
+export interface SarifCodeFlow {
+  message?: SarifMessage;
+  threadFlows: {
+    locations: { location: SarifLocation }[];
+  }[];
+}
+
+export interface SarifReportingDescriptor {
+  id: string;
+  shortDescription: SarifMessage;
+  fullDescription?: SarifMessage;
+  help?: SarifMessage;
+  helpUri?: string;
+  defaultConfiguration?: { level: SarifLevel };
+  relationships?: {
+    target: { id: string; toolComponent: { name: string } };
+    kinds: string[];
+  }[];
+  properties?: Record<string, unknown>;
+}
+
+export interface SarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  level: SarifLevel;
+  message: SarifMessage;
+  locations: SarifLocation[];
+  relatedLocations?: SarifLocation[];
+  codeFlows?: SarifCodeFlow[];
+  fixes?: SarifFix[];
+  fingerprints: Record<string, string>;
+  properties?: Record<string, unknown>;
+}
+
+export interface SarifRun {
+  tool: {
+    driver: {
+      name: string;
+      version: string;
+      rules: SarifReportingDescriptor[];
+      supportedTaxonomies?: { name: string }[];
+    };
+  };
+  taxonomies?: {
+    name: string;
+    version: string;
+    organization: string;
+    informationUri: string;
+    shortDescription: SarifMessage;
+    taxa: { id: string; helpUri: string }[];
+  }[];
+  versionControlProvenance?: {
+    repositoryUri: string;
+    revisionId?: string;
+    branch?: string;
+  }[];
+  artifacts: {
+    location: SarifArtifactLocation;
+    sourceLanguage?: string;
+  }[];
+  results: SarifResult[];
+}
+
+export interface SarifLog {
+  $schema: string;
+  version: string;
+  runs: SarifRun[];
+}
+
+// 出力中の状態
+interface SarifContext {
+  rules: SarifReportingDescriptor[];
+  ruleIndexes: Map<string, number>;
+  cweIds: Set<string>;
+  results: SarifResult[];
+  fingerprint: FindingFingerprinter;
+  fileLines: Map<string, string[]>;    // ファイル名 → 行（内容を保持しているファイルのみ）
+}
+
+// 出現順を数えながら検出結果の指紋を計算する関数
+export type FindingFingerprinter = (ruleId: string, fileName: string, code: string) => string;
+
+// ファイル間の重複の規則ID
+export const CROSS_FILE_DUPLICATE_RULE_ID = 'duplication/cross-file-clone';
+
+// 規則の定義（規則IDごとに最初の1回だけ登録）
+type RuleDefinition = Omit<SarifReportingDescriptor, 'id'>;
+
+// 重大度 → 結果のレベル
+const LEVELS: Record<string, SarifLevel> = {
+  critical: 'error',
+  high: 'error',
+  medium: 'warning',
+  low: 'note',
+  info: 'note'
+};
+
+// GitHub Code Scanning の security-severity（0.1-10.0）
+const SECURITY_SEVERITY_SCORES: Record<Severity, number> = {
+  [Severity.CRITICAL]: 9.5,
+  [Severity.HIGH]: 8.0,
+  [Severity.MEDIUM]: 5.5,
+  [Severity.LOW]: 3.0,
+  [Severity.INFO]: 0.1
+};
+
+// 誤検出の可能性 → 規則の精度
+const PRECISIONS: Record<SecurityVulnerability['falsePositiveLikelihood'], string> = {
+  low: 'high',
+  medium: 'medium',
+  high: 'low'
+};
+
+// よく検出される CWE の表示名
+const CWE_NAMES: Record<string, string> = {
+  'CWE-22': 'パストラバーサル',
+  'CWE-78': 'OSコマンドインジェクション',
+  'CWE-79': 'クロスサイトスクリプティング',
+  'CWE-89': 'SQLインジェクション',
+  'CWE-95': 'コードインジェクション',
+  'CWE-798': 'ハードコードされた認証情報'
+};
+
+// コード品質の問題タイプの表示名
+const ISSUE_TYPE_NAMES: Record<string, string> = {
+  code_style: 'コードスタイル',
+  naming: '命名規則',
+  complexity: '複雑度',
+  best_practice: 'ベストプラクティス',
+  security: 'セキュリティ',
+  performance: 'パフォーマンス'
+};
+
+// クローンの種類の表示名
+const CLONE_TYPE_NAMES: Record<DuplicateBlock['type'], string> = {
+  exact: '完全一致の重複コード',
+  renamed: '名前だけが異なる重複コード',
+  gapped: '一部の文が異なる重複コード'
+};
+
+/**
+ * 文字列の指紋（FNV-1a 32bit を2系統組み合わせた16桁の16進数）
+ */
+const hashFingerprint = (value: string): string => {
+  let first = 0x811c9dc5;
+  let second = 0x050c5d1f;
+  for (let i = 0; i < value.length; i++) {
+    const code = value.charCodeAt(i);
+    first = Math.imul(first ^ code, 0x01000193);
+    second = Math.imul(second ^ code, 0x01000193) ^ (second >>> 15);
+  }
+  return (first >>> 0).toString(16).padStart(8, '0') + (second >>> 0).toString(16).padStart(8, '0');
+};
+
+/**
+ * 検出結果の指紋を計算
+ * 行番号ではなくコードの内容から計算するため、前後の行の追加・削除では変わりません
+ * @param occurrence 同じファイル・規則・コードの検出結果が複数ある場合の出現順
+ */
+export const computeFindingFingerprint = (
+  ruleId: string,
+  fileName: string,
+  code: string,
+  occurrence = 0
+): string =>
+  hashFingerprint([ruleId, fileName, code.replace(/\s+/g, ' ').trim(), occurrence].join('\u0000'));
+
+/**
+ * 検出結果の指紋を計算する関数を作成
+ * 同じファイル・規則・コードの検出結果には、呼び出した順に出現順を付けます
+ */
+export const createFindingFingerprinter = (): FindingFingerprinter => {
+  const counts = new Map<string, number>();
+  return (ruleId, fileName, code) => {
+    const key = [ruleId, fileName, code.replace(/\s+/g, ' ').trim()].join('\u0000');
+    const occurrence = counts.get(key) || 0;
+    counts.set(key, occurrence + 1);
+    return computeFindingFingerprint(ruleId, fileName, code, occurrence);
+  };
+};
+
+/**
+ * セキュリティ脆弱性の規則ID（カスタムルールは custom/<id>、それ以外は CWE または脆弱性の種類）
+ */
+export const getVulnerabilityRuleId = (vulnerability: SecurityVulnerability): string =>
+  vulnerability.ruleId
+    ? `custom/${vulnerability.ruleId}`
+    : `security/${vulnerability.cwe ? vulnerability.cwe.toLowerCase() : vulnerability.type}`;
+
+/**
+ * コード品質の問題の規則ID（カスタムルールは custom/<id>、それ以外は問題の種類）
+ */
+export const getIssueRuleId = (issue: CodeIssue): string =>
+  issue.ruleId ? `custom/${issue.ruleId}` : `quality/${issue.type}`;
+
+/**
+ * ファイル内の重複の規則ID（クローンの種類ごと）
+ */
+export const getDuplicateRuleId = (duplicate: DuplicateBlock): string => `duplication/${duplicate.type}-clone`;
+
+/**
+ * コード品質の問題の指紋を計算するコード（メッセージと問題のある行）
+ * @param lineText 問題のある行（ファイルの内容がなければ空文字）
+ */
+export const getIssueFingerprintCode = (issue: CodeIssue, lineText: string): string =>
+  `${issue.message}\u0000${lineText}`;
+
+// リポジトリ内のパスを URI に変換
+const toArtifactUri = (fileName: string): string =>
+  fileName.split('/').map(segment => encodeURIComponent(segment)).join('/');
+
+const createArtifactLocation = (fileName: string): SarifArtifactLocation => ({
+  uri: toArtifactUri(fileName),
+  uriBaseId: SOURCE_ROOT
+});
+
+/**
+ * ファイル内の位置を作成（内容を保持しているファイルはコード片を含める）
+ */
+const createLocation = (
+  context: SarifContext,
+  fileName: string,
+  startLine: number,
+  endLine = startLine,
+  options: { startColumn?: number; message?: string; id?: number } = {}
+): SarifLocation => {
+  const lines = context.fileLines.get(fileName);
+  const region: SarifRegion = { startLine: Math.max(1, startLine) };
+  if (options.startColumn) region.startColumn = options.startColumn;
+  if (endLine > startLine) region.endLine = endLine;
+  if (lines) {
+    const snippet = lines.slice(region.startLine - 1, Math.max(region.startLine, endLine)).join('\n');
+    if (snippet) region.snippet = { text: snippet };
+  }
+
+  const location: SarifLocation = {
+    physicalLocation: { artifactLocation: createArtifactLocation(fileName), region }
+  };
+  if (options.id !== undefined) location.id = options.id;
+  if (options.message) location.message = { text: options.message };
+  return location;
+};
+
+/**
+ * 規則を登録してインデックスを取得
+ */
+const registerRule = (context: SarifContext, id: string, definition: RuleDefinition): number => {
+  const existing = context.ruleIndexes.get(id);
+  if (existing !== undefined) return existing;
+
+  const index = context.rules.length;
+  context.rules.push({ id, ...definition });
+  context.ruleIndexes.set(id, index);
+  return index;
+};
+
+/**
+ * 検出結果を追加（指紋は同じ内容の結果ごとに出現順を付けて一意にする）
+ */
+const addResult = (
+  context: SarifContext,
+  fileName: string,
+  code: string,
+  result: Omit<SarifResult, 'fingerprints' | 'ruleIndex'>
+): void => {
+  context.results.push({
+    ...result,
+    ruleIndex: context.ruleIndexes.get(result.ruleId) ?? -1,
+    fingerprints: { [FINGERPRINT_KEY]: context.fingerprint(result.ruleId, fileName, code) }
+  });
+};
+
+// ファイルの指定行のコード（内容がなければ空文字）
+const getLineText = (context: SarifContext, fileName: string, startLine: number, endLine = startLine): string =>
+  (context.fileLines.get(fileName) || []).slice(startLine - 1, endLine).join('\n');
+
+/**
+ * unified diff を SARIF の置換に変換
+ */
+const diffToReplacements = (diff: string): SarifReplacement[] => {
+  const replacements: SarifReplacement[] = [];
+  let line = 0;
+  let deleteStart = -1;
+  let deleteCount = 0;
+  let inserted: string[] = [];
+  let inHunk = false;
+
+  const flush = () => {
+    if (deleteCount === 0 && inserted.length === 0) return;
+    const start = deleteCount > 0 ? deleteStart : line;
+    // 行全体（改行を含む）を置き換えるため、次の行の先頭までを削除範囲とする
+    replacements.push({
+      deletedRegion: { startLine: start, startColumn: 1, endLine: start + deleteCount, endColumn: 1 },
+      insertedContent: { text: inserted.map(text => `${text}\n`).join('') }
+    });
+    deleteStart = -1;
+    deleteCount = 0;
+    inserted = [];
+  };
+
+  for (const text of diff.split('\n')) {
+    const header = text.match(/^@@ -(\d+)(?:,(\d+))? \+\d+(?:,\d+)? @@/);
+    if (header) {
+      flush();
+      inHunk = true;
+      // 元の行がないハンク（-n,0）は n 行目の直後に挿入する
+      line = header[2] === '0' ? Number(header[1]) + 1 : Number(header[1]);
+      continue;
+    }
+    if (!inHunk) continue;
+
+    if (text.startsWith('-')) {
+      if (inserted.length > 0) flush();
+      if (deleteCount === 0) deleteStart = line;
+      deleteCount++;
+      line++;
+    } else if (text.startsWith('+')) {
+      inserted.push(text.slice(1));
+    } else {
+      flush();
+      line++;
+    }
+  }
+  flush();
+
+  return replacements;
+};
+
+/**
+ * カスタムルールの自動修正を SARIF の修正に変換
+ */
+const toRuleFixes = (fileName: string, fix: RuleFix | undefined): SarifFix[] | undefined =>
+  fix
+    ? [{
+        description: { text: `${fix.replacement} に置き換える` },
+        artifactChanges: [{
+          artifactLocation: createArtifactLocation(fileName),
+          replacements: [{
+            deletedRegion: { startLine: fix.line, startColumn: fix.startColumn, endLine: fix.line, endColumn: fix.endColumn },
+            insertedContent: { text: fix.replacement }
+          }]
+        }]
+      }]
+    : undefined;
+
+/**
+ * セキュリティ脆弱性を追加（CWE の分類と、汚染解析の経路を含む）
+ * カスタムルールで検出したものはルールごとに custom/<id> の規則にまとめます
+ */
+const addSecurityResults = (context: SarifContext, fileName: string, vulnerabilities: SecurityVulnerability[]): void => {
+  for (const vulnerability of vulnerabilities) {
+    const cwe = vulnerability.cwe;
+    const ruleId = getVulnerabilityRuleId(vulnerability);
+    const help = [vulnerability.recommendation, vulnerability.exampleFix ? `修正例:\n${vulnerability.exampleFix}` : '']
+      .filter(Boolean)
+      .join('\n\n');
+    const ruleIndex = registerRule(context, ruleId, {
+      shortDescription: { text: vulnerability.ruleId ? vulnerability.message : (cwe && CWE_NAMES[cwe]) || vulnerability.type },
+      fullDescription: { text: vulnerability.message },
+      help: {
+        text: help,
+        markdown: vulnerability.exampleFix
+          ? `${vulnerability.recommendation}\n\n**修正例**\n\n\`\`\`\n${vulnerability.exampleFix}\n\`\`\``
+          : vulnerability.recommendation
+      },
+      helpUri: vulnerability.references?.[0],
+      defaultConfiguration: { level: LEVELS[vulnerability.severity] },
+      relationships: cwe
+        ? [{ target: { id: cwe.replace('CWE-', ''), toolComponent: { name: CWE_TAXONOMY_NAME } }, kinds: ['superset'] }]
+        : undefined,
+      properties: {
+        tags: ['security', ...(cwe ? [`external/cwe/${cwe.toLowerCase()}`] : []), ...(vulnerability.ruleId ? ['custom'] : [])],
+        precision: PRECISIONS[vulnerability.falsePositiveLikelihood],
+        'security-severity': SECURITY_SEVERITY_SCORES[vulnerability.severity].toFixed(1)
+      }
+    });
+    if (cwe) context.cweIds.add(cwe.replace('CWE-', ''));
+
+    // 同じ規則でより重大な結果があれば、規則の security-severity を引き上げる
+    const rule = context.rules[ruleIndex];
+    const score = SECURITY_SEVERITY_SCORES[vulnerability.severity];
+    if (Number(rule.properties?.['security-severity']) < score) {
+      rule.properties = { ...rule.properties, 'security-severity': score.toFixed(1) };
+      rule.defaultConfiguration = { level: LEVELS[vulnerability.severity] };
+    }
+
+    const codeFlows: SarifCodeFlow[] | undefined = vulnerability.taintTrace && vulnerability.taintTrace.length > 0
+      ? [{
+          message: { text: `${vulnerability.taintTrace[0].name} から ${vulnerability.taintTrace[vulnerability.taintTrace.length - 1].name} へのデータの流れ` },
+          threadFlows: [{
+            locations: vulnerability.taintTrace.map(step => ({
+              location: createLocation(context, fileName, step.line, step.line, {
+                message: `${TAINT_STEP_LABELS[step.kind]}: ${step.name}`
+              })
+            }))
+          }]
+        }]
+      : undefined;
+
+    addResult(context, fileName, vulnerability.code, {
+      ruleId,
+      level: LEVELS[vulnerability.severity],
+      message: { text: vulnerability.message },
+      locations: [createLocation(context, fileName, vulnerability.line, vulnerability.line, { startColumn: vulnerability.column })],
+      codeFlows,
+      fixes: toRuleFixes(fileName, vulnerability.fix),
+      properties: {
+        severity: vulnerability.severity,
+        falsePositiveLikelihood: vulnerability.falsePositiveLikelihood
+      }
+    });
+  }
+};
+
+/**
+ * コード品質の問題を追加（カスタムルールで検出したものは custom/<id> の規則）
+ */
+const addIssueResults = (context: SarifContext, fileName: string, issues: CodeIssue[]): void => {
+  for (const issue of issues) {
+    const ruleId = getIssueRuleId(issue);
+    registerRule(context, ruleId, {
+      shortDescription: { text: issue.ruleId ? issue.message : ISSUE_TYPE_NAMES[issue.type] || issue.type },
+      defaultConfiguration: { level: issue.ruleId ? LEVELS[issue.severity] : 'warning' },
+      properties: { tags: ['maintainability', issue.type, ...(issue.ruleId ? ['custom'] : [])] }
+    });
+
+    addResult(context, fileName, getIssueFingerprintCode(issue, getLineText(context, fileName, issue.line)), {
+      ruleId,
+      level: LEVELS[issue.severity],
+      message: { text: issue.suggestion ? `${issue.message}（提案: ${issue.suggestion}）` : issue.message },
+      locations: [createLocation(context, fileName, issue.line, issue.line, { startColumn: issue.column })],
+      fixes: toRuleFixes(fileName, issue.fix),
+      properties: {
+        severity: issue.severity,
+        ...(issue.suggestion ? { suggestion: issue.suggestion } : {})
+      }
+    });
+  }
+};
+
+/**
+ * ファイル内の重複を追加（共通関数の抽出を生成できた重複は修正案を含む）
+ */
+const addDuplicateResults = (
+  context: SarifContext,
+  fileName: string,
+  language: string,
+  duplicates: DuplicateBlock[]
+): void => {
+  const lines = context.fileLines.get(fileName);
+
+  for (const duplicate of duplicates) {
+    const ruleId = getDuplicateRuleId(duplicate);
+    registerRule(context, ruleId, {
+      shortDescription: { text: CLONE_TYPE_NAMES[duplicate.type] },
+      help: { text: '重複している処理を共通の関数に抽出し、両方の箇所から呼び出してください。' },
+      defaultConfiguration: { level: 'note' },
+      properties: { tags: ['maintainability', 'duplication'] }
+    });
+
+    let fixes: SarifFix[] | undefined;
+    if (lines) {
+      const refactoring = generateExtractFunctionRefactoring(lines.join('\n'), language, duplicate, fileName);
+      const replacements = refactoring ? diffToReplacements(refactoring.diff) : [];
+      if (refactoring && replacements.length > 0) {
+        fixes = [{
+          description: { text: `重複部分を関数 ${refactoring.functionName} に抽出` },
+          artifactChanges: [{ artifactLocation: createArtifactLocation(fileName), replacements }]
+        }];
+      }
+    }
+
+    addResult(context, fileName, duplicate.codeA, {
+      ruleId,
+      level: 'note',
+      message: {
+        text: `行 ${duplicate.startLineA}-${duplicate.endLineA} は [行 ${duplicate.startLineB}-${duplicate.endLineB}](1) と重複しています（類似度 ${Math.round(duplicate.similarity * 100)}%）。`
+      },
+      locations: [createLocation(context, fileName, duplicate.startLineA, duplicate.endLineA)],
+      relatedLocations: [
+        createLocation(context, fileName, duplicate.startLineB, duplicate.endLineB, { id: 1, message: '重複しているもう一方の箇所' })
+      ],
+      fixes,
+      properties: { similarity: duplicate.similarity, impact: duplicate.impact }
+    });
+  }
+};
+
+/**
+ * ファイル間の重複を追加
+ */
+const addCrossFileDuplicateResults = (
+  context: SarifContext,
+  duplications: { similarity: number; blockA: CodeBlock; blockB: CodeBlock }[]
+): void => {
+  const ruleId = CROSS_FILE_DUPLICATE_RULE_ID;
+  for (const { similarity, blockA, blockB } of duplications) {
+    registerRule(context, ruleId, {
+      shortDescription: { text: 'ファイル間の重複コード' },
+      help: { text: '複数のファイルで重複している処理を共通のモジュールに移動してください。' },
+      defaultConfiguration: { level: 'note' },
+      properties: { tags: ['maintainability', 'duplication'] }
+    });
+
+    addResult(context, blockA.file, blockA.content, {
+      ruleId,
+      level: 'note',
+      message: {
+        text: `行 ${blockA.startLine}-${blockA.endLine} は [${blockB.file} の行 ${blockB.startLine}-${blockB.endLine}](1) と重複しています（類似度 ${Math.round(similarity * 100)}%）。`
+      },
+      locations: [createLocation(context, blockA.file, blockA.startLine, blockA.endLine)],
+      relatedLocations: [
+        createLocation(context, blockB.file, blockB.startLine, blockB.endLine, { id: 1, message: '重複しているもう一方の箇所' })
+      ],
+      properties: { similarity }
+    });
+  }
+};
+
+/**
+ * 複雑度のホットスポット（循環的複雑度が基準を超える関数）を追加
+ */
+const addComplexityResults = (context: SarifContext, fileName: string, functions: FunctionComplexity[]): void => {
+  const ruleId = 'complexity/cyclomatic-complexity';
+  for (const func of functions) {
+    if (func.cyclomaticComplexity <= HOTSPOT_CYCLOMATIC_COMPLEXITY) continue;
+    registerRule(context, ruleId, {
+      shortDescription: { text: '循環的複雑度が高い関数' },
+      fullDescription: { text: `循環的複雑度が${HOTSPOT_CYCLOMATIC_COMPLEXITY}を超える関数は、テストと保守が難しくなります。` },
+      help: { text: '条件分岐を小さな関数に分割するか、早期リターンでネストを減らしてください。' },
+      defaultConfiguration: { level: 'warning' },
+      properties: { tags: ['maintainability', 'complexity'] }
+    });
+
+    addResult(context, fileName, `${func.name}\u0000${getLineText(context, fileName, func.startLine)}`, {
+      ruleId,
+      level: 'warning',
+      message: {
+        text: `関数 ${func.name || '（無名関数）'} の循環的複雑度は ${func.cyclomaticComplexity} です（基準: ${HOTSPOT_CYCLOMATIC_COMPLEXITY} 以下）。`
+      },
+      locations: [createLocation(context, fileName, func.startLine, func.startLine)],
+      properties: {
+        cyclomaticComplexity: func.cyclomaticComplexity,
+        nestingDepth: func.nestingDepth,
+        lineCount: func.lineCount
+      }
+    });
+  }
+};
+
+/**
+ * 依存パッケージの既知の脆弱性を追加（アドバイザリごとに規則を登録）
+ */
+const addDependencyResults = (context: SarifContext, findings: DependencyFinding[]): void => {
+  for (const finding of findings) {
+    const { dependency, advisory } = finding;
+    const vulnerability = toSecurityVulnerability(finding);
+    const ruleId = `dependency/${advisory.id}`;
+    const cweIds = advisory.database_specific?.cwe_ids || [];
+    const score = finding.cvssScore ?? SECURITY_SEVERITY_SCORES[finding.severity];
+    registerRule(context, ruleId, {
+      shortDescription: { text: advisory.summary || advisory.id },
+      fullDescription: { text: advisory.details || advisory.summary || advisory.id },
+      help: {
+        text: [
+          vulnerability.recommendation,
+          `影響を受けるバージョン: ${finding.affectedRanges.join(' / ')}`,
+          `修正版: ${finding.fixedVersions.length > 0 ? finding.fixedVersions.join(', ') : 'なし'}`
+        ].join('\n')
+      },
+      helpUri: vulnerability.references?.[0],
+      defaultConfiguration: { level: LEVELS[finding.severity] },
+      relationships: cweIds.length > 0
+        ? cweIds.map(cwe => ({ target: { id: cwe.replace('CWE-', ''), toolComponent: { name: CWE_TAXONOMY_NAME } }, kinds: ['superset'] }))
+        : undefined,
+      properties: {
+        tags: ['security', 'dependency', ...cweIds.map(cwe => `external/cwe/${cwe.toLowerCase()}`)],
+        precision: PRECISIONS[vulnerability.falsePositiveLikelihood],
+        'security-severity': score.toFixed(1)
+      }
+    });
+    cweIds.forEach(cwe => context.cweIds.add(cwe.replace('CWE-', '')));
+
+    const location = createLocation(context, dependency.manifest, dependency.line);
+    if (dependency.code && location.physicalLocation.region) {
+      location.physicalLocation.region.snippet = { text: dependency.code };
+    }
+    addResult(context, dependency.manifest, `${dependency.name}@${dependency.version}`, {
+      ruleId,
+      level: LEVELS[finding.severity],
+      message: { text: vulnerability.message },
+      locations: [location],
+      properties: {
+        severity: finding.severity,
+        ecosystem: dependency.ecosystem,
+        package: dependency.name,
+        version: dependency.version,
+        direct: dependency.direct,
+        affectedRanges: finding.affectedRanges,
+        fixedVersions: finding.fixedVersions
+      }
+    });
+  }
+};
+
+/**
+ * 分析結果から SARIF ログを作成
+ * @param result コード分析の結果（コード品質の問題）
+ * @param report セキュリティ・重複・複雑度のレポート（作成前なら null）
+ */
+export const generateSarifLog = (result: RepositoryAnalysisResult, report: AnalysisReport | null): SarifLog => {
+  const context: SarifContext = {
+    rules: [],
+    ruleIndexes: new Map(),
+    cweIds: new Set(),
+    results: [],
+    fingerprint: createFindingFingerprinter(),
+    fileLines: new Map(
+      result.files
+        .filter(file => file.codeContent)
+        .map(file => [file.fileName, (file.codeContent as string).split('\n')])
+    )
+  };
+
+  for (const file of report?.files || []) {
+    if (file.security) addSecurityResults(context, file.fileName, file.security.vulnerabilities);
+  }
+  addDependencyResults(context, report?.dependencies?.findings || []);
+  for (const file of result.files) {
+    addIssueResults(context, file.fileName, file.issues);
+  }
+  for (const file of report?.files || []) {
+    if (file.duplication) addDuplicateResults(context, file.fileName, file.language, file.duplication.duplicates);
+  }
+  addCrossFileDuplicateResults(context, report?.crossFileDuplicates || []);
+  for (const file of report?.files || []) {
+    if (file.complexity) addComplexityResults(context, file.fileName, file.complexity.functions);
+  }
+
+  const run: SarifRun = {
+    tool: {
+      driver: {
+        name: TOOL_NAME,
+        version: ANALYZER_VERSION,
+        rules: context.rules
+      }
+    },
+    versionControlProvenance: [{
+      repositoryUri: `https://github.com/${result.repoName}`,
+      ...(result.commitSha ? { revisionId: result.commitSha } : {}),
+      ...(result.ref && result.ref !== 'HEAD' ? { branch: result.ref } : {})
+    }],
+    artifacts: [
+      ...result.files.map(file => ({
+        location: createArtifactLocation(file.fileName),
+        sourceLanguage: file.language
+      })),
+      ...(report?.dependencies?.manifests || []).map(manifest => ({ location: createArtifactLocation(manifest) }))
+    ],
+    results: context.results
+  };
+
+  if (context.cweIds.size > 0) {
+    run.tool.driver.supportedTaxonomies = [{ name: CWE_TAXONOMY_NAME }];
+    run.taxonomies = [{
+      name: CWE_TAXONOMY_NAME,
+      version: CWE_TAXONOMY_VERSION,
+      organization: 'MITRE',
+      informationUri: `https://cwe.mitre.org/data/published/cwe_v${CWE_TAXONOMY_VERSION}.pdf`,
+      shortDescription: { text: 'The MITRE Common Weakness Enumeration' },
+      taxa: [...context.cweIds]
+        .sort((a, b) => Number(a) - Number(b))
+        .map(id => ({ id, helpUri: `https://cwe.mitre.org/data/definitions/${id}.html` }))
+    }];
+  }
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: SARIF_VERSION,
+    runs: [run]
+  };
+};
+
+/**
+ * SARIF ログのファイル名（リポジトリ名とコミット）
+ */
+export const getSarifFileName = (result: RepositoryAnalysisResult): string =>
+  `${result.repoName.replace(/\//g, '-')}${result.commitSha ? `-${result.commitSha.slice(0, 7)}` : ''}.sarif`;
+
+export default {
+  SARIF_VERSION,
+  computeFindingFingerprint,
+  createFindingFingerprinter,
+  generateSarifLog,
+  getSarifFileName
+};
@@ -0,0 +1,130 @@
+/**
+ * シークレット履歴スキャンサービス
+ * コミット履歴の差分からシークレットを検出し、現在のコードからは削除されたものを報告します
+ * 削除したシークレットも履歴から取得できるため、漏えいしたものとして無効化する必要があります
+ */
+
+import { fetchBlobContents, getCommit, getRepositoryCommits, getRepositoryTree, isRateLimitError } from './githubService';
+import { parsePatch } from './pullRequestAnalysisService';
+import { SecretAllowlist, SecretFinding, scanSecrets } from './secretScanService';
+
+// 履歴から検出したシークレット（追加されたコミットの情報付き）
+export interface HistorySecretFinding extends SecretFinding {
+  fileName: string;               // 追加されたファイル（line はそのコミットでの行番号）
+  commitSha: string;              // シークレットを追加したコミット
+  commitUrl: string;
+  commitMessage: string;          // コミットメッセージの1行目
+  author: string;
+  date: string;
+}
+
+// 履歴スキャンの結果
+export interface SecretHistoryScanResult {
+  repoName: string;
+  scannedCommits: number;
+  findings: HistorySecretFinding[];   // 履歴に残っていて、現在のコードからは削除されたシークレット
+  pausedReason?: string;              // レート制限・キャンセルで途中までしか調べられなかった場合の理由
+}
+
+// 履歴スキャンのオプション
+export interface SecretHistoryScanOptions {
+  maxCommits?: number;            // 調べるコミット数（新しい順）
+  allowlist?: SecretAllowlist;
+  onProgress?: (processedCommits: number, totalCommits: number) => void;
+  signal?: AbortSignal;
+}
+
+// 既定で調べるコミット数（コミットごとにAPIを1回呼び出すため控えめにする）
+const DEFAULT_MAX_COMMITS = 30;
+
+/**
+ * コミットで追加された行のシークレットを検出
+ * ハンク内の変更後の行をまとめて調べ、追加された行の検出結果だけを返します
+ */
+const scanAddedLines = (fileName: string, patch: string, allowlist?: SecretAllowlist): SecretFinding[] =>
+  parsePatch(patch).flatMap(hunk => {
+    const newLines = hunk.lines.filter(line => line.type !== 'removed');
+    const findings = scanSecrets(newLines.map(line => line.content).join('\n'), { fileName, allowlist });
+    return findings.flatMap(finding => {
+      const line = newLines[finding.line - 1];
+      return line?.type === 'added' && line.newLine !== null ? [{ ...finding, line: line.newLine }] : [];
+    });
+  });
+
+/**
+ * コミット履歴に残っているシークレットを検出
+ * 現在のコード（デフォルトブランチ）にも残っているシークレットは通常のセキュリティチェックで報告されるため除きます
+ */
+export const scanCommitHistoryForSecrets = async (
+  fullRepoName: string,
+  options: SecretHistoryScanOptions = {}
+): Promise<SecretHistoryScanResult> => {
+  const { maxCommits = DEFAULT_MAX_COMMITS, allowlist, onProgress, signal } = options;
+  const [owner, repo] = fullRepoName.split('/');
+  const commits: { sha: string }[] = (await getRepositoryCommits(owner, repo)).slice(0, maxCommits);
+
+  // 値ごとに、最初に追加したコミット（一覧は新しい順なので最後に見つかったもの）を残す
+  const introduced = new Map<string, HistorySecretFinding>();
+  let scannedCommits = 0;
+  let pausedReason: string | undefined;
+  onProgress?.(0, commits.length);
+
+  for (const { sha } of commits) {
+    if (signal?.aborted) {
+      pausedReason = '履歴のスキャンがキャンセルされました。';
+      break;
+    }
+
+    try {
+      const commit = await getCommit(owner, repo, sha);
+      for (const file of commit.files || []) {
+        if (!file.patch || file.status === 'removed') continue;
+        for (const finding of scanAddedLines(file.filename, file.patch, allowlist)) {
+          introduced.set(`${file.filename}\u0000${finding.fingerprint}`, {
+            ...finding,
+            fileName: file.filename,
+            commitSha: commit.sha,
+            commitUrl: commit.html_url,
+            commitMessage: commit.commit.message.split('\n')[0],
+            author: commit.commit.author.name,
+            date: commit.commit.author.date
+          });
+        }
+      }
+    } catch (error) {
+      if (isRateLimitError(error)) {
+        pausedReason = (error as Error).message;
+        break;
+      }
+      console.warn(`Failed to scan commit ${sha} for secrets:`, error);
+    }
+
+    scannedCommits++;
+    onProgress?.(scannedCommits, commits.length);
+  }
+
+  if (introduced.size === 0) {
+    return { repoName: fullRepoName, scannedCommits, findings: [], pausedReason };
+  }
+
+  // 現在のコードに残っているシークレット（別のファイルに移したものも含めて値で照合）
+  const fileNames = new Set(Array.from(introduced.values()).map(finding => finding.fileName));
+  const entries = (await getRepositoryTree(owner, repo)).filter(entry => entry.type === 'blob' && fileNames.has(entry.path));
+  const contents = await fetchBlobContents(owner, repo, entries.map(entry => entry.sha));
+  const present = new Set<string>();
+  for (const entry of entries) {
+    const content = contents.get(entry.sha);
+    if (content === undefined) continue;
+    scanSecrets(content, { fileName: entry.path, allowlist }).forEach(finding => present.add(finding.fingerprint));
+  }
+
+  const findings = Array.from(introduced.values())
+    .filter(finding => !present.has(finding.fingerprint))
+    .sort((a, b) => b.date.localeCompare(a.date));
+
+  return { repoName: fullRepoName, scannedCommits, findings, pausedReason };
+};
+
+export default {
+  scanCommitHistoryForSecrets
+};
@@ -0,0 +1,331 @@
+/**
+ * シークレット検出サービス
+ * ソースコードに含まれるAPIキー・トークン・秘密鍵を、サービスごとの形式とシャノンエントロピーで検出します
+ * 検出した値は伏せ字にして返し、元の値は結果に残しません
+ */
+
+// シークレットの重大度
+export type SecretSeverity = 'critical' | 'high' | 'medium' | 'low';
+
+// 検出したシークレット
+export interface SecretFinding {
+  ruleId: string;                 // 検出規則のID（例: aws-access-key-id）
+  provider: string;               // 発行元のサービス（汎用規則は「不明」）
+  description: string;            // シークレットの種類
+  severity: SecretSeverity;
+  line: number;                   // 行番号（1始まり）
+  column: number;                 // 列番号（1始まり）
+  maskedValue: string;            // 伏せ字にした値
+  maskedLine: string;             // 値を伏せ字にした行
+  entropy: number;                // 値のシャノンエントロピー（1文字あたりのビット数）
+  fingerprint: string;            // 値から計算した識別子（同じ値の検出結果を突き合わせる）
+  generic: boolean;               // 変数名とエントロピーによる汎用規則で検出したか
+}
+
+// 検出対象から除外する条件
+export interface SecretAllowlist {
+  paths?: RegExp[];               // 除外するファイルパス（テスト用のデータなど）
+  values?: RegExp[];              // 除外する値（プレースホルダーなど）
+}
+
+// シークレット検出オプション
+export interface SecretScanOptions {
+  fileName?: string;              // ファイルパス（除外するパスの判定に使う）
+  allowlist?: SecretAllowlist;    // 既定の除外条件に追加する条件
+}
+
+// サービスごとのシークレットの形式
+interface SecretRule {
+  id: string;
+  provider: string;
+  description: string;
+  severity: SecretSeverity;
+  pattern: RegExp;                // 値を1番目のグループで取得する
+  visiblePrefix: number;          // 伏せ字にしない先頭の文字数（形式上決まっている接頭辞）
+  minEntropy?: number;            // 値に必要な最小エントロピー
+}
+
+const SECRET_RULES: SecretRule[] = [
+  {
+    id: 'aws-access-key-id',
+    provider: 'AWS',
+    description: 'AWSアクセスキーID',
+    severity: 'high',
+    pattern: /\b((?:AKIA|ASIA|ABIA|ACCA)[A-Z2-7]{16})\b/g,
+    visiblePrefix: 4
+  },
+  {
+    id: 'aws-secret-access-key',
+    provider: 'AWS',
+    description: 'AWSシークレットアクセスキー',
+    severity: 'critical',
+    pattern: /aws_?secret_?(?:access_?)?key["']?\s*(?:[:=]|=>)\s*["']?([A-Za-z0-9/+=]{40})(?![A-Za-z0-9/+=])/gi,
+    visiblePrefix: 0,
+    minEntropy: 4
+  },
+  {
+    id: 'github-token',
+    provider: 'GitHub',
+    description: 'GitHubのアクセストークン',
+    severity: 'critical',
+    pattern: /\b(gh[pousr]_[A-Za-z0-9]{36,255})\b/g,
+    visiblePrefix: 4
+  },
+  {
+    id: 'github-fine-grained-token',
+    provider: 'GitHub',
+    description: 'GitHubのFine-grainedアクセストークン',
+    severity: 'critical',
+    pattern: /\b(github_pat_[A-Za-z0-9_]{82})\b/g,
+    visiblePrefix: 11
+  },
+  {
+    id: 'stripe-live-key',
+    provider: 'Stripe',
+    description: 'Stripeの本番用シークレットキー',
+    severity: 'critical',
+    pattern: /\b((?:sk|rk)_live_[A-Za-z0-9]{24,247})\b/g,
+    visiblePrefix: 8
+  },
+  {
+    id: 'stripe-test-key',
+    provider: 'Stripe',
+    description: 'Stripeのテスト用シークレットキー',
+    severity: 'low',
+    pattern: /\b((?:sk|rk)_test_[A-Za-z0-9]{24,247})\b/g,
+    visiblePrefix: 8
+  },
+  {
+    id: 'openai-api-key',
+    provider: 'OpenAI',
+    description: 'OpenAIのAPIキー',
+    severity: 'critical',
+    pattern: /\b(sk-(?:(?:proj|svcacct|admin)-[A-Za-z0-9_-]{40,}|[A-Za-z0-9]{20}T3BlbkFJ[A-Za-z0-9]{20}))(?![A-Za-z0-9_-])/g,
+    visiblePrefix: 3
+  },
+  {
+    // Firebase のウェブ用APIキーもこの形式（公開される前提だが、APIの制限を設定しないと悪用される）
+    id: 'google-api-key',
+    provider: 'Google Cloud / Firebase',
+    description: 'Google Cloud（Firebase）のAPIキー',
+    severity: 'medium',
+    pattern: /\b(AIza[0-9A-Za-z_-]{35})(?![0-9A-Za-z_-])/g,
+    visiblePrefix: 4
+  },
+  {
+    id: 'slack-token',
+    provider: 'Slack',
+    description: 'Slackのトークン',
+    severity: 'high',
+    pattern: /\b(xox[abposr]-[0-9A-Za-z-]{10,})\b/g,
+    visiblePrefix: 5
+  },
+  {
+    id: 'private-key',
+    provider: '鍵を利用しているサービス',
+    description: '秘密鍵',
+    severity: 'critical',
+    pattern: /(-----BEGIN (?:(?:RSA|EC|DSA|OPENSSH|PGP|ENCRYPTED) )?PRIVATE KEY(?: BLOCK)?-----)/g,
+    visiblePrefix: Infinity
+  }
+];
+
+// 変数名からシークレットと判断する汎用規則（値は引用符で囲まれた文字列のみ）
+const GENERIC_SECRET_PATTERN =
+  /([\w.-]*(?:password|passwd|pwd|secret|token|api[_-]?key|access[_-]?key|private[_-]?key|client[_-]?secret|credentials?|auth[_-]?key)[\w.-]*)["']?\s*(?:[:=]|:=|=>)\s*(["'`])([^"'`\s]+)\2/gi;
+
+// 汎用規則で報告する値の最小の長さとエントロピー（`key = 'id'` のような短い値や単語は除外）
+const GENERIC_MIN_LENGTH = 8;
+const GENERIC_MIN_ENTROPY = 3;
+
+// 伏せ字の長さ（値の長さを推測させないよう固定）
+const MASK = '********';
+
+// 既定で除外するファイル（テスト用のデータ・サンプル設定）
+const DEFAULT_ALLOWED_PATHS: RegExp[] = [
+  /(^|\/)(__tests__|__mocks__|tests?|spec|fixtures?|testdata)\//i,
+  /\.(test|spec)\.[cm]?[jt]sx?$/i,
+  /(^|\/)test_[^/]*\.py$/,
+  /_test\.(go|py)$/,
+  /\.(example|sample|template)$/i
+];
+
+// 既定で除外する値（プレースホルダー・ドキュメントのサンプル）
+const DEFAULT_ALLOWED_VALUES: RegExp[] = [
+  /^(.)\1+$/,
+  /example|sample|dummy|placeholder|changeme|change_me|redacted|your[_-]|fake/i,
+  /<[^>]*>|\$\{[^}]*\}|\{\{[^}]*\}\}|%\([^)]*\)s/
+];
+
+/**
+ * 文字列のシャノンエントロピー（1文字あたりのビット数）
+ */
+export const calculateShannonEntropy = (value: string): number => {
+  if (!value) return 0;
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) || 0) + 1);
+  }
+  let entropy = 0;
+  counts.forEach(count => {
+    const probability = count / value.length;
+    entropy -= probability * Math.log2(probability);
+  });
+  return entropy;
+};
+
+/**
+ * シークレットを伏せ字にする（形式上決まっている接頭辞だけ残す）
+ */
+export const maskSecret = (value: string, visiblePrefix = 0): string =>
+  visiblePrefix >= value.length ? value : `${value.slice(0, visiblePrefix)}${MASK}`;
+
+// 値の識別子（元の値を残さずに同じ値かを判定するため、FNV-1a 32bit を2系統組み合わせる）
+const hashSecret = (value: string): string => {
+  let first = 0x811c9dc5;
+  let second = 0x01000193;
+  for (let i = 0; i < value.length; i++) {
+    const code = value.charCodeAt(i);
+    first = Math.imul(first ^ code, 0x01000193);
+    second = Math.imul(second ^ code, 0x01000193) ^ (second >>> 13);
+  }
+  return (first >>> 0).toString(16).padStart(8, '0') + (second >>> 0).toString(16).padStart(8, '0');
+};
+
+// 英小文字・英大文字・数字のうち2種類以上を含むか（単語や定数名を除外する）
+const hasMixedCharacters = (value: string): boolean =>
+  [/[a-z]/, /[A-Z]/, /\d/].filter(pattern => pattern.test(value)).length >= 2;
+
+// 行内で見つかったシークレット（元の値を含む）
+interface SecretMatch {
+  rule: Pick<SecretRule, 'id' | 'provider' | 'description' | 'severity' | 'visiblePrefix'>;
+  value: string;
+  index: number;                  // 行内の位置
+  generic: boolean;
+}
+
+/**
+ * 1行からシークレットを探す
+ */
+const findSecretsInLine = (line: string, allowedValues: RegExp[]): SecretMatch[] => {
+  const matches: SecretMatch[] = [];
+  const isAllowed = (value: string) => allowedValues.some(pattern => pattern.test(value));
+
+  for (const rule of SECRET_RULES) {
+    rule.pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = rule.pattern.exec(line)) !== null) {
+      const value = match[1];
+      if (isAllowed(value)) continue;
+      if (rule.minEntropy && calculateShannonEntropy(value) < rule.minEntropy) continue;
+      matches.push({ rule, value, index: match.index + match[0].indexOf(value), generic: false });
+    }
+  }
+
+  // サービスの形式に一致しなかった値を変数名とエントロピーで判定
+  GENERIC_SECRET_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = GENERIC_SECRET_PATTERN.exec(line)) !== null) {
+    const value = match[3];
+    const index = match.index + match[0].lastIndexOf(value);
+    const overlaps = matches.some(found => index < found.index + found.value.length && found.index < index + value.length);
+    if (
+      overlaps ||
+      value.length < GENERIC_MIN_LENGTH ||
+      calculateShannonEntropy(value) < GENERIC_MIN_ENTROPY ||
+      !hasMixedCharacters(value) ||
+      /^https?:\/\//.test(value) ||
+      isAllowed(value)
+    ) {
+      continue;
+    }
+    matches.push({
+      rule: {
+        id: 'generic-secret',
+        provider: '不明',
+        description: `変数 ${match[1]} に代入された秘密情報`,
+        severity: 'medium',
+        visiblePrefix: 0
+      },
+      value,
+      index,
+      generic: true
+    });
+  }
+
+  return matches.sort((a, b) => a.index - b.index);
+};
+
+// 行内のシークレットを伏せ字にする
+const maskLine = (line: string, matches: SecretMatch[]): string => {
+  let masked = line;
+  // 後ろから置き換えて位置をずらさない
+  for (const match of [...matches].sort((a, b) => b.index - a.index)) {
+    masked = masked.slice(0, match.index) + maskSecret(match.value, match.rule.visiblePrefix) + masked.slice(match.index + match.value.length);
+  }
+  return masked;
+};
+
+/**
+ * ファイルが除外対象か
+ */
+export const isSecretScanAllowedPath = (fileName: string, allowlist: SecretAllowlist = {}): boolean =>
+  [...DEFAULT_ALLOWED_PATHS, ...(allowlist.paths || [])].some(pattern => pattern.test(fileName));
+
+/**
+ * コードからシークレットを検出
+ */
+export const scanSecrets = (code: string, options: SecretScanOptions = {}): SecretFinding[] => {
+  const { fileName, allowlist = {} } = options;
+  if (fileName && isSecretScanAllowedPath(fileName, allowlist)) return [];
+
+  const allowedValues = [...DEFAULT_ALLOWED_VALUES, ...(allowlist.values || [])];
+  const findings: SecretFinding[] = [];
+  const lines = code.split('\n');
+
+  lines.forEach((line, index) => {
+    const matches = findSecretsInLine(line, allowedValues);
+    if (matches.length === 0) return;
+    const maskedLine = maskLine(line, matches).trim();
+
+    for (const match of matches) {
+      // 秘密鍵はヘッダーではなく鍵の本体で識別する
+      const identity = match.rule.id === 'private-key' ? `${match.value}${(lines[index + 1] || '').trim()}` : match.value;
+      findings.push({
+        ruleId: match.rule.id,
+        provider: match.rule.provider,
+        description: match.rule.description,
+        severity: match.rule.severity,
+        line: index + 1,
+        column: match.index + 1,
+        maskedValue: maskSecret(match.value, match.rule.visiblePrefix),
+        maskedLine,
+        entropy: Math.round(calculateShannonEntropy(match.value) * 100) / 100,
+        fingerprint: hashSecret(`${match.rule.id}\u0000${identity}`),
+        generic: match.generic
+      });
+    }
+  });
+
+  return findings;
+};
+
+/**
+ * テキストに含まれるシークレットを伏せ字にする（除外条件に関係なくすべて伏せる）
+ */
+export const redactSecrets = (text: string): string =>
+  text
+    .split('\n')
+    .map(line => {
+      const matches = findSecretsInLine(line, []);
+      return matches.length > 0 ? maskLine(line, matches) : line;
+    })
+    .join('\n');
+
+export default {
+  calculateShannonEntropy,
+  maskSecret,
+  isSecretScanAllowedPath,
+  scanSecrets,
+  redactSecrets
+};
@@ -6,6 +6,10 @@
 import * as tf from '@tensorflow/tfjs';
 import { extractSecurityFeatures, predictSecurityVulnerabilities } from './tfService';
 import { tokenizeCode } from './duplicateDetectionService';
+import { CustomRule, CustomRuleMatch, RuleFix, RuleSettings, applyRuleSettings, evaluateCustomRules } from './rulePackService';
+import { SecretFinding, SecretSeverity, redactSecrets, scanSecrets } from './secretScanService';
+import { filterSuppressed, parseSuppressions } from './suppressionService';
+import { TAINT_STEP_LABELS, TaintFlow, TaintSinkKind, TaintTraceStep, analyzeTaintFlows, isTaintAnalysisSupported } from './taintAnalysisService';
 
 // セキュリティ脆弱性の種類（OWASP Top 10に基づく）
 export enum VulnerabilityType {
@@ -44,6 +48,31 @@ export interface SecurityVulnerability {
   exampleFix?: string;            // 修正例
   references?: string[];          // 参考情報へのリンク
   falsePositiveLikelihood: 'low' | 'medium' | 'high'; // 誤検出の可能性
+  taintTrace?: TaintTraceStep[];  // 信頼できない入力が到達する経路（汚染解析で検出した場合）
+  component?: VulnerableComponent; // 脆弱性のある依存パッケージ（依存関係のスキャンで検出した場合）
+  ruleId?: string;                // カスタムルールのID（リポジトリの .codecoach.yml で定義）
+  fix?: RuleFix;                  // カスタムルールのテンプレートから作成した自動修正
+}
+
+// 既知の脆弱性がある依存パッケージ
+export interface VulnerableComponent {
+  ecosystem: string;              // パッケージのエコシステム（npm・PyPI・Go・Maven）
+  name: string;                   // パッケージ名
+  version: string;                // 使用しているバージョン
+  advisoryId: string;             // アドバイザリのID（GHSA・PYSEC・GOなど）
+  aliases: string[];              // CVEなどの別名
+  affectedRanges: string[];       // 影響を受けるバージョンの範囲
+  fixedVersions: string[];        // 修正済みのバージョン
+  direct: boolean;                // 直接依存か（false は間接依存）
+}
+
+// セキュリティチェックのオプション
+export interface SecurityCheckOptions {
+  useMl?: boolean;                // 機械学習による検出を行うか
+  minSeverity?: Severity;         // 報告する最小の重大度
+  fileName?: string;              // ファイルパス（テスト用データなどのシークレット検出の除外に使う）
+  customRules?: CustomRule[];     // リポジトリで定義されたカスタムルール（category: security のものを適用）
+  ruleSettings?: RuleSettings | null; // リポジトリの設定で無効にしたルールと重大度の変更
 }
 
 // セキュリティチェックの結果
@@ -57,23 +86,134 @@ export interface SecurityCheckResult {
     info: number;                 // 情報レベルの脆弱性の数
     total: number;                // 全脆弱性の数
     score: number;                // セキュリティスコア（0-100）
+    suppressed: number;           // codecoach-ignore コメントで抑制した脆弱性の数（上の件数には含まない）
+    baselined: number;            // ベースラインに記録済みのため除いた脆弱性の数（上の件数には含まない）
   };
   recommendations: string[];      // 全体的な推奨事項
 }
 
+// 脆弱性パターンの定義
+interface VulnerabilityPattern {
+  pattern: RegExp;
+  severity: Severity;
+  message: string;
+  cwe?: string;
+  recommendation: string;
+  exampleFix?: string;
+  references?: string[];
+  requiresTaint?: boolean;        // 汚染解析に対応する言語では、信頼できない入力が到達する場合だけ報告する
+}
+
+// 脆弱性タイプごとのパターン
+type VulnerabilityPatternSet = {
+  [key in VulnerabilityType]?: VulnerabilityPattern[];
+};
+
+// C/C++ 共通の脆弱性パターン（C++ でも C の標準ライブラリ関数がそのまま使えるため共有する）
+const C_FAMILY_PATTERNS: VulnerabilityPatternSet = {
+  [VulnerabilityType.OTHER]: [
+    {
+      pattern: /\bgets\s*\(/g,
+      severity: Severity.CRITICAL,
+      message: 'gets()は入力の長さを制限できないため、必ずバッファオーバーフローを起こし得ます。',
+      cwe: 'CWE-242',
+      recommendation: 'gets()は使用せず、バッファのサイズを指定できるfgets()を使用してください。',
+      exampleFix: '// 危険なコード:\nchar name[32];\ngets(name);\n\n// 安全なコード:\nchar name[32];\nif (fgets(name, sizeof(name), stdin) != NULL) {\n  name[strcspn(name, "\\n")] = \'\\0\';\n}',
+      references: ['https://cwe.mitre.org/data/definitions/242.html']
+    },
+    {
+      pattern: /\b(?:strcpy|strcat|wcscpy|wcscat)\s*\(/g,
+      severity: Severity.HIGH,
+      message: 'コピー先のサイズを確認しない文字列操作は、バッファオーバーフローの原因になります。',
+      cwe: 'CWE-120',
+      recommendation: 'コピー先のサイズを指定できるsnprintf()やstrlcpy()を使用し、切り詰めが起きた場合の処理を用意してください。',
+      exampleFix: '// 危険なコード:\nchar path[64];\nstrcpy(path, base);\nstrcat(path, fileName);\n\n// 安全なコード:\nchar path[64];\nint written = snprintf(path, sizeof(path), "%s%s", base, fileName);\nif (written < 0 || (size_t)written >= sizeof(path)) {\n  return -1; // 長すぎる入力は拒否する\n}',
+      references: ['https://cwe.mitre.org/data/definitions/120.html']
+    },
+    {
+      pattern: /\b(?:sprintf|vsprintf)\s*\(/g,
+      severity: Severity.HIGH,
+      message: 'sprintf()は書き込み先のサイズを確認しないため、バッファオーバーフローの原因になります。',
+      cwe: 'CWE-120',
+      recommendation: 'バッファのサイズを指定するsnprintf()/vsnprintf()を使用し、戻り値で切り詰めを確認してください。',
+      exampleFix: '// 危険なコード:\nchar message[64];\nsprintf(message, "Hello, %s", userName);\n\n// 安全なコード:\nchar message[64];\nsnprintf(message, sizeof(message), "Hello, %s", userName);',
+      references: ['https://cwe.mitre.org/data/definitions/120.html']
+    },
+    {
+      pattern: /\b(?:scanf|fscanf|sscanf)\s*\([^;]*?"[^"\n]*%s/g,
+      severity: Severity.MEDIUM,
+      message: '幅を指定しない%s変換は、入力の長さによってバッファオーバーフローを起こします。',
+      cwe: 'CWE-120',
+      recommendation: '%31sのようにバッファのサイズ未満の最大幅を指定するか、fgets()で1行ずつ読み込んでください。',
+      exampleFix: '// 危険なコード:\nchar word[32];\nscanf("%s", word);\n\n// 安全なコード:\nchar word[32];\nscanf("%31s", word);',
+      references: ['https://cwe.mitre.org/data/definitions/120.html']
+    },
+    {
+      pattern: /\b(?:printf\s*\(|(?:fprintf|syslog)\s*\(\s*\w+\s*,)\s*[A-Za-z_][\w.[\]>-]*\s*\)/g,
+      severity: Severity.MEDIUM,
+      message: '変数を書式文字列として渡すと、%nなどを含む入力でメモリの読み書きが行われる可能性があります（書式文字列攻撃）。',
+      cwe: 'CWE-134',
+      recommendation: '書式文字列は常にリテラルにし、出力する値は引数として渡してください。',
+      exampleFix: '// 危険なコード:\nprintf(userInput);\n\n// 安全なコード:\nprintf("%s", userInput);',
+      references: ['https://owasp.org/www-community/attacks/Format_string_attack']
+    }
+  ],
+  [VulnerabilityType.INJECTION]: [
+    {
+      pattern: /\b(?:system|popen)\s*\(\s*(?!"[^"\n]*"\s*[,)])/g,
+      severity: Severity.HIGH,
+      message: 'シェルを経由してコマンドを実行しています。組み立てたコマンド文字列に入力が含まれると、コマンドインジェクションが発生します。',
+      cwe: 'CWE-78',
+      recommendation: 'シェルを経由せずに、execv()やposix_spawn()で引数を配列として渡してください。',
+      exampleFix: '// 危険なコード:\nchar command[256];\nsnprintf(command, sizeof(command), "ls %s", dir);\nsystem(command);\n\n// 安全なコード:\nchar *const args[] = {"ls", dir, NULL};\npid_t pid;\nposix_spawnp(&pid, "ls", NULL, NULL, args, environ);',
+      references: ['https://owasp.org/www-community/attacks/Command_Injection']
+    },
+    {
+      pattern: /\b(?:sprintf|snprintf)\s*\([^;]*"\s*(?:SELECT|INSERT\s+INTO|UPDATE|DELETE\s+FROM)\b[^"\n]*%s/gi,
+      severity: Severity.HIGH,
+      message: 'SQL文を文字列の書式化で組み立てているため、SQLインジェクションの脆弱性があります。',
+      cwe: 'CWE-89',
+      recommendation: 'プリペアドステートメントを使用し、値はバインド関数で渡してください。',
+      exampleFix: '// 危険なコード:\nsnprintf(sql, sizeof(sql), "SELECT * FROM users WHERE name = \'%s\'", name);\nsqlite3_exec(db, sql, callback, NULL, NULL);\n\n// 安全なコード:\nsqlite3_stmt *stmt;\nsqlite3_prepare_v2(db, "SELECT * FROM users WHERE name = ?", -1, &stmt, NULL);\nsqlite3_bind_text(stmt, 1, name, -1, SQLITE_TRANSIENT);',
+      references: ['https://owasp.org/www-community/attacks/SQL_Injection']
+    }
+  ],
+  [VulnerabilityType.SENSITIVE_DATA]: [
+    {
+      pattern: /\b(?:MD4|MD5|SHA1)(?:_Init)?\s*\(|\bEVP_(?:md4|md5|sha1)\s*\(/g,
+      severity: Severity.MEDIUM,
+      message: 'MD5やSHA-1は衝突攻撃が知られている弱いハッシュ関数です。',
+      cwe: 'CWE-328',
+      recommendation: '改ざん検知にはSHA-256以上を、パスワードの保存にはArgon2やbcryptなどのパスワード用ハッシュ関数を使用してください。',
+      exampleFix: '// 危険なコード:\nEVP_DigestInit_ex(ctx, EVP_md5(), NULL);\n\n// 安全なコード:\nEVP_DigestInit_ex(ctx, EVP_sha256(), NULL);',
+      references: ['https://cwe.mitre.org/data/definitions/328.html']
+    },
+    {
+      pattern: /\b(?:DES_\w+|EVP_(?:des_\w+|rc4\w*|bf_\w+|aes_\d+_ecb))\s*\(/g,
+      severity: Severity.HIGH,
+      message: 'DES、RC4、ECBモードなどの弱い暗号方式が使用されています。',
+      cwe: 'CWE-327',
+      recommendation: 'AES-GCMやChaCha20-Poly1305などの認証付き暗号を使用し、IV（nonce）は毎回ランダムに生成してください。',
+      exampleFix: '// 危険なコード:\nEVP_EncryptInit_ex(ctx, EVP_des_cbc(), NULL, key, iv);\n\n// 安全なコード:\nEVP_EncryptInit_ex(ctx, EVP_aes_256_gcm(), NULL, key, iv);',
+      references: ['https://cwe.mitre.org/data/definitions/327.html']
+    }
+  ],
+  [VulnerabilityType.XXE]: [
+    {
+      pattern: /\bXML_PARSE_NOENT\b|\bxmlSubstituteEntitiesDefault\s*\(\s*1\s*\)/g,
+      severity: Severity.HIGH,
+      message: 'libxml2で外部エンティティの展開が有効になっているため、XXE攻撃でローカルファイルが読み取られる可能性があります。',
+      cwe: 'CWE-611',
+      recommendation: 'XML_PARSE_NOENTを指定せず、XML_PARSE_NONETで外部リソースへのアクセスも禁止してください。',
+      exampleFix: '// 危険なコード:\nxmlDocPtr doc = xmlReadMemory(buffer, size, "input.xml", NULL, XML_PARSE_NOENT);\n\n// 安全なコード:\nxmlDocPtr doc = xmlReadMemory(buffer, size, "input.xml", NULL, XML_PARSE_NONET);',
+      references: ['https://owasp.org/www-community/vulnerabilities/XML_External_Entity_(XXE)_Processing']
+    }
+  ]
+};
+
 // 言語別の脆弱性パターン
 const VULNERABILITY_PATTERNS: {
-  [key: string]: {
-    [key in VulnerabilityType]?: {
-  pattern: RegExp;
-      severity: Severity;
-      message: string;
-      cwe?: string;
-      recommendation: string;
-      exampleFix?: string;
-      references?: string[];
-    }[];
-  };
+  [key: string]: VulnerabilityPatternSet;
 } = {
   javascript: {
     [VulnerabilityType.INJECTION]: [
@@ -84,7 +224,8 @@ const VULNERABILITY_PATTERNS: {
         cwe: 'CWE-95',
         recommendation: 'eval()の使用を避け、JSONデータの場合はJSON.parseを使用してください。',
         exampleFix: '// 危険なコード:\neval(userInput);\n\n// 安全なコード:\nJSON.parse(userInput);',
-        references: ['https://owasp.org/www-community/attacks/Code_Injection']
+        references: ['https://owasp.org/www-community/attacks/Code_Injection'],
+        requiresTaint: true
       },
       {
         pattern: /exec\s*\(\s*(['"`].*['"`]|\$\{.*\}|\w+)/g,
@@ -92,7 +233,8 @@ const VULNERABILITY_PATTERNS: {
         message: 'コマンドインジェクションの脆弱性があります。ユーザー入力がコマンドに含まれる可能性があります。',
         cwe: 'CWE-78',
         recommendation: 'ユーザー入力を適切にサニタイズしてください。可能であれば、execの使用を避けてください。',
-        references: ['https://owasp.org/www-community/attacks/Command_Injection']
+        references: ['https://owasp.org/www-community/attacks/Command_Injection'],
+        requiresTaint: true
       }
     ],
     [VulnerabilityType.XSS]: [
@@ -103,7 +245,8 @@ const VULNERABILITY_PATTERNS: {
         cwe: 'CWE-79',
         recommendation: 'innerHTMLの代わりにtextContentを使用するか、DOMPurifyなどのライブラリでサニタイズしてください。',
         exampleFix: "// 危険なコード:\nelement.innerHTML = userInput;\n\n// 安全なコード:\nelement.textContent = userInput;\n// または\nimport DOMPurify from 'dompurify';\nelement.innerHTML = DOMPurify.sanitize(userInput);",
-        references: ['https://owasp.org/www-community/attacks/xss/']
+        references: ['https://owasp.org/www-community/attacks/xss/'],
+        requiresTaint: true
   },
   {
     pattern: /document\.write\s*\(/g,
@@ -111,18 +254,8 @@ const VULNERABILITY_PATTERNS: {
         message: 'document.writeはXSS攻撃に弱いため、使用は避けるべきです。',
         cwe: 'CWE-79',
         recommendation: 'document.writeの代わりに、DOMメソッドでHTMLを構築することを検討してください。',
-        references: ['https://owasp.org/www-community/attacks/xss/']
-      }
-    ],
-    [VulnerabilityType.SENSITIVE_DATA]: [
-      {
-        pattern: /(password|token|secret|key|credential)s?\s*=\s*['"][^'"]+['"](?!\s*os\.environ)/gi,
-        severity: Severity.MEDIUM,
-        message: 'コード内にハードコードされた機密情報が含まれている可能性があります。',
-        cwe: 'CWE-798',
-        recommendation: '環境変数または適切なシークレット管理サービスを使用してください。',
-        exampleFix: "# 危険なコード:\napi_key = 'abcd1234'\n\n# 安全なコード:\nimport os\napi_key = os.environ.get('API_KEY')",
-        references: ['https://owasp.org/www-project-top-ten/2017/A3_2017-Sensitive_Data_Exposure']
+        references: ['https://owasp.org/www-community/attacks/xss/'],
+        requiresTaint: true
       }
     ],
     [VulnerabilityType.BROKEN_ACCESS]: [
@@ -132,7 +265,8 @@ const VULNERABILITY_PATTERNS: {
         message: 'パス走査（ディレクトリトラバーサル）の脆弱性が存在する可能性があります。',
         cwe: 'CWE-22',
         recommendation: 'ユーザー入力からパスを構築する際は、path.normalizeやpath.resolveを使用し、許可されたディレクトリ内に制限してください。',
-        references: ['https://owasp.org/www-community/attacks/Path_Traversal']
+        references: ['https://owasp.org/www-community/attacks/Path_Traversal'],
+        requiresTaint: true
       }
     ]
   },
@@ -145,7 +279,8 @@ const VULNERABILITY_PATTERNS: {
         cwe: 'CWE-95',
         recommendation: 'eval()の使用を避け、JSONデータの場合はJSON.parseを使用してください。',
         exampleFix: '// 危険なコード:\neval(userInput);\n\n// 安全なコード:\nJSON.parse(userInput);',
-        references: ['https://owasp.org/www-community/attacks/Code_Injection']
+        references: ['https://owasp.org/www-community/attacks/Code_Injection'],
+        requiresTaint: true
       }
     ],
     [VulnerabilityType.XSS]: [
@@ -155,7 +290,8 @@ const VULNERABILITY_PATTERNS: {
         message: 'innerHTMLを使用する際は、ユーザー入力がそのまま挿入される可能性があり、XSS攻撃の危険性があります。',
         cwe: 'CWE-79',
         recommendation: 'innerHTMLの代わりにtextContentを使用するか、DOMPurifyなどのライブラリでサニタイズしてください。',
-        references: ['https://owasp.org/www-community/attacks/xss/']
+        references: ['https://owasp.org/www-community/attacks/xss/'],
+        requiresTaint: true
       }
     ]
   },
@@ -167,7 +303,8 @@ const VULNERABILITY_PATTERNS: {
         message: 'exec()でユーザー入力を実行すると、任意のコードが実行される可能性があります。',
         cwe: 'CWE-95',
         recommendation: 'exec()の代わりに、より安全な方法でタスクを実行してください。',
-        references: ['https://owasp.org/www-community/attacks/Code_Injection']
+        references: ['https://owasp.org/www-community/attacks/Code_Injection'],
+        requiresTaint: true
       },
       {
         pattern: /subprocess\.(?:call|Popen|run)\s*\(\s*(?:f['"]{1}|['"]{1}.*\{.*\}.*['"]{1}|\w+\s*\+)/g,
@@ -176,18 +313,8 @@ const VULNERABILITY_PATTERNS: {
         cwe: 'CWE-78',
         recommendation: 'コマンドを引数リストとして渡し、shellパラメータをFalseに設定してください。',
         exampleFix: "# 危険なコード:\nsubprocess.call('grep ' + user_input + ' file.txt', shell=True)\n\n# 安全なコード:\nsubprocess.call(['grep', user_input, 'file.txt'], shell=False)",
-        references: ['https://owasp.org/www-community/attacks/Command_Injection']
-      }
-    ],
-    [VulnerabilityType.SENSITIVE_DATA]: [
-      {
-        pattern: /(password|token|secret|key|credential)s?\s*=\s*['"][^'"]+['"](?!\s*os\.environ)/gi,
-        severity: Severity.MEDIUM,
-        message: 'コード内にハードコードされた機密情報が含まれています。',
-        cwe: 'CWE-798',
-        recommendation: '環境変数または適切なシークレット管理サービスを使用してください。',
-        exampleFix: "# 危険なコード:\napi_key = 'abcd1234'\n\n# 安全なコード:\nimport os\napi_key = os.environ.get('API_KEY')",
-        references: ['https://owasp.org/www-project-top-ten/2017/A3_2017-Sensitive_Data_Exposure']
+        references: ['https://owasp.org/www-community/attacks/Command_Injection'],
+        requiresTaint: true
       }
     ],
     [VulnerabilityType.XSS]: [
@@ -208,12 +335,286 @@ const VULNERABILITY_PATTERNS: {
         cwe: 'CWE-89',
         recommendation: 'パラメータ化クエリを使用してください。',
         exampleFix: "# 危険なコード:\ncursor.execute(\"SELECT * FROM users WHERE name = '\" + user_input + \"'\")\n\n# 安全なコード:\ncursor.execute(\"SELECT * FROM users WHERE name = %s\", (user_input,))",
+        references: ['https://owasp.org/www-community/attacks/SQL_Injection'],
+        requiresTaint: true
+      }
+    ]
+  },
+  go: {
+    [VulnerabilityType.INJECTION]: [
+      {
+        pattern: /fmt\.Sprintf\s*\(\s*"(?:SELECT|INSERT\s+INTO|UPDATE|DELETE\s+FROM)\b[^"\n]*%[sv]|"(?:SELECT|INSERT\s+INTO|UPDATE|DELETE\s+FROM)\b[^"\n]*"\s*\+\s*[A-Za-z_]/gi,
+        severity: Severity.HIGH,
+        message: 'SQL文を文字列の連結や書式化で組み立てているため、SQLインジェクションの脆弱性があります。',
+        cwe: 'CWE-89',
+        recommendation: 'database/sqlのプレースホルダーを使用し、値はQuery/Execの引数として渡してください。',
+        exampleFix: '// 危険なコード:\nrows, err := db.Query(fmt.Sprintf("SELECT * FROM users WHERE name = \'%s\'", name))\n\n// 安全なコード:\nrows, err := db.Query("SELECT * FROM users WHERE name = ?", name) // PostgreSQL では $1',
+        references: ['https://owasp.org/www-community/attacks/SQL_Injection']
+      },
+      {
+        pattern: /exec\.Command(?:Context)?\s*\(\s*(?:\w+\s*,\s*)?"(?:sh|bash|\/bin\/sh|\/bin\/bash|cmd|cmd\.exe|powershell)"\s*,\s*"(?:-c|\/c|\/C)"/g,
+        severity: Severity.HIGH,
+        message: 'シェルを経由してコマンドを実行しています。コマンド文字列に入力が含まれると、コマンドインジェクションが発生します。',
+        cwe: 'CWE-78',
+        recommendation: 'シェルを経由せず、実行するプログラムと引数を個別にexec.Commandへ渡してください。',
+        exampleFix: '// 危険なコード:\ncmd := exec.Command("sh", "-c", "grep "+pattern+" app.log")\n\n// 安全なコード:\ncmd := exec.Command("grep", "--", pattern, "app.log")',
+        references: ['https://owasp.org/www-community/attacks/Command_Injection']
+      }
+    ],
+    [VulnerabilityType.SENSITIVE_DATA]: [
+      {
+        pattern: /\b(?:md5|sha1)\.(?:New|Sum)\s*\(/g,
+        severity: Severity.MEDIUM,
+        message: 'MD5やSHA-1は衝突攻撃が知られている弱いハッシュ関数です。',
+        cwe: 'CWE-328',
+        recommendation: '改ざん検知にはcrypto/sha256を、パスワードの保存にはgolang.org/x/crypto/bcryptやargon2を使用してください。',
+        exampleFix: '// 危険なコード:\nsum := md5.Sum(data)\n\n// 安全なコード:\nsum := sha256.Sum256(data)',
+        references: ['https://cwe.mitre.org/data/definitions/328.html']
+      },
+      {
+        pattern: /\b(?:des\.New(?:TripleDES)?Cipher|rc4\.NewCipher)\s*\(/g,
+        severity: Severity.HIGH,
+        message: 'DESやRC4などの弱い暗号方式が使用されています。',
+        cwe: 'CWE-327',
+        recommendation: 'AES-GCM（crypto/aesとcrypto/cipherのNewGCM）などの認証付き暗号を使用してください。',
+        exampleFix: '// 危険なコード:\nblock, err := des.NewCipher(key)\n\n// 安全なコード:\nblock, err := aes.NewCipher(key) // 32バイトの鍵\ngcm, err := cipher.NewGCM(block)',
+        references: ['https://cwe.mitre.org/data/definitions/327.html']
+      }
+    ],
+    [VulnerabilityType.SECURITY_MISCONFIG]: [
+      {
+        pattern: /InsecureSkipVerify\s*:\s*true/g,
+        severity: Severity.HIGH,
+        message: 'TLS証明書の検証が無効になっているため、中間者攻撃で通信を盗聴・改ざんされる可能性があります。',
+        cwe: 'CWE-295',
+        recommendation: '証明書の検証を無効にせず、自己署名証明書を使う場合はRootCAsに信頼するCAを追加してください。',
+        exampleFix: '// 危険なコード:\ntlsConfig := &tls.Config{InsecureSkipVerify: true}\n\n// 安全なコード:\npool := x509.NewCertPool()\npool.AppendCertsFromPEM(caCert)\ntlsConfig := &tls.Config{RootCAs: pool}',
+        references: ['https://cwe.mitre.org/data/definitions/295.html']
+      }
+    ]
+  },
+  java: {
+    [VulnerabilityType.INJECTION]: [
+      {
+        pattern: /"(?:SELECT|INSERT\s+INTO|UPDATE|DELETE\s+FROM)\b[^"\n]*"\s*\+\s*[A-Za-z_]/gi,
+        severity: Severity.HIGH,
+        message: 'SQL文を文字列の連結で組み立てているため、SQLインジェクションの脆弱性があります。',
+        cwe: 'CWE-89',
+        recommendation: 'PreparedStatementのプレースホルダー（?）を使用し、値はsetString()などで設定してください。',
+        exampleFix: '// 危険なコード:\nStatement stmt = conn.createStatement();\nResultSet rs = stmt.executeQuery("SELECT * FROM users WHERE name = \'" + name + "\'");\n\n// 安全なコード:\nPreparedStatement stmt = conn.prepareStatement("SELECT * FROM users WHERE name = ?");\nstmt.setString(1, name);\nResultSet rs = stmt.executeQuery();',
+        references: ['https://owasp.org/www-community/attacks/SQL_Injection']
+      },
+      {
+        pattern: /Runtime\.getRuntime\(\)\.exec\s*\(\s*"[^"\n]*"\s*\+|new\s+ProcessBuilder\s*\(\s*(?:(?:Arrays\.asList|List\.of)\s*\(\s*)?"(?:sh|bash|\/bin\/sh|\/bin\/bash|cmd|cmd\.exe)"\s*,\s*"(?:-c|\/c|\/C)"/g,
+        severity: Severity.HIGH,
+        message: 'コマンド文字列を連結して実行しているか、シェルを経由してコマンドを実行しているため、コマンドインジェクションの脆弱性があります。',
+        cwe: 'CWE-78',
+        recommendation: 'ProcessBuilderにプログラムと引数を個別に渡し、シェルを経由しないでください。',
+        exampleFix: '// 危険なコード:\nRuntime.getRuntime().exec("ping -c 1 " + host);\n\n// 安全なコード:\nProcess process = new ProcessBuilder("ping", "-c", "1", host).start();',
+        references: ['https://owasp.org/www-community/attacks/Command_Injection']
+      }
+    ],
+    [VulnerabilityType.INSECURE_DESERIAL]: [
+      {
+        pattern: /new\s+(?:ObjectInputStream|XMLDecoder)\s*\(/g,
+        severity: Severity.HIGH,
+        message: '信頼できないデータをObjectInputStreamやXMLDecoderでデシリアライズすると、任意のコードが実行される可能性があります。',
+        cwe: 'CWE-502',
+        recommendation: '外部から受け取るデータにはJSONなどのデータ専用の形式を使用してください。Javaのシリアライズを使う場合はObjectInputFilterで許可するクラスを限定してください。',
+        exampleFix: '// 危険なコード:\nObjectInputStream in = new ObjectInputStream(request.getInputStream());\nOrder order = (Order) in.readObject();\n\n// 安全なコード:\nObjectInputStream in = new ObjectInputStream(request.getInputStream());\nin.setObjectInputFilter(ObjectInputFilter.Config.createFilter("com.example.Order;java.base/*;!*"));\nOrder order = (Order) in.readObject();',
+        references: ['https://owasp.org/www-community/vulnerabilities/Deserialization_of_untrusted_data']
+      }
+    ],
+    [VulnerabilityType.SENSITIVE_DATA]: [
+      {
+        pattern: /MessageDigest\.getInstance\s*\(\s*"(?:MD2|MD5|SHA-?1)"/gi,
+        severity: Severity.MEDIUM,
+        message: 'MD5やSHA-1は衝突攻撃が知られている弱いハッシュ関数です。',
+        cwe: 'CWE-328',
+        recommendation: '改ざん検知にはSHA-256以上を、パスワードの保存にはbcryptやArgon2などのパスワード用ハッシュ関数を使用してください。',
+        exampleFix: '// 危険なコード:\nMessageDigest digest = MessageDigest.getInstance("MD5");\n\n// 安全なコード:\nMessageDigest digest = MessageDigest.getInstance("SHA-256");',
+        references: ['https://cwe.mitre.org/data/definitions/328.html']
+      },
+      {
+        pattern: /Cipher\.getInstance\s*\(\s*"(?:(?:DES|DESede|RC2|RC4|Blowfish)(?:\/[^"\n]*)?|AES|AES\/ECB\/[^"\n]*)"/g,
+        severity: Severity.HIGH,
+        message: 'DES、RC4、ECBモードなどの弱い暗号方式が使用されています（"AES"だけを指定するとECBモードになります）。',
+        cwe: 'CWE-327',
+        recommendation: 'AES/GCM/NoPaddingなどの認証付き暗号を使用し、IVは毎回SecureRandomで生成してください。',
+        exampleFix: '// 危険なコード:\nCipher cipher = Cipher.getInstance("AES");\n\n// 安全なコード:\nbyte[] iv = new byte[12];\nnew SecureRandom().nextBytes(iv);\nCipher cipher = Cipher.getInstance("AES/GCM/NoPadding");\ncipher.init(Cipher.ENCRYPT_MODE, key, new GCMParameterSpec(128, iv));',
+        references: ['https://cwe.mitre.org/data/definitions/327.html']
+      }
+    ],
+    [VulnerabilityType.XXE]: [
+      {
+        // 同じファイルで外部エンティティを無効化していない場合だけ報告する
+        pattern: /(?:DocumentBuilderFactory|SAXParserFactory)\.newInstance\s*\((?![\s\S]*(?:disallow-doctype-decl|external-general-entities))|XMLInputFactory\.new(?:Instance|Factory)\s*\((?![\s\S]*(?:SUPPORT_DTD|IS_SUPPORTING_EXTERNAL_ENTITIES))|TransformerFactory\.newInstance\s*\((?![\s\S]*ACCESS_EXTERNAL_(?:DTD|STYLESHEET))/g,
+        severity: Severity.HIGH,
+        message: 'XMLパーサーで外部エンティティ（DTD）が無効化されていないため、XXE攻撃でファイルの読み取りやSSRFが行われる可能性があります。',
+        cwe: 'CWE-611',
+        recommendation: 'パーサーの生成直後にDOCTYPE宣言を禁止するか、外部エンティティと外部DTDの読み込みを無効化してください。',
+        exampleFix: '// 危険なコード:\nDocumentBuilderFactory factory = DocumentBuilderFactory.newInstance();\nDocument doc = factory.newDocumentBuilder().parse(input);\n\n// 安全なコード:\nDocumentBuilderFactory factory = DocumentBuilderFactory.newInstance();\nfactory.setFeature("http://apache.org/xml/features/disallow-doctype-decl", true);\nfactory.setXIncludeAware(false);\nfactory.setExpandEntityReferences(false);\nDocument doc = factory.newDocumentBuilder().parse(input);',
+        references: ['https://owasp.org/www-community/vulnerabilities/XML_External_Entity_(XXE)_Processing']
+      }
+    ]
+  },
+  c: C_FAMILY_PATTERNS,
+  cpp: {
+    ...C_FAMILY_PATTERNS,
+    [VulnerabilityType.INJECTION]: [
+      ...(C_FAMILY_PATTERNS[VulnerabilityType.INJECTION] || []),
+      {
+        pattern: /"(?:SELECT|INSERT\s+INTO|UPDATE|DELETE\s+FROM)\b[^"\n]*"\s*\+\s*[A-Za-z_]/gi,
+        severity: Severity.HIGH,
+        message: 'SQL文を文字列の連結で組み立てているため、SQLインジェクションの脆弱性があります。',
+        cwe: 'CWE-89',
+        recommendation: 'プリペアドステートメントを使用し、値はバインド関数で渡してください。',
+        exampleFix: '// 危険なコード:\nstd::string sql = "SELECT * FROM users WHERE name = \'" + name + "\'";\nsqlite3_exec(db, sql.c_str(), callback, nullptr, nullptr);\n\n// 安全なコード:\nsqlite3_stmt *stmt;\nsqlite3_prepare_v2(db, "SELECT * FROM users WHERE name = ?", -1, &stmt, nullptr);\nsqlite3_bind_text(stmt, 1, name.c_str(), -1, SQLITE_TRANSIENT);',
+        references: ['https://owasp.org/www-community/attacks/SQL_Injection']
+      }
+    ]
+  },
+  csharp: {
+    [VulnerabilityType.INJECTION]: [
+      {
+        pattern: /"(?:SELECT|INSERT\s+INTO|UPDATE|DELETE\s+FROM)\b[^"\n]*"\s*\+\s*[A-Za-z_]|\$@?"(?:SELECT|INSERT\s+INTO|UPDATE|DELETE\s+FROM)\b[^"\n]*\{|String\.Format\s*\(\s*"(?:SELECT|INSERT\s+INTO|UPDATE|DELETE\s+FROM)\b/gi,
+        severity: Severity.HIGH,
+        message: 'SQL文を文字列の連結や補間で組み立てているため、SQLインジェクションの脆弱性があります。',
+        cwe: 'CWE-89',
+        recommendation: 'SqlParameterなどのパラメータ化クエリを使用してください。Entity Framework CoreではFromSqlRawの代わりにFromSqlInterpolatedを使用してください。',
+        exampleFix: '// 危険なコード:\nvar command = new SqlCommand($"SELECT * FROM Users WHERE Name = \'{name}\'", connection);\n\n// 安全なコード:\nvar command = new SqlCommand("SELECT * FROM Users WHERE Name = @name", connection);\ncommand.Parameters.AddWithValue("@name", name);',
         references: ['https://owasp.org/www-community/attacks/SQL_Injection']
+      },
+      {
+        pattern: /Process\.Start\s*\(\s*"(?:cmd|cmd\.exe|powershell|powershell\.exe|sh|bash|\/bin\/sh|\/bin\/bash)"\s*,\s*(?:\$"|"[^"\n]*"\s*\+)|\.Arguments\s*=\s*(?:\$"|"[^"\n]*"\s*\+)/gi,
+        severity: Severity.HIGH,
+        message: 'コマンドの引数を文字列の連結や補間で組み立てているため、コマンドインジェクションの脆弱性があります。',
+        cwe: 'CWE-78',
+        recommendation: 'シェルを経由せず、ProcessStartInfo.ArgumentListに引数を1つずつ追加してください。',
+        exampleFix: '// 危険なコード:\nProcess.Start("cmd.exe", "/c ping " + host);\n\n// 安全なコード:\nvar startInfo = new ProcessStartInfo("ping");\nstartInfo.ArgumentList.Add("-n");\nstartInfo.ArgumentList.Add("1");\nstartInfo.ArgumentList.Add(host);\nProcess.Start(startInfo);',
+        references: ['https://owasp.org/www-community/attacks/Command_Injection']
+      }
+    ],
+    [VulnerabilityType.INSECURE_DESERIAL]: [
+      {
+        pattern: /new\s+(?:BinaryFormatter|SoapFormatter|NetDataContractSerializer|LosFormatter|ObjectStateFormatter)\s*\(|TypeNameHandling\s*=\s*TypeNameHandling\.(?:All|Auto|Objects|Arrays)/g,
+        severity: Severity.CRITICAL,
+        message: 'BinaryFormatterや型情報付きのJSONデシリアライズは、信頼できないデータから任意のコードを実行される可能性があります。',
+        cwe: 'CWE-502',
+        recommendation: 'BinaryFormatterは使用せず、System.Text.Jsonなど型情報を含まない形式でデシリアライズしてください。Json.NETではTypeNameHandling.Noneを使用してください。',
+        exampleFix: '// 危険なコード:\nvar formatter = new BinaryFormatter();\nvar order = (Order)formatter.Deserialize(stream);\n\n// 安全なコード:\nvar order = await JsonSerializer.DeserializeAsync<Order>(stream);',
+        references: ['https://owasp.org/www-community/vulnerabilities/Deserialization_of_untrusted_data']
+      }
+    ],
+    [VulnerabilityType.SENSITIVE_DATA]: [
+      {
+        pattern: /\b(?:MD5|SHA1)(?:CryptoServiceProvider|Managed|Cng)?\.Create\s*\(|new\s+(?:MD5|SHA1)(?:CryptoServiceProvider|Managed|Cng)\s*\(|\b(?:MD5|SHA1)\.HashData\s*\(/g,
+        severity: Severity.MEDIUM,
+        message: 'MD5やSHA-1は衝突攻撃が知られている弱いハッシュ関数です。',
+        cwe: 'CWE-328',
+        recommendation: '改ざん検知にはSHA256以上を、パスワードの保存にはRfc2898DeriveBytes（PBKDF2）やASP.NET CoreのPasswordHasherを使用してください。',
+        exampleFix: '// 危険なコード:\nusing var md5 = MD5.Create();\nvar hash = md5.ComputeHash(data);\n\n// 安全なコード:\nvar hash = SHA256.HashData(data);',
+        references: ['https://cwe.mitre.org/data/definitions/328.html']
+      },
+      {
+        pattern: /\b(?:DES|TripleDES|RC2)(?:CryptoServiceProvider)?\.Create\s*\(|new\s+(?:DES|TripleDES|RC2)CryptoServiceProvider\s*\(|CipherMode\.ECB\b/g,
+        severity: Severity.HIGH,
+        message: 'DES、RC2、ECBモードなどの弱い暗号方式が使用されています。',
+        cwe: 'CWE-327',
+        recommendation: 'AesGcmなどの認証付き暗号を使用し、nonceは毎回RandomNumberGeneratorで生成してください。',
+        exampleFix: '// 危険なコード:\nusing var des = DES.Create();\n\n// 安全なコード:\nusing var aes = new AesGcm(key);\nvar nonce = RandomNumberGenerator.GetBytes(AesGcm.NonceByteSizes.MaxSize);\naes.Encrypt(nonce, plaintext, ciphertext, tag);',
+        references: ['https://cwe.mitre.org/data/definitions/327.html']
+      }
+    ],
+    [VulnerabilityType.XXE]: [
+      {
+        pattern: /DtdProcessing\s*=\s*DtdProcessing\.Parse\b|\bXmlResolver\s*=\s*new\s+XmlUrlResolver\s*\(/g,
+        severity: Severity.HIGH,
+        message: 'XMLのDTD処理や外部リソースの解決が有効になっているため、XXE攻撃でファイルの読み取りやSSRFが行われる可能性があります。',
+        cwe: 'CWE-611',
+        recommendation: 'DtdProcessingはProhibit（既定値）のままにし、XmlResolverにはnullを設定してください。',
+        exampleFix: '// 危険なコード:\nvar settings = new XmlReaderSettings { DtdProcessing = DtdProcessing.Parse, XmlResolver = new XmlUrlResolver() };\n\n// 安全なコード:\nvar settings = new XmlReaderSettings { DtdProcessing = DtdProcessing.Prohibit, XmlResolver = null };',
+        references: ['https://owasp.org/www-community/vulnerabilities/XML_External_Entity_(XXE)_Processing']
       }
     ]
   }
 };
 
+// 重大度の順位
+const SEVERITY_RANK: Record<Severity, number> = {
+  [Severity.CRITICAL]: 4,
+  [Severity.HIGH]: 3,
+  [Severity.MEDIUM]: 2,
+  [Severity.LOW]: 1,
+  [Severity.INFO]: 0
+};
+
+// 汚染解析のシンクごとの報告内容
+const TAINT_SINK_DETAILS: Record<TaintSinkKind, {
+  type: VulnerabilityType;
+  severity: Severity;
+  cwe: string;
+  message: string;
+  recommendation: string;
+  references: string[];
+}> = {
+  code_injection: {
+    type: VulnerabilityType.INJECTION,
+    severity: Severity.CRITICAL,
+    cwe: 'CWE-95',
+    message: '信頼できない入力がコードとして実行されます。',
+    recommendation: 'ユーザー入力をコードとして評価しないでください。データの解析にはJSON.parseなどの専用の関数を使用してください。',
+    references: ['https://owasp.org/www-community/attacks/Code_Injection']
+  },
+  command_injection: {
+    type: VulnerabilityType.INJECTION,
+    severity: Severity.CRITICAL,
+    cwe: 'CWE-78',
+    message: '信頼できない入力がシェルコマンドに渡されています。',
+    recommendation: 'シェルを経由せず、コマンドと引数を配列で渡してください（execFile、shell=False など）。',
+    references: ['https://owasp.org/www-community/attacks/Command_Injection']
+  },
+  sql_injection: {
+    type: VulnerabilityType.INJECTION,
+    severity: Severity.CRITICAL,
+    cwe: 'CWE-89',
+    message: '信頼できない入力がSQL文に埋め込まれています。',
+    recommendation: 'パラメータ化クエリを使用し、入力値はクエリの引数として渡してください。',
+    references: ['https://owasp.org/www-community/attacks/SQL_Injection']
+  },
+  xss: {
+    type: VulnerabilityType.XSS,
+    severity: Severity.HIGH,
+    cwe: 'CWE-79',
+    message: '信頼できない入力がHTMLとして出力されます。',
+    recommendation: 'textContentを使用するか、DOMPurifyなどのライブラリでサニタイズしてから挿入してください。',
+    references: ['https://owasp.org/www-community/attacks/xss/']
+  },
+  path_traversal: {
+    type: VulnerabilityType.BROKEN_ACCESS,
+    severity: Severity.HIGH,
+    cwe: 'CWE-22',
+    message: '信頼できない入力からファイルパスが作られています。',
+    recommendation: 'パスを正規化し、許可されたディレクトリの外を指していないことを確認してください。',
+    references: ['https://owasp.org/www-community/attacks/Path_Traversal']
+  }
+};
+
+// シークレットの重大度
+const SECRET_SEVERITIES: Record<SecretSeverity, Severity> = {
+  critical: Severity.CRITICAL,
+  high: Severity.HIGH,
+  medium: Severity.MEDIUM,
+  low: Severity.LOW
+};
+
+// シークレットを環境変数から読み込む修正例
+const SECRET_FIX_EXAMPLES: Record<string, string> = {
+  javascript: "// 危険なコード:\nconst apiKey = 'sk_live_...';\n\n// 安全なコード:\nconst apiKey = process.env.API_KEY;",
+  typescript: "// 危険なコード:\nconst apiKey = 'sk_live_...';\n\n// 安全なコード:\nconst apiKey = process.env.API_KEY;",
+  python: "# 危険なコード:\napi_key = 'sk_live_...'\n\n# 安全なコード:\nimport os\napi_key = os.environ.get('API_KEY')"
+};
+
 /**
  * コードのセキュリティ脆弱性を検出
  * @param code 分析対象のコード
@@ -223,17 +624,40 @@ const VULNERABILITY_PATTERNS: {
 export const performSecurityCheck = async (
   code: string,
   language: string,
-  options = { useMl: true, minSeverity: Severity.LOW }
+  options: SecurityCheckOptions = {}
 ): Promise<SecurityCheckResult> => {
+  const { useMl = true, minSeverity = Severity.LOW, fileName, customRules = [], ruleSettings } = options;
   const vulnerabilities: SecurityVulnerability[] = [];
   const lines = code.split('\n');
   
+  // 汚染解析（ソースからシンクに到達する経路）
+  let taintFlows: TaintFlow[] | null = null;
+  if (isTaintAnalysisSupported(language)) {
+    try {
+      taintFlows = analyzeTaintFlows(code, language);
+    } catch (error) {
+      console.warn('汚染解析に失敗したため、パターンのみで検出します:', error);
+    }
+  }
+  
   // パターンベースの検出
-  const patternVulnerabilities = detectPatternBasedVulnerabilities(code, lines, language);
+  const patternVulnerabilities = detectPatternBasedVulnerabilities(code, lines, language, taintFlows);
   vulnerabilities.push(...patternVulnerabilities);
   
+  // パターンに一致しなかった汚染経路
+  if (taintFlows) {
+    vulnerabilities.push(...detectTaintVulnerabilities(taintFlows, patternVulnerabilities, lines));
+  }
+  
+  // ハードコードされたシークレット
+  vulnerabilities.push(...scanSecrets(code, { fileName }).map(finding => toSecretVulnerability(finding, language)));
+  
+  // リポジトリ独自のセキュリティルール
+  const securityRules = customRules.filter(rule => rule.category === 'security');
+  vulnerabilities.push(...evaluateCustomRules(code, language, securityRules).map(match => toCustomRuleVulnerability(match, language)));
+  
   // 機械学習ベースの検出（オプション）
-  if (options.useMl) {
+  if (useMl) {
     try {
       const mlVulnerabilities = await detectMlBasedVulnerabilities(code, lines, language);
       vulnerabilities.push(...mlVulnerabilities);
@@ -243,25 +667,40 @@ export const performSecurityCheck = async (
     }
   }
   
+  // 無効にしたルールを除き、重大度の変更を適用（カスタムルールのID・CWE・脆弱性の種類の順に優先）
+  const configuredVulnerabilities = applyRuleSettings(
+    vulnerabilities,
+    ruleSettings,
+    vulnerability => [vulnerability.ruleId, vulnerability.cwe, vulnerability.type],
+    (vulnerability, severity) => ({ ...vulnerability, severity: severity as Severity })
+  );
+  
   // 重大度でフィルタリング
-  const severityRank = {
-    [Severity.CRITICAL]: 4,
-    [Severity.HIGH]: 3,
-    [Severity.MEDIUM]: 2,
-    [Severity.LOW]: 1,
-    [Severity.INFO]: 0
-  };
+  const minSeverityRank = SEVERITY_RANK[minSeverity];
+  const severityFiltered = configuredVulnerabilities.filter(
+    v => SEVERITY_RANK[v.severity] >= minSeverityRank
+  );
   
-  const minSeverityRank = severityRank[options.minSeverity];
-  const filteredVulnerabilities = vulnerabilities.filter(
-    v => severityRank[v.severity] >= minSeverityRank
+  // codecoach-ignore コメントで抑制された脆弱性を除く
+  const { findings: filteredVulnerabilities, suppressed } = filterSuppressed(
+    severityFiltered,
+    parseSuppressions(code, language),
+    'security',
+    vulnerability => [vulnerability.line, vulnerability.line],
+    vulnerability => [vulnerability.ruleId, vulnerability.cwe, vulnerability.type]
   );
   
+  // 検出結果のコードに含まれるシークレットを伏せ字にする（他の規則で検出した行も含む）
+  for (const vulnerability of filteredVulnerabilities) {
+    vulnerability.code = redactSecrets(vulnerability.code);
+    vulnerability.taintTrace = vulnerability.taintTrace?.map(step => ({ ...step, code: redactSecrets(step.code) }));
+  }
+  
   // 重大度が高いものを先に表示するようソート
-  filteredVulnerabilities.sort((a, b) => severityRank[b.severity] - severityRank[a.severity]);
+  filteredVulnerabilities.sort((a, b) => SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity]);
   
   // サマリーと全体的な推奨事項を作成
-  const summary = calculateVulnerabilitySummary(filteredVulnerabilities);
+  const summary = { ...calculateVulnerabilitySummary(filteredVulnerabilities), suppressed };
   const recommendations = generateOverallRecommendations(filteredVulnerabilities, language);
   
   return {
@@ -273,11 +712,14 @@ export const performSecurityCheck = async (
 
 /**
  * パターンベースの脆弱性検出
+ * 汚染解析の結果がある場合、requiresTaint のパターンは同じ行・同じCWEの経路があれば重大度を引き上げ、
+ * 経路がなければ情報レベルに引き下げます
  */
 const detectPatternBasedVulnerabilities = (
   code: string,
   lines: string[],
-  language: string
+  language: string,
+  taintFlows: TaintFlow[] | null = null
 ): SecurityVulnerability[] => {
   const vulnerabilities: SecurityVulnerability[] = [];
   const languagePatterns = VULNERABILITY_PATTERNS[language] || {};
@@ -287,7 +729,7 @@ const detectPatternBasedVulnerabilities = (
     const patterns = languagePatterns[type as VulnerabilityType] || [];
     
     for (const patternInfo of patterns) {
-      const { pattern, severity, message, cwe, recommendation, exampleFix, references } = patternInfo;
+      const { pattern, severity, message, cwe, recommendation, exampleFix, references, requiresTaint } = patternInfo;
       
       // コード全体からパターンを検索
       let match;
@@ -298,7 +740,7 @@ const detectPatternBasedVulnerabilities = (
         const line = getLineNumber(code, matchPosition);
         const matchedCode = lines[line - 1].trim();
         
-        vulnerabilities.push({
+        const vulnerability: SecurityVulnerability = {
           type: type as VulnerabilityType,
           severity,
           line,
@@ -309,7 +751,23 @@ const detectPatternBasedVulnerabilities = (
           exampleFix,
           references,
           falsePositiveLikelihood: 'medium' // パターンベースは中程度の誤検出可能性
-        });
+        };
+        
+        if (requiresTaint && taintFlows) {
+          const flow = taintFlows.find(f => f.line === line && TAINT_SINK_DETAILS[f.sinkKind].cwe === cwe);
+          if (flow) {
+            vulnerability.severity = maxSeverity(severity, TAINT_SINK_DETAILS[flow.sinkKind].severity);
+            vulnerability.message = `${message} 信頼できない入力（${flow.source}）がこの処理に到達します。`;
+            vulnerability.falsePositiveLikelihood = 'low';
+            vulnerability.taintTrace = flow.trace;
+          } else {
+            vulnerability.severity = Severity.INFO;
+            vulnerability.message = `${message}（信頼できない入力が到達する経路は見つかりませんでした）`;
+            vulnerability.falsePositiveLikelihood = 'high';
+          }
+        }
+        
+        vulnerabilities.push(vulnerability);
       }
     }
   }
@@ -317,6 +775,82 @@ const detectPatternBasedVulnerabilities = (
   return vulnerabilities;
 };
 
+/**
+ * 汚染解析で検出した経路のうち、パターンで報告済みでないものを脆弱性として報告
+ */
+const detectTaintVulnerabilities = (
+  taintFlows: TaintFlow[],
+  patternVulnerabilities: SecurityVulnerability[],
+  lines: string[]
+): SecurityVulnerability[] =>
+  taintFlows
+    .filter(flow => !patternVulnerabilities.some(v => v.taintTrace && v.line === flow.line && v.cwe === TAINT_SINK_DETAILS[flow.sinkKind].cwe))
+    .map((flow): SecurityVulnerability => {
+      const details = TAINT_SINK_DETAILS[flow.sinkKind];
+      return {
+        type: details.type,
+        severity: details.severity,
+        line: flow.line,
+        column: flow.column,
+        message: `${details.message}（${flow.source} → ${flow.sink}）`,
+        code: lines[flow.line - 1].trim(),
+        cwe: details.cwe,
+        recommendation: details.recommendation,
+        references: details.references,
+        falsePositiveLikelihood: 'low',
+        taintTrace: flow.trace
+      };
+    });
+
+/**
+ * 検出したシークレットを脆弱性に変換（値は伏せ字のまま扱う）
+ */
+const toSecretVulnerability = (finding: SecretFinding, language: string): SecurityVulnerability => ({
+  type: VulnerabilityType.SENSITIVE_DATA,
+  severity: SECRET_SEVERITIES[finding.severity],
+  line: finding.line,
+  column: finding.column,
+  message: `${finding.description}がコードに含まれています（${finding.maskedValue}）。`,
+  code: finding.maskedLine,
+  cwe: 'CWE-798',
+  recommendation: finding.generic
+    ? '環境変数または適切なシークレット管理サービスから読み込んでください。本物の値であれば、コミット履歴にも残るため無効化して再発行してください。'
+    : `${finding.provider}の管理画面でこのキーを無効化して再発行し、環境変数またはシークレット管理サービスから読み込んでください。コミット履歴にも残るため、コードから削除するだけでは不十分です。`,
+  exampleFix: SECRET_FIX_EXAMPLES[language],
+  references: ['https://owasp.org/www-project-top-ten/2017/A3_2017-Sensitive_Data_Exposure'],
+  falsePositiveLikelihood: finding.generic ? 'medium' : 'low'
+});
+
+/**
+ * カスタムルールの一致箇所を脆弱性に変換
+ * 脆弱性タイプが未指定・不明な場合は OTHER として扱います
+ */
+const toCustomRuleVulnerability = (match: CustomRuleMatch, language: string): SecurityVulnerability => {
+  const { rule, fix } = match;
+  const type = Object.values(VulnerabilityType).find(value => value === rule.vulnerabilityType) || VulnerabilityType.OTHER;
+  const commentPrefix = language === 'python' || language === 'jupyter' ? '#' : '//';
+  return {
+    type,
+    severity: rule.severity as Severity,
+    line: match.line,
+    column: match.column,
+    message: rule.message,
+    code: match.code,
+    cwe: rule.cwe,
+    recommendation: rule.suggestion || 'リポジトリのルール定義に従って修正してください。',
+    exampleFix: fix ? `${commentPrefix} 修正前:\n${match.code}\n\n${commentPrefix} 修正後:\n${fix.fixedLine.trim()}` : undefined,
+    falsePositiveLikelihood: 'medium',
+    ruleId: rule.id,
+    fix
+  };
+};
+
+/**
+ * 重大度の高い方を取得
+ */
+const maxSeverity = (a: Severity, b: Severity): Severity =>
+  SEVERITY_RANK[a] >= SEVERITY_RANK[b] ? a : b;
+
 /**
  * 機械学習ベースの脆弱性検出
  */
@@ -479,9 +1013,9 @@ const getLineNumber = (code: string, position: number): number => {
 };
 
 /**
- * 脆弱性の概要を計算
+ * 脆弱性の概要を計算（抑制・ベースラインの件数は呼び出し元で設定）
  */
-const calculateVulnerabilitySummary = (vulnerabilities: SecurityVulnerability[]) => {
+export const calculateVulnerabilitySummary = (vulnerabilities: SecurityVulnerability[]): SecurityCheckResult['summary'] => {
   const summary = {
     critical: 0,
     high: 0,
@@ -489,7 +1023,9 @@ const calculateVulnerabilitySummary = (vulnerabilities: SecurityVulnerability[])
     low: 0,
     info: 0,
     total: vulnerabilities.length,
-    score: 100 // デフォルトのスコア（脆弱性がない場合は100点）
+    score: 100, // デフォルトのスコア（脆弱性がない場合は100点）
+    suppressed: 0,
+    baselined: 0
   };
   
   // 脆弱性の数をカウント
@@ -578,6 +1114,22 @@ const generateOverallRecommendations = (
     if (typeCount[VulnerabilityType.SENSITIVE_DATA] > 0) {
       recommendations.push('configparserやdotenvを使用して、機密情報を設定ファイルや環境変数として管理してください。');
     }
+  } else if (language === 'c' || language === 'cpp') {
+    if (typeCount[VulnerabilityType.OTHER] > 0) {
+      recommendations.push('snprintfやfgetsなどバッファのサイズを指定できる関数を使用し、-Wall -Wformat-securityでのコンパイルとAddressSanitizerでのテストを行ってください。');
+    }
+  } else if (language === 'java' || language === 'csharp') {
+    if (typeCount[VulnerabilityType.INSECURE_DESERIAL] > 0) {
+      recommendations.push('外部から受け取るデータは型情報を含まないJSONなどの形式で扱い、デシリアライズするクラスを許可リストで限定してください。');
+    }
+    
+    if (typeCount[VulnerabilityType.XXE] > 0) {
+      recommendations.push('XMLパーサーを生成する共通のヘルパーを用意し、DTDと外部エンティティを無効化した設定を一か所で管理してください。');
+    }
+  } else if (language === 'go') {
+    if (typeCount[VulnerabilityType.INJECTION] > 0) {
+      recommendations.push('database/sqlのプレースホルダーを使用し、exec.Commandにはシェルを経由せず引数を個別に渡してください。');
+    }
   }
   
   // 全般的な推奨事項
@@ -585,6 +1137,10 @@ const generateOverallRecommendations = (
     recommendations.push('セキュリティテストを自動化し、継続的インテグレーションパイプラインに組み込んでください。');
   }
   
+  if (typeCount[VulnerabilityType.VULNERABLE_COMPONENTS] > 0) {
+    recommendations.push('依存パッケージを修正済みのバージョンに更新し、ロックファイルをコミットして使用するバージョンを固定してください。');
+  }
+  
   if (typeCount[VulnerabilityType.SECURITY_MISCONFIG] > 0) {
     recommendations.push('セキュリティ設定のためのチェックリストを作成し、本番環境へのデプロイ前に確認してください。');
   }
@@ -623,8 +1179,11 @@ export const generateSecurityReport = (
   report += `  - 高リスク: ${summary.high}件\n`;
   report += `  - 中リスク: ${summary.medium}件\n`;
   report += `  - 低リスク: ${summary.low}件\n`;
-  report += `  - 情報: ${summary.info}件\n\n`;
-  
+  report += `  - 情報: ${summary.info}件\n`;
+  if (summary.suppressed > 0) report += `- 抑制コメントで除外: ${summary.suppressed}件\n`;
+  if (summary.baselined > 0) report += `- ベースラインで除外: ${summary.baselined}件\n`;
+  report += `\n`;
+
   report += `## 推奨対策\n`;
   recommendations.forEach(rec => {
     report += `- ${rec}\n`;
@@ -650,6 +1209,12 @@ export const generateSecurityReport = (
         report += `- CWE: ${vuln.cwe}\n`;
       }
       report += `- コード: \`${vuln.code}\`\n`;
+      if (vuln.taintTrace && vuln.taintTrace.length > 0) {
+        report += `- データの流れ:\n`;
+        vuln.taintTrace.forEach((step, stepIndex) => {
+          report += `  ${stepIndex + 1}. ${TAINT_STEP_LABELS[step.kind]} \`${step.name}\`（行 ${step.line}）: \`${step.code}\`\n`;
+        });
+      }
       report += `- 対応策: ${vuln.recommendation}\n`;
       
       if (vuln.exampleFix) {
@@ -675,5 +1240,6 @@ export const generateSecurityReport = (
 
 export default {
   performSecurityCheck,
+  calculateVulnerabilitySummary,
   generateSecurityReport
 }; 
\ No newline at end of file
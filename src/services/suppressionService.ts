@@ -0,0 +1,154 @@
+/**
+ * 抑制コメントサービス
+ * コード中の codecoach-ignore コメントを解析し、指定した行の検出結果を報告対象から除外します
+ *
+ *   // codecoach-ignore security:xss -- 管理画面からのみ呼び出す
+ *   eval(expression); // codecoach-ignore security:CWE-95
+ *   # codecoach-ignore-file duplication -- 自動生成したコード
+ *
+ * コードの後ろに書いたコメントはその行、単独の行に書いたコメントは次の行（空行と他の抑制コメントは飛ばす）、
+ * codecoach-ignore-file はファイル全体が対象です
+ * 対象は「分析:キー」の形式でカンマまたは空白区切りで指定し、省略した場合はすべての検出結果を抑制します
+ */
+
+import { parseCode } from './parser';
+
+// 抑制の対象にする分析（security: セキュリティ / quality: コード品質 / duplication: 重複）
+export type SuppressionCategory = 'security' | 'quality' | 'duplication';
+
+// 抑制する検出結果の指定（null はすべてに一致）
+export interface SuppressionSelector {
+  category: SuppressionCategory | null;
+  key: string | null;             // カスタムルールのID・CWE・問題や脆弱性の種類・クローンの種類（exact・renamed・gapped・cross-file）
+}
+
+// 抑制コメント
+export interface Suppression {
+  line: number | null;            // 対象の行（ファイル全体が対象なら null）
+  commentLine: number;            // コメントの行
+  selectors: SuppressionSelector[]; // 空の場合はすべての検出結果
+  reason: string | null;          // -- の後に書いた理由
+}
+
+export const SUPPRESSION_CATEGORIES: SuppressionCategory[] = ['security', 'quality', 'duplication'];
+
+// コメント記号に続く抑制の指示（-file はファイル全体）
+const DIRECTIVE_PATTERN = /^\s*(?:\/\/+|\/\*+|#+|\*+|<!--)?\s*codecoach-ignore(-file)?(?![\w-])(.*)$/;
+
+/**
+ * 抑制の対象の指定を解析（security:xss・quality・CWE-79 など）
+ */
+const parseSelector = (text: string): SuppressionSelector => {
+  const separator = text.indexOf(':');
+  const prefix = (separator >= 0 ? text.slice(0, separator) : text).toLowerCase();
+  const category = SUPPRESSION_CATEGORIES.find(candidate => candidate === prefix) || null;
+
+  if (!category) return { category: null, key: text.toLowerCase() };
+  const key = separator >= 0 ? text.slice(separator + 1).toLowerCase() : '';
+  return { category, key: key || null };
+};
+
+/**
+ * コードの抑制コメントを解析
+ * @param language プログラミング言語（コメントの記法の判定に使う）
+ */
+export const parseSuppressions = (code: string, language: string): Suppression[] => {
+  if (!code.includes('codecoach-ignore')) return [];
+
+  const lines = code.split('\n');
+  const suppressions: Suppression[] = [];
+  // 単独の行に書いた抑制コメントは、連続して書いた他の抑制コメントを飛ばして次のコードを対象にする
+  const pending: { suppression: Suppression; endLine: number }[] = [];
+  const directiveLines = new Set<number>();
+
+  for (const comment of parseCode(code, language).comments) {
+    comment.value.split('\n').forEach((text, offset) => {
+      const match = text.match(DIRECTIVE_PATTERN);
+      if (!match) return;
+
+      const body = match[2].replace(/\s*(?:\*\/|-->)\s*$/, '');
+      const reasonIndex = body.indexOf('--');
+      const selectorText = reasonIndex >= 0 ? body.slice(0, reasonIndex) : body;
+      const reason = reasonIndex >= 0 ? body.slice(reasonIndex + 2).trim() : '';
+
+      const commentLine = comment.line + offset;
+      const suppression: Suppression = {
+        line: null,
+        commentLine,
+        selectors: selectorText.split(/[\s,]+/).filter(Boolean).map(parseSelector),
+        reason: reason || null
+      };
+      suppressions.push(suppression);
+      if (match[1]) return;
+
+      const codeBefore = offset === 0 ? (lines[comment.line - 1] || '').slice(0, comment.column - 1) : '';
+      if (codeBefore.trim() !== '') {
+        suppression.line = commentLine;
+      } else {
+        pending.push({ suppression, endLine: comment.endLine });
+        for (let line = comment.line; line <= comment.endLine; line++) directiveLines.add(line);
+      }
+    });
+  }
+
+  for (const { suppression, endLine } of pending) {
+    let target = endLine + 1;
+    while (target <= lines.length && (lines[target - 1].trim() === '' || directiveLines.has(target))) target++;
+    suppression.line = target;
+  }
+
+  return suppressions;
+};
+
+/**
+ * 検出結果が抑制されているか
+ * @param startLine 検出結果の開始行
+ * @param endLine 検出結果の終了行（範囲内のいずれかの行を対象にした抑制コメントに一致）
+ * @param keys 検出結果を識別するキー（カスタムルールのID・CWE・種類など）
+ */
+export const isSuppressed = (
+  suppressions: Suppression[],
+  category: SuppressionCategory,
+  startLine: number,
+  endLine: number,
+  keys: (string | undefined)[]
+): boolean => {
+  const normalizedKeys = keys.filter((key): key is string => Boolean(key)).map(key => key.toLowerCase());
+
+  return suppressions.some(suppression => {
+    if (suppression.line !== null && (suppression.line < startLine || suppression.line > endLine)) return false;
+    return suppression.selectors.length === 0 || suppression.selectors.some(selector =>
+      (selector.category === null || selector.category === category) &&
+      (selector.key === null || normalizedKeys.includes(selector.key))
+    );
+  });
+};
+
+/**
+ * 抑制された検出結果を除外
+ * @param getRange 検出結果の開始行と終了行
+ * @param getKeys 検出結果を識別するキー
+ * @returns 残った検出結果と、抑制した件数
+ */
+export const filterSuppressed = <T>(
+  findings: T[],
+  suppressions: Suppression[],
+  category: SuppressionCategory,
+  getRange: (finding: T) => [number, number],
+  getKeys: (finding: T) => (string | undefined)[]
+): { findings: T[]; suppressed: number } => {
+  if (suppressions.length === 0) return { findings, suppressed: 0 };
+
+  const remaining = findings.filter(finding => {
+    const [startLine, endLine] = getRange(finding);
+    return !isSuppressed(suppressions, category, startLine, endLine, getKeys(finding));
+  });
+  return { findings: remaining, suppressed: findings.length - remaining.length };
+};
+
+export default {
+  SUPPRESSION_CATEGORIES,
+  parseSuppressions,
+  isSuppressed,
+  filterSuppressed
+};
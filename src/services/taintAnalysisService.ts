@@ -0,0 +1,963 @@
+/**
+ * 汚染解析サービス
+ * 関数内のデータフローを追跡し、信頼できない入力（ソース）が危険な処理（シンク）に到達する経路を検出します
+ * 対応言語は JavaScript / TypeScript / Python で、関数をまたぐ流れ（引数・戻り値）は追跡しません
+ */
+
+import { SyntaxNode, Token, parseCode, walkSyntaxTree } from './parser';
+import { findAnnotatedParamsClose } from './parser/javascriptParser';
+import { matchBrackets } from './parser/lexer';
+
+// シンクの種類
+export type TaintSinkKind = 'code_injection' | 'command_injection' | 'sql_injection' | 'xss' | 'path_traversal';
+
+// 経路の段階
+export type TaintStepKind = 'source' | 'assignment' | 'sink';
+
+// ソースからシンクまでの経路の1段階
+export interface TaintTraceStep {
+  kind: TaintStepKind;
+  line: number;
+  code: string;      // その行のコード
+  name: string;      // ソースの式・代入先の変数・シンクの呼び出し
+}
+
+// 検出した汚染データの流れ
+export interface TaintFlow {
+  sinkKind: TaintSinkKind;
+  sink: string;      // シンクの呼び出し（コードに書かれた名前）
+  source: string;    // 起点のソース
+  line: number;
+  column: number;
+  trace: TaintTraceStep[];
+}
+
+// 経路の段階の表示名
+export const TAINT_STEP_LABELS: Record<TaintStepKind, string> = {
+  source: '入力元',
+  assignment: '代入',
+  sink: '到達先'
+};
+
+// シンクになる関数呼び出し
+interface SinkRule {
+  kind: TaintSinkKind;
+  names?: string[];        // 正規化した呼び出し名（import の別名は解決済み）
+  methods?: string[];      // レシーバーを問わないメソッド名（cursor.execute など）
+  receivers?: string[];    // methods を呼び出すレシーバーの名前を限定する（db.query など）
+  argument?: number;       // 検査する引数の位置（省略時はすべての引数）
+  shellOption?: boolean;   // shell=True / shell: true を指定したときだけシンクとする
+}
+
+// 言語ごとの規則
+interface TaintRules {
+  memberSources: Set<string>;     // 参照するとソースになる式（前方一致）
+  callSources: Set<string>;       // 呼び出すとソースになる関数
+  sinks: SinkRule[];
+  propertySinks: Set<string>;     // 代入するとシンクになるプロパティ
+  sanitizers: Set<string>;        // 呼び出すと汚染が消える関数・メソッド（シンクの種類は区別しない）
+}
+
+const JS_RULES: TaintRules = {
+  memberSources: new Set([
+    'req.query', 'req.body', 'req.params', 'req.headers', 'req.cookies', 'req.url', 'req.originalUrl',
+    'request.query', 'request.body', 'request.params', 'request.headers', 'request.cookies',
+    'ctx.query', 'ctx.params', 'ctx.request.body', 'ctx.request.query',
+    'event.body', 'event.queryStringParameters', 'event.pathParameters',
+    'process.argv', 'process.stdin',
+    'location.hash', 'location.search', 'location.href', 'location.pathname',
+    'document.location', 'document.URL', 'document.documentURI', 'document.referrer', 'document.cookie',
+    'window.name'
+  ]),
+  callSources: new Set(['prompt']),
+  sinks: [
+    { kind: 'code_injection', names: ['eval', 'window.eval', 'Function', 'vm.runInNewContext', 'vm.runInThisContext'], argument: 0 },
+    { kind: 'command_injection', names: ['exec', 'execSync', 'child_process.exec', 'child_process.execSync'], argument: 0 },
+    { kind: 'command_injection', names: ['child_process.spawn', 'child_process.spawnSync'], shellOption: true },
+    { kind: 'sql_injection', methods: ['query', 'execute'], receivers: ['db', 'conn', 'connection', 'pool'], argument: 0 },
+    { kind: 'xss', names: ['document.write', 'document.writeln'] },
+    { kind: 'xss', methods: ['insertAdjacentHTML'], argument: 1 },
+    {
+      kind: 'path_traversal',
+      names: [
+        'fs.readFile', 'fs.readFileSync', 'fs.writeFile', 'fs.writeFileSync', 'fs.createReadStream',
+        'fs.createWriteStream', 'fs.unlink', 'fs.unlinkSync'
+      ],
+      argument: 0
+    },
+    { kind: 'path_traversal', methods: ['sendFile'], argument: 0 }
+  ],
+  propertySinks: new Set(['innerHTML', 'outerHTML']),
+  sanitizers: new Set([
+    'parseInt', 'parseFloat', 'Number', 'Boolean', 'isNaN', 'encodeURIComponent', 'encodeURI', 'escape',
+    'escapeHtml', 'escapeHTML', 'sanitize', 'sanitizeHtml', 'basename', 'test', 'includes', 'startsWith', 'endsWith'
+  ])
+};
+
+const PYTHON_RULES: TaintRules = {
+  memberSources: new Set([
+    'request.args', 'request.form', 'request.values', 'request.json', 'request.data', 'request.files',
+    'request.cookies', 'request.headers', 'request.get_json', 'request.GET', 'request.POST', 'request.body',
+    'request.query_params', 'request.path_params', 'sys.argv', 'sys.stdin'
+  ]),
+  callSources: new Set(['input', 'raw_input']),
+  sinks: [
+    { kind: 'code_injection', names: ['eval', 'exec'], argument: 0 },
+    { kind: 'code_injection', names: ['render_template_string', 'flask.render_template_string'], argument: 0 },
+    { kind: 'command_injection', names: ['os.system', 'os.popen', 'subprocess.getoutput', 'subprocess.getstatusoutput'], argument: 0 },
+    {
+      kind: 'command_injection',
+      names: ['subprocess.call', 'subprocess.run', 'subprocess.Popen', 'subprocess.check_call', 'subprocess.check_output'],
+      argument: 0,
+      shellOption: true
+    },
+    { kind: 'sql_injection', methods: ['execute', 'executemany', 'executescript'], argument: 0 },
+    { kind: 'xss', names: ['Markup', 'markupsafe.Markup', 'flask.Markup'], argument: 0 },
+    { kind: 'path_traversal', names: ['send_file', 'flask.send_file'], argument: 0 }
+  ],
+  propertySinks: new Set(),
+  sanitizers: new Set([
+    'int', 'float', 'bool', 'len', 'escape', 'quote', 'clean', 'basename', 'secure_filename',
+    'isdigit', 'isnumeric', 'isalnum'
+  ])
+};
+
+// 代入演算子（= 以外は既存の汚染を残す）
+const ASSIGNMENT_OPERATORS = new Set([
+  '=', '+=', '-=', '*=', '/=', '%=', '**=', '//=', '<<=', '>>=', '>>>=', '&=', '|=', '^=', '&&=', '||=', '??='
+]);
+
+// 次の行の先頭・前の行の末尾にあると式が続いているとみなすトークン
+const JS_CONTINUATION_TOKENS = new Set([
+  '.', '?.', ',', '?', ':', '=>', '&&', '||', '??', '+', '-', '*', '/', '%', '**', '==', '===', '!=', '!==',
+  '<', '>', '<=', '>=', '|', '&', '^', '<<', '>>', '>>>', 'in', 'instanceof', ...ASSIGNMENT_OPERATORS
+]);
+
+// 直後の改行で文が終わらないキーワード
+const JS_OPEN_KEYWORDS = new Set(['return', 'throw', 'new', 'typeof', 'delete', 'void', 'await', 'yield', 'case']);
+
+// 直後の波括弧がブロックになるキーワード
+const JS_BLOCK_KEYWORDS = new Set(['else', 'try', 'finally', 'do']);
+
+// 本体の前に `:` を置く Python の構文
+const PYTHON_COMPOUND_KEYWORDS = new Set([
+  'if', 'elif', 'else', 'for', 'while', 'with', 'def', 'class', 'try', 'except', 'finally', 'async'
+]);
+
+// ルーティングのデコレーター（引数がURLから渡される）
+const PYTHON_ROUTE_DECORATOR = /^\s*@[\w.]+\.(?:route|get|post|put|patch|delete)\s*\(/;
+
+// 文（tokens 上の位置、両端を含む）
+interface Statement {
+  start: number;
+  end: number;
+}
+
+// メンバー参照の連なり（a.b.c）
+interface MemberChain {
+  parts: string[];
+  end: number;         // 最後の名前の位置
+}
+
+// 変数名 → 汚染の経路（null はこのスコープで汚染されていない値として宣言済み）
+type TaintScope = Map<string, TaintTraceStep[] | null>;
+
+interface TaintContext {
+  isPython: boolean;
+  rules: TaintRules;
+  tokens: Token[];               // コメントを除くトークン（Pythonの改行・インデントを含む）
+  brackets: Int32Array;
+  code: string;
+  lines: string[];
+  aliases: Map<string, string>;  // import した名前 → 正規化した名前
+  lineFunctions: SyntaxNode[];   // 行 → その行を含む最も内側の関数（ファイル直下はルート）
+  conditionalLines: boolean[];   // 行 → 関数内の制御構文の中かどうか
+  parentScopes: Map<SyntaxNode, SyntaxNode>;
+  scopes: Map<SyntaxNode, TaintScope>;
+  flows: TaintFlow[];
+}
+
+/**
+ * 汚染解析に対応する言語かどうか
+ */
+export const isTaintAnalysisSupported = (language: string): boolean =>
+  ['javascript', 'typescript', 'python'].includes(language.toLowerCase());
+
+const isLayoutToken = (token: Token): boolean =>
+  token.type === 'newline' || token.type === 'indent' || token.type === 'dedent';
+
+const isOpeningBracket = (token: Token): boolean =>
+  token.type === 'punctuator' && (token.value === '(' || token.value === '[' || token.value === '{');
+
+const getLineCode = (context: TaintContext, line: number): string => (context.lines[line - 1] || '').trim();
+
+// モジュール名を正規化（node:fs → fs、fs/promises → fs）
+const normalizeModuleName = (literal: string): string =>
+  literal.replace(/^['"`]|['"`]$/g, '').replace(/^node:/, '').replace(/\/promises$/, '');
+
+/**
+ * import・require した名前の別名を収集
+ * （const { exec } = require('child_process') の exec → child_process.exec など）
+ */
+const collectImportAliases = (tokens: Token[], brackets: Int32Array, isPython: boolean): Map<string, string> => {
+  const aliases = new Map<string, string>();
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+
+    if (isPython) {
+      if (token.type !== 'keyword' || (token.value !== 'import' && token.value !== 'from')) continue;
+      const previous = tokens[i - 1];
+      if (previous && !isLayoutToken(previous)) continue;
+
+      // from m import a as b, c / import a.b as c
+      let j = i + 1;
+      let moduleName = '';
+      if (token.value === 'from') {
+        while (j < tokens.length && tokens[j].value !== 'import') moduleName += tokens[j++].value;
+        j++;
+      }
+      while (j < tokens.length && !isLayoutToken(tokens[j]) && tokens[j].value !== ';') {
+        if (tokens[j].type !== 'identifier') {
+          j++;
+          continue;
+        }
+        let name = tokens[j].value;
+        while (tokens[j + 1]?.value === '.' && tokens[j + 2]) {
+          name += `.${tokens[j + 2].value}`;
+          j += 2;
+        }
+        const qualified = moduleName ? `${moduleName}.${name}` : name;
+        if (tokens[j + 1]?.value === 'as' && tokens[j + 2]?.type === 'identifier') {
+          aliases.set(tokens[j + 2].value, qualified);
+          j += 3;
+        } else {
+          if (moduleName) aliases.set(name, qualified);
+          j++;
+        }
+      }
+      continue;
+    }
+
+    if (token.type === 'keyword' && token.value === 'import') {
+      // import x, * as y, { a, b as c } from 'module'
+      let j = i + 1;
+      while (j < tokens.length && tokens[j].type !== 'string' && tokens[j].value !== ';') j++;
+      if (tokens[j]?.type !== 'string') continue;
+      const moduleName = normalizeModuleName(tokens[j].value);
+      let inBraces = false;
+      for (let k = i + 1; k < j; k++) {
+        const current = tokens[k];
+        if (current.value === '{') inBraces = true;
+        else if (current.value === '}') inBraces = false;
+        if (current.type !== 'identifier' || current.value === 'from' || current.value === 'type') continue;
+        if (tokens[k + 1]?.value === 'as') continue;
+        const imported = tokens[k - 1]?.value === 'as' ? tokens[k - 2] : current;
+        const isNamespace = imported.value === '*';
+        aliases.set(current.value, inBraces && !isNamespace ? `${moduleName}.${imported.value}` : moduleName);
+      }
+      continue;
+    }
+
+    // const x = require('module') / const { a, b: c } = require('module')
+    if (token.value !== 'require' || tokens[i + 1]?.value !== '(' || tokens[i + 2]?.type !== 'string') continue;
+    if (tokens[i - 1]?.value !== '=') continue;
+    const moduleName = normalizeModuleName(tokens[i + 2].value);
+    const target = tokens[i - 2];
+    if (target?.type === 'identifier') {
+      aliases.set(target.value, moduleName);
+    } else if (target?.value === '}' && brackets[i - 2] >= 0) {
+      for (let k = brackets[i - 2] + 1; k < i - 2; k++) {
+        const current = tokens[k];
+        if (current.type !== 'identifier' || tokens[k + 1]?.value === ':') continue;
+        const imported = tokens[k - 1]?.value === ':' ? tokens[k - 2] : current;
+        aliases.set(current.value, `${moduleName}.${imported.value}`);
+      }
+    }
+  }
+
+  return aliases;
+};
+
+/**
+ * `{` がブロックの開始かどうか（オブジェクトリテラル・分割代入のパターンではない）
+ */
+const isBlockBrace = (tokens: Token[], brackets: Int32Array, index: number): boolean => {
+  const previous = tokens[index - 1];
+  if (!previous) return true;
+  if (previous.type === 'punctuator' && [')', '=>', ';', '{', '}'].includes(previous.value)) return true;
+  // 戻り値の型注釈の後の関数本体（`): Promise<void> {` / `): string[] {`）
+  if (findAnnotatedParamsClose(tokens, index, brackets) !== -1) return true;
+  if (previous.type === 'punctuator') return false;
+  if (previous.type === 'keyword') return JS_BLOCK_KEYWORDS.has(previous.value);
+  // class Foo { / extends Base {
+  return previous.type === 'identifier';
+};
+
+/**
+ * JavaScript / TypeScript のトークンを文に分割
+ * ブロックの波括弧・セミコロン・セミコロンを省略した改行で区切ります
+ */
+const splitJavaScriptStatements = (tokens: Token[], brackets: Int32Array): Statement[] => {
+  const statements: Statement[] = [];
+  const blockStack: boolean[] = [];   // 開いている括弧がブロックの波括弧かどうか
+  let start = 0;
+  const close = (end: number) => {
+    if (end >= start) statements.push({ start, end });
+  };
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const previous = tokens[i - 1];
+    const atStatementLevel = blockStack.length === 0 || blockStack[blockStack.length - 1];
+
+    if (atStatementLevel && i > start && previous.endLine < token.line &&
+        !JS_CONTINUATION_TOKENS.has(token.value) && !JS_CONTINUATION_TOKENS.has(previous.value) &&
+        !(previous.type === 'keyword' && JS_OPEN_KEYWORDS.has(previous.value))) {
+      close(i - 1);
+      start = i;
+    }
+
+    if (token.type !== 'punctuator') continue;
+    if (token.value === '{') {
+      const isBlock = isBlockBrace(tokens, brackets, i);
+      blockStack.push(isBlock);
+      if (isBlock) {
+        close(i - 1);
+        start = i + 1;
+      }
+    } else if (token.value === '(' || token.value === '[') {
+      blockStack.push(false);
+    } else if (token.value === '}' || token.value === ')' || token.value === ']') {
+      const wasBlock = blockStack.pop();
+      if (token.value === '}' && wasBlock) {
+        close(i - 1);
+        start = i + 1;
+      }
+    } else if (token.value === ';' && atStatementLevel) {
+      close(i - 1);
+      start = i + 1;
+    }
+  }
+  close(tokens.length - 1);
+
+  return statements;
+};
+
+/**
+ * Python のトークンを文に分割
+ * 論理行・セミコロン・複合文の見出しの `:` で区切ります
+ */
+const splitPythonStatements = (tokens: Token[]): Statement[] => {
+  const statements: Statement[] = [];
+  let start = 0;
+  let depth = 0;
+  const close = (end: number) => {
+    if (end >= start) statements.push({ start, end });
+  };
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (isLayoutToken(token)) {
+      close(i - 1);
+      start = i + 1;
+      continue;
+    }
+    if (isOpeningBracket(token)) depth++;
+    else if (token.value === ')' || token.value === ']' || token.value === '}') depth = Math.max(0, depth - 1);
+    else if (depth === 0 && (token.value === ';' ||
+        (token.value === ':' && tokens[start].type === 'keyword' && PYTHON_COMPOUND_KEYWORDS.has(tokens[start].value)))) {
+      close(i - 1);
+      start = i + 1;
+    }
+  }
+  close(tokens.length - 1);
+
+  return statements;
+};
+
+/**
+ * 行ごとの関数と、関数内の制御構文に含まれるかを計算
+ */
+const mapLinesToScopes = (
+  root: SyntaxNode,
+  lineCount: number
+): Pick<TaintContext, 'lineFunctions' | 'conditionalLines' | 'parentScopes'> => {
+  const lineFunctions: SyntaxNode[] = new Array(lineCount + 2).fill(root);
+  const conditionalLines: boolean[] = new Array(lineCount + 2).fill(false);
+  const parentScopes = new Map<SyntaxNode, SyntaxNode>();
+
+  // 親ノードが先に訪問されるため、内側のノードで上書きされる
+  walkSyntaxTree(root, (node, _depth, ancestors) => {
+    if (node.kind === 'function') {
+      const parent = [...ancestors].reverse().find(ancestor => ancestor.kind === 'function') || root;
+      parentScopes.set(node, parent);
+    }
+    if (node.kind !== 'function' && node.kind !== 'control') return;
+    for (let line = node.startLine; line <= Math.min(node.endLine, lineCount); line++) {
+      if (node.kind === 'function') {
+        lineFunctions[line] = node;
+        conditionalLines[line] = false;
+      } else {
+        conditionalLines[line] = true;
+      }
+    }
+  });
+
+  return { lineFunctions, conditionalLines, parentScopes };
+};
+
+const getScope = (context: TaintContext, node: SyntaxNode): TaintScope => {
+  let scope = context.scopes.get(node);
+  if (!scope) {
+    scope = new Map();
+    context.scopes.set(node, scope);
+  }
+  return scope;
+};
+
+/**
+ * 変数の汚染を内側のスコープから順に検索
+ */
+const lookupTaint = (context: TaintContext, name: string, scopeNode: SyntaxNode): TaintTraceStep[] | null => {
+  for (let node: SyntaxNode | undefined = scopeNode; node; node = context.parentScopes.get(node)) {
+    const scope = context.scopes.get(node);
+    if (scope?.has(name)) return scope.get(name) || null;
+  }
+  return null;
+};
+
+/**
+ * 代入先の汚染を更新
+ * 汚染されていない値の代入は、条件によって実行されない可能性がある場合は既存の汚染を残します
+ */
+const assignTaint = (
+  context: TaintContext,
+  name: string,
+  taint: TaintTraceStep[] | null,
+  scopeNode: SyntaxNode,
+  options: { declared: boolean; weak: boolean }
+): void => {
+  let target = scopeNode;
+  if (!context.isPython && !options.declared) {
+    // 宣言のない代入は、その名前を宣言した外側のスコープの変数を更新する
+    for (let node: SyntaxNode | undefined = scopeNode; node; node = context.parentScopes.get(node)) {
+      if (context.scopes.get(node)?.has(name)) {
+        target = node;
+        break;
+      }
+    }
+  }
+
+  const scope = getScope(context, target);
+  if (taint) {
+    scope.set(name, taint);
+  } else if (!options.weak || !scope.has(name)) {
+    scope.set(name, null);
+  }
+};
+
+const isChainStart = (context: TaintContext, index: number): boolean => {
+  const token = context.tokens[index];
+  if (token.type !== 'identifier' && token.value !== 'this') return false;
+  const previous = context.tokens[index - 1];
+  return !previous || (previous.value !== '.' && previous.value !== '?.');
+};
+
+/**
+ * メンバー参照の連なりを読み取る
+ */
+const readMemberChain = (context: TaintContext, index: number): MemberChain => {
+  const { tokens } = context;
+  const parts = [tokens[index].value];
+  let end = index;
+  while ((tokens[end + 1]?.value === '.' || tokens[end + 1]?.value === '?.') &&
+         (tokens[end + 2]?.type === 'identifier' || tokens[end + 2]?.type === 'keyword')) {
+    parts.push(tokens[end + 2].value);
+    end += 2;
+  }
+  return { parts, end };
+};
+
+/**
+ * モジュールを直接参照するメンバー参照を読み取る（require('child_process').exec → child_process.exec）
+ */
+const readRequireChain = (context: TaintContext, index: number): MemberChain | null => {
+  const { tokens } = context;
+  if (context.isPython || tokens[index].value !== 'require' || tokens[index + 1]?.value !== '(' ||
+      tokens[index + 2]?.type !== 'string' || tokens[index + 3]?.value !== ')' ||
+      tokens[index + 4]?.value !== '.' || tokens[index + 5]?.type !== 'identifier') {
+    return null;
+  }
+  const member = readMemberChain(context, index + 5);
+  return { parts: [normalizeModuleName(tokens[index + 2].value), ...member.parts], end: member.end };
+};
+
+// import の別名を解決した呼び出し名
+const resolveChainName = (context: TaintContext, parts: string[]): string => {
+  const alias = context.aliases.get(parts[0]);
+  return [alias || parts[0], ...parts.slice(1)].join('.');
+};
+
+/**
+ * ソースに該当するか（該当する場合はソースの名前）
+ */
+const matchSource = (context: TaintContext, parts: string[], isCall: boolean): string | null => {
+  const { rules } = context;
+  if (isCall && parts.length === 1 && rules.callSources.has(parts[0])) return `${parts[0]}()`;
+
+  const candidates = [parts];
+  if (!context.isPython && ['window', 'self', 'globalThis'].includes(parts[0])) {
+    candidates.push(parts.slice(1));
+  }
+  for (const candidate of candidates) {
+    for (let length = candidate.length; length >= 1; length--) {
+      const name = candidate.slice(0, length).join('.');
+      if (rules.memberSources.has(name)) return name;
+    }
+  }
+  return null;
+};
+
+/**
+ * メンバー参照の連なりのいずれかの段階が汚染されているか（obj が汚染されていれば obj.name も汚染）
+ */
+const lookupChainTaint = (context: TaintContext, parts: string[], scopeNode: SyntaxNode): TaintTraceStep[] | null => {
+  for (let length = parts.length; length >= 1; length--) {
+    const taint = lookupTaint(context, parts.slice(0, length).join('.'), scopeNode);
+    if (taint) return taint;
+  }
+  return null;
+};
+
+const createSourceStep = (context: TaintContext, name: string, line: number): TaintTraceStep => ({
+  kind: 'source',
+  line,
+  code: getLineCode(context, line),
+  name
+});
+
+const createAssignmentStep = (context: TaintContext, name: string, line: number): TaintTraceStep => ({
+  kind: 'assignment',
+  line,
+  code: getLineCode(context, line),
+  name
+});
+
+/**
+ * テンプレートリテラル・f文字列に埋め込まれた式の汚染を評価
+ */
+const evaluateInterpolation = (context: TaintContext, token: Token, scopeNode: SyntaxNode): TaintTraceStep[] | null => {
+  const embedded = context.isPython
+    ? token.value.replace(/\{\{|\}\}/g, '').match(/\{[^{}]*\}/g)
+    : token.value.match(/\$\{[^}]*\}/g);
+  if (!embedded) return null;
+
+  const chainPattern = /[A-Za-z_$][\w$]*(?:\s*\??\.\s*[A-Za-z_$][\w$]*)*/g;
+  for (const expression of embedded) {
+    let match;
+    while ((match = chainPattern.exec(expression)) !== null) {
+      if (match.index > 0 && /[\w$.'"]/.test(expression[match.index - 1])) continue;
+      const parts = match[0].split(/\s*\??\.\s*/);
+      const isCall = /^\s*\(/.test(expression.slice(match.index + match[0].length));
+      const source = matchSource(context, parts, isCall);
+      if (source) return [createSourceStep(context, source, token.line)];
+      const taint = lookupChainTaint(context, parts, scopeNode);
+      if (taint) return taint;
+    }
+  }
+  return null;
+};
+
+/**
+ * 式（tokens 上の範囲）が汚染された値を含むか評価
+ * サニタイザーの呼び出しに渡した値は汚染されていないとみなします
+ * @returns 汚染されている場合はソースからの経路
+ */
+const evaluateExpression = (
+  context: TaintContext,
+  from: number,
+  to: number,
+  scopeNode: SyntaxNode
+): TaintTraceStep[] | null => {
+  const { tokens, brackets } = context;
+
+  for (let i = from; i <= to; i++) {
+    const token = tokens[i];
+    if (token.type === 'template' || (context.isPython && token.type === 'string' && /^[rbuRBU]*[fF]/.test(token.value))) {
+      const taint = evaluateInterpolation(context, token, scopeNode);
+      if (taint) return taint;
+      continue;
+    }
+    if (!isChainStart(context, i)) continue;
+
+    const chain = readMemberChain(context, i);
+    const next = tokens[chain.end + 1];
+    const previous = tokens[i - 1];
+    const isCall = next?.value === '(';
+
+    if (isCall && context.rules.sanitizers.has(chain.parts[chain.parts.length - 1])) {
+      i = Math.max(chain.end, brackets[chain.end + 1]);
+      continue;
+    }
+    // キーワード引数の名前（shell=True）・オブジェクトのキー（{ key: value }）は値ではない
+    const isArgumentName = context.isPython && next?.value === '=' && (previous?.value === '(' || previous?.value === ',');
+    const isObjectKey = !context.isPython && next?.value === ':' && (previous?.value === '{' || previous?.value === ',');
+    if (!isArgumentName && !isObjectKey) {
+      const source = matchSource(context, chain.parts, isCall);
+      if (source) return [createSourceStep(context, source, token.line)];
+      const taint = lookupChainTaint(context, chain.parts, scopeNode);
+      if (taint) return taint;
+    }
+    i = chain.end;
+  }
+
+  return null;
+};
+
+/**
+ * 呼び出しの引数の範囲を取得
+ */
+const splitArguments = (context: TaintContext, open: number, close: number): [number, number][] => {
+  const { tokens, brackets } = context;
+  const ranges: [number, number][] = [];
+  let start = open + 1;
+
+  for (let i = open + 1; i < close; i++) {
+    if (isOpeningBracket(tokens[i]) && brackets[i] > i) {
+      i = brackets[i];
+    } else if (tokens[i].value === ',') {
+      if (i > start) ranges.push([start, i - 1]);
+      start = i + 1;
+    }
+  }
+  if (close > start) ranges.push([start, close - 1]);
+  return ranges;
+};
+
+/**
+ * シェル経由の実行を指定しているか（shell=True / { shell: true }）
+ */
+const hasShellOption = (context: TaintContext, open: number, close: number): boolean => {
+  const { tokens } = context;
+  for (let i = open + 1; i < close - 1; i++) {
+    if (tokens[i].value === 'shell' && (tokens[i + 1].value === '=' || tokens[i + 1].value === ':') &&
+        (tokens[i + 2]?.value === 'True' || tokens[i + 2]?.value === 'true')) {
+      return true;
+    }
+  }
+  return false;
+};
+
+const findSinkRule = (context: TaintContext, parts: string[]): SinkRule | null => {
+  const name = resolveChainName(context, parts);
+  const method = parts[parts.length - 1];
+  const receiver = parts[parts.length - 2];
+  return context.rules.sinks.find(rule =>
+    rule.names?.includes(name) ||
+    (parts.length > 1 && rule.methods?.includes(method) && (!rule.receivers || rule.receivers.includes(receiver)))
+  ) || null;
+};
+
+/**
+ * 汚染された値がシンクに到達した流れを記録
+ */
+const recordFlow = (
+  context: TaintContext,
+  sinkKind: TaintSinkKind,
+  sinkToken: Token,
+  sink: string,
+  taint: TaintTraceStep[]
+): void => {
+  if (context.flows.some(flow => flow.line === sinkToken.line && flow.sinkKind === sinkKind)) return;
+
+  context.flows.push({
+    sinkKind,
+    sink,
+    source: taint[0].name,
+    line: sinkToken.line,
+    column: sinkToken.column,
+    trace: [...taint, { kind: 'sink', line: sinkToken.line, code: getLineCode(context, sinkToken.line), name: sink }]
+  });
+};
+
+/**
+ * 文に含まれるシンクの呼び出しを検査
+ */
+const checkCallSinks = (context: TaintContext, statement: Statement, scopeNode: SyntaxNode): void => {
+  const { tokens, brackets } = context;
+
+  for (let i = statement.start; i <= statement.end; i++) {
+    if (!isChainStart(context, i)) continue;
+    const chain = readRequireChain(context, i) || readMemberChain(context, i);
+    const open = chain.end + 1;
+    i = chain.end;
+    if (tokens[open]?.value !== '(' || brackets[open] < open) continue;
+
+    const rule = findSinkRule(context, chain.parts);
+    if (!rule) continue;
+    const close = brackets[open];
+    if (rule.shellOption && !hasShellOption(context, open, close)) continue;
+
+    const argumentRanges = splitArguments(context, open, close);
+    const targets = rule.argument === undefined ? argumentRanges : argumentRanges.slice(rule.argument, rule.argument + 1);
+    for (const [from, to] of targets) {
+      const taint = evaluateExpression(context, from, to, scopeNode);
+      if (taint) {
+        recordFlow(context, rule.kind, tokens[chain.end], chain.parts.join('.'), taint);
+        break;
+      }
+    }
+  }
+};
+
+/**
+ * 分割代入のパターンから代入先の名前を収集（{ a, b: c } → a, c）
+ */
+const collectPatternNames = (context: TaintContext, from: number, to: number): string[] => {
+  const { tokens } = context;
+  const names: string[] = [];
+  for (let i = from; i <= to; i++) {
+    const token = tokens[i];
+    if (token.type !== 'identifier') continue;
+    const next = tokens[i + 1];
+    const previous = tokens[i - 1];
+    if (!context.isPython && next?.value === ':') continue;
+    if (previous?.value === '=' || previous?.value === '.' || previous?.value === '?.') continue;
+    names.push(token.value);
+  }
+  return names;
+};
+
+/**
+ * 代入先（tokens 上の範囲）の名前を取得
+ * @returns 名前と、添字への代入など変数全体を置き換えない代入かどうか
+ */
+const resolveAssignmentTargets = (
+  context: TaintContext,
+  from: number,
+  to: number,
+  declared: boolean
+): { names: string[]; weak: boolean } => {
+  const { tokens, brackets } = context;
+  const first = tokens[from];
+  if (first.value === '{' || first.value === '[' || (context.isPython && first.value === '(')) {
+    return { names: collectPatternNames(context, from, to), weak: false };
+  }
+  if (declared) {
+    // const x: string = ...（型注釈は無視）
+    return { names: first.type === 'identifier' ? [first.value] : [], weak: false };
+  }
+
+  // 末尾の参照（if (x) y = ... の y、obj.prop = ... の obj.prop、d[k] = ... の d）
+  let last = to;
+  let weak = false;
+  if (tokens[last].value === ']' && brackets[last] >= from) {
+    last = brackets[last] - 1;
+    weak = true;
+  }
+  let start = last;
+  while (start - 2 >= from && (tokens[start - 1].value === '.' || tokens[start - 1].value === '?.')) start -= 2;
+  if (start < from || !isChainStart(context, start)) return { names: [], weak };
+  const chain = readMemberChain(context, start);
+  if (chain.end !== last) return { names: [], weak };
+  return { names: [chain.parts.join('.')], weak: weak || chain.parts.length > 1 };
+};
+
+/**
+ * 範囲内の深さ0の位置を列挙
+ */
+const findTopLevel = (
+  context: TaintContext,
+  from: number,
+  to: number,
+  predicate: (token: Token) => boolean
+): number[] => {
+  const { tokens, brackets } = context;
+  const positions: number[] = [];
+  for (let i = from; i <= to; i++) {
+    if (isOpeningBracket(tokens[i]) && brackets[i] > i) {
+      i = brackets[i];
+      continue;
+    }
+    if (predicate(tokens[i])) positions.push(i);
+  }
+  return positions;
+};
+
+/**
+ * 代入文の汚染を伝播（JS のプロパティへの代入シンクも検査）
+ */
+const processAssignment = (context: TaintContext, from: number, to: number, scopeNode: SyntaxNode, declared: boolean): void => {
+  const { tokens } = context;
+  const operators = findTopLevel(context, from, to, token =>
+    token.type === 'punctuator' && ASSIGNMENT_OPERATORS.has(token.value)
+  );
+  if (operators.length === 0) return;
+
+  const valueStart = operators[operators.length - 1] + 1;
+  if (valueStart > to) return;
+  const value = evaluateExpression(context, valueStart, to, scopeNode);
+  const conditional = context.conditionalLines[tokens[from].line];
+
+  let targetStart = from;
+  for (const operator of operators) {
+    const targetEnd = operator - 1;
+    if (targetEnd < targetStart) break;
+    const augmented = tokens[operator].value !== '=';
+
+    // Python の a, b = ... と型注釈 x: int = ...
+    const segments: [number, number][] = [];
+    if (context.isPython) {
+      const annotation = findTopLevel(context, targetStart, targetEnd, token => token.value === ':')[0];
+      const end = annotation === undefined ? targetEnd : annotation - 1;
+      let segmentStart = targetStart;
+      for (const comma of findTopLevel(context, targetStart, end, token => token.value === ',')) {
+        segments.push([segmentStart, comma - 1]);
+        segmentStart = comma + 1;
+      }
+      segments.push([segmentStart, end]);
+    } else {
+      segments.push([targetStart, targetEnd]);
+    }
+
+    for (const [segmentFrom, segmentTo] of segments) {
+      if (segmentTo < segmentFrom) continue;
+      const target = resolveAssignmentTargets(context, segmentFrom, segmentTo, declared);
+
+      // el.innerHTML = ... / document.getElementById('x').innerHTML += ...
+      const property = tokens[segmentTo];
+      if (value && context.rules.propertySinks.has(property.value) && tokens[segmentTo - 1]?.value === '.' &&
+          (tokens[operator].value === '=' || tokens[operator].value === '+=')) {
+        const sink = context.code.slice(tokens[segmentFrom].start, property.end);
+        recordFlow(context, 'xss', property, sink, value);
+      }
+
+      for (const name of target.names) {
+        const taint = value && [...value, createAssignmentStep(context, name, tokens[segmentFrom].line)];
+        assignTaint(context, name, taint, scopeNode, { declared, weak: augmented || conditional || target.weak });
+      }
+    }
+    targetStart = operator + 1;
+  }
+};
+
+/**
+ * for 文の変数に反復対象の汚染を伝播
+ */
+const processForHeader = (context: TaintContext, statement: Statement, scopeNode: SyntaxNode): void => {
+  const { tokens, brackets } = context;
+  let from = statement.start + 1;
+  let to = statement.end;
+
+  if (!context.isPython) {
+    if (tokens[from]?.value === 'await') from++;
+    if (tokens[from]?.value !== '(' || brackets[from] < from) return;
+    to = brackets[from] - 1;
+    from++;
+  }
+  const keyword = findTopLevel(context, from, to, token => token.value === 'in' || token.value === 'of')[0];
+  if (keyword === undefined) return;
+
+  const declared = !context.isPython && ['const', 'let', 'var'].includes(tokens[from].value);
+  const targetStart = declared ? from + 1 : from;
+  const value = evaluateExpression(context, keyword + 1, to, scopeNode);
+  const names = collectPatternNames(context, targetStart, keyword - 1);
+  for (const name of names) {
+    const taint = value && [...value, createAssignmentStep(context, name, tokens[targetStart].line)];
+    assignTaint(context, name, taint, scopeNode, { declared: true, weak: false });
+  }
+};
+
+/**
+ * 関数の引数を初期化（ルーティングのデコレーターが付いた Python の関数は引数をソースとする）
+ */
+const initializeFunctionScope = (context: TaintContext, node: SyntaxNode): void => {
+  const scope = getScope(context, node);
+  const decorated = context.isPython && context.lines
+    .slice(Math.max(0, node.startLine - 4), node.startLine - 1)
+    .some(line => PYTHON_ROUTE_DECORATOR.test(line));
+
+  for (const param of node.params || []) {
+    if (decorated && param !== 'self') {
+      scope.set(param, [createSourceStep(context, `${param}（URLパラメータ）`, node.startLine)]);
+    } else {
+      scope.set(param, null);
+    }
+  }
+};
+
+/**
+ * 文ごとにシンクの検査と汚染の伝播を行う
+ */
+const processStatement = (context: TaintContext, statement: Statement): void => {
+  const { tokens } = context;
+  let { start } = statement;
+  const scopeNode = context.lineFunctions[tokens[start].line];
+
+  // シンクは代入前の値で検査する（x = eval(x) の右辺の x は代入前の値）
+  checkCallSinks(context, statement, scopeNode);
+
+  if (tokens[start].value === 'export' || tokens[start].value === 'async') start++;
+  if (start > statement.end) return;
+  if (tokens[start].value === 'for') {
+    processForHeader(context, { start, end: statement.end }, scopeNode);
+    return;
+  }
+
+  const declared = !context.isPython && ['const', 'let', 'var'].includes(tokens[start].value);
+  if (!declared) {
+    processAssignment(context, start, statement.end, scopeNode, false);
+    return;
+  }
+
+  // const a = x, b = y
+  let declaratorStart = start + 1;
+  const commas = findTopLevel(context, declaratorStart, statement.end, token => token.value === ',');
+  for (const end of [...commas.map(comma => comma - 1), statement.end]) {
+    if (end >= declaratorStart) processAssignment(context, declaratorStart, end, scopeNode, true);
+    declaratorStart = end + 2;
+  }
+};
+
+/**
+ * コードの汚染解析を実行
+ * @returns ソースからシンクに到達した流れ（対応していない言語では空配列）
+ */
+export const analyzeTaintFlows = (code: string, language: string): TaintFlow[] => {
+  if (!isTaintAnalysisSupported(language)) return [];
+
+  const normalizedLanguage = language.toLowerCase();
+  const isPython = normalizedLanguage === 'python';
+  const tree = parseCode(code, normalizedLanguage);
+  const tokens = tree.tokens.filter(token => token.type !== 'comment');
+  const brackets = matchBrackets(tokens);
+  const lines = code.split('\n');
+
+  const context: TaintContext = {
+    isPython,
+    rules: isPython ? PYTHON_RULES : JS_RULES,
+    tokens,
+    brackets,
+    code,
+    lines,
+    aliases: collectImportAliases(tokens, brackets, isPython),
+    ...mapLinesToScopes(tree.root, lines.length),
+    scopes: new Map(),
+    flows: []
+  };
+
+  context.parentScopes.forEach((_parent, node) => initializeFunctionScope(context, node));
+
+  const statements = isPython ? splitPythonStatements(tokens) : splitJavaScriptStatements(tokens, brackets);
+  for (const statement of statements) {
+    processStatement(context, statement);
+  }
+
+  return context.flows.sort((a, b) => a.line - b.line || a.column - b.column);
+};
+
+export default {
+  isTaintAnalysisSupported,
+  analyzeTaintFlows
+};